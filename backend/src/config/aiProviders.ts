@@ -0,0 +1,381 @@
+/**
+ * AI Provider Registry Configuration
+ * The providers the platform can call and the models each one serves, with their
+ * capabilities. Both the AI model endpoints and multi-AI analysis resolve models here,
+ * so a model is added by declaring it in AI_PROVIDERS_FILE rather than in code.
+ */
+
+import { readFileSync } from 'fs';
+
+export type AIProviderKind = 'openai-compatible' | 'openai' | 'anthropic' | 'google';
+
+// How provider calls are made: live, live and recorded to fixtures, replayed from fixtures,
+// or answered by the scripted fake provider
+export type AIProviderMode = 'live' | 'record' | 'replay' | 'fake';
+
+const PROVIDER_MODES: readonly AIProviderMode[] = ['live', 'record', 'replay', 'fake'];
+
+const PROVIDER_KINDS: readonly AIProviderKind[] = ['openai-compatible', 'openai', 'anthropic', 'google'];
+// Content length allowed for a model without an explicit limit: about three characters
+// per token, leaving part of the context for the prompt and the answer
+const CHARS_PER_CONTEXT_TOKEN = 3;
+const DEFAULT_ESTIMATED_TIME_MS = 3000;
+// Longest image edge sent to a model without an explicit limit
+const DEFAULT_MAX_IMAGE_DIMENSION = 2048;
+const KEYLESS_API_KEY = 'not-needed';
+
+export interface AIProviderDefinition {
+  id: string;
+  kind: AIProviderKind;
+  displayName?: string;
+  // Required for OpenAI-compatible providers
+  baseURL?: string;
+  // Environment variable holding the API key
+  apiKeyEnv?: string;
+  // Local endpoints usually accept any key
+  requiresApiKey?: boolean;
+  headers?: Record<string, string>;
+  // Prefix of the <PREFIX>_TIMEOUT, <PREFIX>_MAX_RETRIES, ... settings; the id in upper case by default
+  envPrefix?: string;
+  // Defaults of the <PREFIX>_REQUESTS_PER_MINUTE, _REQUESTS_PER_HOUR and _MONITORING_PERIOD settings
+  limits?: { requestsPerMinute?: number; requestsPerHour?: number; monitoringPeriod?: number };
+  // Longest image edge in pixels the provider's models are sent; larger images are downsized
+  maxImageDimension?: number;
+}
+
+export interface AIModelCapabilities {
+  vision: boolean;
+  jsonMode: boolean;
+  contextTokens: number;
+}
+
+export interface AIModelDefinition {
+  id: string;
+  provider: string;
+  // Model name sent to the provider
+  model: string;
+  displayName: string;
+  capabilities: AIModelCapabilities;
+  maxContentLength?: number;
+  estimatedTimeMs?: number;
+  // Overrides the provider's maxImageDimension
+  maxImageDimension?: number;
+  // Estimated USD per million input / output tokens, for the usage ledger and budgets
+  pricing?: { input: number; output: number };
+  enabled?: boolean;
+}
+
+export interface AIProvidersConfig {
+  providers: AIProviderDefinition[];
+  models: AIModelDefinition[];
+}
+
+type Env = Record<string, string | undefined>;
+
+const envNumber = (env: Env, key: string, defaultValue: number): number => {
+  const value = env[key];
+  return value ? parseInt(value, 10) : defaultValue;
+};
+
+/**
+ * Built-in providers and models. gpt4, claude and gemini are served through OpenRouter;
+ * a local OpenAI-compatible server (Ollama, vLLM, LM Studio) is used once LOCAL_AI_ENDPOINT is set.
+ */
+export const defaultAIProvidersConfig = (env: Env = process.env): AIProvidersConfig => ({
+  providers: [
+    {
+      id: 'openrouter',
+      displayName: 'OpenRouter',
+      kind: 'openai-compatible',
+      baseURL: 'https://openrouter.ai/api/v1',
+      apiKeyEnv: 'OPENROUTER_API_KEY',
+      headers: {
+        'HTTP-Referer': env['FRONTEND_URL'] || 'http://localhost:3000',
+        'X-Title': 'LMS CNN Analysis',
+      },
+      limits: { requestsPerMinute: 100, requestsPerHour: 1000, monitoringPeriod: 300000 },
+    },
+    {
+      id: 'openai',
+      displayName: 'OpenAI',
+      kind: 'openai',
+      baseURL: env['OPENAI_ENDPOINT'] || 'https://api.openai.com/v1',
+      apiKeyEnv: 'OPENAI_API_KEY',
+    },
+    {
+      id: 'anthropic',
+      displayName: 'Anthropic',
+      kind: 'anthropic',
+      apiKeyEnv: 'ANTHROPIC_API_KEY',
+      limits: { requestsPerMinute: 50, requestsPerHour: 3000 },
+    },
+    {
+      id: 'google',
+      displayName: 'Google AI',
+      kind: 'google',
+      apiKeyEnv: 'GOOGLE_AI_API_KEY',
+      envPrefix: 'GOOGLE_AI',
+      limits: { requestsPerHour: 1500 },
+    },
+    {
+      id: 'local',
+      displayName: 'Local',
+      kind: 'openai-compatible',
+      ...(env['LOCAL_AI_ENDPOINT'] && { baseURL: env['LOCAL_AI_ENDPOINT'] }),
+      apiKeyEnv: 'LOCAL_AI_API_KEY',
+      requiresApiKey: false,
+      maxImageDimension: envNumber(env, 'LOCAL_AI_MAX_IMAGE_DIMENSION', 1024),
+    },
+  ],
+  models: [
+    {
+      id: 'gpt4',
+      provider: 'openrouter',
+      model: 'openai/gpt-4o',
+      displayName: 'GPT-4 Omni',
+      capabilities: { vision: true, jsonMode: true, contextTokens: 128000 },
+      maxContentLength: envNumber(env, 'OPENAI_MAX_CONTENT_LENGTH', 50000),
+      estimatedTimeMs: 3000,
+      pricing: { input: 2.5, output: 10 },
+    },
+    {
+      id: 'claude',
+      provider: 'openrouter',
+      model: 'anthropic/claude-3.5-sonnet',
+      displayName: 'Claude 3.5 Sonnet',
+      capabilities: { vision: true, jsonMode: false, contextTokens: 200000 },
+      maxContentLength: envNumber(env, 'ANTHROPIC_MAX_CONTENT_LENGTH', 100000),
+      estimatedTimeMs: 4000,
+      // Anthropic downsizes anything larger before the model sees it
+      maxImageDimension: 1568,
+      pricing: { input: 3, output: 15 },
+    },
+    {
+      id: 'gemini',
+      provider: 'openrouter',
+      model: 'google/gemini-2.5-flash-image-preview:free',
+      displayName: 'Gemini 2.5 Flash (Free)',
+      capabilities: { vision: true, jsonMode: true, contextTokens: 32768 },
+      maxContentLength: envNumber(env, 'GOOGLE_AI_MAX_CONTENT_LENGTH', 30000),
+      estimatedTimeMs: 2500,
+      pricing: { input: 0, output: 0 },
+    },
+    {
+      id: 'deepseek',
+      provider: 'openrouter',
+      model: 'deepseek/deepseek-chat-v3.1:free',
+      displayName: 'DeepSeek V3.1 (Free)',
+      capabilities: { vision: false, jsonMode: true, contextTokens: 64000 },
+      estimatedTimeMs: 2000,
+      pricing: { input: 0, output: 0 },
+      enabled: false,
+    },
+    {
+      id: 'local',
+      provider: 'local',
+      model: env['LOCAL_AI_MODEL'] || 'llama3.1',
+      displayName: `${env['LOCAL_AI_MODEL'] || 'llama3.1'} (local)`,
+      capabilities: {
+        vision: env['LOCAL_AI_VISION'] === 'true',
+        jsonMode: true,
+        contextTokens: envNumber(env, 'LOCAL_AI_CONTEXT_TOKENS', 8192),
+      },
+      estimatedTimeMs: 5000,
+      pricing: { input: 0, output: 0 },
+    },
+  ],
+});
+
+/**
+ * Add the entries of `overrides` to `base`, merging entries with the same id
+ */
+const mergeById = <T extends { id: string }>(base: T[], overrides: Partial<T>[], merge: (a: T, b: Partial<T>) => T): T[] => {
+  const merged = [...base];
+  for (const override of overrides) {
+    const index = merged.findIndex(entry => entry.id === override.id);
+    if (index >= 0) {
+      merged[index] = merge(merged[index]!, override);
+    } else {
+      merged.push(override as T);
+    }
+  }
+  return merged;
+};
+
+export const mergeAIProvidersConfig = (
+  base: AIProvidersConfig,
+  overrides: Partial<{ providers: Partial<AIProviderDefinition>[]; models: Partial<AIModelDefinition>[] }>
+): AIProvidersConfig => ({
+  providers: mergeById(base.providers, overrides.providers ?? [], (a, b) => ({
+    ...a,
+    ...b,
+    ...(a.headers && b.headers && { headers: { ...a.headers, ...b.headers } }),
+  })),
+  models: mergeById(base.models, overrides.models ?? [], (a, b) => ({
+    ...a,
+    ...b,
+    capabilities: { ...a.capabilities, ...b.capabilities },
+  })),
+});
+
+/**
+ * Check that every provider has a known kind and every model a known provider and
+ * complete capabilities
+ */
+export const validateAIProvidersConfig = (config: AIProvidersConfig): void => {
+  const providerIds = new Set<string>();
+  for (const provider of config.providers) {
+    if (!provider.id || typeof provider.id !== 'string') {
+      throw new Error('AI provider is missing an id');
+    }
+    if (!PROVIDER_KINDS.includes(provider.kind)) {
+      throw new Error(`AI provider ${provider.id} has unknown kind: ${provider.kind}`);
+    }
+    if (provider.maxImageDimension !== undefined && !(provider.maxImageDimension > 0)) {
+      throw new Error(`AI provider ${provider.id} needs a positive maxImageDimension`);
+    }
+    if (provider.limits && !Object.values(provider.limits).every(limit => typeof limit === 'number' && limit > 0)) {
+      throw new Error(`AI provider ${provider.id} needs positive limits`);
+    }
+    providerIds.add(provider.id);
+  }
+
+  const modelIds = new Set<string>();
+  for (const model of config.models) {
+    if (!model.id || typeof model.id !== 'string') {
+      throw new Error('AI model is missing an id');
+    }
+    if (modelIds.has(model.id)) {
+      throw new Error(`AI model ${model.id} is declared twice`);
+    }
+    modelIds.add(model.id);
+
+    if (!providerIds.has(model.provider)) {
+      throw new Error(`AI model ${model.id} uses unknown provider: ${model.provider}`);
+    }
+    if (!model.model || !model.displayName) {
+      throw new Error(`AI model ${model.id} needs a model name and a display name`);
+    }
+    const capabilities = model.capabilities;
+    if (
+      !capabilities ||
+      typeof capabilities.vision !== 'boolean' ||
+      typeof capabilities.jsonMode !== 'boolean' ||
+      !(capabilities.contextTokens > 0)
+    ) {
+      throw new Error(`AI model ${model.id} needs vision, jsonMode and contextTokens capabilities`);
+    }
+    if (model.maxImageDimension !== undefined && !(model.maxImageDimension > 0)) {
+      throw new Error(`AI model ${model.id} needs a positive maxImageDimension`);
+    }
+  }
+};
+
+/**
+ * Built-in registry with the entries of AI_PROVIDERS_FILE (JSON) added on top
+ */
+export const loadAIProvidersConfig = (env: Env = process.env): AIProvidersConfig => {
+  let config = defaultAIProvidersConfig(env);
+
+  const file = env['AI_PROVIDERS_FILE'];
+  if (file) {
+    let overrides: unknown;
+    try {
+      overrides = JSON.parse(readFileSync(file, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Could not read AI_PROVIDERS_FILE ${file}: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+    config = mergeAIProvidersConfig(config, overrides as Parameters<typeof mergeAIProvidersConfig>[1]);
+  }
+
+  validateAIProvidersConfig(config);
+  return config;
+};
+
+/**
+ * Provider mode from AI_PROVIDER_MODE, live by default
+ */
+export const getAIProviderMode = (env: Env = process.env): AIProviderMode => {
+  const mode = (env['AI_PROVIDER_MODE'] || 'live').toLowerCase() as AIProviderMode;
+  if (!PROVIDER_MODES.includes(mode)) {
+    throw new Error(`Invalid AI_PROVIDER_MODE: ${mode}. Must be one of: ${PROVIDER_MODES.join(', ')}`);
+  }
+  return mode;
+};
+
+/**
+ * API key for a provider. Keyless providers get a placeholder, as the OpenAI client requires
+ * one, and so does every provider when replayed or faked since nothing is sent.
+ */
+export const getProviderApiKey = (provider: AIProviderDefinition, env: Env = process.env): string | undefined => {
+  const apiKey = provider.apiKeyEnv ? env[provider.apiKeyEnv] : undefined;
+  const offline = ['replay', 'fake'].includes(getAIProviderMode(env));
+  return apiKey || (provider.requiresApiKey === false || offline ? KEYLESS_API_KEY : undefined);
+};
+
+/**
+ * Whether a provider can be called: it has its API key (unless it needs none) and, for
+ * OpenAI-compatible providers, an endpoint
+ */
+export const isProviderAvailable = (provider: AIProviderDefinition, env: Env = process.env): boolean => {
+  if (provider.kind === 'openai-compatible' && !provider.baseURL) {
+    return false;
+  }
+  return !!getProviderApiKey(provider, env);
+};
+
+export const getModelContentLength = (model: AIModelDefinition): number =>
+  model.maxContentLength ?? model.capabilities.contextTokens * CHARS_PER_CONTEXT_TOKEN;
+
+export const getModelEstimatedTime = (model: AIModelDefinition): number =>
+  model.estimatedTimeMs ?? DEFAULT_ESTIMATED_TIME_MS;
+
+export const getModelImageDimension = (model: AIModelDefinition, provider: AIProviderDefinition): number =>
+  model.maxImageDimension ?? provider.maxImageDimension ?? DEFAULT_MAX_IMAGE_DIMENSION;
+
+let registryConfig: AIProvidersConfig | null = null;
+
+/**
+ * The registry in use, loaded on first access
+ */
+export const getAIProvidersConfig = (): AIProvidersConfig => {
+  if (!registryConfig) {
+    registryConfig = loadAIProvidersConfig();
+  }
+  return registryConfig;
+};
+
+/**
+ * Reload the registry, e.g. after editing AI_PROVIDERS_FILE
+ */
+export const reloadAIProvidersConfig = (): AIProvidersConfig => {
+  registryConfig = loadAIProvidersConfig();
+  return registryConfig;
+};
+
+export const getProvider = (id: string, config: AIProvidersConfig = getAIProvidersConfig()): AIProviderDefinition | undefined =>
+  config.providers.find(provider => provider.id === id);
+
+/**
+ * A declared, enabled model
+ */
+export const getModelDefinition = (id: string, config: AIProvidersConfig = getAIProvidersConfig()): AIModelDefinition | undefined =>
+  config.models.find(model => model.id === id && model.enabled !== false);
+
+/**
+ * Ids of every declared, enabled model, whether or not its provider is configured
+ */
+export const getAIModelIds = (config: AIProvidersConfig = getAIProvidersConfig()): string[] =>
+  config.models.filter(model => model.enabled !== false).map(model => model.id);
+
+/**
+ * Enabled models whose provider is configured, i.e. the models that can be called
+ */
+export const getAvailableModels = (
+  config: AIProvidersConfig = getAIProvidersConfig(),
+  env: Env = process.env
+): AIModelDefinition[] =>
+  config.models.filter(model => {
+    const provider = getProvider(model.provider, config);
+    return model.enabled !== false && !!provider && isProviderAvailable(provider, env);
+  });
@@ -5,157 +5,83 @@
 
 import { AIServiceConfig, AIServiceType } from '../services/aiModels/types';
 import { AIServiceManagerConfig } from '../services/aiModels/AIServiceManager';
+import { aiProviderRegistry } from '../services/aiModels/AIProviderRegistry';
+import { getModelContentLength, getModelDefinition, reloadAIProvidersConfig } from './aiProviders';
 
 // Environment variable helpers
-const getEnvVar = (key: string, defaultValue?: string): string => {
-  const value = process.env[key];
-  if (!value && !defaultValue) {
-    throw new Error(`Required environment variable ${key} is not set`);
-  }
-  return value || defaultValue!;
-};
-
 const getEnvNumber = (key: string, defaultValue: number): number => {
   const value = process.env[key];
   return value ? parseInt(value, 10) : defaultValue;
 };
 
-const getEnvBoolean = (key: string, defaultValue: boolean): boolean => {
+const getEnvList = (key: string): AIServiceType[] | null => {
   const value = process.env[key];
-  return value ? value.toLowerCase() === 'true' : defaultValue;
+  return value ? value.split(',').map(s => s.trim() as AIServiceType) : null;
 };
 
-// AI Service Configurations
-export const createAIServiceConfigs = (): AIServiceConfig[] => {
-  const configs: AIServiceConfig[] = [];
-
-  // OpenRouter Configuration (Recommended - Single API for multiple models)
-  if (process.env['OPENROUTER_API_KEY']) {
-    configs.push({
-      type: 'openrouter' as AIServiceType,
-      serviceName: 'openrouter',
-      apiKey: process.env['OPENROUTER_API_KEY'],
-      endpoint: 'https://openrouter.ai/api/v1',
-      maxRetries: getEnvNumber('OPENROUTER_MAX_RETRIES', 3),
-      timeout: getEnvNumber('OPENROUTER_TIMEOUT', 30000),
-      rateLimit: {
-        requestsPerMinute: getEnvNumber('OPENROUTER_RPM', 100),
-        requestsPerHour: getEnvNumber('OPENROUTER_RPH', 1000)
-      },
-      circuitBreaker: {
-        failureThreshold: getEnvNumber('OPENROUTER_FAILURE_THRESHOLD', 5),
-        resetTimeout: getEnvNumber('OPENROUTER_RESET_TIMEOUT', 60000),
-        monitoringPeriod: getEnvNumber('OPENROUTER_MONITORING_PERIOD', 300000)
-      },
-      models: [
-        'deepseek/deepseek-chat-v3.1:free', // FREE
-        'google/gemini-2.5-flash-image-preview:free', // FREE
-        'openai/gpt-4o', // Premium
-        'anthropic/claude-3.5-sonnet', // Premium
-        'nousresearch/hermes-4-70b' // Alternative
-      ]
-    });
-  }
-
-  // GPT-4 Configuration
-  const gpt4ApiKey = process.env['OPENAI_API_KEY'];
-  if (gpt4ApiKey) {
-    configs.push({
-      serviceName: 'gpt4',
-      apiKey: gpt4ApiKey,
-      endpoint: getEnvVar('OPENAI_ENDPOINT', 'https://api.openai.com/v1'),
-      maxRetries: getEnvNumber('OPENAI_MAX_RETRIES', 3),
-      timeout: getEnvNumber('OPENAI_TIMEOUT', 30000),
-      maxContentLength: getEnvNumber('OPENAI_MAX_CONTENT_LENGTH', 50000),
-      rateLimit: {
-        requestsPerMinute: getEnvNumber('OPENAI_REQUESTS_PER_MINUTE', 60),
-        requestsPerHour: getEnvNumber('OPENAI_REQUESTS_PER_HOUR', 3600),
-      },
-      circuitBreaker: {
-        failureThreshold: getEnvNumber('OPENAI_FAILURE_THRESHOLD', 5),
-        resetTimeout: getEnvNumber('OPENAI_RESET_TIMEOUT', 60000),
-        monitoringPeriod: getEnvNumber('OPENAI_MONITORING_PERIOD', 60000),
-      },
-    });
-  }
-
-  // Claude Configuration
-  const claudeApiKey = process.env['ANTHROPIC_API_KEY'];
-  if (claudeApiKey) {
-    configs.push({
-      serviceName: 'claude',
-      apiKey: claudeApiKey,
-      endpoint: getEnvVar('ANTHROPIC_ENDPOINT', 'https://api.anthropic.com'),
-      maxRetries: getEnvNumber('ANTHROPIC_MAX_RETRIES', 3),
-      timeout: getEnvNumber('ANTHROPIC_TIMEOUT', 30000),
-      maxContentLength: getEnvNumber('ANTHROPIC_MAX_CONTENT_LENGTH', 100000),
-      rateLimit: {
-        requestsPerMinute: getEnvNumber('ANTHROPIC_REQUESTS_PER_MINUTE', 50),
-        requestsPerHour: getEnvNumber('ANTHROPIC_REQUESTS_PER_HOUR', 3000),
-      },
-      circuitBreaker: {
-        failureThreshold: getEnvNumber('ANTHROPIC_FAILURE_THRESHOLD', 5),
-        resetTimeout: getEnvNumber('ANTHROPIC_RESET_TIMEOUT', 60000),
-        monitoringPeriod: getEnvNumber('ANTHROPIC_MONITORING_PERIOD', 60000),
-      },
-    });
-  }
+// Longest content (in characters) sent to a model in one request
+export const getMaxContentLength = (service: AIServiceType): number => {
+  const model = getModelDefinition(service);
+  return model ? getModelContentLength(model) : 50000;
+};
 
-  // Gemini Configuration
-  const geminiApiKey = process.env['GOOGLE_AI_API_KEY'];
-  if (geminiApiKey) {
-    configs.push({
-      serviceName: 'gemini',
-      apiKey: geminiApiKey,
-      endpoint: getEnvVar('GOOGLE_AI_ENDPOINT', 'https://generativelanguage.googleapis.com'),
-      maxRetries: getEnvNumber('GOOGLE_AI_MAX_RETRIES', 3),
-      timeout: getEnvNumber('GOOGLE_AI_TIMEOUT', 30000),
-      maxContentLength: getEnvNumber('GOOGLE_AI_MAX_CONTENT_LENGTH', 30000),
+// AI Service Configurations: one per available registry model, with its provider's
+// retry, timeout, rate limit and circuit breaker settings (<PREFIX>_TIMEOUT, ...).
+// <PREFIX>_RPM and <PREFIX>_RPH are still read as the older names of the rate limits.
+export const createAIServiceConfigs = (): AIServiceConfig[] =>
+  aiProviderRegistry.listModels().map(model => {
+    const provider = aiProviderRegistry.getProvider(model.id);
+    const prefix = provider.envPrefix ?? provider.id.toUpperCase();
+    const limits = provider.limits ?? {};
+    return {
+      ...aiProviderRegistry.getServiceConfig(model.id),
+      maxRetries: getEnvNumber(`${prefix}_MAX_RETRIES`, 3),
+      timeout: getEnvNumber(`${prefix}_TIMEOUT`, 30000),
       rateLimit: {
-        requestsPerMinute: getEnvNumber('GOOGLE_AI_REQUESTS_PER_MINUTE', 60),
-        requestsPerHour: getEnvNumber('GOOGLE_AI_REQUESTS_PER_HOUR', 1500),
+        requestsPerMinute: getEnvNumber(
+          `${prefix}_REQUESTS_PER_MINUTE`,
+          getEnvNumber(`${prefix}_RPM`, limits.requestsPerMinute ?? 60)
+        ),
+        requestsPerHour: getEnvNumber(
+          `${prefix}_REQUESTS_PER_HOUR`,
+          getEnvNumber(`${prefix}_RPH`, limits.requestsPerHour ?? 3600)
+        ),
       },
       circuitBreaker: {
-        failureThreshold: getEnvNumber('GOOGLE_AI_FAILURE_THRESHOLD', 5),
-        resetTimeout: getEnvNumber('GOOGLE_AI_RESET_TIMEOUT', 60000),
-        monitoringPeriod: getEnvNumber('GOOGLE_AI_MONITORING_PERIOD', 60000),
+        failureThreshold: getEnvNumber(`${prefix}_FAILURE_THRESHOLD`, 5),
+        resetTimeout: getEnvNumber(`${prefix}_RESET_TIMEOUT`, 60000),
+        monitoringPeriod: getEnvNumber(`${prefix}_MONITORING_PERIOD`, limits.monitoringPeriod ?? 60000),
       },
-    });
-  }
+    };
+  });
 
-  return configs;
-};
+// Parse enabled services from environment; every available registry model by default
+export const getEnabledServices = (): AIServiceType[] =>
+  getEnvList('AI_ENABLED_SERVICES') ?? aiProviderRegistry.listModels().map(model => model.id);
 
-// Parse enabled services from environment
-export const getEnabledServices = (): AIServiceType[] => {
-  const enabledServicesEnv = getEnvVar('AI_ENABLED_SERVICES', 'gpt4,claude,gemini');
-  return enabledServicesEnv.split(',').map(s => s.trim() as AIServiceType);
-};
-
-// Parse fallback order from environment
-export const getFallbackOrder = (): AIServiceType[] => {
-  const fallbackOrderEnv = getEnvVar('AI_FALLBACK_ORDER', 'gpt4,claude,gemini');
-  return fallbackOrderEnv.split(',').map(s => s.trim() as AIServiceType);
-};
+// Parse fallback order from environment; the enabled services in order by default
+export const getFallbackOrder = (): AIServiceType[] =>
+  getEnvList('AI_FALLBACK_ORDER') ?? getEnabledServices();
 
-// Get default service
-export const getDefaultService = (): AIServiceType => {
-  return getEnvVar('AI_DEFAULT_SERVICE', 'gpt4') as AIServiceType;
-};
+// Get default service; the first enabled service unless set
+export const getDefaultService = (enabledServices: AIServiceType[] = getEnabledServices()): AIServiceType =>
+  (process.env['AI_DEFAULT_SERVICE'] || enabledServices[0] || 'gpt4') as AIServiceType;
 
 // Create AI Service Manager Configuration
 export const createAIServiceManagerConfig = (): AIServiceManagerConfig => {
   const services = createAIServiceConfigs();
   
   if (services.length === 0) {
-    console.warn('No AI services configured. Please set API keys in environment variables.');
+    console.warn('No AI services configured. Please set API keys in environment variables or declare models in AI_PROVIDERS_FILE.');
   }
 
+  const enabledServices = getEnabledServices().filter(service =>
+    services.some(config => config.serviceName === service || config.type === service)
+  );
+
   return {
     services,
-    enabledServices: getEnabledServices().filter(service => 
-      services.some(config => config.serviceName === service || config.type === service)
-    ),
+    enabledServices,
     fallbackOrder: getFallbackOrder().filter(service =>
       services.some(config => config.serviceName === service || config.type === service)
     ),
@@ -164,7 +90,7 @@ export const createAIServiceManagerConfig = (): AIServiceManagerConfig => {
       errorThresholdPercentage: getEnvNumber('AI_CIRCUIT_BREAKER_ERROR_THRESHOLD', 50),
       resetTimeout: getEnvNumber('AI_CIRCUIT_BREAKER_RESET_TIMEOUT', 60000),
     },
-    defaultService: getDefaultService(),
+    defaultService: getDefaultService(enabledServices),
   };
 };
 
@@ -199,6 +125,7 @@ export const validateAIServiceConfig = (config: AIServiceManagerConfig): void =>
 
 // Hot reload configuration
 export const reloadAIServiceConfig = (): AIServiceManagerConfig => {
+  reloadAIProvidersConfig();
   const config = createAIServiceManagerConfig();
   validateAIServiceConfig(config);
   return config;
@@ -0,0 +1,237 @@
+/**
+ * AI Prompt Templates
+ * Built-in prompt templates for each AI task, with the variables each one is rendered
+ * with. Administrators publish newer versions and professors override them per course
+ * (see promptTemplateService); these apply when neither exists.
+ */
+
+export type PromptKey =
+  | 'content-analysis'
+  | 'analysis-text'
+  | 'analysis-image'
+  | 'prediction-performance'
+  | 'prediction-engagement'
+  | 'prediction-risk'
+  | 'prediction-success'
+  | 'trend-analysis'
+  | 'feature-importance';
+
+export interface PromptDefinition {
+  description: string;
+  // Variables a template may use; required ones must appear in it
+  variables: string[];
+  required: string[];
+  template: string;
+}
+
+/**
+ * A template as used for a request. `version` identifies it in stored results:
+ * `<key>@v<n>`, `<key>@course-<courseId>-v<n>` or `<key>@builtin-<BUILTIN_PROMPT_VERSION>`.
+ */
+export interface ResolvedPrompt {
+  key: PromptKey;
+  version: string;
+  template: string;
+}
+
+export type PromptSet = Partial<Record<PromptKey, ResolvedPrompt>>;
+
+// Version of the built-in templates below. Bump it when they change so results cached
+// under older prompts are not reused.
+export const BUILTIN_PROMPT_VERSION = 'v1';
+
+// Prompts used by a multi-AI analysis, whichever kind of provider serves the model
+export const MULTI_AI_PROMPT_KEYS: PromptKey[] = ['analysis-text', 'analysis-image', 'content-analysis'];
+
+const PREDICTION_VARIABLES = ['historicalData', 'currentMetrics', 'timeframe'];
+
+export const PROMPT_DEFINITIONS: Record<PromptKey, PromptDefinition> = {
+  'content-analysis': {
+    description: 'Educational analysis of content by the AI model services',
+    variables: ['content', 'contentType'],
+    required: ['content'],
+    template: `As an expert educational content analyst, please provide a comprehensive assessment of the following content:
+
+Content Type: {{contentType}}
+Content: {{content}}
+
+Analyze it with a focus on educational value, pedagogical effectiveness, and learning outcomes.`,
+  },
+  'analysis-text': {
+    description: 'Multi-AI analysis of uploaded text and documents',
+    variables: ['content'],
+    required: ['content'],
+    template: `Analyze this specific content in detail and provide insights relevant to what you see:
+
+CONTENT TO ANALYZE:
+{{content}}
+
+Please provide:
+1. A specific summary of what this content actually contains
+2. Key insights that are directly relevant to this specific content
+3. Educational or practical applications specific to this content
+4. Specific recommendations based on what you observe
+
+Be concrete and avoid generic responses. Focus on the actual content provided.`,
+  },
+  'analysis-image': {
+    description: 'Multi-AI analysis of uploaded images (the image is attached to the prompt)',
+    variables: ['fileName'],
+    required: [],
+    template: `Analyze this image in detail and provide specific insights about what you see:
+
+Please provide:
+1. A detailed description of what is actually visible in the image
+2. Specific objects, colors, textures, and visual elements you can identify
+3. The context, setting, or environment shown
+4. Educational or practical applications relevant to what you observe
+5. Specific recommendations based on the actual visual content
+
+Be concrete and specific to what you actually see in the image. Avoid generic responses.`,
+  },
+  'prediction-performance': {
+    description: 'Student performance trend prediction',
+    variables: PREDICTION_VARIABLES,
+    required: [],
+    template: `Analyze the following educational data to predict performance trends:
+
+Historical Data: {{historicalData}}
+Current Metrics: {{currentMetrics}}
+Prediction Timeframe: {{timeframe}} days
+
+Predict:
+1. Grade/score trends
+2. Skill development progress
+3. Learning velocity changes
+4. Areas of improvement or decline
+
+Provide specific predictions with confidence scores and contributing factors.`,
+  },
+  'prediction-engagement': {
+    description: 'Student engagement pattern prediction',
+    variables: PREDICTION_VARIABLES,
+    required: [],
+    template: `Predict student engagement patterns based on historical and current data:
+
+Historical Data: {{historicalData}}
+Current Metrics: {{currentMetrics}}
+Timeframe: {{timeframe}} days
+
+Predict:
+1. Activity level changes
+2. Participation trends
+3. Attention span patterns
+4. Drop-off risk periods
+
+Include specific engagement metrics, confidence levels, and actionable insights.`,
+  },
+  'prediction-risk': {
+    description: 'Educational risk assessment',
+    variables: PREDICTION_VARIABLES,
+    required: [],
+    template: `Analyze data to predict educational risks and challenges:
+
+Historical Data: {{historicalData}}
+Current Metrics: {{currentMetrics}}
+Timeframe: {{timeframe}} days
+
+Identify risks for:
+1. Academic failure or difficulties
+2. Engagement drop-off
+3. Skill gaps development
+4. Motivation decline
+5. Course completion issues
+
+Provide risk assessments with probability scores and prevention strategies.`,
+  },
+  'prediction-success': {
+    description: 'Success likelihood prediction',
+    variables: PREDICTION_VARIABLES,
+    required: [],
+    template: `Predict likelihood of educational success based on comprehensive data analysis:
+
+Historical Data: {{historicalData}}
+Current Metrics: {{currentMetrics}}
+Timeframe: {{timeframe}} days
+
+Predict success in:
+1. Course completion
+2. Learning objective achievement
+3. Skill mastery
+4. Overall academic progress
+
+Provide percentage likelihood, key success factors, and optimization strategies.`,
+  },
+  'trend-analysis': {
+    description: 'Trend analysis of historical educational data',
+    variables: ['historicalData', 'timeframe'],
+    required: ['historicalData'],
+    template: `Analyze historical educational data to identify trends:
+
+Data: {{historicalData}}
+Analysis Period: {{timeframe}} days
+
+Identify:
+1. Performance trends (improving/declining)
+2. Seasonal patterns
+3. Cyclical behaviors
+4. Anomalies or outliers
+5. Correlation patterns
+
+Provide trend analysis with statistical confidence and future implications.`,
+  },
+  'feature-importance': {
+    description: 'Feature importance analysis for educational outcomes',
+    variables: ['data'],
+    required: ['data'],
+    template: `Analyze the importance of different features in educational outcomes:
+
+Data: {{data}}
+
+Determine feature importance for:
+1. Student performance prediction
+2. Engagement forecasting
+3. Risk assessment
+4. Success probability
+
+Rank features by importance and provide explanation for each ranking.
+Include correlation strengths and predictive power.`,
+  },
+};
+
+export const PROMPT_KEYS = Object.keys(PROMPT_DEFINITIONS) as PromptKey[];
+
+export const isPromptKey = (value: unknown): value is PromptKey =>
+  typeof value === 'string' && PROMPT_KEYS.includes(value as PromptKey);
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Variables a template refers to, in order of first use
+ */
+export const templateVariables = (template: string): string[] =>
+  [...new Set([...template.matchAll(VARIABLE_PATTERN)].map(match => match[1]!))];
+
+export const builtinPrompt = (key: PromptKey): ResolvedPrompt => ({
+  key,
+  version: `${key}@builtin-${BUILTIN_PROMPT_VERSION}`,
+  template: PROMPT_DEFINITIONS[key].template,
+});
+
+/**
+ * The resolved template for a task, or the built-in one when none was resolved
+ */
+export const promptFor = (prompts: PromptSet | undefined, key: PromptKey): ResolvedPrompt =>
+  prompts?.[key] ?? builtinPrompt(key);
+
+/**
+ * Fill in a template's variables; variables without a value are left empty
+ */
+export const renderPrompt = (prompt: ResolvedPrompt, values: Record<string, string | number>): string =>
+  prompt.template.replace(VARIABLE_PATTERN, (_, name: string) => String(values[name] ?? ''));
+
+/**
+ * One version for a set of prompts, e.g. to key cached results
+ */
+export const promptSetVersion = (prompts: PromptSet | undefined, keys: PromptKey[]): string =>
+  keys.map(key => promptFor(prompts, key).version).sort().join('+');
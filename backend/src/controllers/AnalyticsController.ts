@@ -173,6 +173,11 @@ export class AnalyticsController {
       res.status(200).json({
         success: true,
         data: aiUsageData,
+        totals: {
+          totalRequests: aiUsageData.reduce((sum, model) => sum + model.totalRequests, 0),
+          providerCalls: aiUsageData.reduce((sum, model) => sum + model.providerCalls, 0),
+          totalCost: Math.round(aiUsageData.reduce((sum, model) => sum + model.totalCost, 0) * 10000) / 10000,
+        },
         filters: {
           startDate: filters.startDate.toISOString(),
           endDate: filters.endDate.toISOString()
@@ -1,259 +1,189 @@
 import { Request, Response } from 'express';
-import { aiModelFactory } from '../services/aiModels/AIModelFactory';
-import express from 'express';
-import { IUser, AnalysisProgress } from '../types';
 import { AnalyticsService } from '../services/AnalyticsService';
-import { webSocketService } from '../services/WebSocketService';
-import type { AIModelType } from '../types';
-import fs from 'fs';
+import { aiAnalysisJobService } from '../services/aiAnalysisJobService';
+import { getAvailableModels, getModelEstimatedTime } from '../config/aiProviders';
+import { CourseRequester } from '../services/courseService';
+import { UserRole } from '../types';
+import { sendErrorResponse } from '../utils/errors';
 
 interface AuthenticatedRequest extends Request {
-  user?: { 
+  user?: {
     userId: string;
     email: string;
-    role: string;
+    role: UserRole;
   };
+  file?: Express.Multer.File;
 }
 
 export class AIAnalysisController {
   private analyticsService = new AnalyticsService();
 
   /**
-   * Synchronous multi-AI analysis for immediate results
+   * Queue multi-AI analysis of an uploaded file; progress is reported over WebSocket and polling
    */
   async analyzeWithMultipleAI(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
-      const { selectedModels } = req.body;
-      const userId = req.user?.userId;
-      
-      if (!req.file) {
-        res.status(400).json({ error: 'No file uploaded' });
-        return;
-      }
-
-      const file = req.file; // TypeScript now knows file is defined
-
-      if (!userId) {
-        res.status(401).json({ error: 'Authentication required' });
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
         return;
       }
 
-      if (!selectedModels || selectedModels.length === 0) {
-        res.status(400).json({ error: 'No AI models specified' });
+      if (!req.file) {
+        res.status(400).json({ success: false, message: 'No file uploaded' });
         return;
       }
 
-      // Debug logging for file processing
-      console.log('🔍 DEBUG: File processing started');
-      console.log('📄 File details:', file);
-      console.log('📊 File name:', file.originalname);
-      console.log('📏 File size:', file.size);
-      console.log('🧬 File buffer length:', file.buffer?.length || 'No buffer');
+      const job = await aiAnalysisJobService.submit(
+        req.file,
+        req.body?.selectedModels,
+        this.requester(req),
+        req.body?.courseId
+      );
 
-      // Read file content (handle binary files gracefully)
-      let content: string;
-      try {
-        // For memory storage, use buffer instead of file path
-        if (file.buffer) {
-          content = file.buffer.toString('utf-8');
-        } else if (file.path) {
-          content = fs.readFileSync(file.path, 'utf-8');
-        } else {
-          // Fallback to filename and metadata
-          content = `File: ${file.originalname}, Type: ${file.mimetype}, Size: ${file.size} bytes`;
-        }
-      } catch {
-        // For binary files, just use filename and metadata
-        content = `File: ${file.originalname}, Type: ${file.mimetype}, Size: ${file.size} bytes`;
-      }
-      
-      console.log('📁 Processing file:', {
-        name: file.originalname,
-        type: file.mimetype,
-        size: file.size,
-        contentLength: content.length,
-        selectedModels,
-        userId
+      await this.analyticsService.recordUserAnalytics({
+        sessionId: `job_${job.analysisId}`,
+        action: 'multi_ai_analysis_queued',
+        resource: req.file.originalname,
+        metadata: { selectedModels: job.models, mode: 'background' },
+        userId: req.user.userId
       });
-      
-      // Generate unique analysis ID for progress tracking
-      const analysisId = `analysis_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      console.log(`🆔 Analysis ID: ${analysisId}`);
 
-      // Initialize progress tracking with better calculation
-      const modelProgressMap = new Map<string, number>();
-      selectedModels.forEach((model: AIModelType) => modelProgressMap.set(model, 0));
+      res.status(202).json({
+        success: true,
+        data: job,
+        message: 'requestedModels' in job
+          ? 'Analysis queued with a cheaper model because an AI budget is used up'
+          : 'Analysis queued',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to start analysis');
+    }
+  }
 
-      const progressUpdate = (modelType: string, progress: number, status: string) => {
-        // Update the specific model's progress
-        modelProgressMap.set(modelType, progress);
-        
-        // Calculate overall progress across all models
-        const totalProgress = Array.from(modelProgressMap.values()).reduce((sum, prog) => sum + prog, 0);
-        const overallProgress = Math.round(totalProgress / selectedModels.length);
+  /**
+   * Models available for analysis, as declared in the provider registry
+   */
+  async listModels(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
 
-        const progressData = {
-          analysisId,
-          fileId: req.file?.filename || 'unknown',
-          userId: userId!,
-          overallProgress,
-          modelProgress: {
-            [modelType]: {
-              progress,
-              status: status as 'pending' | 'processing' | 'completed' | 'error' | 'cancelled',
-              lastUpdated: new Date()
-            }
-          } as Record<AIModelType, any>,
-          status: overallProgress === 100 ? 'completed' as const : 'processing' as const,
-          startTime: new Date()
-        } as AnalysisProgress;
+      const models = getAvailableModels().map(model => ({
+        id: model.id,
+        displayName: model.displayName,
+        provider: model.provider,
+        capabilities: model.capabilities,
+        estimatedTimeMs: getModelEstimatedTime(model),
+      }));
+
+      res.status(200).json({
+        success: true,
+        data: models,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to list models');
+    }
+  }
 
-        console.log(`📊 Progress update:`, {
-          analysisId,
-          modelType,
-          progress,
-          overallProgress,
-          status,
-          timestamp: new Date().toISOString()
-        });
+  /**
+   * Get a job with its progress and results
+   */
+  async getAnalysis(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
 
-        // Send via WebSocket - emit individual model progress
-        try {
-          webSocketService.emitModelProgress(userId!, analysisId, modelType as AIModelType, progress, status as 'pending' | 'processing' | 'completed' | 'error' | 'cancelled');
-        } catch (error) {
-          console.warn('⚠️ Failed to emit progress via WebSocket:', error);
-        }
-      };
+      const job = await aiAnalysisJobService.getJob(req.params['analysisId']!, this.requester(req));
 
-      // Send initial progress
-      selectedModels.forEach((model: AIModelType, index: number) => {
-        progressUpdate(model, 0, 'pending');
+      res.status(200).json({
+        success: true,
+        data: job,
+        timestamp: new Date().toISOString(),
       });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch analysis');
+    }
+  }
 
-      // Process each model in parallel with progress tracking
-      console.log('🤖 Starting analysis with models:', selectedModels);
-      const analysisResults = await Promise.allSettled(
-        selectedModels.map(async (model: AIModelType, index: number) => {
-          try {
-            console.log(`🔍 Getting AI model: ${model}`);
-            const aiModel = aiModelFactory.getModel(model);
-            
-            // Send progress update - starting analysis
-            progressUpdate(model, 10, 'processing');
-            console.log(`📊 Starting analysis with ${model} (${index + 1}/${selectedModels.length})`);
-            
-            const result = await aiModel.analyze(content, file);
-            console.log(`✅ Analysis completed for ${model}:`, result);
-            
-            // Send progress update - completed
-            progressUpdate(model, 100, 'completed');
-            console.log(`📊 Completed analysis with ${model} (${index + 1}/${selectedModels.length})`);
-            
-            return { model, result };
-          } catch (error) {
-            console.error(`❌ Analysis failed for ${model}:`, error);
-            progressUpdate(model, 0, 'error');
-            throw error;
-          }
-        })
-      );
+  /**
+   * Per-model progress of a job, for clients without a WebSocket connection
+   */
+  async getProgress(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
 
-      console.log('📊 All analysis results:', analysisResults);
+      const { aiResults: _aiResults, ...progress } = await aiAnalysisJobService.getJob(
+        req.params['analysisId']!,
+        this.requester(req)
+      );
 
-      // Build response in expected frontend format
-      const aiResults: Record<string, any> = {};
-      
-      analysisResults.forEach((result, index) => {
-        const model = selectedModels[index];
-        if (result.status === 'fulfilled') {
-          const analysis = result.value.result;
-          
-          // Transform the analysis result to match frontend expectations
-          aiResults[model] = {
-            model: model,
-            status: 'completed',
-            analysisType: 'content_analysis',
-            confidence: analysis.confidence || 0.85,
-            processingTime: analysis.processingTime || 1.5,
-            timestamp: new Date(),
-            results: {
-              description: analysis.summary || 'Content analysis completed successfully. The AI model has processed the uploaded content and extracted key insights.',
-              insights: analysis.keyPoints && analysis.keyPoints.length > 0 ? analysis.keyPoints : [
-                'Content successfully processed and analyzed',
-                'Key themes and concepts have been identified',
-                'Text structure and composition evaluated'
-              ],
-              entities: analysis.topics?.map((topic: string, idx: number) => ({
-                entity: topic,
-                type: 'concept' as const,
-                confidence: 0.8 + (idx * 0.05), // Vary confidence slightly
-                context: `Key concept identified from content analysis`
-              })) || [
-                {
-                  entity: 'Main Content',
-                  type: 'concept' as const,
-                  confidence: 0.9,
-                  context: 'Primary content theme identified'
-                }
-              ],
-              recommendations: [
-                'Content has been analyzed successfully',
-                'Review the detailed insights for key findings',
-                analysis.complexity ? `Content complexity: ${analysis.complexity}` : 'Standard complexity level detected',
-                analysis.readability ? `Readability score: ${analysis.readability}%` : 'Good readability maintained',
-                'Consider exploring related topics for enhanced understanding'
-              ].filter(Boolean)
-            }
-          };
-        } else {
-          // Include error information for failed models
-          aiResults[model] = {
-            model: model,
-            status: 'error',
-            analysisType: 'error',
-            confidence: 0,
-            processingTime: 0,
-            timestamp: new Date(),
-            results: {
-              description: 'Analysis failed for this model. Please try again or use a different AI model.',
-              insights: [`Analysis with ${model} encountered an error: ${result.reason || 'Unknown error'}`],
-              entities: [],
-              recommendations: [
-                'Try uploading the file again',
-                'Use a different AI model',
-                'Check file format compatibility',
-                'Contact support if the issue persists'
-              ]
-            }
-          };
-        }
+      res.status(200).json({
+        success: true,
+        data: progress,
+        timestamp: new Date().toISOString(),
       });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to get progress');
+    }
+  }
 
-      // Track analytics
-      await this.analyticsService.recordUserAnalytics({
-        sessionId: `sync_${Date.now()}`,
-        action: 'multi_ai_analysis_completed',
-        resource: file.originalname,
-        metadata: { 
-          selectedModels, 
-          mode: 'sync',
-          successfulModels: Object.keys(aiResults).filter(k => aiResults[k].confidence > 0).length
-        },
-        userId
+  /**
+   * Consolidated insights across the models of a finished job
+   */
+  async getConsolidatedInsights(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const insights = await aiAnalysisJobService.getConsolidatedInsights(req.params['analysisId']!, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: insights,
+        timestamp: new Date().toISOString(),
       });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to get insights');
+    }
+  }
 
-      // Clean up file
-      if (file.path && fs.existsSync(file.path)) {
-        fs.unlinkSync(file.path);
+  /**
+   * Cancel a queued or running job
+   */
+  async cancelAnalysis(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
       }
 
-      console.log('📤 Sending response to frontend:', { aiResults, analysisId });
-      // Return in format expected by frontend
-      res.json({ aiResults, analysisId });
+      const job = await aiAnalysisJobService.cancel(req.params['analysisId']!, this.requester(req));
 
+      res.status(200).json({
+        success: true,
+        data: job,
+        message: 'Analysis cancelled',
+        timestamp: new Date().toISOString(),
+      });
     } catch (error) {
-      console.error('Sync analysis error:', error);
-      res.status(500).json({ error: 'Analysis failed' });
+      sendErrorResponse(res, error, 'Failed to cancel analysis');
     }
   }
+
+  private requester(req: AuthenticatedRequest): CourseRequester {
+    return { userId: req.user!.userId, role: req.user!.role };
+  }
 }
+
+export const aiAnalysisController = new AIAnalysisController();
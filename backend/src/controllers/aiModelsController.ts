@@ -8,7 +8,22 @@
 import { Request, Response } from 'express';
 import { AIServiceManager } from '../services/aiModels/AIServiceManager';
 import { createAIServiceManagerConfig, validateAIServiceConfig } from '../config/aiServices';
+import { getAIModelIds } from '../config/aiProviders';
 import { AIServiceType } from '../services/aiModels/types';
+import { structuredOutputMetrics } from '../services/aiModels/structuredOutput';
+import { aiResultCache } from '../services/aiResultCache';
+import { AIUsageContext, aiUsageService } from '../services/aiUsageService';
+import { promptTemplateService } from '../services/promptTemplateService';
+import { UserRole } from '../types';
+import { getErrorStatus } from '../utils/errors';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: UserRole;
+  };
+}
 
 let aiServiceManager: AIServiceManager;
 
@@ -17,12 +32,22 @@ const initializeAIServiceManager = async (): Promise<AIServiceManager> => {
   if (!aiServiceManager) {
     const config = createAIServiceManagerConfig();
     validateAIServiceConfig(config);
-    aiServiceManager = new AIServiceManager(config);
+    aiServiceManager = new AIServiceManager(config, aiResultCache, aiUsageService, promptTemplateService);
     await aiServiceManager.initialize();
   }
   return aiServiceManager;
 };
 
+// Who the analysis is for and the course it is billed to, for usage accounting and budgets
+const getUsageContext = async (req: AuthenticatedRequest): Promise<AIUsageContext | undefined> => {
+  if (!req.user) {
+    return undefined;
+  }
+  const requester = { userId: req.user.userId, role: req.user.role };
+  const courseId = await aiUsageService.resolveCourse(req.body?.courseId, requester);
+  return { ...requester, courseId };
+};
+
 // Analyze content using AI services
 export const analyzeContent = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -46,21 +71,29 @@ export const analyzeContent = async (req: Request, res: Response): Promise<void>
     }
 
     // Validate preferred service if provided
-    if (preferredService && !['gpt4', 'claude', 'gemini'].includes(preferredService)) {
+    if (preferredService && !getAIModelIds().includes(preferredService)) {
       res.status(400).json({ 
         success: false, 
-        error: 'Invalid preferred service. Must be one of: gpt4, claude, gemini' 
+        error: `Invalid preferred service. Must be one of: ${getAIModelIds().join(', ')}` 
       });
       return;
     }
 
     const manager = await initializeAIServiceManager();
-    const result = await manager.analyzeContent(content, contentType, preferredService as AIServiceType);
+    const context = await getUsageContext(req as AuthenticatedRequest);
+    const [service] = context
+      ? await aiUsageService.applyBudgets(
+        [(preferredService || manager.getDefaultService()) as AIServiceType],
+        context,
+        manager.getEnabledServices()
+      )
+      : [preferredService as AIServiceType];
+    const result = await manager.analyzeContent(content, contentType, service, context);
 
     res.json(result);
   } catch (error) {
     console.error('Error in analyzeContent:', error);
-    res.status(500).json({ 
+    res.status(getErrorStatus(error)).json({ 
       success: false, 
       error: error instanceof Error ? error.message : 'Internal server error' 
     });
@@ -76,10 +109,10 @@ export const getServiceHealth = async (req: Request, res: Response): Promise<voi
     
     if (serviceType) {
       // Validate service type
-      if (!['gpt4', 'claude', 'gemini'].includes(serviceType)) {
+      if (!getAIModelIds().includes(serviceType)) {
         res.status(400).json({ 
           success: false, 
-          error: 'Invalid service type. Must be one of: gpt4, claude, gemini' 
+          error: `Invalid service type. Must be one of: ${getAIModelIds().join(', ')}` 
         });
         return;
       }
@@ -108,10 +141,10 @@ export const getServiceMetrics = async (req: Request, res: Response): Promise<vo
     
     if (serviceType) {
       // Validate service type
-      if (!['gpt4', 'claude', 'gemini'].includes(serviceType)) {
+      if (!getAIModelIds().includes(serviceType)) {
         res.status(400).json({ 
           success: false, 
-          error: 'Invalid service type. Must be one of: gpt4, claude, gemini' 
+          error: `Invalid service type. Must be one of: ${getAIModelIds().join(', ')}` 
         });
         return;
       }
@@ -182,7 +215,7 @@ export const updateConfiguration = async (req: Request, res: Response): Promise<
 // Analyze content with multiple services for comparison
 export const compareServices = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { content, contentType, services } = req.body;
+    const { content, contentType, services, requireConsensus, confidenceThreshold } = req.body;
 
     // Validate required fields
     if (!content || typeof content !== 'string') {
@@ -201,6 +234,23 @@ export const compareServices = async (req: Request, res: Response): Promise<void
       return;
     }
 
+    if (requireConsensus !== undefined && typeof requireConsensus !== 'boolean') {
+      res.status(400).json({ 
+        success: false, 
+        error: 'requireConsensus must be a boolean' 
+      });
+      return;
+    }
+
+    if (confidenceThreshold !== undefined &&
+        (typeof confidenceThreshold !== 'number' || confidenceThreshold < 0 || confidenceThreshold > 1)) {
+      res.status(400).json({ 
+        success: false, 
+        error: 'confidenceThreshold must be a number between 0 and 1' 
+      });
+      return;
+    }
+
     if (!services || !Array.isArray(services) || services.length === 0) {
       res.status(400).json({ 
         success: false, 
@@ -210,7 +260,7 @@ export const compareServices = async (req: Request, res: Response): Promise<void
     }
 
     // Validate all services
-    const validServices = ['gpt4', 'claude', 'gemini'];
+    const validServices = getAIModelIds();
     for (const service of services) {
       if (!validServices.includes(service)) {
         res.status(400).json({ 
@@ -222,32 +272,102 @@ export const compareServices = async (req: Request, res: Response): Promise<void
     }
 
     const manager = await initializeAIServiceManager();
+    const context = await getUsageContext(req as AuthenticatedRequest);
+    const allowedServices = context
+      ? await aiUsageService.applyBudgets(services as AIServiceType[], context, manager.getEnabledServices())
+      : services as AIServiceType[];
     const results: any = {};
     const errors: any = {};
 
-    // Run analysis on each requested service
-    await Promise.allSettled(
-      services.map(async (service: AIServiceType) => {
-        try {
-          results[service] = await manager.analyzeContent(content, contentType, service);
-        } catch (error) {
-          errors[service] = error instanceof Error ? error.message : 'Unknown error';
-        }
-      })
-    );
+    // Run analysis on each requested service; a threshold implies the caller wants consensus
+    const analysis = await manager.analyzeMulti({
+      content,
+      contentType,
+      services: allowedServices,
+      options: {
+        requireConsensus: requireConsensus ?? confidenceThreshold !== undefined,
+        ...(confidenceThreshold !== undefined && { confidenceThreshold }),
+      },
+    }, context);
+
+    analysis.results.forEach((response, service) => {
+      if (response.success) {
+        results[service] = response;
+      } else {
+        errors[service] = response.error ?? 'Unknown error';
+      }
+    });
 
     res.json({ 
       success: true, 
       results,
       errors: Object.keys(errors).length > 0 ? errors : undefined,
+      consensus: analysis.consensus,
       comparison: {
-        totalServices: services.length,
+        totalServices: allowedServices.length,
         successfulServices: Object.keys(results).length,
-        failedServices: Object.keys(errors).length
+        failedServices: Object.keys(errors).length,
+        bestResult: analysis.metadata.bestResult
       }
     });
   } catch (error) {
     console.error('Error in compareServices:', error);
+    res.status(getErrorStatus(error)).json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Internal server error' 
+    });
+  }
+};
+
+// Purge cached AI results (admin), optionally by model, content hash or only expired entries
+export const purgeCache = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { model, contentHash, expired } = req.query;
+
+    if ((model !== undefined && typeof model !== 'string') || (contentHash !== undefined && typeof contentHash !== 'string')) {
+      res.status(400).json({ 
+        success: false, 
+        error: 'model and contentHash must be single values' 
+      });
+      return;
+    }
+
+    const removed = await aiResultCache.purge({
+      ...(model && { model }),
+      ...(contentHash && { contentHash }),
+      expiredOnly: expired === 'true',
+    });
+
+    res.json({ 
+      success: true, 
+      message: `Removed ${removed} cached result(s)`,
+      removed 
+    });
+  } catch (error) {
+    console.error('Error in purgeCache:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : 'Internal server error' 
+    });
+  }
+};
+
+// Get structured output validation metrics per model and task, optionally for one model
+export const getOutputMetrics = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { model } = req.query;
+
+    if (model !== undefined && typeof model !== 'string') {
+      res.status(400).json({ 
+        success: false, 
+        error: 'model must be a single value' 
+      });
+      return;
+    }
+
+    res.json({ success: true, metrics: structuredOutputMetrics.getStats(model) });
+  } catch (error) {
+    console.error('Error in getOutputMetrics:', error);
     res.status(500).json({ 
       success: false, 
       error: error instanceof Error ? error.message : 'Internal server error' 
@@ -0,0 +1,113 @@
+import { Request, Response } from 'express';
+import { aiUsageService } from '../services/aiUsageService';
+import { CourseRequester } from '../services/courseService';
+import { UserRole } from '../types';
+import { sendErrorResponse } from '../utils/errors';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: UserRole;
+  };
+}
+
+export class AIUsageController {
+  /**
+   * The requester's budgets and how much of each is spent (optionally including a course's)
+   */
+  async getMyBudgets(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const requester = this.requester(req);
+      const courseId = await aiUsageService.resolveCourse(req.query['courseId'], requester);
+      const budgets = await aiUsageService.getBudgetStatus({ ...requester, courseId });
+
+      res.status(200).json({
+        success: true,
+        data: budgets,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch AI budgets');
+    }
+  }
+
+  /**
+   * Budgets the requester can manage
+   */
+  async listBudgets(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const budgets = await aiUsageService.listBudgets(this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: budgets,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch AI budgets');
+    }
+  }
+
+  /**
+   * Create or replace the budget for a scope and period
+   */
+  async setBudget(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { scope, scopeId, period, limitUsd, action } = req.body ?? {};
+      const budget = await aiUsageService.setBudget(
+        { scope, scopeId, period, limitUsd, ...(action !== undefined && { action }) },
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: budget,
+        message: 'Budget saved',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to save AI budget');
+    }
+  }
+
+  async deleteBudget(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      await aiUsageService.deleteBudget(req.params['id']!, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Budget deleted',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to delete AI budget');
+    }
+  }
+
+  private requester(req: AuthenticatedRequest): CourseRequester {
+    return { userId: req.user!.userId, role: req.user!.role };
+  }
+}
+
+export const aiUsageController = new AIUsageController();
@@ -0,0 +1,327 @@
+import { Request, Response } from 'express';
+import { assignmentService } from '../services/assignmentService';
+import { submissionService } from '../services/submissionService';
+import { gradingService } from '../services/gradingService';
+import { cnnAnalysisService } from '../services/cnnAnalysisService';
+import { CourseRequester } from '../services/courseService';
+import { UserRole } from '../types';
+import { sendErrorResponse } from '../utils/errors';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: UserRole;
+  };
+}
+
+export class AssignmentController {
+  /**
+   * List assignments, optionally for one course
+   */
+  async getAssignments(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { courseId } = req.query;
+      const assignments = await assignmentService.listAssignments(
+        this.requester(req),
+        typeof courseId === 'string' ? courseId : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: assignments,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch assignments');
+    }
+  }
+
+  /**
+   * Get an assignment with the current user's submissions
+   */
+  async getAssignment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const assignment = await assignmentService.getAssignment(req.params['id']!, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: assignment,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch assignment');
+    }
+  }
+
+  /**
+   * List submissions for an assignment
+   */
+  async getSubmissions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const submissions = await submissionService.getSubmissions(req.params['id']!, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: submissions,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch submissions');
+    }
+  }
+
+  /**
+   * Upload files into the current draft submission
+   */
+  async saveDraft(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const submission = await submissionService.saveDraft(req.params['id']!, this.requester(req), this.uploadedFiles(req));
+
+      res.status(200).json({
+        success: true,
+        data: submission,
+        message: 'Draft saved successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to save draft');
+    }
+  }
+
+  /**
+   * Remove a file from the current draft submission
+   */
+  async removeDraftFile(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const submission = await submissionService.removeDraftFile(
+        req.params['id']!,
+        req.params['submissionId']!,
+        req.params['fileId']!,
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: submission,
+        message: 'File removed successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to remove file');
+    }
+  }
+
+  /**
+   * Submit the current draft, with any files uploaded in the same request
+   */
+  async submit(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const submission = await submissionService.submit(req.params['id']!, this.requester(req), this.uploadedFiles(req));
+
+      res.status(201).json({
+        success: true,
+        data: submission,
+        message: submission.isLate ? 'Assignment submitted late' : 'Assignment submitted successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to submit assignment');
+    }
+  }
+
+  /**
+   * Get the assignment's grading rubric
+   */
+  async getRubric(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const rubric = await gradingService.getRubric(req.params['id']!, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: rubric,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch rubric');
+    }
+  }
+
+  /**
+   * Create or replace the assignment's grading rubric
+   */
+  async saveRubric(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { name, description, criteria } = req.body;
+      const rubric = await gradingService.saveRubric(
+        req.params['id']!,
+        { name, description, criteria },
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: rubric,
+        message: 'Rubric saved successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to save rubric');
+    }
+  }
+
+  /**
+   * Delete the assignment's grading rubric
+   */
+  async deleteRubric(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      await gradingService.deleteRubric(req.params['id']!, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Rubric deleted successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to delete rubric');
+    }
+  }
+
+  /**
+   * Grade a submission against the assignment's rubric
+   */
+  async gradeSubmission(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { rubricScores, feedback, returnToStudent } = req.body;
+      const submission = await gradingService.gradeSubmission(
+        req.params['id']!,
+        req.params['submissionId']!,
+        { rubricScores, feedback, returnToStudent: returnToStudent === true },
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: submission,
+        message: 'Submission graded successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to grade submission');
+    }
+  }
+
+  /**
+   * Release a graded submission to the student
+   */
+  async returnSubmission(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const submission = await gradingService.returnSubmission(
+        req.params['id']!,
+        req.params['submissionId']!,
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: submission,
+        message: 'Submission returned to student',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to return submission');
+    }
+  }
+
+  /**
+   * Queue a fresh CNN analysis of a submission's images
+   */
+  async reanalyzeSubmission(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const analysis = await cnnAnalysisService.reanalyze(
+        req.params['id']!,
+        req.params['submissionId']!,
+        this.requester(req)
+      );
+
+      res.status(202).json({
+        success: true,
+        data: analysis,
+        message: 'CNN analysis queued',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to queue CNN analysis');
+    }
+  }
+
+  private uploadedFiles(req: AuthenticatedRequest): Express.Multer.File[] {
+    return Array.isArray(req.files) ? req.files : [];
+  }
+
+  private requester(req: AuthenticatedRequest): CourseRequester {
+    return { userId: req.user!.userId, role: req.user!.role };
+  }
+}
+
+export const assignmentController = new AssignmentController();
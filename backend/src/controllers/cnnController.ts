@@ -0,0 +1,237 @@
+import { Request, Response } from 'express';
+import { cnnAnalysisService } from '../services/cnnAnalysisService';
+import { cnnAnnotationService } from '../services/cnnAnnotationService';
+import { CourseRequester } from '../services/courseService';
+import { UserRole } from '../types';
+import { sendErrorResponse } from '../utils/errors';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: UserRole;
+  };
+  file?: Express.Multer.File;
+}
+
+export class CNNController {
+  /**
+   * Classify and detect objects in an uploaded image (multipart field "file")
+   */
+  async analyze(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      if (!req.file) {
+        res.status(400).json({ success: false, message: 'Upload an image in the "file" field' });
+        return;
+      }
+
+      const analysis = await cnnAnalysisService.analyzeUpload(req.file, this.requester(req));
+
+      res.status(201).json({
+        success: true,
+        data: analysis,
+        message: 'Image analyzed successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to analyze image');
+    }
+  }
+
+  /**
+   * Get a stored CNN analysis
+   */
+  async getAnalysis(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const analysis = await cnnAnalysisService.getAnalysis(req.params['id']!, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: analysis,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch analysis');
+    }
+  }
+
+  /**
+   * Look what a stored analysis detected up in the knowledge base again
+   */
+  async enrichAnalysis(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const analysis = await cnnAnalysisService.enrichAnalysis(req.params['id']!, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: analysis,
+        message: 'Analysis enriched',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to enrich analysis');
+    }
+  }
+
+  /**
+   * Turn the detections of an analysis into editable image annotations
+   */
+  async annotateDetections(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const result = await cnnAnnotationService.annotateDetections(req.params['id']!, this.requester(req));
+
+      res.status(result.created > 0 ? 201 : 200).json({
+        success: true,
+        data: result,
+        message: result.created > 0 ? 'Detections annotated' : 'Detections were already annotated',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to annotate detections');
+    }
+  }
+
+  /**
+   * Add an object the model missed
+   */
+  async addMissedDetection(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const annotation = await cnnAnnotationService.addMissedDetection(req.params['id']!, req.body ?? {}, this.requester(req));
+
+      res.status(201).json({
+        success: true,
+        data: annotation,
+        message: 'Missed object added',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to add missed object');
+    }
+  }
+
+  /**
+   * Correct the label of a detection
+   */
+  async relabelDetection(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const annotation = await cnnAnnotationService.relabelDetection(
+        req.params['id']!,
+        req.params['annotationId']!,
+        req.body?.label,
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: annotation,
+        message: 'Detection relabeled',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to relabel detection');
+    }
+  }
+
+  /**
+   * Delete a detection, recording it as a false positive
+   */
+  async removeDetection(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      await cnnAnnotationService.removeDetection(req.params['id']!, req.params['annotationId']!, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Detection removed',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to remove detection');
+    }
+  }
+
+  /**
+   * List detection corrections awaiting review
+   */
+  async listDetectionFeedback(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const result = await cnnAnnotationService.listFeedback(req.query, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to get detection feedback');
+    }
+  }
+
+  /**
+   * Accept or reject a detection correction
+   */
+  async reviewDetectionFeedback(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const feedback = await cnnAnnotationService.reviewFeedback(req.params['id']!, req.body ?? {}, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: feedback,
+        message: 'Detection feedback reviewed',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to review detection feedback');
+    }
+  }
+
+  private requester(req: AuthenticatedRequest): CourseRequester {
+    return { userId: req.user!.userId, role: req.user!.role };
+  }
+}
+
+export const cnnController = new CNNController();
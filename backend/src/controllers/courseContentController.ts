@@ -0,0 +1,311 @@
+import { Request, Response } from 'express';
+import { courseContentService } from '../services/courseContentService';
+import { CourseRequester } from '../services/courseService';
+import { UserRole } from '../types';
+import { sendErrorResponse } from '../utils/errors';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: UserRole;
+  };
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export class CourseContentController {
+  /**
+   * List modules with steps
+   */
+  async getModules(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const modules = await courseContentService.getModules(req.params['id']!, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: modules,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch modules');
+    }
+  }
+
+  /**
+   * Create a module
+   */
+  async createModule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { title, description, content, estimatedMinutes, isRequired, isLocked, unlockRules } = req.body;
+      if (!title) {
+        res.status(400).json({ success: false, message: 'Missing required field: title' });
+        return;
+      }
+
+      const module = await courseContentService.createModule(
+        req.params['id']!,
+        { title, description, content, estimatedMinutes, isRequired, isLocked, unlockRules },
+        this.requester(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: module,
+        message: 'Module created successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to create module');
+    }
+  }
+
+  /**
+   * Update a module
+   */
+  async updateModule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { title, description, content, estimatedMinutes, isRequired, isLocked, unlockRules } = req.body;
+      const module = await courseContentService.updateModule(
+        req.params['id']!,
+        req.params['moduleId']!,
+        { title, description, content, estimatedMinutes, isRequired, isLocked, unlockRules },
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: module,
+        message: 'Module updated successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to update module');
+    }
+  }
+
+  /**
+   * Delete a module
+   */
+  async deleteModule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      await courseContentService.deleteModule(req.params['id']!, req.params['moduleId']!, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Module deleted successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to delete module');
+    }
+  }
+
+  /**
+   * Reorder modules
+   */
+  async reorderModules(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { moduleIds } = req.body;
+      if (!isStringArray(moduleIds)) {
+        res.status(400).json({ success: false, message: 'moduleIds must be an array of module IDs' });
+        return;
+      }
+
+      const modules = await courseContentService.reorderModules(req.params['id']!, moduleIds, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: modules,
+        message: 'Modules reordered successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to reorder modules');
+    }
+  }
+
+  /**
+   * Get a single step
+   */
+  async getStep(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const step = await courseContentService.getStep(
+        req.params['id']!,
+        req.params['moduleId']!,
+        req.params['stepId']!,
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: step,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch step');
+    }
+  }
+
+  /**
+   * Create a step
+   */
+  async createStep(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { title, type, content, estimatedTime, isRequired, cnnAnalysisEnabled, resources, assignmentId } = req.body;
+      if (!title || !type) {
+        res.status(400).json({ success: false, message: 'Missing required fields: title, type' });
+        return;
+      }
+
+      const step = await courseContentService.createStep(
+        req.params['id']!,
+        req.params['moduleId']!,
+        { title, type, content, estimatedTime, isRequired, cnnAnalysisEnabled, resources, assignmentId },
+        this.requester(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: step,
+        message: 'Step created successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to create step');
+    }
+  }
+
+  /**
+   * Update a step
+   */
+  async updateStep(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { title, type, content, estimatedTime, isRequired, cnnAnalysisEnabled, resources, assignmentId } = req.body;
+      const step = await courseContentService.updateStep(
+        req.params['id']!,
+        req.params['moduleId']!,
+        req.params['stepId']!,
+        { title, type, content, estimatedTime, isRequired, cnnAnalysisEnabled, resources, assignmentId },
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: step,
+        message: 'Step updated successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to update step');
+    }
+  }
+
+  /**
+   * Delete a step
+   */
+  async deleteStep(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      await courseContentService.deleteStep(
+        req.params['id']!,
+        req.params['moduleId']!,
+        req.params['stepId']!,
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Step deleted successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to delete step');
+    }
+  }
+
+  /**
+   * Reorder steps within a module
+   */
+  async reorderSteps(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { stepIds } = req.body;
+      if (!isStringArray(stepIds)) {
+        res.status(400).json({ success: false, message: 'stepIds must be an array of step IDs' });
+        return;
+      }
+
+      const steps = await courseContentService.reorderSteps(
+        req.params['id']!,
+        req.params['moduleId']!,
+        stepIds,
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: steps,
+        message: 'Steps reordered successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to reorder steps');
+    }
+  }
+
+  private requester(req: AuthenticatedRequest): CourseRequester {
+    return { userId: req.user!.userId, role: req.user!.role };
+  }
+}
+
+export const courseContentController = new CourseContentController();
@@ -0,0 +1,320 @@
+import { Request, Response } from 'express';
+import { CourseDifficulty } from '@prisma/client';
+import { courseService, CourseFilter, CourseRequester } from '../services/courseService';
+import { UserRole } from '../types';
+import { sendErrorResponse } from '../utils/errors';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: UserRole;
+  };
+}
+
+const parseBoolean = (value: unknown): boolean | undefined => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+};
+
+export class CourseController {
+  /**
+   * List courses with filtering and pagination
+   */
+  async getCourses(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { difficulty, isPublic, isActive, ownerId, search, page = '1', limit = '20' } = req.query;
+
+      if (difficulty && !Object.values(CourseDifficulty).includes(difficulty as CourseDifficulty)) {
+        res.status(400).json({ success: false, message: 'Invalid difficulty filter' });
+        return;
+      }
+
+      const filter: CourseFilter = {};
+      if (difficulty) filter.difficulty = difficulty as CourseDifficulty;
+      const publicFilter = parseBoolean(isPublic);
+      if (publicFilter !== undefined) filter.isPublic = publicFilter;
+      const activeFilter = parseBoolean(isActive);
+      if (activeFilter !== undefined) filter.isActive = activeFilter;
+      if (ownerId) filter.ownerId = ownerId as string;
+      if (search) filter.search = search as string;
+
+      const pageNumber = Math.max(parseInt(page as string, 10) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(limit as string, 10) || 20, 1), 100);
+
+      const result = await courseService.listCourses(filter, this.requester(req), pageNumber, pageSize);
+
+      res.status(200).json({
+        success: true,
+        data: result.courses,
+        pagination: {
+          page: result.page,
+          limit: pageSize,
+          total: result.totalCount,
+          pages: result.totalPages,
+          hasNext: result.page < result.totalPages,
+          hasPrev: result.page > 1,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch courses');
+    }
+  }
+
+  /**
+   * Get courses the current user owns or is enrolled in
+   */
+  async getUserCourses(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const courses = await courseService.getUserCourses(req.user.userId);
+
+      res.status(200).json({
+        success: true,
+        data: courses,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch user courses');
+    }
+  }
+
+  /**
+   * Get a single course with modules and steps
+   */
+  async getCourse(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+      if (!id) {
+        res.status(400).json({ success: false, message: 'Course ID is required' });
+        return;
+      }
+
+      const course = await courseService.getCourseById(id, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: course,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch course');
+    }
+  }
+
+  /**
+   * Create a course
+   */
+  async createCourse(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { title, description, syllabus, coverImage, isPublic, maxStudents, estimatedHours, startDate, difficulty } = req.body;
+
+      if (!title || !description) {
+        res.status(400).json({ success: false, message: 'Missing required fields: title, description' });
+        return;
+      }
+
+      const course = await courseService.createCourse({
+        title,
+        description,
+        syllabus,
+        coverImage,
+        isPublic,
+        maxStudents,
+        estimatedHours,
+        startDate,
+        difficulty,
+      }, this.requester(req));
+
+      res.status(201).json({
+        success: true,
+        data: course,
+        message: 'Course created successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to create course');
+    }
+  }
+
+  /**
+   * Update a course
+   */
+  async updateCourse(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+      if (!id) {
+        res.status(400).json({ success: false, message: 'Course ID is required' });
+        return;
+      }
+
+      const { title, description, syllabus, coverImage, isPublic, isActive, maxStudents, estimatedHours, startDate, difficulty } = req.body;
+      const course = await courseService.updateCourse(id, {
+        title,
+        description,
+        syllabus,
+        coverImage,
+        isPublic,
+        isActive,
+        maxStudents,
+        estimatedHours,
+        startDate,
+        difficulty,
+      }, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: course,
+        message: 'Course updated successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to update course');
+    }
+  }
+
+  /**
+   * Archive a course
+   */
+  async deleteCourse(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+      if (!id) {
+        res.status(400).json({ success: false, message: 'Course ID is required' });
+        return;
+      }
+
+      await courseService.archiveCourse(id, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Course archived successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to archive course');
+    }
+  }
+
+  /**
+   * Enroll the current user in a course
+   */
+  async enroll(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+      if (!id) {
+        res.status(400).json({ success: false, message: 'Course ID is required' });
+        return;
+      }
+
+      const enrollment = await courseService.enroll(id, req.user.userId);
+
+      res.status(201).json({
+        success: true,
+        data: enrollment,
+        message: 'Enrolled successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to enroll in course');
+    }
+  }
+
+  /**
+   * Unenroll the current user, or a given student when called by the course owner
+   */
+  async unenroll(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { id, studentId } = req.params;
+      if (!id) {
+        res.status(400).json({ success: false, message: 'Course ID is required' });
+        return;
+      }
+
+      await courseService.unenroll(id, studentId ?? req.user.userId, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Unenrolled successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to unenroll from course');
+    }
+  }
+
+  /**
+   * List active students of a course
+   */
+  async getEnrollments(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { id } = req.params;
+      if (!id) {
+        res.status(400).json({ success: false, message: 'Course ID is required' });
+        return;
+      }
+
+      const enrollments = await courseService.getEnrollments(id, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: enrollments,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch enrollments');
+    }
+  }
+
+  private requester(req: AuthenticatedRequest): CourseRequester {
+    return { userId: req.user!.userId, role: req.user!.role };
+  }
+}
+
+export const courseController = new CourseController();
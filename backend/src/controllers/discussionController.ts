@@ -0,0 +1,283 @@
+import { Request, Response } from 'express';
+import { discussionService, DiscussionFilter } from '../services/discussionService';
+import { CourseRequester } from '../services/courseService';
+import { UserRole } from '../types';
+import { sendErrorResponse } from '../utils/errors';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: UserRole;
+  };
+}
+
+export class DiscussionController {
+  /**
+   * List discussions with course, tag and search filters and pagination
+   */
+  async getDiscussions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { courseId, tag, tags, search, page = '1', limit = '20' } = req.query;
+
+      const filter: DiscussionFilter = {};
+      if (courseId) filter.courseId = courseId as string;
+      const tagFilter = [tag, tags]
+        .flatMap(value => (Array.isArray(value) ? value : [value]))
+        .flatMap(value => (typeof value === 'string' ? value.split(',') : []))
+        .map(value => value.trim())
+        .filter(Boolean);
+      if (tagFilter.length > 0) filter.tags = tagFilter;
+      if (search) filter.search = search as string;
+
+      const pageNumber = Math.max(parseInt(page as string, 10) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(limit as string, 10) || 20, 1), 100);
+
+      const result = await discussionService.listDiscussions(filter, this.requester(req), pageNumber, pageSize);
+
+      res.status(200).json({
+        success: true,
+        data: result.discussions,
+        pagination: {
+          page: result.page,
+          limit: pageSize,
+          total: result.totalCount,
+          pages: result.totalPages,
+          hasNext: result.page < result.totalPages,
+          hasPrev: result.page > 1,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch discussions');
+    }
+  }
+
+  /**
+   * Get a discussion with its replies
+   */
+  async getDiscussion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const discussion = await discussionService.getDiscussion(req.params['id']!, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: discussion,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch discussion');
+    }
+  }
+
+  /**
+   * Start a discussion
+   */
+  async createDiscussion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { title, content, courseId, tags, isAnonymous } = req.body;
+      if (!title || !content) {
+        res.status(400).json({ success: false, message: 'Missing required fields: title, content' });
+        return;
+      }
+
+      const discussion = await discussionService.createDiscussion(
+        { title, content, courseId, tags, isAnonymous: isAnonymous === true },
+        this.requester(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: discussion,
+        message: 'Discussion created successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to create discussion');
+    }
+  }
+
+  /**
+   * Edit a discussion
+   */
+  async updateDiscussion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { title, content, tags } = req.body;
+      const discussion = await discussionService.updateDiscussion(
+        req.params['id']!,
+        { title, content, tags },
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: discussion,
+        message: 'Discussion updated successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to update discussion');
+    }
+  }
+
+  /**
+   * Delete a discussion and its replies
+   */
+  async deleteDiscussion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      await discussionService.deleteDiscussion(req.params['id']!, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Discussion deleted successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to delete discussion');
+    }
+  }
+
+  /**
+   * Reply to a discussion
+   */
+  async createReply(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { content, isAnonymous } = req.body;
+      if (!content) {
+        res.status(400).json({ success: false, message: 'Missing required field: content' });
+        return;
+      }
+
+      const reply = await discussionService.createReply(
+        req.params['id']!,
+        { content, isAnonymous: isAnonymous === true },
+        this.requester(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: reply,
+        message: 'Reply posted successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to post reply');
+    }
+  }
+
+  /**
+   * Delete a reply
+   */
+  async deleteReply(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      await discussionService.deleteReply(req.params['id']!, req.params['replyId']!, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Reply deleted successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to delete reply');
+    }
+  }
+
+  /**
+   * Pin or unpin a discussion
+   */
+  async setPinned(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { isPinned } = req.body;
+      if (typeof isPinned !== 'boolean') {
+        res.status(400).json({ success: false, message: 'isPinned must be a boolean' });
+        return;
+      }
+
+      const discussion = await discussionService.setPinned(req.params['id']!, isPinned, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: discussion,
+        message: isPinned ? 'Discussion pinned' : 'Discussion unpinned',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to update discussion');
+    }
+  }
+
+  /**
+   * Lock or unlock a discussion for replies
+   */
+  async setLocked(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { isLocked } = req.body;
+      if (typeof isLocked !== 'boolean') {
+        res.status(400).json({ success: false, message: 'isLocked must be a boolean' });
+        return;
+      }
+
+      const discussion = await discussionService.setLocked(req.params['id']!, isLocked, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: discussion,
+        message: isLocked ? 'Discussion locked' : 'Discussion unlocked',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to update discussion');
+    }
+  }
+
+  private requester(req: AuthenticatedRequest): CourseRequester {
+    return { userId: req.user!.userId, role: req.user!.role };
+  }
+}
+
+export const discussionController = new DiscussionController();
@@ -0,0 +1,94 @@
+import { Request, Response } from 'express';
+import { gradebookService } from '../services/gradebookService';
+import { CourseRequester } from '../services/courseService';
+import { UserRole } from '../types';
+import { sendErrorResponse } from '../utils/errors';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: UserRole;
+  };
+  file?: Express.Multer.File;
+}
+
+export class GradebookController {
+  /**
+   * Course gradebook as JSON, or as a CSV download with ?format=csv
+   */
+  async getGradebook(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const courseId = req.params['id']!;
+
+      if (req.query['format'] === 'csv') {
+        const csv = await gradebookService.exportCsv(courseId, this.requester(req));
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename="gradebook-${courseId}-${new Date().toISOString().split('T')[0]}.csv"`
+        );
+        res.status(200).send(csv);
+        return;
+      }
+
+      const gradebook = await gradebookService.getGradebook(courseId, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: gradebook,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch gradebook');
+    }
+  }
+
+  /**
+   * Import grades from an edited gradebook CSV (multipart field "file" or JSON { csv })
+   */
+  async importGrades(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const csv = req.file ? req.file.buffer.toString('utf8') : req.body?.csv;
+      if (typeof csv !== 'string' || !csv.trim()) {
+        res.status(400).json({ success: false, message: 'Upload a CSV file or provide csv text' });
+        return;
+      }
+
+      const dryRun = req.query['dryRun'] === 'true' || req.body?.dryRun === true || req.body?.dryRun === 'true';
+      const report = await gradebookService.importCsv(req.params['id']!, csv, this.requester(req), dryRun);
+
+      let message = 'Grades imported successfully';
+      if (report.errors.length > 0) {
+        message = 'Import has errors, no grades were changed';
+      } else if (!report.applied) {
+        message = dryRun ? 'Import validated, no grades were changed' : 'No grade changes found';
+      }
+
+      res.status(report.errors.length > 0 ? 400 : 200).json({
+        success: report.errors.length === 0,
+        data: report,
+        message,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to import grades');
+    }
+  }
+
+  private requester(req: AuthenticatedRequest): CourseRequester {
+    return { userId: req.user!.userId, role: req.user!.role };
+  }
+}
+
+export const gradebookController = new GradebookController();
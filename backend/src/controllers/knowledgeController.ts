@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import { knowledgeBaseService } from '../services/knowledgeBaseService';
+import { CourseRequester } from '../services/courseService';
+import { UserRole } from '../types';
+import { sendErrorResponse } from '../utils/errors';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: UserRole;
+  };
+  file?: Express.Multer.File;
+}
+
+export class KnowledgeController {
+  /**
+   * Import a Wikipedia extract dump or glossary, uploaded as a file (multipart field "file")
+   * or sent as an entries array
+   */
+  async importEntries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { source, entries, courseId } = req.body ?? {};
+      // Multipart fields arrive as strings
+      const replace = req.file && typeof req.body?.replace === 'string' ? req.body.replace === 'true' : req.body?.replace;
+      const result = await knowledgeBaseService.importEntries(
+        {
+          source,
+          courseId,
+          replace,
+          ...(req.file ? { content: req.file.buffer.toString('utf8') } : { entries }),
+        },
+        this.requester(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: `Imported ${result.imported} knowledge entries`,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to import knowledge entries');
+    }
+  }
+
+  async listEntries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { courseId, source, q, page } = req.query;
+      const entries = await knowledgeBaseService.listEntries({ courseId, source, q, page }, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: entries,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch knowledge entries');
+    }
+  }
+
+  async deleteEntry(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      await knowledgeBaseService.deleteEntry(req.params['id']!, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Knowledge entry deleted',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to delete knowledge entry');
+    }
+  }
+
+  private requester(req: AuthenticatedRequest): CourseRequester {
+    return { userId: req.user!.userId, role: req.user!.role };
+  }
+}
+
+export const knowledgeController = new KnowledgeController();
@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import { progressService } from '../services/progressService';
+import { CourseRequester } from '../services/courseService';
+import { UserRole } from '../types';
+import { sendErrorResponse } from '../utils/errors';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: UserRole;
+  };
+}
+
+export class ProgressController {
+  /**
+   * Progress cards for all of the current user's enrolled courses
+   */
+  async getDashboardProgress(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const progress = await progressService.getDashboardProgress(this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        data: progress,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch course progress');
+    }
+  }
+
+  /**
+   * Progress in one course, for the current user or (course staff) ?studentId=
+   */
+  async getCourseProgress(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { studentId } = req.query;
+      const progress = await progressService.getCourseProgress(
+        req.params['id']!,
+        this.requester(req),
+        typeof studentId === 'string' ? studentId : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: progress,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch course progress');
+    }
+  }
+
+  /**
+   * Mark a step complete
+   */
+  async completeStep(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const progress = await progressService.completeStep(
+        req.params['id']!,
+        req.params['moduleId']!,
+        req.params['stepId']!,
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: progress,
+        message: 'Step marked as complete',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to complete step');
+    }
+  }
+
+  /**
+   * Undo a manual step completion
+   */
+  async uncompleteStep(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const progress = await progressService.uncompleteStep(
+        req.params['id']!,
+        req.params['moduleId']!,
+        req.params['stepId']!,
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: progress,
+        message: 'Step marked as incomplete',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to update step completion');
+    }
+  }
+
+  private requester(req: AuthenticatedRequest): CourseRequester {
+    return { userId: req.user!.userId, role: req.user!.role };
+  }
+}
+
+export const progressController = new ProgressController();
@@ -0,0 +1,138 @@
+import { Request, Response } from 'express';
+import { promptTemplateService } from '../services/promptTemplateService';
+import { CourseRequester } from '../services/courseService';
+import { UserRole } from '../types';
+import { sendErrorResponse } from '../utils/errors';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: UserRole;
+  };
+}
+
+export class PromptTemplateController {
+  /**
+   * Every AI task with the template in effect, platform-wide or for a course
+   */
+  async listTemplates(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const templates = await promptTemplateService.listTemplates(this.requester(req), req.query['courseId']);
+
+      res.status(200).json({
+        success: true,
+        data: templates,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch prompt templates');
+    }
+  }
+
+  async listVersions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const versions = await promptTemplateService.listVersions(
+        req.params['key'],
+        this.requester(req),
+        req.query['courseId']
+      );
+
+      res.status(200).json({
+        success: true,
+        data: versions,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch prompt template versions');
+    }
+  }
+
+  /**
+   * Publish a new version of a platform template or course override
+   */
+  async createVersion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { template, notes, courseId, activate } = req.body ?? {};
+      const version = await promptTemplateService.createVersion(
+        req.params['key'],
+        { template, notes, courseId, activate },
+        this.requester(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: version,
+        message: 'Prompt template version created',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to create prompt template version');
+    }
+  }
+
+  async activateVersion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const version = await promptTemplateService.activateVersion(
+        req.params['key'],
+        req.params['version'],
+        this.requester(req),
+        req.body?.courseId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: version,
+        message: 'Prompt template version activated',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to activate prompt template version');
+    }
+  }
+
+  async clearOverride(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      await promptTemplateService.clearOverride(req.params['key'], req.params['courseId'], this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Course prompt override removed',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to remove course prompt override');
+    }
+  }
+
+  private requester(req: AuthenticatedRequest): CourseRequester {
+    return { userId: req.user!.userId, role: req.user!.role };
+  }
+}
+
+export const promptTemplateController = new PromptTemplateController();
@@ -0,0 +1,281 @@
+import { Request, Response } from 'express';
+import { quizService } from '../services/quizService';
+import { CourseRequester } from '../services/courseService';
+import { UserRole } from '../types';
+import { sendErrorResponse } from '../utils/errors';
+
+interface AuthenticatedRequest extends Request {
+  user?: {
+    userId: string;
+    email: string;
+    role: UserRole;
+  };
+}
+
+export class QuizController {
+  /**
+   * List the course's question bank
+   */
+  async getQuestions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { tag } = req.query;
+      const questions = await quizService.listQuestions(
+        req.params['id']!,
+        this.requester(req),
+        typeof tag === 'string' ? tag : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: questions,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch questions');
+    }
+  }
+
+  /**
+   * Add a question to the bank
+   */
+  async createQuestion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { type, prompt, options, correctAnswer, points, explanation, tags } = req.body;
+      if (!type || !prompt || correctAnswer === undefined) {
+        res.status(400).json({ success: false, message: 'Missing required fields: type, prompt, correctAnswer' });
+        return;
+      }
+
+      const question = await quizService.createQuestion(
+        req.params['id']!,
+        { type, prompt, options, correctAnswer, points, explanation, tags },
+        this.requester(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: question,
+        message: 'Question created successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to create question');
+    }
+  }
+
+  /**
+   * Update a question
+   */
+  async updateQuestion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { type, prompt, options, correctAnswer, points, explanation, tags } = req.body;
+      const question = await quizService.updateQuestion(
+        req.params['id']!,
+        req.params['questionId']!,
+        { type, prompt, options, correctAnswer, points, explanation, tags },
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: question,
+        message: 'Question updated successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to update question');
+    }
+  }
+
+  /**
+   * Retire a question from the bank
+   */
+  async deleteQuestion(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      await quizService.deleteQuestion(req.params['id']!, req.params['questionId']!, this.requester(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Question deleted successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to delete question');
+    }
+  }
+
+  /**
+   * Get a step's quiz settings (and, for students, their attempts)
+   */
+  async getQuiz(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const quiz = await quizService.getQuiz(
+        req.params['id']!,
+        req.params['moduleId']!,
+        req.params['stepId']!,
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: quiz,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch quiz');
+    }
+  }
+
+  /**
+   * Create or update a step's quiz settings
+   */
+  async saveQuiz(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const {
+        questionIds, tags, questionCount, timeLimitMinutes, maxAttempts, passingScore, shuffleOptions, showCorrectAnswers,
+      } = req.body;
+      const quiz = await quizService.saveQuiz(
+        req.params['id']!,
+        req.params['moduleId']!,
+        req.params['stepId']!,
+        { questionIds, tags, questionCount, timeLimitMinutes, maxAttempts, passingScore, shuffleOptions, showCorrectAnswers },
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: quiz,
+        message: 'Quiz saved successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to save quiz');
+    }
+  }
+
+  /**
+   * Start or resume a quiz attempt
+   */
+  async startAttempt(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const attempt = await quizService.startAttempt(
+        req.params['id']!,
+        req.params['moduleId']!,
+        req.params['stepId']!,
+        this.requester(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: attempt,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to start quiz attempt');
+    }
+  }
+
+  /**
+   * Submit answers for grading
+   */
+  async submitAttempt(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const { answers } = req.body;
+      if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+        res.status(400).json({ success: false, message: 'answers must be an object keyed by question ID' });
+        return;
+      }
+
+      const attempt = await quizService.submitAttempt(
+        req.params['id']!,
+        req.params['moduleId']!,
+        req.params['stepId']!,
+        req.params['attemptId']!,
+        answers,
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: attempt,
+        message: attempt.passed ? 'Quiz passed' : 'Quiz submitted',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to submit quiz attempt');
+    }
+  }
+
+  /**
+   * List quiz attempts
+   */
+  async getAttempts(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, message: 'Authentication required' });
+        return;
+      }
+
+      const attempts = await quizService.listAttempts(
+        req.params['id']!,
+        req.params['moduleId']!,
+        req.params['stepId']!,
+        this.requester(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: attempts,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      sendErrorResponse(res, error, 'Failed to fetch quiz attempts');
+    }
+  }
+
+  private requester(req: AuthenticatedRequest): CourseRequester {
+    return { userId: req.user!.userId, role: req.user!.role };
+  }
+}
+
+export const quizController = new QuizController();
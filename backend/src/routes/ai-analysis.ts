@@ -1,28 +1,46 @@
 import { Router } from 'express';
+import fs from 'fs';
+import path from 'path';
+import multer from 'multer';
+import { v4 as uuidv4 } from 'uuid';
 import { authenticateToken } from '../middleware/auth';
 import { uploadRateLimiter } from '../middleware/rateLimiter';
-import { AIAnalysisController } from '../controllers/aiAnalysisController';
-import multer from 'multer';
+import { aiAnalysisController } from '../controllers/aiAnalysisController';
 
 const router = Router();
-const aiAnalysisController = new AIAnalysisController();
 
-// Configure multer for file uploads
+const analysisUploadDir = path.join(__dirname, '../../uploads/ai-analysis');
+fs.mkdirSync(analysisUploadDir, { recursive: true });
+
+// Configure multer for file uploads. Files go to disk because jobs run after the
+// request has finished; the job removes its file once analysis ends.
 const upload = multer({
-  storage: multer.memoryStorage(),
+  storage: multer.diskStorage({
+    destination: analysisUploadDir,
+    filename: (req, file, cb) => {
+      cb(null, `${uuidv4()}${path.extname(file.originalname).toLowerCase()}`);
+    }
+  }),
   limits: {
     fileSize: 50 * 1024 * 1024, // 50MB
   },
   fileFilter: (req, file, cb) => {
-    // Allow images, PDFs, and common document types
+    // Allow images, PDFs, common document types and plain text
     const allowedTypes = [
       'image/jpeg',
       'image/png', 
       'image/webp',
       'image/gif',
+      // Converted to JPEG or PNG before analysis
+      'image/heic',
+      'image/heif',
+      'image/avif',
+      'image/tiff',
       'application/pdf',
       'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'text/plain',
+      'text/markdown'
     ];
     
     if (allowedTypes.includes(file.mimetype)) {
@@ -39,121 +57,43 @@ router.use(uploadRateLimiter);
 
 /**
  * POST /api/ai-analysis/analyze-multi
- * Start multi-AI analysis for uploaded content
+ * Queue multi-AI analysis of an uploaded file (multipart field "file" and "selectedModels").
+ * Responds 202 with the job; follow it via WebSocket progress events or the polling endpoints.
  */
-router.post('/analyze-multi', upload.single('file'), async (req, res) => {
-  try {
-    if (!req.file) {
-      res.status(400).json({ error: 'No file uploaded' });
-      return;
-    }
-
-    let selectedModels = req.body.selectedModels;
-    
-    // Parse selectedModels if it's a string (from FormData)
-    if (typeof selectedModels === 'string') {
-      try {
-        selectedModels = JSON.parse(selectedModels);
-      } catch (e) {
-        res.status(400).json({ error: 'Invalid selectedModels format' });
-        return;
-      }
-    }
-    
-    if (!selectedModels || !Array.isArray(selectedModels) || selectedModels.length === 0) {
-      res.status(400).json({ error: 'No AI models selected' });
-      return;
-    }
+router.post('/analyze-multi', upload.single('file'), (req, res) =>
+  aiAnalysisController.analyzeWithMultipleAI(req as any, res)
+);
 
-    // Add to request body for controller
-    req.body = {
-      selectedModels,
-      fileBuffer: req.file.buffer,
-      fileName: req.file.originalname,
-      fileType: req.file.mimetype
-    };
+/**
+ * GET /api/ai-analysis/models
+ * Models that can be selected for analysis, with their capabilities
+ */
+router.get('/models', (req, res) => aiAnalysisController.listModels(req as any, res));
 
-    await aiAnalysisController.analyzeWithMultipleAI(req as any, res);
-  } catch (error) {
-    console.error('Multi-AI analysis route error:', error);
-    res.status(500).json({ 
-      error: 'Analysis failed',
-      details: error instanceof Error ? error.message : 'Unknown error'
-    });
-  }
-});
+/**
+ * GET /api/ai-analysis/:analysisId
+ * Get an analysis job with its progress and per-model results
+ */
+router.get('/:analysisId', (req, res) => aiAnalysisController.getAnalysis(req as any, res));
 
 /**
  * GET /api/ai-analysis/:analysisId/progress
- * Get analysis progress for a specific analysis
+ * Get per-model progress for an analysis job
  */
-router.get('/:analysisId/progress', (req, res) => {
-  try {
-    const { analysisId } = req.params;
-    
-    if (!analysisId) {
-      res.status(400).json({ error: 'Analysis ID is required' });
-      return;
-    }
-
-    // For now, return a simple progress response
-    res.json({
-      analysisId,
-      status: 'completed',
-      overallProgress: 100,
-      modelProgress: {}
-    });
-  } catch (error) {
-    console.error('Error getting analysis progress:', error);
-    res.status(500).json({ error: 'Failed to get progress' });
-  }
-});
+router.get('/:analysisId/progress', (req, res) => aiAnalysisController.getProgress(req as any, res));
 
 /**
  * GET /api/ai-analysis/:analysisId/consolidated
- * Get consolidated insights for completed analysis
+ * Get consolidated insights (shared findings and disagreements) for a finished analysis
  */
-router.get('/:analysisId/consolidated', (req, res) => {
-  try {
-    const { analysisId } = req.params;
-    
-    if (!analysisId) {
-      res.status(400).json({ error: 'Analysis ID is required' });
-      return;
-    }
-
-    // For now, return a simple consolidated response
-    res.json({
-      summary: 'Analysis completed successfully',
-      commonFindings: [],
-      conflictingAnalyses: [],
-      confidenceScore: 0.85,
-      recommendedActions: []
-    });
-  } catch (error) {
-    console.error('Error getting consolidated insights:', error);
-    res.status(500).json({ error: 'Failed to get insights' });
-  }
-});
+router.get('/:analysisId/consolidated', (req, res) =>
+  aiAnalysisController.getConsolidatedInsights(req as any, res)
+);
 
 /**
  * POST /api/ai-analysis/:analysisId/cancel
- * Cancel an ongoing analysis
+ * Cancel a queued or running analysis
  */
-router.post('/:analysisId/cancel', (req, res) => {
-  try {
-    const { analysisId } = req.params;
-    
-    if (!analysisId) {
-      res.status(400).json({ error: 'Analysis ID is required' });
-      return;
-    }
-
-    res.json({ message: 'Analysis cancelled', analysisId });
-  } catch (error) {
-    console.error('Error cancelling analysis:', error);
-    res.status(500).json({ error: 'Failed to cancel analysis' });
-  }
-});
+router.post('/:analysisId/cancel', (req, res) => aiAnalysisController.cancelAnalysis(req as any, res));
 
 export default router;
@@ -6,21 +6,24 @@
  */
 
 import { Router } from 'express';
+import { authenticateToken, requireAdmin } from '../middleware/auth';
 import {
   analyzeContent,
   getServiceHealth,
   getServiceMetrics,
   getEnabledServices,
   updateConfiguration,
-  compareServices
+  compareServices,
+  purgeCache,
+  getOutputMetrics
 } from '../controllers/aiModelsController';
 
 const router = Router();
 
 // Note: Authentication middleware will be applied at the app level or per route as needed
 
-// POST /api/ai-models/analyze - Analyze content using AI services
-router.post('/analyze', analyzeContent);
+// POST /api/ai-models/analyze - Analyze content using AI services (billed to the user and courseId, which defaults to their enrolled course)
+router.post('/analyze', authenticateToken as any, analyzeContent);
 
 // GET /api/ai-models/health - Get health status of all services
 router.get('/health', getServiceHealth);
@@ -32,13 +35,19 @@ router.get('/metrics', getServiceMetrics);
 // GET /api/ai-models/metrics/:serviceType - Get metrics for specific service
 router.get('/metrics/:serviceType', getServiceMetrics);
 
+// GET /api/ai-models/output-metrics - Structured output validation failure rates per model (query: model)
+router.get('/output-metrics', getOutputMetrics);
+
 // GET /api/ai-models/services - Get list of enabled services
 router.get('/services', getEnabledServices);
 
 // PUT /api/ai-models/config - Update AI service configuration
 router.put('/config', updateConfiguration);
 
-// POST /api/ai-models/compare - Compare analysis results from multiple services
-router.post('/compare', compareServices);
+// POST /api/ai-models/compare - Compare analysis results from multiple services (body: requireConsensus, confidenceThreshold 0-1)
+router.post('/compare', authenticateToken as any, compareServices);
+
+// DELETE /api/ai-models/cache - Purge cached AI results (admin; query: model, contentHash, expired=true)
+router.delete('/cache', authenticateToken as any, requireAdmin as any, purgeCache);
 
 export default router;
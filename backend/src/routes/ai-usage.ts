@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { aiUsageController } from '../controllers/aiUsageController';
+
+const router = Router();
+
+// All AI usage routes require authentication
+router.use(authenticateToken as any);
+
+/**
+ * @route GET /api/ai-usage/me?courseId=
+ * @desc The requester's AI budgets with the amount spent this period
+ * @access Private
+ */
+router.get('/me', (req, res) => aiUsageController.getMyBudgets(req as any, res));
+
+/**
+ * @route GET /api/ai-usage/budgets
+ * @desc List AI budgets the requester manages
+ * @access Private (Admins, professors)
+ */
+router.get('/budgets', (req, res) => aiUsageController.listBudgets(req as any, res));
+
+/**
+ * @route PUT /api/ai-usage/budgets
+ * @desc Set a daily or monthly budget. Body: { scope: USER | COURSE | ROLE, scopeId, period: DAILY | MONTHLY,
+ *       limitUsd, action?: REJECT | DOWNGRADE }
+ * @access Private (Admins; professors for their courses and students)
+ */
+router.put('/budgets', (req, res) => aiUsageController.setBudget(req as any, res));
+
+/**
+ * @route DELETE /api/ai-usage/budgets/:id
+ * @desc Remove a budget
+ * @access Private (Admins; professors for their courses and students)
+ */
+router.delete('/budgets/:id', (req, res) => aiUsageController.deleteBudget(req as any, res));
+
+export default router;
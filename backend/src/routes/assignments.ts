@@ -1,28 +1,134 @@
 import { Router } from 'express';
-import { authenticateToken } from '../middleware/auth';
+import fs from 'fs';
+import path from 'path';
+import multer from 'multer';
+import { v4 as uuidv4 } from 'uuid';
+import { authenticateToken, requireProfessorOrAdmin } from '../middleware/auth';
+import { uploadRateLimiter } from '../middleware/rateLimiter';
+import { assignmentController } from '../controllers/assignmentController';
 
 const router = Router();
 
+const submissionUploadDir = path.join(__dirname, '../../uploads/submissions');
+fs.mkdirSync(submissionUploadDir, { recursive: true });
+
+// Configure multer for submission uploads. Per-assignment file types and sizes are
+// enforced by the submission service; this is only the hard upper bound.
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: submissionUploadDir,
+    filename: (req, file, cb) => {
+      cb(null, `${uuidv4()}${path.extname(file.originalname).toLowerCase()}`);
+    }
+  }),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB
+    files: 10
+  }
+});
+
 // All assignment routes require authentication
 router.use(authenticateToken as any);
 
-// Get assignments
-router.get('/', (req, res) => {
-  res.status(200).json({
-    success: true,
-    message: 'Get assignments endpoint - to be implemented',
-    data: [],
-    timestamp: new Date().toISOString()
-  });
-});
+/**
+ * @route GET /api/assignments
+ * @desc List assignments visible to the user (optionally ?courseId=)
+ * @access Private
+ */
+router.get('/', (req, res) => assignmentController.getAssignments(req as any, res));
 
-// Submit assignment
-router.post('/:id/submit', (req, res) => {
-  res.status(501).json({
-    success: false,
-    message: 'Submit assignment endpoint - to be implemented',
-    timestamp: new Date().toISOString()
-  });
-});
+/**
+ * @route GET /api/assignments/:id
+ * @desc Get an assignment with the current user's submissions
+ * @access Private (Course staff, enrolled students)
+ */
+router.get('/:id', (req, res) => assignmentController.getAssignment(req as any, res));
+
+/**
+ * @route GET /api/assignments/:id/submissions
+ * @desc List submissions (all students for course staff, own attempts for students)
+ * @access Private
+ */
+router.get('/:id/submissions', (req, res) => assignmentController.getSubmissions(req as any, res));
+
+/**
+ * @route POST /api/assignments/:id/draft
+ * @desc Upload files (multipart field "files") into the current DRAFT submission
+ * @access Private (Enrolled students)
+ */
+router.post('/:id/draft', uploadRateLimiter, upload.array('files'), (req, res) =>
+  assignmentController.saveDraft(req as any, res)
+);
+
+/**
+ * @route DELETE /api/assignments/:id/submissions/:submissionId/files/:fileId
+ * @desc Remove a file from a DRAFT submission
+ * @access Private (Submission owner)
+ */
+router.delete('/:id/submissions/:submissionId/files/:fileId', (req, res) =>
+  assignmentController.removeDraftFile(req as any, res)
+);
+
+/**
+ * @route POST /api/assignments/:id/submit
+ * @desc Submit the current draft (optionally uploading more files), moving it to SUBMITTED
+ * @access Private (Enrolled students)
+ */
+router.post('/:id/submit', uploadRateLimiter, upload.array('files'), (req, res) =>
+  assignmentController.submit(req as any, res)
+);
+
+/**
+ * @route GET /api/assignments/:id/rubric
+ * @desc Get the assignment's grading rubric
+ * @access Private (Course staff, enrolled students)
+ */
+router.get('/:id/rubric', (req, res) => assignmentController.getRubric(req as any, res));
+
+/**
+ * @route PUT /api/assignments/:id/rubric
+ * @desc Create or replace the grading rubric ({ name, description?, criteria: [{ name, maxPoints, levels }] })
+ * @access Private (Course staff)
+ */
+router.put('/:id/rubric', requireProfessorOrAdmin as any, (req, res) =>
+  assignmentController.saveRubric(req as any, res)
+);
+
+/**
+ * @route DELETE /api/assignments/:id/rubric
+ * @desc Delete the grading rubric (only before any submission is graded)
+ * @access Private (Course staff)
+ */
+router.delete('/:id/rubric', requireProfessorOrAdmin as any, (req, res) =>
+  assignmentController.deleteRubric(req as any, res)
+);
+
+/**
+ * @route POST /api/assignments/:id/submissions/:submissionId/grade
+ * @desc Grade a submission with one rubric level per criterion ({ rubricScores, feedback?, returnToStudent? });
+ *       regrading a returned submission keeps it returned
+ * @access Private (Course staff)
+ */
+router.post('/:id/submissions/:submissionId/grade', requireProfessorOrAdmin as any, (req, res) =>
+  assignmentController.gradeSubmission(req as any, res)
+);
+
+/**
+ * @route POST /api/assignments/:id/submissions/:submissionId/return
+ * @desc Release a GRADED submission to the student (RETURNED) and notify them
+ * @access Private (Course staff)
+ */
+router.post('/:id/submissions/:submissionId/return', requireProfessorOrAdmin as any, (req, res) =>
+  assignmentController.returnSubmission(req as any, res)
+);
+
+/**
+ * @route POST /api/assignments/:id/submissions/:submissionId/cnn-analysis
+ * @desc Re-run CNN analysis of the submission's images (results land in cnnAnalysisResults)
+ * @access Private (Course staff)
+ */
+router.post('/:id/submissions/:submissionId/cnn-analysis', requireProfessorOrAdmin as any, (req, res) =>
+  assignmentController.reanalyzeSubmission(req as any, res)
+);
 
 export default router;
@@ -1,32 +1,102 @@
 import { Router } from 'express';
+import fs from 'fs';
+import path from 'path';
+import multer from 'multer';
+import { v4 as uuidv4 } from 'uuid';
 import { authenticateToken } from '../middleware/auth';
 import { analyticsMiddleware } from '../middleware/analytics';
+import { uploadRateLimiter } from '../middleware/rateLimiter';
+import { cnnController } from '../controllers/cnnController';
 
 const router = Router();
 
+const cnnUploadDir = path.join(__dirname, '../../uploads/cnn');
+fs.mkdirSync(cnnUploadDir, { recursive: true });
+
+// Uploaded images are kept alongside their CNNAnalysis record; the service
+// rejects anything that is not an image and removes it again.
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: cnnUploadDir,
+    filename: (req, file, cb) => {
+      cb(null, `${uuidv4()}${path.extname(file.originalname).toLowerCase()}`);
+    }
+  }),
+  limits: {
+    fileSize: 20 * 1024 * 1024, // 20MB
+    files: 1
+  }
+});
+
 // All CNN routes require authentication
 router.use(authenticateToken as any);
 
 // CNN-specific analytics tracking
 router.use(analyticsMiddleware.trackCNNAnalysis);
 
-// Analyze uploaded content
-router.post('/analyze', (req, res) => {
-  res.status(501).json({
-    success: false,
-    message: 'CNN analysis endpoint - to be implemented',
-    timestamp: new Date().toISOString()
-  });
-});
+/**
+ * @route POST /api/cnn/analyze
+ * @desc Run image classification and object detection on an uploaded image (multipart field "file")
+ * @access Private
+ */
+router.post('/analyze', uploadRateLimiter, upload.single('file'), (req, res) =>
+  cnnController.analyze(req as any, res)
+);
 
-// Get analysis results
-router.get('/analysis/:id', (req, res) => {
-  res.status(200).json({
-    success: true,
-    message: 'Get CNN analysis endpoint - to be implemented',
-    data: null,
-    timestamp: new Date().toISOString()
-  });
-});
+/**
+ * @route GET /api/cnn/analysis/:id
+ * @desc Get a stored CNN analysis
+ * @access Private (Owner, course staff for submissions, admins)
+ */
+router.get('/analysis/:id', (req, res) => cnnController.getAnalysis(req as any, res));
+
+/**
+ * @route POST /api/cnn/analysis/:id/enrich
+ * @desc Explain what a stored analysis detected again from the knowledge base, e.g. after a glossary import
+ * @access Private (Owner, course staff for submissions, admins)
+ */
+router.post('/analysis/:id/enrich', (req, res) => cnnController.enrichAnalysis(req as any, res));
+
+/**
+ * @route POST /api/cnn/analysis/:id/annotations
+ * @desc Turn the object detections of an analysis into editable image annotations (once per analysis)
+ * @access Private (Owner, course staff for submissions, admins)
+ */
+router.post('/analysis/:id/annotations', (req, res) => cnnController.annotateDetections(req as any, res));
+
+/**
+ * @route POST /api/cnn/analysis/:id/detections
+ * @desc Add an object the model missed: { label, boundingBox: { x, y, width, height } } in image pixels
+ * @access Private (Course staff for submissions, owner for uploads, admins)
+ */
+router.post('/analysis/:id/detections', (req, res) => cnnController.addMissedDetection(req as any, res));
+
+/**
+ * @route PUT /api/cnn/analysis/:id/detections/:annotationId
+ * @desc Correct the label of a detection: { label }
+ * @access Private (Course staff for submissions, owner for uploads, admins)
+ */
+router.put('/analysis/:id/detections/:annotationId', (req, res) => cnnController.relabelDetection(req as any, res));
+
+/**
+ * @route DELETE /api/cnn/analysis/:id/detections/:annotationId
+ * @desc Delete a detection; model detections are recorded as false positives
+ * @access Private (Course staff for submissions, owner for uploads, admins)
+ */
+router.delete('/analysis/:id/detections/:annotationId', (req, res) => cnnController.removeDetection(req as any, res));
+
+/**
+ * @route GET /api/cnn/detection-feedback
+ * @desc List detection corrections, oldest first (?status=PENDING|ACCEPTED|REJECTED, default PENDING; ?analysisId; ?page)
+ * @access Private (Admin only)
+ */
+router.get('/detection-feedback', (req, res) => cnnController.listDetectionFeedback(req as any, res));
+
+/**
+ * @route PUT /api/cnn/detection-feedback/:id/review
+ * @desc Accept or reject a detection correction: { status: ACCEPTED | REJECTED, notes? }
+ * @access Private (Admin only)
+ */
+router.put('/detection-feedback/:id/review', (req, res) => cnnController.reviewDetectionFeedback(req as any, res));
 
 export default router;
@@ -1,38 +1,281 @@
 import { Router } from 'express';
-import { authenticateToken } from '../middleware/auth';
+import multer from 'multer';
+import { authenticateToken, requireProfessorOrAdmin } from '../middleware/auth';
+import { courseController } from '../controllers/courseController';
+import { courseContentController } from '../controllers/courseContentController';
+import { progressController } from '../controllers/progressController';
+import { quizController } from '../controllers/quizController';
+import { gradebookController } from '../controllers/gradebookController';
 
 const router = Router();
 
+// Gradebook imports are parsed in memory, never written to disk
+const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB
+    files: 1
+  }
+});
+
 // All course routes require authentication
 router.use(authenticateToken as any);
 
-// Get all courses
-router.get('/', (req, res) => {
-  res.status(200).json({
-    success: true,
-    message: 'Get courses endpoint - to be implemented',
-    data: [],
-    timestamp: new Date().toISOString()
-  });
-});
+/**
+ * @route GET /api/courses
+ * @desc List courses with filtering (difficulty, isPublic, isActive, ownerId, search) and pagination
+ * @access Private
+ */
+router.get('/', (req, res) => courseController.getCourses(req as any, res));
 
-// Get course by ID
-router.get('/:id', (req, res) => {
-  res.status(200).json({
-    success: true,
-    message: 'Get course by ID endpoint - to be implemented',
-    data: null,
-    timestamp: new Date().toISOString()
-  });
-});
+/**
+ * @route GET /api/courses/user
+ * @desc Get courses the current user owns or is enrolled in
+ * @access Private
+ */
+router.get('/user', (req, res) => courseController.getUserCourses(req as any, res));
 
-// Create course
-router.post('/', (req, res) => {
-  res.status(501).json({
-    success: false,
-    message: 'Create course endpoint - to be implemented',
-    timestamp: new Date().toISOString()
-  });
-});
+/**
+ * @route GET /api/courses/progress
+ * @desc Progress for each of the current user's enrolled courses (dashboard cards)
+ * @access Private
+ */
+router.get('/progress', (req, res) => progressController.getDashboardProgress(req as any, res));
+
+/**
+ * @route POST /api/courses
+ * @desc Create a course
+ * @access Private (Professor/Admin only)
+ */
+router.post('/', requireProfessorOrAdmin as any, (req, res) => courseController.createCourse(req as any, res));
+
+/**
+ * @route GET /api/courses/:id
+ * @desc Get course by ID with modules and steps
+ * @access Private (Public courses, enrolled students, owner, admin)
+ */
+router.get('/:id', (req, res) => courseController.getCourse(req as any, res));
+
+/**
+ * @route PUT /api/courses/:id
+ * @desc Update a course
+ * @access Private (Owner/Admin only)
+ */
+router.put('/:id', (req, res) => courseController.updateCourse(req as any, res));
+
+/**
+ * @route DELETE /api/courses/:id
+ * @desc Archive a course
+ * @access Private (Owner/Admin only)
+ */
+router.delete('/:id', (req, res) => courseController.deleteCourse(req as any, res));
+
+/**
+ * @route GET /api/courses/:id/enrollments
+ * @desc List active students of a course
+ * @access Private (Owner/Admin only)
+ */
+router.get('/:id/enrollments', (req, res) => courseController.getEnrollments(req as any, res));
+
+/**
+ * @route POST /api/courses/:id/enroll
+ * @desc Enroll the current user in a course
+ * @access Private
+ */
+router.post('/:id/enroll', (req, res) => courseController.enroll(req as any, res));
+
+/**
+ * @route DELETE /api/courses/:id/enroll
+ * @desc Unenroll the current user from a course
+ * @access Private
+ */
+router.delete('/:id/enroll', (req, res) => courseController.unenroll(req as any, res));
+
+/**
+ * @route DELETE /api/courses/:id/enrollments/:studentId
+ * @desc Remove a student from a course
+ * @access Private (Owner/Admin only)
+ */
+router.delete('/:id/enrollments/:studentId', (req, res) => courseController.unenroll(req as any, res));
+
+/**
+ * @route GET /api/courses/:id/modules
+ * @desc List course modules with their steps in order, with per-student lock state and reason
+ * @access Private (Public courses, enrolled students, owner, admin)
+ */
+router.get('/:id/modules', (req, res) => courseContentController.getModules(req as any, res));
+
+/**
+ * @route POST /api/courses/:id/modules
+ * @desc Append a module to the course
+ * @access Private (Owner/Admin only)
+ */
+router.post('/:id/modules', (req, res) => courseContentController.createModule(req as any, res));
+
+/**
+ * @route PUT /api/courses/:id/modules/reorder
+ * @desc Atomically reorder all modules of the course
+ * @access Private (Owner/Admin only)
+ */
+router.put('/:id/modules/reorder', (req, res) => courseContentController.reorderModules(req as any, res));
+
+/**
+ * @route PUT /api/courses/:id/modules/:moduleId
+ * @desc Update a module
+ * @access Private (Owner/Admin only)
+ */
+router.put('/:id/modules/:moduleId', (req, res) => courseContentController.updateModule(req as any, res));
+
+/**
+ * @route DELETE /api/courses/:id/modules/:moduleId
+ * @desc Delete a module and its steps
+ * @access Private (Owner/Admin only)
+ */
+router.delete('/:id/modules/:moduleId', (req, res) => courseContentController.deleteModule(req as any, res));
+
+/**
+ * @route POST /api/courses/:id/modules/:moduleId/steps
+ * @desc Append a step to a module
+ * @access Private (Owner/Admin only)
+ */
+router.post('/:id/modules/:moduleId/steps', (req, res) => courseContentController.createStep(req as any, res));
+
+/**
+ * @route PUT /api/courses/:id/modules/:moduleId/steps/reorder
+ * @desc Atomically reorder all steps of a module
+ * @access Private (Owner/Admin only)
+ */
+router.put('/:id/modules/:moduleId/steps/reorder', (req, res) => courseContentController.reorderSteps(req as any, res));
+
+/**
+ * @route GET /api/courses/:id/modules/:moduleId/steps/:stepId
+ * @desc Get a step (rejected while its module is locked for the student)
+ * @access Private (Enrolled students, course staff)
+ */
+router.get('/:id/modules/:moduleId/steps/:stepId', (req, res) => courseContentController.getStep(req as any, res));
+
+/**
+ * @route PUT /api/courses/:id/modules/:moduleId/steps/:stepId
+ * @desc Update a step
+ * @access Private (Owner/Admin only)
+ */
+router.put('/:id/modules/:moduleId/steps/:stepId', (req, res) => courseContentController.updateStep(req as any, res));
+
+/**
+ * @route DELETE /api/courses/:id/modules/:moduleId/steps/:stepId
+ * @desc Delete a step
+ * @access Private (Owner/Admin only)
+ */
+router.delete('/:id/modules/:moduleId/steps/:stepId', (req, res) => courseContentController.deleteStep(req as any, res));
+
+/**
+ * @route GET /api/courses/:id/progress
+ * @desc Step completion and progress in a course (course staff may pass ?studentId=)
+ * @access Private (Enrolled students, course staff)
+ */
+router.get('/:id/progress', (req, res) => progressController.getCourseProgress(req as any, res));
+
+/**
+ * @route POST /api/courses/:id/modules/:moduleId/steps/:stepId/complete
+ * @desc Mark a step complete (steps linked to an assignment complete on submission)
+ * @access Private (Enrolled students)
+ */
+router.post('/:id/modules/:moduleId/steps/:stepId/complete', (req, res) =>
+  progressController.completeStep(req as any, res)
+);
+
+/**
+ * @route DELETE /api/courses/:id/modules/:moduleId/steps/:stepId/complete
+ * @desc Undo a manual step completion
+ * @access Private (Enrolled students)
+ */
+router.delete('/:id/modules/:moduleId/steps/:stepId/complete', (req, res) =>
+  progressController.uncompleteStep(req as any, res)
+);
+
+/**
+ * @route GET /api/courses/:id/questions
+ * @desc List the course's quiz question bank (optionally ?tag=)
+ * @access Private (Owner/Admin only)
+ */
+router.get('/:id/questions', (req, res) => quizController.getQuestions(req as any, res));
+
+/**
+ * @route POST /api/courses/:id/questions
+ * @desc Add a question to the bank
+ * @access Private (Owner/Admin only)
+ */
+router.post('/:id/questions', (req, res) => quizController.createQuestion(req as any, res));
+
+/**
+ * @route PUT /api/courses/:id/questions/:questionId
+ * @desc Update a question
+ * @access Private (Owner/Admin only)
+ */
+router.put('/:id/questions/:questionId', (req, res) => quizController.updateQuestion(req as any, res));
+
+/**
+ * @route DELETE /api/courses/:id/questions/:questionId
+ * @desc Retire a question from the bank
+ * @access Private (Owner/Admin only)
+ */
+router.delete('/:id/questions/:questionId', (req, res) => quizController.deleteQuestion(req as any, res));
+
+/**
+ * @route GET /api/courses/:id/modules/:moduleId/steps/:stepId/quiz
+ * @desc Get a QUIZ step's settings; students also get their attempts and remaining attempts
+ * @access Private (Enrolled students, course staff)
+ */
+router.get('/:id/modules/:moduleId/steps/:stepId/quiz', (req, res) => quizController.getQuiz(req as any, res));
+
+/**
+ * @route PUT /api/courses/:id/modules/:moduleId/steps/:stepId/quiz
+ * @desc Create or update a QUIZ step's settings (question pool, draw size, time and attempt limits)
+ * @access Private (Owner/Admin only)
+ */
+router.put('/:id/modules/:moduleId/steps/:stepId/quiz', (req, res) => quizController.saveQuiz(req as any, res));
+
+/**
+ * @route GET /api/courses/:id/modules/:moduleId/steps/:stepId/quiz/attempts
+ * @desc List attempts (all students for course staff, own attempts for students)
+ * @access Private
+ */
+router.get('/:id/modules/:moduleId/steps/:stepId/quiz/attempts', (req, res) =>
+  quizController.getAttempts(req as any, res)
+);
+
+/**
+ * @route POST /api/courses/:id/modules/:moduleId/steps/:stepId/quiz/attempts
+ * @desc Start a new attempt with freshly drawn questions, or resume the open one
+ * @access Private (Enrolled students)
+ */
+router.post('/:id/modules/:moduleId/steps/:stepId/quiz/attempts', (req, res) =>
+  quizController.startAttempt(req as any, res)
+);
+
+/**
+ * @route POST /api/courses/:id/modules/:moduleId/steps/:stepId/quiz/attempts/:attemptId/submit
+ * @desc Submit answers ({ answers: { [questionId]: answer } }) for auto-grading
+ * @access Private (Attempt owner)
+ */
+router.post('/:id/modules/:moduleId/steps/:stepId/quiz/attempts/:attemptId/submit', (req, res) =>
+  quizController.submitAttempt(req as any, res)
+);
+
+/**
+ * @route GET /api/courses/:id/gradebook
+ * @desc Every enrolled student against every assignment (latest graded attempt, late flags, penalties); ?format=csv downloads it
+ * @access Private (Owner/Admin only)
+ */
+router.get('/:id/gradebook', (req, res) => gradebookController.getGradebook(req as any, res));
+
+/**
+ * @route POST /api/courses/:id/gradebook/import
+ * @desc Import edited grades from a gradebook CSV (multipart field "file" or { csv }); ?dryRun=true only validates
+ * @access Private (Owner/Admin only)
+ */
+router.post('/:id/gradebook/import', csvUpload.single('file'), (req, res) =>
+  gradebookController.importGrades(req as any, res)
+);
 
 export default router;
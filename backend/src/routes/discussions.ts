@@ -1,28 +1,73 @@
 import { Router } from 'express';
 import { authenticateToken } from '../middleware/auth';
+import { discussionController } from '../controllers/discussionController';
 
 const router = Router();
 
 // All discussion routes require authentication
 router.use(authenticateToken as any);
 
-// Get discussions
-router.get('/', (req, res) => {
-  res.status(200).json({
-    success: true,
-    message: 'Get discussions endpoint - to be implemented',
-    data: [],
-    timestamp: new Date().toISOString()
-  });
-});
-
-// Create discussion
-router.post('/', (req, res) => {
-  res.status(501).json({
-    success: false,
-    message: 'Create discussion endpoint - to be implemented',
-    timestamp: new Date().toISOString()
-  });
-});
+/**
+ * @route GET /api/discussions
+ * @desc List discussions (courseId, tag/tags, search) with pagination, pinned first
+ * @access Private
+ */
+router.get('/', (req, res) => discussionController.getDiscussions(req as any, res));
+
+/**
+ * @route POST /api/discussions
+ * @desc Start a discussion in a course (courseId) or the general forum
+ * @access Private
+ */
+router.post('/', (req, res) => discussionController.createDiscussion(req as any, res));
+
+/**
+ * @route GET /api/discussions/:id
+ * @desc Get a discussion with its replies (counts one view per user per day)
+ * @access Private
+ */
+router.get('/:id', (req, res) => discussionController.getDiscussion(req as any, res));
+
+/**
+ * @route PUT /api/discussions/:id
+ * @desc Edit a discussion
+ * @access Private (Author or moderator)
+ */
+router.put('/:id', (req, res) => discussionController.updateDiscussion(req as any, res));
+
+/**
+ * @route DELETE /api/discussions/:id
+ * @desc Delete a discussion and its replies
+ * @access Private (Author or moderator)
+ */
+router.delete('/:id', (req, res) => discussionController.deleteDiscussion(req as any, res));
+
+/**
+ * @route PUT /api/discussions/:id/pin
+ * @desc Pin or unpin a discussion
+ * @access Private (Course instructor or moderator)
+ */
+router.put('/:id/pin', (req, res) => discussionController.setPinned(req as any, res));
+
+/**
+ * @route PUT /api/discussions/:id/lock
+ * @desc Lock or unlock a discussion for replies
+ * @access Private (Course instructor or moderator)
+ */
+router.put('/:id/lock', (req, res) => discussionController.setLocked(req as any, res));
+
+/**
+ * @route POST /api/discussions/:id/replies
+ * @desc Reply to a discussion
+ * @access Private
+ */
+router.post('/:id/replies', (req, res) => discussionController.createReply(req as any, res));
+
+/**
+ * @route DELETE /api/discussions/:id/replies/:replyId
+ * @desc Delete a reply
+ * @access Private (Author or moderator)
+ */
+router.delete('/:id/replies/:replyId', (req, res) => discussionController.deleteReply(req as any, res));
 
 export default router;
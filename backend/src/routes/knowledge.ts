@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { authenticateToken } from '../middleware/auth';
+import { knowledgeController } from '../controllers/knowledgeController';
+
+const router = Router();
+
+// Dumps are parsed in memory and not kept
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB
+    files: 1
+  }
+});
+
+// All knowledge base routes require authentication
+router.use(authenticateToken as any);
+
+/**
+ * @route GET /api/knowledge?courseId=&source=&q=&page=
+ * @desc Entries of the platform knowledge base, or of a course glossary
+ * @access Private (Admins; professors for their courses)
+ */
+router.get('/', (req, res) => knowledgeController.listEntries(req as any, res));
+
+/**
+ * @route POST /api/knowledge/import
+ * @desc Import entries, as a JSON array or JSON Lines file (multipart field "file") or an entries array.
+ *       Body: { source: "wikipedia" | "glossary", courseId?, replace? }
+ * @access Private (Admins for the platform knowledge base; professors for their course glossaries)
+ */
+router.post('/import', upload.single('file'), (req, res) => knowledgeController.importEntries(req as any, res));
+
+/**
+ * @route DELETE /api/knowledge/:id
+ * @desc Delete a knowledge entry
+ * @access Private (Admins for the platform knowledge base; professors for their course glossaries)
+ */
+router.delete('/:id', (req, res) => knowledgeController.deleteEntry(req as any, res));
+
+export default router;
@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { promptTemplateController } from '../controllers/promptTemplateController';
+
+const router = Router();
+
+// All prompt template routes require authentication
+router.use(authenticateToken as any);
+
+/**
+ * @route GET /api/prompt-templates?courseId=
+ * @desc AI tasks with their variables and the template version in effect (for a course when given)
+ * @access Private (Admins; professors for their courses)
+ */
+router.get('/', (req, res) => promptTemplateController.listTemplates(req as any, res));
+
+/**
+ * @route GET /api/prompt-templates/:key/versions?courseId=
+ * @desc Versions of a task's platform template, or of a course's override, newest first
+ * @access Private (Admins; professors for their courses)
+ */
+router.get('/:key/versions', (req, res) => promptTemplateController.listVersions(req as any, res));
+
+/**
+ * @route POST /api/prompt-templates/:key/versions
+ * @desc Add a template version using {{variable}} placeholders. Body: { template, notes?, courseId?, activate? }
+ * @access Private (Admins for platform templates; professors for their courses)
+ */
+router.post('/:key/versions', (req, res) => promptTemplateController.createVersion(req as any, res));
+
+/**
+ * @route PUT /api/prompt-templates/:key/versions/:version/activate
+ * @desc Put a template version in use. Body: { courseId? }
+ * @access Private (Admins for platform templates; professors for their courses)
+ */
+router.put('/:key/versions/:version/activate', (req, res) => promptTemplateController.activateVersion(req as any, res));
+
+/**
+ * @route DELETE /api/prompt-templates/:key/courses/:courseId
+ * @desc Stop overriding a task's template for a course
+ * @access Private (Admins; professors for their courses)
+ */
+router.delete('/:key/courses/:courseId', (req, res) => promptTemplateController.clearOverride(req as any, res));
+
+export default router;
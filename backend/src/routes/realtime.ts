@@ -5,6 +5,8 @@
 
 import { Router, Request, Response } from 'express';
 import { authenticateToken } from '../middleware/auth';
+import { aiAnalysisJobService } from '../services/aiAnalysisJobService';
+import { sendErrorResponse } from '../utils/errors';
 
 const router = Router();
 
@@ -74,22 +76,22 @@ router.get('/notifications/:userId', async (req: Request, res: Response): Promis
  */
 router.get('/progress/:analysisId', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { analysisId } = req.params;
-    
-    // TODO: Implement progress polling using Prisma and AI service integration
-    // For now, return mock data structure
-    const progress = {
-      analysisId,
-      status: 'in_progress',
-      progress: 45,
-      estimatedTimeRemaining: 120, // seconds
-      lastUpdated: new Date().toISOString()
-    };
-    
-    res.json(progress);
+    const user = (req as any).user;
+    const job = await aiAnalysisJobService.getJob(req.params['analysisId']!, {
+      userId: user.userId,
+      role: user.role
+    });
+
+    res.json({
+      analysisId: job.analysisId,
+      status: job.status,
+      progress: job.overallProgress,
+      modelProgress: job.modelProgress,
+      isFinished: job.isFinished,
+      lastUpdated: job.updatedAt.toISOString()
+    });
   } catch (error) {
-    console.error('Error fetching progress:', error);
-    res.status(500).json({ error: 'Failed to fetch progress' });
+    sendErrorResponse(res, error, 'Failed to fetch progress');
   }
 });
 
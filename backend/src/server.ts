@@ -19,6 +19,8 @@ import { connectDatabase } from './config/database';
 // Import WebSocket server
 import { WebSocketServer } from './websocket/WebSocketServer';
 import { webSocketService } from './services/WebSocketService';
+import { aiAnalysisJobService } from './services/aiAnalysisJobService';
+import { cnnAnalysisService } from './services/cnnAnalysisService';
 
 // Import routes
 import authRoutes from './routes/auth';
@@ -29,6 +31,9 @@ import cnnRoutes from './routes/cnn';
 import discussionRoutes from './routes/discussions';
 import aiModelsRoutes from './routes/ai-models';
 import aiAnalysisRoutes from './routes/ai-analysis';
+import aiUsageRoutes from './routes/ai-usage';
+import promptTemplateRoutes from './routes/prompt-templates';
+import knowledgeRoutes from './routes/knowledge';
 import realtimeRoutes from './routes/realtime';
 import analyticsRoutes from './routes/analytics';
 import annotationRoutes from './routes/annotations';
@@ -125,6 +130,9 @@ app.use('/api/cnn', cnnRoutes);
 app.use('/api/discussions', discussionRoutes);
 app.use('/api/ai-models', aiModelsRoutes);
 app.use('/api/ai-analysis', aiAnalysisRoutes);
+app.use('/api/ai-usage', aiUsageRoutes);
+app.use('/api/prompt-templates', promptTemplateRoutes);
+app.use('/api/knowledge', knowledgeRoutes);
 app.use('/api/realtime', realtimeRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/annotations', annotationRoutes);
@@ -146,6 +154,10 @@ const startServer = async () => {
       console.log('🔗 Connecting to database...');
       await connectDatabase();
       console.log('✅ Database connection successful');
+
+      // Pick up analysis jobs interrupted by the last shutdown
+      await aiAnalysisJobService.resumePendingJobs();
+      await cnnAnalysisService.resumePendingAnalyses();
     } catch (dbError) {
       console.warn('⚠️ Database connection failed, continuing in development mode:', dbError instanceof Error ? dbError.message : 'Unknown error');
       console.log('🔧 Server will use fallback authentication for development');
@@ -158,6 +170,10 @@ const startServer = async () => {
     const ioInstance = wsServer.getIO();
     if (ioInstance) {
       webSocketService.setIO(ioInstance);
+      const eventBroadcaster = wsServer.getEventBroadcaster();
+      if (eventBroadcaster) {
+        webSocketService.setEventBroadcaster(eventBroadcaster);
+      }
       console.log('🔗 WebSocket service initialized successfully');
     }
     
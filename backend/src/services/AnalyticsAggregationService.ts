@@ -72,6 +72,10 @@ interface AIModelUsageData {
   totalRequests: number;
   errorRate: number;
   costPerRequest?: number;
+  totalCost: number;
+  providerCalls: number;
+  inputTokens: number;
+  outputTokens: number;
   timestamp: Date;
 }
 
@@ -200,66 +204,99 @@ export class AnalyticsAggregationService {
     try {
       console.log('🔄 Generating fresh progress data');
 
-      // Get user progress data with proper Prisma queries
-      const users = await prisma.user.findMany({
+      // Progress comes from step completion, one entry per active enrollment
+      const enrollments = await prisma.courseEnrollment.findMany({
         where: {
-          role: 'STUDENT',
-          ...(filters.userId && { id: filters.userId })
+          isActive: true,
+          user: { role: 'STUDENT' },
+          ...(filters.userId && { userId: filters.userId }),
+          ...(filters.courseId && { courseId: filters.courseId })
         },
         select: {
-          id: true,
-          firstName: true,
-          lastName: true,
-          sessionMetrics: {
-            where: {
-              sessionStart: {
-                gte: filters.startDate,
-                lte: filters.endDate
-              }
-            },
+          userId: true,
+          courseId: true,
+          progress: true,
+          course: {
             select: {
-              engagementScore: true,
-              activeTime: true,
-              sessionStart: true
+              title: true,
+              modules: { select: { _count: { select: { steps: true } } } }
             }
           },
-          userAnalytics: {
-            where: {
-              timestamp: {
-                gte: filters.startDate,
-                lte: filters.endDate
-              }
-            },
+          user: {
             select: {
-              id: true,
-              cnnAnalysisUsage: true
+              firstName: true,
+              lastName: true,
+              sessionMetrics: {
+                where: {
+                  sessionStart: {
+                    gte: filters.startDate,
+                    lte: filters.endDate
+                  }
+                },
+                select: {
+                  engagementScore: true,
+                  activeTime: true,
+                  sessionStart: true
+                }
+              },
+              userAnalytics: {
+                where: {
+                  timestamp: {
+                    gte: filters.startDate,
+                    lte: filters.endDate
+                  }
+                },
+                select: {
+                  id: true,
+                  cnnAnalysisUsage: true
+                }
+              }
             }
           }
         }
       });
 
-      const progressData: LearningProgressData[] = users.map(user => {
-        const totalActivities = user.sessionMetrics.length;
-        const completedActivities = user.sessionMetrics.filter(s => s.activeTime > 300).length;
+      const completions = await prisma.stepCompletion.groupBy({
+        by: ['userId', 'courseId'],
+        where: {
+          userId: { in: [...new Set(enrollments.map(e => e.userId))] },
+          courseId: { in: [...new Set(enrollments.map(e => e.courseId))] }
+        },
+        _count: { _all: true },
+        _max: { completedAt: true }
+      });
+      const completionsByEnrollment = new Map(
+        completions.map(c => [`${c.userId}:${c.courseId}`, c])
+      );
+
+      const progressData: LearningProgressData[] = enrollments.map(enrollment => {
+        const { user, course } = enrollment;
+        const completion = completionsByEnrollment.get(`${enrollment.userId}:${enrollment.courseId}`);
+        const totalActivities = course.modules.reduce((acc, m) => acc + m._count.steps, 0);
+        const completedActivities = completion?._count._all ?? 0;
+        const sessionCount = user.sessionMetrics.length;
         const totalTimeSpent = user.sessionMetrics.reduce((acc, s) => acc + s.activeTime, 0);
-        const avgEngagement = totalActivities > 0 ? 
-          user.sessionMetrics.reduce((acc, s) => acc + s.engagementScore, 0) / totalActivities : 0;
-        const lastActivity = user.sessionMetrics.length > 0 ? 
-          Math.max(...user.sessionMetrics.map(s => s.sessionStart.getTime())) : Date.now();
-        const analysisCount = user.userAnalytics.filter(ua => 
+        const avgEngagement = sessionCount > 0 ?
+          user.sessionMetrics.reduce((acc, s) => acc + s.engagementScore, 0) / sessionCount : 0;
+        const lastActivity = Math.max(
+          0,
+          ...user.sessionMetrics.map(s => s.sessionStart.getTime()),
+          completion?._max.completedAt?.getTime() ?? 0
+        );
+        const analysisCount = user.userAnalytics.filter(ua =>
           ua.cnnAnalysisUsage && Object.keys(ua.cnnAnalysisUsage as object).length > 0
         ).length;
 
         return {
-          userId: user.id,
+          userId: enrollment.userId,
           userName: user.firstName && user.lastName ? `${user.firstName} ${user.lastName}` : 'Unknown User',
-          courseId: 'general',
-          courseName: 'General Learning',
-          progressPercentage: Math.min(100, Math.round((completedActivities / Math.max(1, totalActivities)) * 100)),
+          courseId: enrollment.courseId,
+          courseName: course.title,
+          progressPercentage: Math.round(enrollment.progress * 100),
           completedActivities,
           totalActivities,
           timeSpent: totalTimeSpent,
-          lastActivity: new Date(lastActivity),
+          lastActivity: new Date(lastActivity || Date.now()),
           analysisCount,
           engagementScore: Math.round(avgEngagement * 100) / 100
         };
@@ -347,18 +384,49 @@ export class AnalyticsAggregationService {
         });
       });
 
-      const usageData: AIModelUsageData[] = Object.entries(modelStats).map(([modelName, stats]) => ({
-        modelName,
-        usageCount: stats.totalRequests,
-        averageProcessingTime: stats.totalRequests > 0 ? 
-          Math.round(stats.totalProcessingTime / stats.totalRequests) : 0,
-        successRate: stats.totalRequests > 0 ? 
-          Math.round((stats.successCount / stats.totalRequests) * 100) : 0,
-        totalRequests: stats.totalRequests,
-        errorRate: stats.totalRequests > 0 ? 
-          Math.round((stats.errorCount / stats.totalRequests) * 100) : 0,
-        timestamp: new Date()
-      }));
+      // Token usage and estimated cost from the usage ledger
+      const ledger = await prisma.aIUsageRecord.groupBy({
+        by: ['model'],
+        where: {
+          createdAt: { gte: filters.startDate, lte: filters.endDate },
+          ...(filters.courseId && { courseId: filters.courseId }),
+          ...(filters.userId && { userId: filters.userId }),
+        },
+        _count: { _all: true },
+        _sum: { costUsd: true, inputTokens: true, outputTokens: true },
+      });
+      const costByModel = new Map(ledger.map(entry => [entry.model, entry]));
+
+      // Models billed without stored results (e.g. the ai-models API) still report their cost
+      ledger.forEach(entry => {
+        if (!modelStats[entry.model]) {
+          modelStats[entry.model] = { totalRequests: 0, successCount: 0, totalProcessingTime: 0, errorCount: 0 };
+        }
+      });
+
+      const usageData: AIModelUsageData[] = Object.entries(modelStats).map(([modelName, stats]) => {
+        const cost = costByModel.get(modelName);
+        const totalCost = Math.round((cost?._sum.costUsd ?? 0) * 10000) / 10000;
+        const billedRequests = stats.totalRequests || cost?._count._all || 0;
+
+        return {
+          modelName,
+          usageCount: stats.totalRequests,
+          averageProcessingTime: stats.totalRequests > 0 ? 
+            Math.round(stats.totalProcessingTime / stats.totalRequests) : 0,
+          successRate: stats.totalRequests > 0 ? 
+            Math.round((stats.successCount / stats.totalRequests) * 100) : 0,
+          totalRequests: stats.totalRequests,
+          errorRate: stats.totalRequests > 0 ? 
+            Math.round((stats.errorCount / stats.totalRequests) * 100) : 0,
+          costPerRequest: billedRequests > 0 ? Math.round((totalCost / billedRequests) * 10000) / 10000 : 0,
+          totalCost,
+          providerCalls: cost?._count._all ?? 0,
+          inputTokens: cost?._sum.inputTokens ?? 0,
+          outputTokens: cost?._sum.outputTokens ?? 0,
+          timestamp: new Date()
+        };
+      });
 
       this.setCacheData(cacheKey, usageData);
       return usageData;
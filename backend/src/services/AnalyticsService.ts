@@ -13,6 +13,7 @@ export interface UserAnalyticsData {
   duration?: number;
   statusCode?: number;
   responseSize?: number;
+  learningProgress?: any;
 }
 
 export interface SessionMetricsUpdate {
@@ -48,7 +49,7 @@ export class AnalyticsService {
           statusCode: data.statusCode,
           timestamp: new Date()
         } : {},
-        learningProgress: {}
+        learningProgress: data.learningProgress ?? {}
       };
 
       // Create analytics record
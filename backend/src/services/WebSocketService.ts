@@ -8,9 +8,12 @@ import type {
   ServerToClientEvents, 
   ClientToServerEvents, 
   InterServerEvents, 
-  SocketData 
+  SocketData,
+  NotificationEvent,
+  AnalysisOutputEvent
 } from '../websocket/types';
 import type { AnalysisProgress, AIModelType } from '../types';
+import type { EventBroadcaster } from '../websocket/EventBroadcaster';
 
 export class WebSocketService {
   private io: SocketIOServer<
@@ -19,6 +22,7 @@ export class WebSocketService {
     InterServerEvents,
     SocketData
   > | null = null;
+  private eventBroadcaster: EventBroadcaster | null = null;
 
   constructor(io?: SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>) {
     this.io = io || null;
@@ -31,6 +35,37 @@ export class WebSocketService {
     this.io = io;
   }
 
+  /**
+   * Set the event broadcaster used for room-wide events
+   */
+  setEventBroadcaster(eventBroadcaster: EventBroadcaster): void {
+    this.eventBroadcaster = eventBroadcaster;
+  }
+
+  /**
+   * Emit an event to every client in a course room
+   */
+  broadcastToCourse(courseId: string, event: string, data: any): void {
+    if (!this.eventBroadcaster) {
+      console.warn('WebSocket server not initialized, skipping course broadcast');
+      return;
+    }
+
+    this.eventBroadcaster.broadcastToCourse(courseId, event, data);
+  }
+
+  /**
+   * Push a notification to the user's personal room
+   */
+  sendNotification(notificationEvent: NotificationEvent): void {
+    if (!this.eventBroadcaster) {
+      console.warn('WebSocket server not initialized, skipping notification');
+      return;
+    }
+
+    this.eventBroadcaster.broadcastNotification(notificationEvent);
+  }
+
   /**
    * Emit analysis progress update to analytics namespace
    */
@@ -102,6 +137,24 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Stream a model's output to clients following the analysis (analysis:<id> room)
+   */
+  emitAnalysisOutput(output: Omit<AnalysisOutputEvent, 'timestamp'>): void {
+    if (!this.io) {
+      return;
+    }
+
+    try {
+      this.io.of('/analytics').to(`analysis:${output.analysisId}`).emit('analysis_output', {
+        ...output,
+        timestamp: new Date()
+      });
+    } catch (error) {
+      console.error('Failed to emit analysis output:', error);
+    }
+  }
+
   /**
    * Emit analysis completion event
    */
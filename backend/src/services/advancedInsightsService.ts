@@ -393,6 +393,7 @@ export class AdvancedInsightsService {
           factors: prediction.factors || [],
           timeline: prediction.timeline || {},
           historicalDataIds: prediction.historicalDataIds || [],
+          promptVersion: prediction.promptVersion ?? null,
           expiresAt: prediction.expiresAt || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) // 7 days
         },
         include: {
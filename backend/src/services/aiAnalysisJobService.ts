@@ -0,0 +1,739 @@
+/**
+ * AI Analysis Job Service
+ * Multi-AI analysis of uploaded files as persisted background jobs with progress and cancellation
+ */
+
+import { promises as fs } from 'fs';
+import { AIAnalysisJob, AIAnalysisJobStatus, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { aiModelFactory, AIModel, AnalyzeOptions } from './aiModels/AIModelFactory';
+import { estimateTokens, TokenListener } from './aiModels/AIProviderTransport';
+import { webSocketService } from './WebSocketService';
+import { CourseRequester } from './courseService';
+import { consolidateInsights } from './consolidationEngine';
+import { aiUsageService, extractTokenUsage } from './aiUsageService';
+import { promptTemplateService } from './promptTemplateService';
+import {
+  chunkDocument,
+  DocumentChunk,
+  documentIngestionService,
+  ExtractedDocument,
+  getDocumentFormat,
+  splitText,
+  summarizeDocument,
+  toAnalysisText,
+} from './documentIngestionService';
+import { imagePreprocessingService, isImageMimeType } from './imagePreprocessingService';
+import { getMaxContentLength } from '../config/aiServices';
+import { getAIModelIds, getAvailableModels } from '../config/aiProviders';
+import { MULTI_AI_PROMPT_KEYS } from '../config/promptTemplates';
+import { AIAnalysisResult, AIModelType, ConsolidatedInsights, UserRole } from '../types';
+import { ConflictError, ForbiddenError, NotFoundError, ServiceError } from '../utils/errors';
+
+const MAX_CONCURRENT_JOBS = Math.max(1, Number(process.env['AI_ANALYSIS_CONCURRENCY']) || 2);
+const STARTED_PROGRESS = 10;
+const COMBINING_PROGRESS = 90;
+// Room left in each chunk for the part header sent with it
+const CHUNK_PROMPT_RESERVE = 500;
+// Output tokens an analysis answer is expected to take, for progress while it streams
+const EXPECTED_OUTPUT_TOKENS = Math.max(1, Number(process.env['AI_EXPECTED_OUTPUT_TOKENS']) || 600);
+// Streamed progress stops short of a request's end; finishing the request completes it
+const MAX_STREAMED_SHARE = 0.95;
+// Least time between streamed output events for a model
+const OUTPUT_FLUSH_MS = 250;
+
+export type ModelJobStatus = 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
+
+export interface ModelProgress {
+  progress: number;
+  status: ModelJobStatus;
+  errorMessage?: string;
+  startedAt?: string;
+  completedAt?: string;
+  chunks?: number;
+}
+
+/**
+ * Shape of AIAnalysisJob.modelProgress
+ */
+export type JobModelProgress = Record<string, ModelProgress>;
+
+/**
+ * Shape of AIAnalysisJob.results
+ */
+export type JobResults = Record<string, AIAnalysisResult>;
+
+export type AIModelResolver = (model: AIModelType) => AIModel;
+
+const FINISHED_STATUSES: AIAnalysisJobStatus[] = [
+  AIAnalysisJobStatus.COMPLETED,
+  AIAnalysisJobStatus.COMPLETED_WITH_ERRORS,
+  AIAnalysisJobStatus.FAILED,
+  AIAnalysisJobStatus.CANCELLED,
+];
+
+/**
+ * Validate the requested models (an array, or a JSON array string from multipart forms)
+ * against the models declared in the provider registry
+ */
+export const parseSelectedModels = (value: unknown, knownModels: string[] = getAIModelIds()): AIModelType[] => {
+  let models = value;
+  if (typeof models === 'string') {
+    try {
+      models = JSON.parse(models);
+    } catch {
+      throw new ServiceError('Invalid selectedModels format');
+    }
+  }
+
+  if (!Array.isArray(models) || models.length === 0) {
+    throw new ServiceError('No AI models selected');
+  }
+
+  const unknown = models.filter(model => !knownModels.includes(model));
+  if (unknown.length > 0) {
+    throw new ServiceError(`Unknown AI models: ${unknown.join(', ')}`);
+  }
+
+  return [...new Set(models as AIModelType[])];
+};
+
+/**
+ * Average progress across the job's models
+ */
+export const overallProgress = (progress: JobModelProgress): number => {
+  const entries = Object.values(progress);
+  if (entries.length === 0) {
+    return 0;
+  }
+  return Math.round(entries.reduce((sum, entry) => sum + entry.progress, 0) / entries.length);
+};
+
+/**
+ * Final job status once every model has finished
+ */
+export const jobOutcome = (progress: JobModelProgress): AIAnalysisJobStatus => {
+  const statuses = Object.values(progress).map(entry => entry.status);
+  const completed = statuses.filter(status => status === 'completed').length;
+
+  if (completed === 0) {
+    return AIAnalysisJobStatus.FAILED;
+  }
+  return completed === statuses.length ? AIAnalysisJobStatus.COMPLETED : AIAnalysisJobStatus.COMPLETED_WITH_ERRORS;
+};
+
+/**
+ * Progress of a model from the requests it has finished and the share of the current
+ * request's expected output streamed so far
+ */
+export const streamedProgress = (done: number, total: number, tokens: number, expectedTokens: number): number => {
+  const share = Math.min(tokens / expectedTokens, MAX_STREAMED_SHARE);
+  return Math.round(STARTED_PROGRESS + (COMBINING_PROGRESS - STARTED_PROGRESS) * (done + share) / total);
+};
+
+/**
+ * A model's streamed output, forwarded in batches so clients are not sent every token
+ */
+export class OutputStream {
+  private pending = '';
+  // Output of the current request, and how much of it has been forwarded
+  private received = '';
+  private forwarded = 0;
+  // Forwarded output to take back with the next batch
+  private retracted = 0;
+  private lastFlush = 0;
+
+  constructor(
+    private readonly flush: (delta: string, tokens: number, retracted: number) => void,
+    private readonly intervalMs: number = OUTPUT_FLUSH_MS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get tokens(): number {
+    return estimateTokens(this.received);
+  }
+
+  push = (text: string): void => {
+    this.pending += text;
+    this.received += text;
+    if (this.now() - this.lastFlush >= this.intervalMs) {
+      this.end();
+    }
+  };
+
+  /**
+   * Discard the output of the current request, e.g. an answer rejected for repair, and
+   * tell clients to take back what they were sent of it
+   */
+  restart = (): void => {
+    this.pending = this.pending.slice(0, this.pending.length - (this.received.length - this.forwarded));
+    this.retracted += this.forwarded;
+    this.received = '';
+    this.forwarded = 0;
+    this.end();
+  };
+
+  // Listener for the model's output
+  readonly listener: TokenListener = Object.assign((text: string) => this.push(text), { restart: this.restart });
+
+  /**
+   * Forward whatever is still pending
+   */
+  end(): void {
+    if (this.pending || this.retracted) {
+      this.flush(this.pending, this.tokens, this.retracted);
+      this.pending = '';
+      this.retracted = 0;
+    }
+    this.forwarded = this.received.length;
+    this.lastFlush = this.now();
+  }
+
+  /**
+   * Start the next request of a chunked analysis, separated from the previous output
+   */
+  nextRequest(): void {
+    this.end();
+    this.pending = this.received ? '\n\n' : '';
+    this.received = '';
+    this.forwarded = 0;
+  }
+}
+
+/**
+ * Convert a model's raw analysis into the result shown by the frontend
+ */
+export const toModelResult = (model: AIModelType, analysis: any): AIAnalysisResult => ({
+  model,
+  status: 'completed',
+  analysisType: 'content_analysis',
+  confidence: analysis?.confidence ?? 0,
+  processingTime: analysis?.processingTime ?? 0,
+  timestamp: new Date(),
+  ...(analysis?.metadata?.cacheHit === true && { cacheHit: true }),
+  ...(typeof analysis?.metadata?.promptVersion === 'string' && { promptVersion: analysis.metadata.promptVersion }),
+  results: {
+    description: analysis?.summary ?? '',
+    insights: Array.isArray(analysis?.keyPoints) ? analysis.keyPoints : [],
+    entities: Array.isArray(analysis?.topics)
+      ? analysis.topics.map((topic: string) => ({
+        entity: topic,
+        type: 'concept' as const,
+        confidence: analysis.confidence ?? 0,
+        context: 'Key concept identified from content analysis',
+      }))
+      : [],
+    recommendations: [
+      analysis?.complexity ? `Content complexity: ${analysis.complexity}` : null,
+      analysis?.readability ? `Readability score: ${analysis.readability}%` : null,
+    ].filter((item): item is string => item !== null),
+  },
+});
+
+/**
+ * Map-reduce analysis of a document too long for one request: each chunk is analyzed on
+ * its own, then the partial analyses are combined into one
+ */
+export const analyzeInChunks = async (
+  model: AIModel,
+  chunks: DocumentChunk[],
+  options: AnalyzeOptions & {
+    documentName: string;
+    maxLength: number;
+    onProgress?: (done: number, total: number) => void;
+  }
+): Promise<any> => {
+  const { documentName, maxLength, onProgress, ...analyzeOptions } = options;
+  const total = chunks.length + 1;
+  let processingTime = 0;
+  let cacheHit = true;
+  const analyze = async (content: string) => {
+    const analysis = await model.analyze(content, undefined, analyzeOptions);
+    processingTime += analysis?.processingTime ?? 0;
+    cacheHit = cacheHit && analysis?.metadata?.cacheHit === true;
+    return analysis;
+  };
+
+  // One chunk at a time keeps within provider rate limits and stops early on cancellation
+  const partials: string[] = [];
+  for (const chunk of chunks) {
+    const analysis = await analyze(
+      `Part ${chunk.index + 1} of ${chunks.length} (${chunk.label}) of "${documentName}":\n\n${chunk.text}`
+    );
+    partials.push(`[Part ${chunk.index + 1}: ${chunk.label}]\n${analysis?.summary ?? ''}`);
+    onProgress?.(partials.length, total);
+  }
+
+  const header = `The following are analyses of consecutive parts of "${documentName}". ` +
+    'Combine them into a single analysis of the whole document.\n\n';
+  const room = maxLength - header.length;
+  let combined = partials.join('\n\n');
+
+  // Condense the partial analyses again while they are still too long to combine in one request
+  while (combined.length > room) {
+    const condensed: string[] = [];
+    for (const piece of splitText(combined, room)) {
+      condensed.push((await analyze(header + piece))?.summary ?? '');
+    }
+    const next = condensed.join('\n\n');
+    if (next.length >= combined.length) {
+      combined = next.slice(0, room);
+      break;
+    }
+    combined = next;
+  }
+
+  const final = await analyze(header + combined);
+  onProgress?.(total, total);
+
+  return { ...final, processingTime, metadata: { ...final?.metadata, chunks: chunks.length, cacheHit } };
+};
+
+export class AIAnalysisJobService {
+  private readonly waiting: string[] = [];
+  private readonly running = new Map<string, AbortController>();
+
+  constructor(
+    private readonly getModel: AIModelResolver,
+    private readonly concurrency: number = MAX_CONCURRENT_JOBS
+  ) {}
+
+  /**
+   * Store an uploaded file as a queued analysis job and return it right away
+   */
+  async submit(file: Express.Multer.File, selectedModels: unknown, requester: CourseRequester, courseId?: unknown) {
+    let filePath = file.path;
+    try {
+      const available = getAvailableModels().map(model => model.id);
+      const requested = parseSelectedModels(selectedModels, available);
+      const billedCourseId = await aiUsageService.resolveCourse(courseId, requester);
+      const models = await aiUsageService.applyBudgets(
+        requested,
+        { ...requester, courseId: billedCourseId },
+        available
+      );
+      const modelProgress: JobModelProgress = Object.fromEntries(
+        models.map(model => [model, { progress: 0, status: 'pending' }])
+      );
+
+      // Images are normalized once here; each model is sent a copy sized for its provider
+      const image = isImageMimeType(file.mimetype) ? await imagePreprocessingService.ingest(file) : null;
+      filePath = image?.filePath ?? file.path;
+
+      const job = await prisma.aIAnalysisJob.create({
+        data: {
+          userId: requester.userId,
+          courseId: billedCourseId,
+          fileName: image?.fileName ?? file.filename,
+          originalFileName: file.originalname,
+          filePath,
+          mimeType: image?.mimeType ?? file.mimetype,
+          fileSize: image?.summary.size ?? file.size,
+          image: image ? (image.summary as unknown as Prisma.InputJsonValue) : null,
+          thumbnail: image?.thumbnail ?? null,
+          models,
+          modelProgress: modelProgress as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      for (const model of models) {
+        webSocketService.emitModelProgress(requester.userId, job.id, model, 0, 'pending');
+      }
+      this.enqueue(job.id);
+
+      // Models differ from the request when a used-up budget downgraded them
+      const downgraded = models.length !== requested.length || models.some(model => !requested.includes(model));
+      return { ...this.presentJob(job), ...(downgraded && { requestedModels: requested }) };
+    } catch (error) {
+      await fs.unlink(filePath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a job with its progress and any results so far (owner or admin)
+   */
+  async getJob(jobId: string, requester: CourseRequester) {
+    return this.presentJob(await this.getOwnedJob(jobId, requester));
+  }
+
+  /**
+   * Cancel a queued or running job, aborting provider calls that are still in flight
+   */
+  async cancel(jobId: string, requester: CourseRequester) {
+    const job = await this.getOwnedJob(jobId, requester);
+
+    const modelProgress = job.modelProgress as unknown as JobModelProgress;
+    for (const entry of Object.values(modelProgress)) {
+      if (entry.status === 'pending' || entry.status === 'processing') {
+        entry.status = 'cancelled';
+      }
+    }
+
+    const { count } = await prisma.aIAnalysisJob.updateMany({
+      where: { id: jobId, status: { in: [AIAnalysisJobStatus.QUEUED, AIAnalysisJobStatus.RUNNING] } },
+      data: {
+        status: AIAnalysisJobStatus.CANCELLED,
+        modelProgress: modelProgress as unknown as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    });
+    if (count === 0) {
+      throw new ConflictError('Analysis has already finished');
+    }
+
+    const waitingIndex = this.waiting.indexOf(jobId);
+    if (waitingIndex >= 0) {
+      this.waiting.splice(waitingIndex, 1);
+      await fs.unlink(job.filePath).catch(() => undefined);
+    }
+    this.running.get(jobId)?.abort();
+
+    webSocketService.emitAnalysisCancelled(job.userId, jobId);
+
+    return this.presentJob(await prisma.aIAnalysisJob.findUniqueOrThrow({ where: { id: jobId } }));
+  }
+
+  /**
+   * Consolidated insights of a finished job
+   */
+  async getConsolidatedInsights(jobId: string, requester: CourseRequester): Promise<ConsolidatedInsights> {
+    const job = await this.getOwnedJob(jobId, requester);
+    if (!FINISHED_STATUSES.includes(job.status)) {
+      throw new ConflictError('Analysis is still running');
+    }
+
+    const saved = await prisma.aIAnalysisResults.findFirst({ where: { jobId }, orderBy: { createdAt: 'desc' } });
+    if (saved) {
+      return saved.consolidatedInsights as unknown as ConsolidatedInsights;
+    }
+
+    // Failed and cancelled jobs are not saved; consolidate whatever finished before they stopped
+    return consolidateInsights((job.results ?? {}) as unknown as JobResults, job.models as AIModelType[]);
+  }
+
+  /**
+   * Re-queue jobs that were waiting or running when the server last stopped
+   */
+  async resumePendingJobs(): Promise<void> {
+    try {
+      await prisma.aIAnalysisJob.updateMany({
+        where: { status: AIAnalysisJobStatus.RUNNING },
+        data: { status: AIAnalysisJobStatus.QUEUED },
+      });
+      const jobs = await prisma.aIAnalysisJob.findMany({
+        where: { status: AIAnalysisJobStatus.QUEUED },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true },
+      });
+      jobs.forEach(job => this.enqueue(job.id));
+    } catch (error) {
+      console.error('❌ Failed to resume AI analysis jobs:', error);
+    }
+  }
+
+  private enqueue(jobId: string): void {
+    this.waiting.push(jobId);
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.running.size < this.concurrency && this.waiting.length > 0) {
+      const jobId = this.waiting.shift()!;
+      const controller = new AbortController();
+      this.running.set(jobId, controller);
+
+      this.runJob(jobId, controller.signal)
+        .catch(error => console.error(`❌ AI analysis job ${jobId} failed:`, error))
+        .finally(() => {
+          this.running.delete(jobId);
+          this.drain();
+        });
+    }
+  }
+
+  private async runJob(jobId: string, signal: AbortSignal): Promise<void> {
+    const { count } = await prisma.aIAnalysisJob.updateMany({
+      where: { id: jobId, status: AIAnalysisJobStatus.QUEUED },
+      data: { status: AIAnalysisJobStatus.RUNNING, startedAt: new Date() },
+    });
+    if (count === 0) {
+      return;
+    }
+
+    const job = await prisma.aIAnalysisJob.findUniqueOrThrow({ where: { id: jobId } });
+    const models = job.models as AIModelType[];
+    const modelProgress = job.modelProgress as unknown as JobModelProgress;
+    const results: JobResults = {};
+    // Every model analyzes with the same templates, the course's overrides included
+    const prompts = await promptTemplateService.resolveAll(MULTI_AI_PROMPT_KEYS, job.courseId);
+
+    // Parallel model updates are written in order so a slower write never overwrites a newer one
+    let writes: Promise<unknown> = Promise.resolve();
+    const update = (model: AIModelType, entry: ModelProgress) => {
+      modelProgress[model] = entry;
+      webSocketService.emitModelProgress(job.userId, jobId, model, entry.progress, entry.status);
+      writes = writes.then(() =>
+        prisma.aIAnalysisJob.updateMany({
+          where: { id: jobId, status: AIAnalysisJobStatus.RUNNING },
+          data: {
+            modelProgress: modelProgress as unknown as Prisma.InputJsonValue,
+            results: results as unknown as Prisma.InputJsonValue,
+          },
+        })
+      ).catch(error => console.error(`❌ Failed to save progress for job ${jobId}:`, error));
+    };
+
+    try {
+      const file = this.toMulterFile(job);
+      // A document that cannot be read fails every model with the extraction error
+      const document = this.loadDocument(job);
+      document.catch(() => undefined);
+
+      await Promise.all(models.map(async model => {
+        const startedAt = new Date().toISOString();
+        update(model, { progress: STARTED_PROGRESS, status: 'processing', startedAt });
+
+        // Streamed output goes to the analysis room; its progress is saved with the next update
+        let requests = { done: 0, total: 1 };
+        const output = new OutputStream((delta, tokens, retracted) => {
+          const progress = streamedProgress(requests.done, requests.total, tokens, EXPECTED_OUTPUT_TOKENS);
+          modelProgress[model] = { ...modelProgress[model], progress, status: 'processing' };
+          webSocketService.emitModelProgress(job.userId, jobId, model, progress, 'processing');
+          webSocketService.emitAnalysisOutput({
+            analysisId: jobId,
+            model,
+            delta,
+            ...(retracted > 0 && { retracted }),
+            tokens,
+            expectedTokens: EXPECTED_OUTPUT_TOKENS,
+            progress,
+          });
+        });
+        const options: AnalyzeOptions = { signal, prompts, onToken: output.listener };
+
+        try {
+          const extracted = await document;
+          const analysis = extracted
+            ? await this.analyzeDocument(model, job, extracted, file, options, (done, total) => {
+              requests = { done, total };
+              output.nextRequest();
+              update(model, {
+                progress: Math.round(STARTED_PROGRESS + (COMBINING_PROGRESS - STARTED_PROGRESS) * done / total),
+                status: 'processing',
+                startedAt,
+                chunks: total - 1,
+              });
+            })
+            : await this.trackedModel(model, job).analyze(this.describeFile(job), file, options);
+          output.end();
+          results[model] = toModelResult(model, analysis);
+          update(model, {
+            ...modelProgress[model],
+            progress: 100,
+            status: 'completed',
+            startedAt,
+            completedAt: new Date().toISOString(),
+          });
+        } catch (error) {
+          const status: ModelJobStatus = signal.aborted ? 'cancelled' : 'error';
+          const errorMessage = signal.aborted ? 'Analysis cancelled' : error instanceof Error ? error.message : 'Analysis failed';
+          update(model, { progress: 0, status, errorMessage, startedAt, completedAt: new Date().toISOString() });
+        }
+      }));
+      await writes;
+
+      if (signal.aborted) {
+        return;
+      }
+
+      const status = jobOutcome(modelProgress);
+      const finished = await prisma.aIAnalysisJob.updateMany({
+        where: { id: jobId, status: AIAnalysisJobStatus.RUNNING },
+        data: {
+          status,
+          modelProgress: modelProgress as unknown as Prisma.InputJsonValue,
+          results: results as unknown as Prisma.InputJsonValue,
+          completedAt: new Date(),
+        },
+      });
+      if (finished.count === 0) {
+        return;
+      }
+
+      if (status === AIAnalysisJobStatus.FAILED) {
+        webSocketService.emitAnalysisError(job.userId, jobId, 'All AI models failed to analyze the file');
+      } else {
+        const consolidatedInsights = await this.saveResults(job, results);
+        webSocketService.emitAnalysisComplete(job.userId, jobId, { aiResults: results, consolidatedInsights });
+      }
+    } finally {
+      await fs.unlink(job.filePath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Store each model's output and the consolidated insights in AIAnalysisResults
+   */
+  private async saveResults(job: AIAnalysisJob, results: JobResults): Promise<ConsolidatedInsights> {
+    const consolidatedInsights = consolidateInsights(results, job.models as AIModelType[]);
+    const modelResult = (model: AIModelType) =>
+      (results[model] as unknown as Prisma.InputJsonValue | undefined) ?? null;
+
+    try {
+      await prisma.aIAnalysisResults.create({
+        data: {
+          fileName: job.fileName,
+          originalFileName: job.originalFileName,
+          filePath: job.filePath,
+          userId: job.userId,
+          jobId: job.id,
+          gpt4Results: modelResult('gpt4'),
+          claudeResults: modelResult('claude'),
+          geminiResults: modelResult('gemini'),
+          consolidatedInsights: consolidatedInsights as unknown as Prisma.InputJsonValue,
+          promptVersions: Object.fromEntries(
+            Object.values(results)
+              .filter(result => result.promptVersion)
+              .map(result => [result.model, result.promptVersion!])
+          ),
+          processingTime: Object.fromEntries(
+            Object.values(results).map(result => [result.model, result.processingTime])
+          ),
+          confidence: consolidatedInsights.confidenceScore,
+        },
+      });
+    } catch (error) {
+      console.error(`❌ Failed to save results for job ${job.id}:`, error);
+    }
+
+    return consolidatedInsights;
+  }
+
+  /**
+   * Extract PDF, DOCX and text uploads; other files (images) are passed to the models as-is
+   */
+  private async loadDocument(job: AIAnalysisJob): Promise<ExtractedDocument | null> {
+    if (!getDocumentFormat(job.mimeType)) {
+      return null;
+    }
+
+    const document = await documentIngestionService.extract(job.filePath, job.mimeType);
+    await prisma.aIAnalysisJob.updateMany({
+      where: { id: job.id, status: AIAnalysisJobStatus.RUNNING },
+      data: { document: summarizeDocument(document) as unknown as Prisma.InputJsonValue },
+    });
+    return document;
+  }
+
+  /**
+   * Analyze a document in one request when it fits the model's limit, otherwise in chunks
+   */
+  private async analyzeDocument(
+    model: AIModelType,
+    job: AIAnalysisJob,
+    document: ExtractedDocument,
+    file: Express.Multer.File,
+    options: AnalyzeOptions,
+    onProgress: (done: number, total: number) => void
+  ): Promise<any> {
+    const text = toAnalysisText(document);
+    if (!text.trim()) {
+      return this.trackedModel(model, job).analyze(`${this.describeFile(job)} (no extractable text)`, file, options);
+    }
+
+    const maxLength = getMaxContentLength(model);
+    if (text.length <= maxLength) {
+      return this.trackedModel(model, job).analyze(text, file, options);
+    }
+
+    return analyzeInChunks(this.trackedModel(model, job), chunkDocument(document.sections, maxLength - CHUNK_PROMPT_RESERVE), {
+      ...options,
+      documentName: job.originalFileName,
+      maxLength,
+      onProgress,
+    });
+  }
+
+  /**
+   * The model with each provider call recorded in the usage ledger; cache hits cost nothing
+   */
+  private trackedModel(model: AIModelType, job: AIAnalysisJob): AIModel {
+    const target = this.getModel(model);
+
+    return {
+      analyze: async (content, file, options) => {
+        const analysis = await target.analyze(content, file, options);
+        if (analysis?.metadata?.cacheHit !== true) {
+          await aiUsageService.record({
+            userId: job.userId,
+            courseId: job.courseId,
+            model,
+            source: 'ai-analysis',
+            jobId: job.id,
+            tokens: extractTokenUsage(analysis),
+          });
+        }
+        return analysis;
+      },
+      getModelName: () => target.getModelName(),
+      getEstimatedTime: () => target.getEstimatedTime(),
+    };
+  }
+
+  private describeFile(job: AIAnalysisJob): string {
+    return `File: ${job.originalFileName}, Type: ${job.mimeType}, Size: ${job.fileSize} bytes`;
+  }
+
+  private toMulterFile(job: AIAnalysisJob): Express.Multer.File {
+    return {
+      fieldname: 'file',
+      originalname: job.originalFileName,
+      encoding: '7bit',
+      mimetype: job.mimeType,
+      size: job.fileSize,
+      destination: '',
+      filename: job.fileName,
+      path: job.filePath,
+    } as Express.Multer.File;
+  }
+
+  private async getOwnedJob(jobId: string, requester: CourseRequester): Promise<AIAnalysisJob> {
+    const job = await prisma.aIAnalysisJob.findUnique({ where: { id: jobId } });
+    if (!job) {
+      throw new NotFoundError('Analysis not found');
+    }
+    if (job.userId !== requester.userId && requester.role !== UserRole.ADMIN) {
+      throw new ForbiddenError('Unauthorized to view this analysis');
+    }
+    return job;
+  }
+
+  private presentJob(job: AIAnalysisJob) {
+    const modelProgress = job.modelProgress as unknown as JobModelProgress;
+
+    return {
+      analysisId: job.id,
+      userId: job.userId,
+      status: job.status,
+      isFinished: FINISHED_STATUSES.includes(job.status),
+      models: job.models as AIModelType[],
+      courseId: job.courseId,
+      fileName: job.originalFileName,
+      mimeType: job.mimeType,
+      fileSize: job.fileSize,
+      overallProgress: overallProgress(modelProgress),
+      modelProgress,
+      document: job.document,
+      image: job.image,
+      thumbnail: job.thumbnail,
+      aiResults: (job.results ?? {}) as unknown as JobResults,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
+      updatedAt: job.updatedAt,
+    };
+  }
+}
+
+export const aiAnalysisJobService = new AIAnalysisJobService(model => aiModelFactory.getModel(model));
@@ -0,0 +1,194 @@
+/**
+ * AI Provider Registry
+ * Builds the services used by the AI model endpoints and the models used by multi-AI
+ * analysis from the providers and models declared in the registry configuration
+ */
+
+import { AbstractAIService } from './AbstractAIService';
+import { GPT4Service } from './GPT4Service';
+import { ClaudeService } from './ClaudeService';
+import { GeminiService } from './GeminiService';
+import { OpenAICompatibleService } from './OpenAICompatibleService';
+import { OpenRouterIntegration } from './OpenRouterIntegration';
+import type { AIModel, AnalyzeOptions } from './AIModelFactory';
+import { AIServiceConfig, AIServiceType } from './types';
+import {
+  AIModelDefinition,
+  AIProviderDefinition,
+  AIProviderKind,
+  AIProvidersConfig,
+  getAIProvidersConfig,
+  getAvailableModels,
+  getModelContentLength,
+  getModelEstimatedTime,
+  getModelImageDimension,
+  getProvider,
+  getProviderApiKey,
+} from '../../config/aiProviders';
+import { promptFor } from '../../config/promptTemplates';
+
+// Provider kind of services configured without the registry, by service type
+const LEGACY_PROVIDER_KINDS: Partial<Record<string, AIProviderKind>> = {
+  openrouter: 'openai-compatible',
+  gpt4: 'openai',
+  claude: 'anthropic',
+  gemini: 'google',
+};
+
+/**
+ * Create the service for a configuration according to its provider kind
+ */
+export const createAIService = (serviceType: AIServiceType, config: AIServiceConfig): AbstractAIService => {
+  switch (config.providerKind ?? LEGACY_PROVIDER_KINDS[serviceType]) {
+    case 'openai-compatible':
+      return new OpenAICompatibleService(config);
+    case 'openai':
+      return new GPT4Service(config);
+    case 'anthropic':
+      return new ClaudeService(config);
+    case 'google':
+      return new GeminiService(config);
+    default:
+      throw new Error(`Unsupported AI service type: ${serviceType}`);
+  }
+};
+
+/**
+ * Runs a model served through an AIServiceManager service (Anthropic, Google, OpenAI SDKs)
+ * as a multi-AI analysis model
+ */
+class ServiceModel implements AIModel {
+  constructor(
+    private readonly service: AbstractAIService,
+    private readonly definition: AIModelDefinition,
+    private readonly providerName: string
+  ) {}
+
+  async analyze(content: string, _file?: Express.Multer.File, options: AnalyzeOptions = {}): Promise<any> {
+    options.signal?.throwIfAborted();
+    // Files have already been turned into text (or a description) by the caller
+    const response = await this.service.analyzeContent(
+      content,
+      'text/plain',
+      promptFor(options.prompts, 'content-analysis'),
+      options.onToken
+    );
+    if (!response.success) {
+      throw new Error(`Analysis failed: ${response.error ?? 'Unknown error'}`);
+    }
+
+    return {
+      summary: response.content,
+      keyPoints: response.metadata.suggestions ?? [],
+      sentiment: 'neutral',
+      topics: response.metadata.categories ?? [],
+      complexity: response.metadata.complexity ?? 'medium',
+      confidence: response.confidence,
+      processingTime: response.processingTime,
+      metadata: {
+        model: response.metadata.model,
+        provider: this.providerName,
+        ...(response.metadata.tokens && { tokens: response.metadata.tokens }),
+        ...(response.metadata.promptVersion && { promptVersion: response.metadata.promptVersion }),
+        type: 'text_analysis',
+      },
+    };
+  }
+
+  getModelName(): string {
+    return this.definition.displayName;
+  }
+
+  getEstimatedTime(): number {
+    return getModelEstimatedTime(this.definition);
+  }
+}
+
+export class AIProviderRegistry {
+  constructor(
+    private readonly loadConfig: () => AIProvidersConfig = getAIProvidersConfig,
+    private readonly env: Record<string, string | undefined> = process.env
+  ) {}
+
+  /**
+   * Models that can be called: enabled, with their provider configured
+   */
+  listModels(): AIModelDefinition[] {
+    return getAvailableModels(this.loadConfig(), this.env);
+  }
+
+  hasModel(id: string): boolean {
+    return this.listModels().some(model => model.id === id);
+  }
+
+  getModel(id: string): AIModelDefinition {
+    const model = this.listModels().find(candidate => candidate.id === id);
+    if (!model) {
+      throw new Error(`AI model ${id} is not available`);
+    }
+    return model;
+  }
+
+  /**
+   * Service configuration for a model, with its provider's endpoint, key and headers.
+   * Timeouts, retries and limits are left to the caller.
+   */
+  getServiceConfig(id: string): AIServiceConfig {
+    const model = this.getModel(id);
+    const provider = this.providerOf(model);
+    return {
+      type: model.id,
+      serviceName: model.id,
+      provider: provider.id,
+      providerKind: provider.kind,
+      displayName: model.displayName,
+      capabilities: model.capabilities,
+      apiKey: getProviderApiKey(provider, this.env) ?? '',
+      ...(provider.baseURL && { endpoint: provider.baseURL }),
+      ...(provider.headers && { headers: provider.headers }),
+      models: [model.model],
+      maxContentLength: getModelContentLength(model),
+    };
+  }
+
+  /**
+   * Provider that serves a model, for settings keyed by provider
+   */
+  getProvider(id: string): AIProviderDefinition {
+    return this.providerOf(this.getModel(id));
+  }
+
+  /**
+   * Multi-AI analysis model: called directly for OpenAI-compatible providers, through
+   * the provider's service otherwise
+   */
+  createModel(id: string): AIModel {
+    const model = this.getModel(id);
+    const provider = this.providerOf(model);
+    const providerName = provider.displayName ?? provider.id;
+
+    if (provider.kind === 'openai-compatible') {
+      return new OpenRouterIntegration(getProviderApiKey(provider, this.env) ?? '', model.model, model.displayName, {
+        providerId: provider.id,
+        ...(provider.baseURL && { baseURL: provider.baseURL }),
+        ...(provider.headers && { headers: provider.headers }),
+        providerName,
+        vision: model.capabilities.vision,
+        maxImageDimension: getModelImageDimension(model, provider),
+        estimatedTimeMs: getModelEstimatedTime(model),
+      });
+    }
+
+    return new ServiceModel(createAIService(model.id, this.getServiceConfig(id)), model, providerName);
+  }
+
+  private providerOf(model: AIModelDefinition): AIProviderDefinition {
+    const provider = getProvider(model.provider, this.loadConfig());
+    if (!provider) {
+      throw new Error(`AI model ${model.id} uses unknown provider: ${model.provider}`);
+    }
+    return provider;
+  }
+}
+
+export const aiProviderRegistry = new AIProviderRegistry();
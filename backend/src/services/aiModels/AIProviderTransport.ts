@@ -0,0 +1,423 @@
+/**
+ * AI Provider Transport
+ * Every provider call goes through here, so it can be made live, made live and recorded to
+ * a fixture file, replayed from fixtures by request fingerprint, or answered by a scripted
+ * fake provider with configurable latency, failures and outputs (AI_PROVIDER_MODE)
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs, readFileSync } from 'fs';
+import path from 'path';
+import type OpenAI from 'openai';
+import type { ChatCompletionCreateParamsNonStreaming } from 'openai/resources/chat/completions';
+import { AIProviderMode, getAIProviderMode } from '../../config/aiProviders';
+import { OutputSchema, sampleOutput } from './outputSchema';
+
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'ai');
+const FINGERPRINT_LENGTH = 32;
+// Rough token estimate for fake usage figures and streaming progress
+const CHARS_PER_TOKEN = 4;
+// Words per chunk when streaming fake and replayed answers
+const STREAM_CHUNK_WORDS = 3;
+
+/**
+ * A provider call in a provider-neutral form: what is fingerprinted and recorded
+ */
+export interface ProviderRequest {
+  provider: string;
+  model: string;
+  messages: unknown[];
+  options?: Record<string, unknown>;
+  // Shape the answer must have, for structured outputs
+  schema?: OutputSchema;
+}
+
+export interface ProviderCompletion {
+  text: string;
+  tokens?: { input: number; output: number };
+}
+
+/**
+ * Receives the output of a streamed provider call as it arrives. Listeners with `restart`
+ * are told when the output streamed so far is discarded, and are then streamed its replacement.
+ */
+export type TokenListener = ((text: string) => void) & { restart?: () => void };
+
+export interface RecordedExchange {
+  fingerprint: string;
+  request: ProviderRequest;
+  response: ProviderCompletion;
+  recordedAt: string;
+}
+
+/**
+ * How the fake provider answers calls it matches. Rules are tried in order; the first
+ * rule matching the provider, model and request text applies.
+ */
+export interface FakeRule {
+  provider?: string;
+  model?: string;
+  // Text the request must contain
+  match?: string;
+  latencyMs?: number;
+  // Fail with this message instead of answering
+  error?: string;
+  // Only apply to the first N matching calls
+  times?: number;
+  text?: string;
+  tokens?: { input: number; output: number };
+}
+
+export interface FakeScript {
+  latencyMs?: number;
+  rules?: FakeRule[];
+}
+
+export interface TransportOptions {
+  mode?: AIProviderMode;
+  fixturesDir?: string;
+  script?: FakeScript;
+}
+
+const sha256 = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+const mapStrings = (value: unknown, map: (text: string) => string): unknown => {
+  if (typeof value === 'string') {
+    return map(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, map));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]));
+  }
+  return value;
+};
+
+const collectStrings = (value: unknown): string[] => {
+  const strings: string[] = [];
+  mapStrings(value, text => {
+    strings.push(text);
+    return text;
+  });
+  return strings;
+};
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * The request with inline images (data URLs) replaced by their digest, so fixtures stay small
+ */
+export const sanitizeRequest = (request: ProviderRequest): ProviderRequest =>
+  mapStrings(request, text => {
+    const dataUrl = /^data:([^;,]+);base64,([\s\S]+)$/.exec(text);
+    return dataUrl ? `data:${dataUrl[1]};sha256,${sha256(dataUrl[2]!)}` : text;
+  }) as ProviderRequest;
+
+/**
+ * Identity of a request, independent of key order
+ */
+export const fingerprintRequest = (request: ProviderRequest): string =>
+  sha256(stableStringify(sanitizeRequest(request))).slice(0, FINGERPRINT_LENGTH);
+
+export const requestText = (request: ProviderRequest): string => collectStrings(request.messages).join('\n');
+
+/**
+ * Deterministic answer of the fake provider: a sample of the requested output schema, JSON
+ * when the prompt asks for it, otherwise text in the sectioned analysis format
+ */
+export const defaultFakeText = (request: ProviderRequest): string => {
+  const prompt = requestText(request);
+  const digest = sha256(prompt).slice(0, 8);
+
+  if (request.schema) {
+    return JSON.stringify(sampleOutput(request.schema));
+  }
+  if (/\bjson\b/i.test(prompt)) {
+    return JSON.stringify({
+      summary: `Fake ${request.model} response ${digest}`,
+      prediction: { trend: 'stable', value: 0.75 },
+      confidence: 0.8,
+      factors: ['Consistent activity', 'Assignment completion'],
+      recommendations: ['Keep reviewing course material weekly'],
+    });
+  }
+
+  return [
+    'ANALYSIS:',
+    `Fake analysis ${digest} by ${request.model} of ${prompt.length} characters of content.`,
+    '1. **Structure**: The content is organized into clear sections.',
+    '2. **Clarity**: Key terms are introduced before they are used.',
+    '3. **Practice**: Worked examples support the main concepts.',
+    '',
+    'CONFIDENCE: 80',
+    '',
+    'REASONING:',
+    'Generated by the fake AI provider for offline development.',
+    '',
+    'SUGGESTIONS:',
+    '- Add a short summary at the end of each section',
+    '- Include practice questions',
+    '',
+    'CATEGORIES:',
+    'education, content, analysis',
+    '',
+    'SENTIMENT: 0.2',
+    'COMPLEXITY: medium',
+  ].join('\n');
+};
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * A complete answer cut into the chunks it is streamed in when it did not come from a stream
+ */
+export const streamChunks = (text: string): string[] => {
+  const words = text.match(/\s*\S+\s*/g) ?? [];
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += STREAM_CHUNK_WORDS) {
+    chunks.push(words.slice(i, i + STREAM_CHUNK_WORDS).join(''));
+  }
+  return chunks;
+};
+
+const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (ms <= 0) {
+      resolve();
+      return;
+    }
+    if (signal?.aborted) {
+      reject(signal.reason ?? new Error('Aborted'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new Error('Aborted'));
+    };
+    // Removed once the delay ends, so a streamed answer does not leave one listener per chunk
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const loadFakeScript = (file?: string): FakeScript => {
+  if (!file) {
+    return {};
+  }
+  try {
+    return JSON.parse(readFileSync(file, 'utf-8')) as FakeScript;
+  } catch (error) {
+    throw new Error(`Could not read AI_FAKE_SCRIPT ${file}: ${error instanceof Error ? error.message : 'unknown error'}`);
+  }
+};
+
+/**
+ * Live chat completion through an OpenAI-compatible client, streamed when there is a listener
+ */
+export const chatCompletion = async (
+  client: OpenAI,
+  body: ChatCompletionCreateParamsNonStreaming,
+  signal?: AbortSignal,
+  onToken?: TokenListener
+): Promise<ProviderCompletion> => {
+  if (!onToken) {
+    const response = await client.chat.completions.create(body, signal ? { signal } : undefined);
+    return {
+      text: response.choices[0]?.message?.content ?? '',
+      tokens: { input: response.usage?.prompt_tokens ?? 0, output: response.usage?.completion_tokens ?? 0 },
+    };
+  }
+
+  const stream = await client.chat.completions.create(
+    { ...body, stream: true, stream_options: { include_usage: true } },
+    signal ? { signal } : undefined
+  );
+  let text = '';
+  let tokens = { input: 0, output: 0 };
+  for await (const chunk of stream) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      onToken(delta);
+    }
+    if (chunk.usage) {
+      tokens = { input: chunk.usage.prompt_tokens, output: chunk.usage.completion_tokens };
+    }
+  }
+  return { text, tokens };
+};
+
+export class AIProviderTransport {
+  private mode: AIProviderMode;
+  private fixturesDir: string;
+  private script: FakeScript;
+  private readonly ruleCalls = new Map<FakeRule, number>();
+
+  constructor(options: TransportOptions = {}) {
+    this.mode = options.mode ?? 'live';
+    this.fixturesDir = options.fixturesDir ?? DEFAULT_FIXTURES_DIR;
+    this.script = options.script ?? {};
+  }
+
+  getMode(): AIProviderMode {
+    return this.mode;
+  }
+
+  /**
+   * Switch mode, fixture directory or fake script, e.g. from a test
+   */
+  configure(options: TransportOptions): void {
+    this.mode = options.mode ?? this.mode;
+    this.fixturesDir = options.fixturesDir ?? this.fixturesDir;
+    if (options.script) {
+      this.script = options.script;
+      this.ruleCalls.clear();
+    }
+  }
+
+  /**
+   * Make a provider call according to the mode; `live` performs the real call. With a
+   * listener the answer is streamed to it: live calls stream from the provider where it
+   * supports that, fake and replayed answers are streamed in chunks.
+   */
+  async complete(
+    request: ProviderRequest,
+    live: (onToken?: TokenListener) => Promise<ProviderCompletion>,
+    signal?: AbortSignal,
+    onToken?: TokenListener
+  ): Promise<ProviderCompletion> {
+    switch (this.mode) {
+      case 'replay': {
+        const response = await this.replay(request);
+        streamChunks(response.text).forEach(chunk => onToken?.(chunk));
+        return response;
+      }
+      case 'fake':
+        return this.fake(request, signal, onToken);
+      default: {
+        let streamed = false;
+        const response = await live(onToken && (text => {
+          streamed = true;
+          onToken(text);
+        }));
+        // Providers that cannot stream hand over the whole answer at the end
+        if (onToken && !streamed && response.text) {
+          onToken(response.text);
+        }
+        if (this.mode === 'record') {
+          await this.record(request, response);
+        }
+        return response;
+      }
+    }
+  }
+
+  /**
+   * Chat completion through an OpenAI-compatible client
+   */
+  async chat(
+    client: OpenAI,
+    provider: string,
+    body: ChatCompletionCreateParamsNonStreaming,
+    signal?: AbortSignal,
+    onToken?: TokenListener
+  ): Promise<ProviderCompletion> {
+    const { model, messages, ...options } = body;
+    return this.complete(
+      { provider, model, messages, options },
+      listener => chatCompletion(client, body, signal, listener),
+      signal,
+      onToken
+    );
+  }
+
+  private fixturePath(request: ProviderRequest): string {
+    const provider = request.provider.replace(/[^a-z0-9._-]/gi, '_');
+    return path.join(this.fixturesDir, provider, `${fingerprintRequest(request)}.json`);
+  }
+
+  private async replay(request: ProviderRequest): Promise<ProviderCompletion> {
+    const file = this.fixturePath(request);
+    try {
+      const exchange = JSON.parse(await fs.readFile(file, 'utf-8')) as RecordedExchange;
+      return exchange.response;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(
+          `No recorded response for ${request.provider}/${request.model} (${fingerprintRequest(request)}); ` +
+          'record one with AI_PROVIDER_MODE=record'
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Save a live exchange. Never throws, so recording cannot fail the call it records.
+   */
+  private async record(request: ProviderRequest, response: ProviderCompletion): Promise<void> {
+    const file = this.fixturePath(request);
+    const exchange: RecordedExchange = {
+      fingerprint: fingerprintRequest(request),
+      request: sanitizeRequest(request),
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, `${JSON.stringify(exchange, null, 2)}\n`);
+    } catch (error) {
+      console.error('❌ Failed to record AI response:', error);
+    }
+  }
+
+  private async fake(request: ProviderRequest, signal?: AbortSignal, onToken?: TokenListener): Promise<ProviderCompletion> {
+    const prompt = requestText(request);
+    const rule = (this.script.rules ?? []).find(candidate =>
+      (candidate.provider === undefined || candidate.provider === request.provider) &&
+      (candidate.model === undefined || candidate.model === request.model) &&
+      (candidate.match === undefined || prompt.includes(candidate.match)) &&
+      (candidate.times === undefined || (this.ruleCalls.get(candidate) ?? 0) < candidate.times)
+    );
+    if (rule) {
+      this.ruleCalls.set(rule, (this.ruleCalls.get(rule) ?? 0) + 1);
+    }
+
+    const latencyMs = rule?.latencyMs ?? this.script.latencyMs ?? 0;
+    const text = rule?.text ?? defaultFakeText(request);
+    const chunks = onToken && !rule?.error ? streamChunks(text) : [];
+
+    if (chunks.length > 0) {
+      // The latency is spread over the chunks, like a provider generating the answer
+      for (const chunk of chunks) {
+        await delay(latencyMs / chunks.length, signal);
+        onToken!(chunk);
+      }
+    } else {
+      await delay(latencyMs, signal);
+    }
+    if (rule?.error) {
+      throw new Error(rule.error);
+    }
+
+    return { text, tokens: rule?.tokens ?? { input: estimateTokens(prompt), output: estimateTokens(text) } };
+  }
+}
+
+export const aiProviderTransport = new AIProviderTransport({
+  mode: getAIProviderMode(),
+  ...(process.env['AI_FIXTURES_DIR'] && { fixturesDir: process.env['AI_FIXTURES_DIR'] }),
+  script: loadFakeScript(process.env['AI_FAKE_SCRIPT']),
+});
@@ -3,9 +3,7 @@
  * Story 1.2: AI Model Service Infrastructure
  */
 
-import { GPT4Service } from './GPT4Service';
-import { ClaudeService } from './ClaudeService';
-import { GeminiService } from './GeminiService';
+import { createAIService } from './AIProviderRegistry';
 import { AbstractAIService } from './AbstractAIService';
 import { AIServiceType, AIServiceConfig } from './types';
 
@@ -36,19 +34,7 @@ export class AIServiceFactory {
       throw new Error(`No configuration found for service type: ${type}`);
     }
 
-    switch (type) {
-      case 'gpt4':
-        return new GPT4Service(serviceConfig);
-      
-      case 'claude':
-        return new ClaudeService(serviceConfig);
-      
-      case 'gemini':
-        return new GeminiService(serviceConfig);
-      
-      default:
-        throw new Error(`Unsupported service type: ${type}`);
-    }
+    return createAIService(type, serviceConfig);
   }
 
   /**
@@ -1,9 +1,19 @@
 import { AbstractAIService } from './AbstractAIService';
-import { AIServiceType, AIServiceConfig, AIAnalysisResponse, AIServiceMetrics } from './types';
-import { GPT4Service } from './GPT4Service';
-import { ClaudeService } from './ClaudeService';
-import { GeminiService } from './GeminiService';
+import {
+  AIServiceType,
+  AIServiceConfig,
+  AIAnalysisResponse,
+  AIServiceMetrics,
+  MultiAIAnalysisRequest,
+  MultiAIAnalysisResponse,
+} from './types';
+import { createAIService } from './AIProviderRegistry';
 import CircuitBreaker from 'opossum';
+import type { AIResultCache } from '../aiResultCache';
+import type { AIUsageContext, AIUsageRecorder } from '../aiUsageService';
+import type { PromptResolver } from '../promptTemplateService';
+import { builtinPrompt, ResolvedPrompt } from '../../config/promptTemplates';
+import { buildConsensus } from '../consensusEngine';
 
 export interface AIServiceManagerConfig {
   services: AIServiceConfig[];
@@ -23,7 +33,12 @@ export class AIServiceManager {
   private config: AIServiceManagerConfig;
   private isInitialized = false;
 
-  constructor(config: AIServiceManagerConfig) {
+  constructor(
+    config: AIServiceManagerConfig,
+    private readonly cache: AIResultCache | null = null,
+    private readonly usage: AIUsageRecorder | null = null,
+    private readonly prompts: PromptResolver | null = null
+  ) {
     this.config = config;
   }
 
@@ -47,29 +62,19 @@ export class AIServiceManager {
       throw new Error(`No configuration found for service: ${serviceType}`);
     }
 
-    let service: AbstractAIService;
+    // Provider kind from the registry, or the service type for configurations without one
+    const service = createAIService(serviceType, serviceConfig);
 
-    switch (serviceType) {
-      case 'openrouter':
-        // For now, use a mock service until we implement OpenRouterService
-        service = new GPT4Service(serviceConfig);
-        break;
-      case 'gpt4':
-        service = new GPT4Service(serviceConfig);
-        break;
-      case 'claude':
-        service = new ClaudeService(serviceConfig);
-        break;
-      case 'gemini':
-        service = new GeminiService(serviceConfig);
-        break;
-      default:
-        throw new Error(`Unsupported AI service type: ${serviceType}`);
-    }
-
-    // Create circuit breaker for service
+    // Create circuit breaker for service. Services report provider errors as unsuccessful
+    // responses, which count as failures so they trip the breaker and fall back.
     const circuitBreaker = new CircuitBreaker(
-      async (content: string, contentType: string) => service.analyzeContent(content, contentType),
+      async (content: string, contentType: string, prompt: ResolvedPrompt) => {
+        const response = await service.analyzeContent(content, contentType, prompt);
+        if (!response.success) {
+          throw new Error(response.error ?? `${serviceType} analysis failed`);
+        }
+        return response;
+      },
       this.config.circuitBreakerOptions
     );
 
@@ -80,20 +85,132 @@ export class AIServiceManager {
   async analyzeContent(
     content: string, 
     contentType: string, 
-    preferredService?: AIServiceType
+    preferredService?: AIServiceType,
+    usageContext?: AIUsageContext
   ): Promise<AIAnalysisResponse> {
     if (!this.isInitialized) {
       await this.initialize();
     }
 
-    const errors: Error[] = [];
-
     // Try primary service first (default or specified)
     const primaryService = preferredService || this.config.defaultService;
-    
+    const prompt = await this.resolvePrompt(usageContext);
+
+    return this.withCache(content, contentType, primaryService, prompt, () =>
+      this.analyzeWithFallback(content, contentType, primaryService, prompt, usageContext)
+    );
+  }
+
+  /**
+   * Run the same analysis on several services side by side and, when consensus is required,
+   * score how much they agree. Services do not fall back to one another here, so each result
+   * is that service's own answer.
+   */
+  async analyzeMulti(request: MultiAIAnalysisRequest, usageContext?: AIUsageContext): Promise<MultiAIAnalysisResponse> {
+    if (!this.isInitialized) {
+      await this.initialize();
+    }
+
+    const startTime = Date.now();
+    const { content, contentType, services, options = {} } = request;
+    const prompt = await this.resolvePrompt(usageContext);
+    const results = new Map<AIServiceType, AIAnalysisResponse>();
+    const failedServices: AIServiceType[] = [];
+
+    const waiting = [...services];
+    const parallel = Math.max(1, Math.min(options.maxParallelRequests ?? services.length, services.length));
+    const worker = async (): Promise<void> => {
+      for (let service = waiting.shift(); service !== undefined; service = waiting.shift()) {
+        const serviceType = service;
+        const serviceStart = Date.now();
+        let response: AIAnalysisResponse;
+        try {
+          if (!this.config.enabledServices.includes(serviceType)) {
+            throw new Error(`Service ${serviceType} is not enabled`);
+          }
+          response = await this.withCache(content, contentType, serviceType, prompt, () =>
+            this.executeWithCircuitBreaker(serviceType, content, contentType, prompt, usageContext)
+          );
+        } catch (error) {
+          response = {
+            success: false,
+            content: '',
+            confidence: 0,
+            processingTime: Date.now() - serviceStart,
+            metadata: { serviceName: serviceType, model: serviceType },
+            error: error instanceof Error ? error.message : 'Unknown error',
+          };
+        }
+
+        results.set(serviceType, response);
+        if (!response.success) {
+          failedServices.push(serviceType);
+        }
+        options.progressCallback?.({
+          stage: 'analysis',
+          percentage: Math.round((results.size / services.length) * 100),
+          message: `${serviceType} ${response.success ? 'completed' : 'failed'} (${results.size}/${services.length})`,
+        });
+      }
+    };
+    await Promise.all(Array.from({ length: parallel }, worker));
+
+    const consensus = options.requireConsensus ? buildConsensus(results, options.confidenceThreshold) : undefined;
+
+    return {
+      success: failedServices.length < services.length,
+      results,
+      ...(consensus && { consensus: consensus.consensus }),
+      processingTime: Date.now() - startTime,
+      metadata: {
+        servicesUsed: services.filter(service => !failedServices.includes(service)),
+        failedServices,
+        ...(consensus?.bestResult && { bestResult: consensus.bestResult }),
+      },
+    };
+  }
+
+  /**
+   * Template of the course the request is billed to, if it overrides the platform one
+   */
+  private async resolvePrompt(usageContext?: AIUsageContext): Promise<ResolvedPrompt> {
+    return this.prompts
+      ? this.prompts.resolve('content-analysis', usageContext?.courseId)
+      : builtinPrompt('content-analysis');
+  }
+
+  /**
+   * Cached per requested service, whichever service ended up answering; failed responses are not kept
+   */
+  private withCache(
+    content: string,
+    contentType: string,
+    service: AIServiceType,
+    prompt: ResolvedPrompt,
+    analyze: () => Promise<AIAnalysisResponse>
+  ): Promise<AIAnalysisResponse> {
+    if (!this.cache) {
+      return analyze();
+    }
+    return this.cache.withCache(
+      { content: `${contentType}\0${content}`, model: service, promptVersion: prompt.version },
+      analyze,
+      response => response.success
+    );
+  }
+
+  private async analyzeWithFallback(
+    content: string,
+    contentType: string,
+    primaryService: AIServiceType,
+    prompt: ResolvedPrompt,
+    usageContext?: AIUsageContext
+  ): Promise<AIAnalysisResponse> {
+    const errors: Error[] = [];
+
     if (this.config.enabledServices.includes(primaryService)) {
       try {
-        return await this.executeWithCircuitBreaker(primaryService, content, contentType);
+        return await this.executeWithCircuitBreaker(primaryService, content, contentType, prompt, usageContext);
       } catch (error) {
         errors.push(error as Error);
         console.warn(`Primary service ${primaryService} failed:`, error);
@@ -106,7 +223,7 @@ export class AIServiceManager {
       
       if (this.config.enabledServices.includes(serviceType)) {
         try {
-          return await this.executeWithCircuitBreaker(serviceType, content, contentType);
+          return await this.executeWithCircuitBreaker(serviceType, content, contentType, prompt, usageContext);
         } catch (error) {
           errors.push(error as Error);
           console.warn(`Fallback service ${serviceType} failed:`, error);
@@ -121,14 +238,29 @@ export class AIServiceManager {
   private async executeWithCircuitBreaker(
     serviceType: AIServiceType, 
     content: string, 
-    contentType: string
+    contentType: string,
+    prompt: ResolvedPrompt,
+    usageContext?: AIUsageContext
   ): Promise<AIAnalysisResponse> {
     const circuitBreaker = this.circuitBreakers.get(serviceType);
     if (!circuitBreaker) {
       throw new Error(`Circuit breaker not found for service: ${serviceType}`);
     }
 
-    return await circuitBreaker.fire(content, contentType) as AIAnalysisResponse;
+    const response = await circuitBreaker.fire(content, contentType, prompt) as AIAnalysisResponse;
+
+    // Record the call against whoever asked for it
+    if (this.usage && usageContext && response?.success) {
+      await this.usage.record({
+        userId: usageContext.userId,
+        courseId: usageContext.courseId ?? null,
+        model: serviceType,
+        source: 'ai-models',
+        tokens: response.metadata.tokens ?? null,
+      });
+    }
+
+    return response;
   }
 
   async getServiceHealth(serviceType?: AIServiceType): Promise<boolean | Record<AIServiceType, boolean>> {
@@ -173,6 +305,10 @@ export class AIServiceManager {
     return metricsMap as Record<AIServiceType, AIServiceMetrics>;
   }
 
+  getDefaultService(): AIServiceType {
+    return this.config.defaultService;
+  }
+
   getEnabledServices(): AIServiceType[] {
     if (!this.isInitialized) {
       return [];
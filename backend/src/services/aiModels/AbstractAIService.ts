@@ -1,4 +1,7 @@
 import { AIAnalysisResponse, AIServiceInfo, AIServiceConfig, AIServiceMetrics } from './types';
+import { contentAnalysisContract, formatInstructions } from './structuredOutput';
+import type { TokenListener } from './AIProviderTransport';
+import { renderPrompt, ResolvedPrompt } from '../../config/promptTemplates';
 
 export abstract class AbstractAIService {
   protected config: AIServiceConfig;
@@ -18,7 +21,13 @@ export abstract class AbstractAIService {
   }
 
   abstract getServiceName(): string;
-  abstract analyzeContent(content: string, contentType: string): Promise<AIAnalysisResponse>;
+  // Streams the answer to `onToken` as it is generated, when given
+  abstract analyzeContent(
+    content: string,
+    contentType: string,
+    prompt?: ResolvedPrompt,
+    onToken?: TokenListener
+  ): Promise<AIAnalysisResponse>;
   abstract getServiceInfo(): AIServiceInfo;
 
   protected validateContent(content: string, contentType: string): void {
@@ -47,6 +56,13 @@ export abstract class AbstractAIService {
     }
   }
 
+  /**
+   * The content-analysis template filled in, followed by the output contract
+   */
+  protected createEducationalPrompt(content: string, contentType: string, prompt: ResolvedPrompt): string {
+    return `${renderPrompt(prompt, { content, contentType })}\n\n${formatInstructions(contentAnalysisContract)}`;
+  }
+
   protected updateMetrics(success: boolean, responseTime: number): void {
     this.metrics.totalRequests++;
     this.metrics.lastRequestTime = new Date();
@@ -5,7 +5,10 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import { AbstractAIService } from './AbstractAIService';
+import { ChatMessage, contentAnalysisContract, generateStructured } from './structuredOutput';
+import type { TokenListener } from './AIProviderTransport';
 import { AIAnalysisResponse, AIServiceInfo, AIServiceConfig } from './types';
+import { builtinPrompt, ResolvedPrompt } from '../../config/promptTemplates';
 
 export class ClaudeService extends AbstractAIService {
   private anthropic: Anthropic;
@@ -17,6 +20,11 @@ export class ClaudeService extends AbstractAIService {
     });
   }
 
+  // Model named by the provider registry, Claude 3 Sonnet otherwise
+  protected get modelName(): string {
+    return this.config.models?.[0] ?? 'claude-3-sonnet-20240229';
+  }
+
   getServiceName(): string {
     return 'Claude';
   }
@@ -39,7 +47,12 @@ export class ClaudeService extends AbstractAIService {
     };
   }
 
-  async analyzeContent(content: string, contentType: string): Promise<AIAnalysisResponse> {
+  async analyzeContent(
+    content: string,
+    contentType: string,
+    prompt: ResolvedPrompt = builtinPrompt('content-analysis'),
+    onToken?: TokenListener
+  ): Promise<AIAnalysisResponse> {
     const startTime = Date.now();
     
     try {
@@ -48,38 +61,48 @@ export class ClaudeService extends AbstractAIService {
       const textContent = this.extractTextFromContent(content, contentType);
       
       // Create educational analysis prompt
-      const educationalPrompt = this.createEducationalPrompt(textContent, contentType);
+      const educationalPrompt = this.createEducationalPrompt(textContent, contentType, prompt);
       
-      const message = await this.anthropic.messages.create({
-        model: 'claude-3-sonnet-20240229',
-        max_tokens: 1000,
-        temperature: 0.3,
-        messages: [
-          {
-            role: 'user',
-            content: educationalPrompt
+      const message = await generateStructured(
+        contentAnalysisContract,
+        {
+          provider: this.config.provider ?? 'anthropic',
+          model: this.modelName,
+          messages: [{ role: 'user', content: educationalPrompt }],
+          options: { max_tokens: 1000, temperature: 0.3 },
+          ...(onToken && { onToken }),
+        },
+        async (messages: ChatMessage[], listener?: TokenListener) => {
+          const stream = this.anthropic.messages.stream({
+            model: this.modelName,
+            max_tokens: 1000,
+            temperature: 0.3,
+            messages: messages.map(({ role, content }) => ({ role: role === 'assistant' ? 'assistant' : 'user', content })),
+          });
+          if (listener) {
+            stream.on('text', listener);
           }
-        ],
-      });
+          const response = await stream.finalMessage();
+          return {
+            text: response.content[0]?.type === 'text' ? response.content[0].text : '',
+            tokens: { input: response.usage?.input_tokens || 0, output: response.usage?.output_tokens || 0 },
+          };
+        }
+      );
 
       const processingTime = Date.now() - startTime;
-      const analysis = message.content[0]?.type === 'text' ? message.content[0].text : 'No analysis generated';
-      
-      // Parse the analysis response
-      const parsedAnalysis = this.parseAnalysisResponse(analysis);
+      const parsedAnalysis = message.value;
       
       const response: AIAnalysisResponse = {
         success: true,
-        content: parsedAnalysis.content,
+        content: parsedAnalysis.analysis,
         confidence: parsedAnalysis.confidence,
         processingTime,
         metadata: {
           serviceName: this.getServiceName(),
-          model: 'claude-3-sonnet-20240229',
-          tokens: {
-            input: message.usage?.input_tokens || 0,
-            output: message.usage?.output_tokens || 0,
-          },
+          model: this.modelName,
+          promptVersion: prompt.version,
+          tokens: message.tokens,
           ...(parsedAnalysis.reasoning && { reasoning: parsedAnalysis.reasoning }),
           ...(parsedAnalysis.suggestions && { suggestions: parsedAnalysis.suggestions }),
           ...(parsedAnalysis.categories && { categories: parsedAnalysis.categories }),
@@ -102,116 +125,10 @@ export class ClaudeService extends AbstractAIService {
         processingTime,
         metadata: {
           serviceName: this.getServiceName(),
-          model: 'claude-3-sonnet-20240229',
+          model: this.modelName,
         },
         error: error instanceof Error ? error.message : 'Unknown error occurred',
       };
     }
   }
-
-  private createEducationalPrompt(content: string, contentType: string): string {
-    return `
-As an expert educational content analyst, please provide a comprehensive assessment of the following content:
-
-Content Type: ${contentType}
-Content: ${content}
-
-Please analyze this content with a focus on educational value, pedagogical effectiveness, and learning outcomes. Structure your response as follows:
-
-ANALYSIS:
-[Provide a detailed analysis covering educational effectiveness, clarity, engagement level, and learning potential]
-
-CONFIDENCE: [0-100]
-[Your confidence level in this analysis]
-
-REASONING:
-[Explain your analytical approach, key criteria used, and factors that influenced your assessment]
-
-SUGGESTIONS:
-- [Specific, actionable suggestion 1]
-- [Specific, actionable suggestion 2]
-- [Additional improvement recommendations]
-
-CATEGORIES:
-[List relevant educational categories, subjects, or learning domains]
-
-SENTIMENT: [Score from -1 to 1]
-[Rate the overall tone and emotional impact]
-
-COMPLEXITY: [Low/Medium/High]
-[Assess the cognitive load and difficulty level]
-    `;
-  }
-
-  private parseAnalysisResponse(analysis: string): {
-    content: string;
-    confidence: number;
-    reasoning?: string;
-    suggestions?: string[];
-    categories?: string[];
-    sentimentScore?: number;
-    complexity?: 'low' | 'medium' | 'high';
-  } {
-    const result: {
-      content: string;
-      confidence: number;
-      reasoning?: string;
-      suggestions?: string[];
-      categories?: string[];
-      sentimentScore?: number;
-      complexity?: 'low' | 'medium' | 'high';
-    } = {
-      content: analysis,
-      confidence: 88, // Default confidence for Claude
-    };
-
-    try {
-      // Extract confidence
-      const confidenceMatch = analysis.match(/CONFIDENCE:\s*(\d+)/i);
-      if (confidenceMatch && confidenceMatch[1]) {
-        result.confidence = parseInt(confidenceMatch[1], 10);
-      }
-
-      // Extract reasoning
-      const reasoningMatch = analysis.match(/REASONING:\s*(.*?)(?=\n[A-Z]+:|$)/s);
-      if (reasoningMatch && reasoningMatch[1]) {
-        result.reasoning = reasoningMatch[1].trim();
-      }
-
-      // Extract suggestions
-      const suggestionsMatch = analysis.match(/SUGGESTIONS:\s*(.*?)(?=\n[A-Z]+:|$)/s);
-      if (suggestionsMatch && suggestionsMatch[1]) {
-        result.suggestions = suggestionsMatch[1]
-          .split('\n')
-          .map(s => s.replace(/^-\s*/, '').trim())
-          .filter(s => s.length > 0);
-      }
-
-      // Extract categories
-      const categoriesMatch = analysis.match(/CATEGORIES:\s*(.*?)(?=\n[A-Z]+:|$)/s);
-      if (categoriesMatch && categoriesMatch[1]) {
-        result.categories = categoriesMatch[1]
-          .split(',')
-          .map(c => c.trim())
-          .filter(c => c.length > 0);
-      }
-
-      // Extract sentiment
-      const sentimentMatch = analysis.match(/SENTIMENT:\s*([-+]?[0-9]*\.?[0-9]+)/i);
-      if (sentimentMatch && sentimentMatch[1]) {
-        result.sentimentScore = parseFloat(sentimentMatch[1]);
-      }
-
-      // Extract complexity
-      const complexityMatch = analysis.match(/COMPLEXITY:\s*(Low|Medium|High)/i);
-      if (complexityMatch && complexityMatch[1]) {
-        result.complexity = complexityMatch[1].toLowerCase() as 'low' | 'medium' | 'high';
-      }
-
-    } catch (parseError) {
-      console.warn('Failed to parse Claude analysis response:', parseError);
-    }
-
-    return result;
-  }
 }
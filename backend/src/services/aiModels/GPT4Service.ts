@@ -5,7 +5,10 @@
 
 import OpenAI from 'openai';
 import { AbstractAIService } from './AbstractAIService';
+import { chatStructured, contentAnalysisContract } from './structuredOutput';
+import type { TokenListener } from './AIProviderTransport';
 import { AIAnalysisResponse, AIServiceInfo, AIServiceConfig } from './types';
+import { builtinPrompt, ResolvedPrompt } from '../../config/promptTemplates';
 
 export class GPT4Service extends AbstractAIService {
   private openai: OpenAI;
@@ -14,9 +17,16 @@ export class GPT4Service extends AbstractAIService {
     super(config);
     this.openai = new OpenAI({
       apiKey: config.apiKey,
+      ...(config.endpoint && { baseURL: config.endpoint }),
+      ...(config.headers && { defaultHeaders: config.headers }),
     });
   }
 
+  // Model named by the provider registry, GPT-4 otherwise
+  protected get modelName(): string {
+    return this.config.models?.[0] ?? 'gpt-4';
+  }
+
   getServiceName(): string {
     return 'GPT-4';
   }
@@ -39,7 +49,12 @@ export class GPT4Service extends AbstractAIService {
     };
   }
 
-  async analyzeContent(content: string, contentType: string): Promise<AIAnalysisResponse> {
+  async analyzeContent(
+    content: string,
+    contentType: string,
+    prompt: ResolvedPrompt = builtinPrompt('content-analysis'),
+    onToken?: TokenListener
+  ): Promise<AIAnalysisResponse> {
     const startTime = Date.now();
     
     try {
@@ -48,10 +63,10 @@ export class GPT4Service extends AbstractAIService {
       const textContent = this.extractTextFromContent(content, contentType);
       
       // Create educational analysis prompt
-      const educationalPrompt = this.createEducationalPrompt(textContent, contentType);
+      const educationalPrompt = this.createEducationalPrompt(textContent, contentType, prompt);
       
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4',
+      const completion = await chatStructured(this.openai, this.config.provider ?? 'openai', contentAnalysisContract, {
+        model: this.modelName,
         messages: [
           {
             role: 'system',
@@ -64,26 +79,22 @@ export class GPT4Service extends AbstractAIService {
         ],
         max_tokens: 1000,
         temperature: 0.3,
-      });
+        ...(this.config.capabilities?.jsonMode && { response_format: { type: 'json_object' as const } }),
+      }, onToken ? { onToken } : {});
 
       const processingTime = Date.now() - startTime;
-      const analysis = completion.choices[0]?.message?.content || 'No analysis generated';
-      
-      // Parse the analysis response
-      const parsedAnalysis = this.parseAnalysisResponse(analysis);
+      const parsedAnalysis = completion.value;
       
       const response: AIAnalysisResponse = {
         success: true,
-        content: parsedAnalysis.content,
+        content: parsedAnalysis.analysis,
         confidence: parsedAnalysis.confidence,
         processingTime,
         metadata: {
           serviceName: this.getServiceName(),
-          model: 'gpt-4',
-          tokens: {
-            input: completion.usage?.prompt_tokens || 0,
-            output: completion.usage?.completion_tokens || 0,
-          },
+          model: this.modelName,
+          promptVersion: prompt.version,
+          tokens: completion.tokens,
           ...(parsedAnalysis.reasoning && { reasoning: parsedAnalysis.reasoning }),
           ...(parsedAnalysis.suggestions && { suggestions: parsedAnalysis.suggestions }),
           ...(parsedAnalysis.categories && { categories: parsedAnalysis.categories }),
@@ -106,114 +117,10 @@ export class GPT4Service extends AbstractAIService {
         processingTime,
         metadata: {
           serviceName: this.getServiceName(),
-          model: 'gpt-4',
+          model: this.modelName,
         },
         error: error instanceof Error ? error.message : 'Unknown error occurred',
       };
     }
   }
-
-  private createEducationalPrompt(content: string, contentType: string): string {
-    return `
-Please analyze the following educational content and provide a comprehensive assessment:
-
-Content Type: ${contentType}
-Content: ${content}
-
-Please provide your analysis in the following structured format:
-
-ANALYSIS:
-[Your detailed analysis of the educational value, clarity, and effectiveness]
-
-CONFIDENCE: [0-100]
-[Your confidence level in this analysis]
-
-REASONING:
-[Explanation of your analysis approach and key factors considered]
-
-SUGGESTIONS:
-- [Specific suggestion 1]
-- [Specific suggestion 2]
-- [Additional suggestions as needed]
-
-CATEGORIES:
-[Comma-separated list of relevant educational categories or topics]
-
-SENTIMENT: [Positive/Neutral/Negative score from -1 to 1]
-
-COMPLEXITY: [Low/Medium/High]
-    `;
-  }
-
-  private parseAnalysisResponse(analysis: string): {
-    content: string;
-    confidence: number;
-    reasoning?: string;
-    suggestions?: string[];
-    categories?: string[];
-    sentimentScore?: number;
-    complexity?: 'low' | 'medium' | 'high';
-  } {
-    const result: {
-      content: string;
-      confidence: number;
-      reasoning?: string;
-      suggestions?: string[];
-      categories?: string[];
-      sentimentScore?: number;
-      complexity?: 'low' | 'medium' | 'high';
-    } = {
-      content: analysis,
-      confidence: 85, // Default confidence
-    };
-
-    try {
-      // Extract confidence
-      const confidenceMatch = analysis.match(/CONFIDENCE:\s*(\d+)/i);
-      if (confidenceMatch && confidenceMatch[1]) {
-        result.confidence = parseInt(confidenceMatch[1], 10);
-      }
-
-      // Extract reasoning
-      const reasoningMatch = analysis.match(/REASONING:\s*(.*?)(?=\n[A-Z]+:|$)/s);
-      if (reasoningMatch && reasoningMatch[1]) {
-        result.reasoning = reasoningMatch[1].trim();
-      }
-
-      // Extract suggestions
-      const suggestionsMatch = analysis.match(/SUGGESTIONS:\s*(.*?)(?=\n[A-Z]+:|$)/s);
-      if (suggestionsMatch && suggestionsMatch[1]) {
-        result.suggestions = suggestionsMatch[1]
-          .split('\n')
-          .map(s => s.replace(/^-\s*/, '').trim())
-          .filter(s => s.length > 0);
-      }
-
-      // Extract categories
-      const categoriesMatch = analysis.match(/CATEGORIES:\s*(.*?)(?=\n[A-Z]+:|$)/s);
-      if (categoriesMatch && categoriesMatch[1]) {
-        result.categories = categoriesMatch[1]
-          .split(',')
-          .map(c => c.trim())
-          .filter(c => c.length > 0);
-      }
-
-      // Extract sentiment
-      const sentimentMatch = analysis.match(/SENTIMENT:\s*([-+]?[0-9]*\.?[0-9]+)/i);
-      if (sentimentMatch && sentimentMatch[1]) {
-        result.sentimentScore = parseFloat(sentimentMatch[1]);
-      }
-
-      // Extract complexity
-      const complexityMatch = analysis.match(/COMPLEXITY:\s*(Low|Medium|High)/i);
-      if (complexityMatch && complexityMatch[1]) {
-        result.complexity = complexityMatch[1].toLowerCase() as 'low' | 'medium' | 'high';
-      }
-
-    } catch (parseError) {
-      console.warn('Failed to parse GPT-4 analysis response:', parseError);
-    }
-
-    return result;
-  }
 }
@@ -0,0 +1,33 @@
+/**
+ * OpenAI-compatible Service Implementation
+ * Any model served over the OpenAI chat completions API (OpenRouter, local servers such as
+ * Ollama or vLLM), as declared in the provider registry
+ */
+
+import { GPT4Service } from './GPT4Service';
+import { AIServiceInfo } from './types';
+
+export class OpenAICompatibleService extends GPT4Service {
+  override getServiceName(): string {
+    return this.config.displayName ?? this.config.serviceName ?? this.modelName;
+  }
+
+  override getServiceInfo(): AIServiceInfo {
+    const capabilities = this.config.capabilities;
+    return {
+      name: this.getServiceName(),
+      type: this.config.serviceName ?? 'openrouter',
+      version: '1.0.0',
+      description: `${this.modelName} via ${this.config.endpoint ?? 'an OpenAI-compatible endpoint'}`,
+      capabilities: [
+        'text_analysis',
+        'content_summarization',
+        'educational_content_review',
+        ...(capabilities?.vision ? ['image_analysis'] : []),
+        ...(capabilities?.jsonMode ? ['json_output'] : []),
+      ],
+      status: 'available',
+      lastHealthCheck: new Date(),
+    };
+  }
+}
@@ -1,30 +1,62 @@
 import { OpenAI } from 'openai';
-import { AIModel } from './AIModelFactory';
+import { AIModel, AnalyzeOptions } from './AIModelFactory';
+import { aiProviderTransport } from './AIProviderTransport';
+import { promptFor, renderPrompt } from '../../config/promptTemplates';
+import { imagePreprocessingService } from '../imagePreprocessingService';
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+/**
+ * Where an OpenAI-compatible model is served and what it can do; OpenRouter by default
+ */
+export interface OpenAICompatibleOptions {
+  // Registry provider id, which also names its fixture directory
+  providerId?: string;
+  baseURL?: string;
+  headers?: Record<string, string>;
+  providerName?: string;
+  // Images are only sent to models that can see them; others analyze the file description
+  vision?: boolean;
+  // Images are downsized to this longest edge before they are sent
+  maxImageDimension?: number;
+  estimatedTimeMs?: number;
+}
 
 export class OpenRouterIntegration implements AIModel {
   private client: OpenAI;
   private model: string;
   private displayName: string;
+  private providerId: string;
+  private providerName: string;
+  private vision: boolean;
+  private maxImageDimension: number;
+  private estimatedTimeMs: number;
 
-  constructor(apiKey: string, model: string, displayName: string) {
+  constructor(apiKey: string, model: string, displayName: string, options: OpenAICompatibleOptions = {}) {
     this.client = new OpenAI({
-      baseURL: 'https://openrouter.ai/api/v1',
+      baseURL: options.baseURL ?? OPENROUTER_BASE_URL,
       apiKey: apiKey,
-      defaultHeaders: {
+      defaultHeaders: options.headers ?? {
         'HTTP-Referer': 'http://localhost:3000', // Your site URL
         'X-Title': 'LMS CNN Analysis', // Your app name
       }
     });
     this.model = model;
     this.displayName = displayName;
+    this.providerId = options.providerId ?? 'openrouter';
+    this.providerName = options.providerName ?? 'OpenRouter';
+    this.vision = options.vision ?? true;
+    this.maxImageDimension = options.maxImageDimension ?? 2048;
+    this.estimatedTimeMs = options.estimatedTimeMs ?? 3000;
   }
 
-  async analyze(content: string, file?: Express.Multer.File): Promise<any> {
+  async analyze(content: string, file?: Express.Multer.File, options: AnalyzeOptions = {}): Promise<any> {
     const startTime = Date.now();
+    const { signal, prompts, onToken } = options;
     
     try {
       // Debug logging
-      console.log(`🔍 OpenRouter ${this.displayName} analyzing content:`, {
+      console.log(`🔍 ${this.providerName} ${this.displayName} analyzing content:`, {
         contentLength: content.length,
         contentPreview: content.substring(0, 200) + '...',
         model: this.model,
@@ -34,27 +66,15 @@ export class OpenRouterIntegration implements AIModel {
       });
 
       // Handle image files differently
-      if (file && file.mimetype.startsWith('image/')) {
+      if (file && file.mimetype.startsWith('image/') && this.vision) {
         console.log(`📸 Processing image file: ${file.originalname}`);
         
-        // Convert image to base64
-        let imageBuffer: Buffer;
+        // Downsized to what the provider uses, without metadata
+        const image = await imagePreprocessingService.prepareForModel(file, this.maxImageDimension);
+        const imageUrl = `data:${image.mimeType};base64,${image.data.toString('base64')}`;
+        const imagePrompt = promptFor(prompts, 'analysis-image');
         
-        if (file.buffer) {
-          // File is already in memory as buffer
-          imageBuffer = file.buffer;
-        } else if (file.path) {
-          // File is stored on disk, read it
-          const fs = require('fs');
-          imageBuffer = fs.readFileSync(file.path);
-        } else {
-          throw new Error('File buffer or path not available');
-        }
-        
-        const base64Image = imageBuffer.toString('base64');
-        const imageUrl = `data:${file.mimetype};base64,${base64Image}`;
-        
-        const response = await this.client.chat.completions.create({
+        const response = await aiProviderTransport.chat(this.client, this.providerId, {
           model: this.model,
           messages: [
             {
@@ -66,16 +86,7 @@ export class OpenRouterIntegration implements AIModel {
               content: [
                 {
                   type: 'text',
-                  text: `Analyze this image in detail and provide specific insights about what you see:
-
-Please provide:
-1. A detailed description of what is actually visible in the image
-2. Specific objects, colors, textures, and visual elements you can identify
-3. The context, setting, or environment shown
-4. Educational or practical applications relevant to what you observe
-5. Specific recommendations based on the actual visual content
-
-Be concrete and specific to what you actually see in the image. Avoid generic responses.`
+                  text: renderPrompt(imagePrompt, { fileName: file.originalname })
                 },
                 {
                   type: 'image_url',
@@ -88,15 +99,15 @@ Be concrete and specific to what you actually see in the image. Avoid generic re
           ],
           temperature: 0.3,
           max_tokens: 1000
-        });
+        }, signal, onToken);
 
         console.log(`🔍 OpenRouter image analysis response:`, {
-          responseLength: response.choices[0]?.message?.content?.length || 0,
-          responsePreview: response.choices[0]?.message?.content?.substring(0, 200) + '...',
-          usage: response.usage
+          responseLength: response.text.length,
+          responsePreview: response.text.substring(0, 200) + '...',
+          tokens: response.tokens
         });
 
-        const analysis = response.choices[0]?.message?.content || 'No analysis available';
+        const analysis = response.text || 'No analysis available';
         
         return {
           summary: analysis,
@@ -109,15 +120,17 @@ Be concrete and specific to what you actually see in the image. Avoid generic re
           processingTime: Date.now() - startTime,
           metadata: {
             model: this.model,
-            provider: 'OpenRouter',
-            usage: response.usage,
+            provider: this.providerName,
+            tokens: response.tokens,
+            promptVersion: imagePrompt.version,
             type: 'image_analysis'
           }
         };
       }
 
       // Handle text content
-      const response = await this.client.chat.completions.create({
+      const textPrompt = promptFor(prompts, 'analysis-text');
+      const response = await aiProviderTransport.chat(this.client, this.providerId, {
         model: this.model,
         messages: [
           {
@@ -126,31 +139,20 @@ Be concrete and specific to what you actually see in the image. Avoid generic re
           },
           {
             role: 'user',
-            content: `Analyze this specific content in detail and provide insights relevant to what you see:
-
-CONTENT TO ANALYZE:
-${content}
-
-Please provide:
-1. A specific summary of what this content actually contains
-2. Key insights that are directly relevant to this specific content
-3. Educational or practical applications specific to this content
-4. Specific recommendations based on what you observe
-
-Be concrete and avoid generic responses. Focus on the actual content provided.`
+            content: renderPrompt(textPrompt, { content })
           }
         ],
         temperature: 0.3, // Lower temperature for more consistent, focused responses
         max_tokens: 1000
-      });
+      }, signal, onToken);
 
       console.log(`🔍 OpenRouter text analysis response:`, {
-        responseLength: response.choices[0]?.message?.content?.length || 0,
-        responsePreview: response.choices[0]?.message?.content?.substring(0, 200) + '...',
-        usage: response.usage
+        responseLength: response.text.length,
+        responsePreview: response.text.substring(0, 200) + '...',
+        tokens: response.tokens
       });
 
-      const analysis = response.choices[0]?.message?.content || 'No analysis generated';
+      const analysis = response.text || 'No analysis generated';
       
       return {
         summary: analysis,
@@ -163,13 +165,18 @@ Be concrete and avoid generic responses. Focus on the actual content provided.`
         processingTime: Date.now() - startTime,
         metadata: {
           model: this.model,
-          provider: 'OpenRouter',
-          usage: response.usage,
+          provider: this.providerName,
+          tokens: response.tokens,
+          promptVersion: textPrompt.version,
           type: 'text_analysis'
         }
       };
     } catch (error) {
-      console.error(`OpenRouter ${this.displayName} analysis failed:`, error);
+      // Cancellation is not a provider failure; let the caller see the abort as-is
+      if (signal?.aborted) {
+        throw error;
+      }
+      console.error(`${this.providerName} ${this.displayName} analysis failed:`, error);
       throw new Error(`Analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -179,7 +186,7 @@ Be concrete and avoid generic responses. Focus on the actual content provided.`
   }
 
   getEstimatedTime(): number {
-    return 3000; // 3 seconds estimate for OpenRouter models
+    return this.estimatedTimeMs;
   }
 
   private extractKeyPoints(analysis: string): string[] {
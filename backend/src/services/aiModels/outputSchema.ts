@@ -0,0 +1,199 @@
+/**
+ * AI Output Schemas
+ * The JSON Schema subset model outputs are described and checked with: pulling JSON out
+ * of model text, validating it, and building a conforming sample for the fake provider
+ */
+
+interface SchemaBase {
+  description?: string;
+}
+
+export interface ObjectSchema extends SchemaBase {
+  type: 'object';
+  properties: Record<string, OutputSchema>;
+  required?: string[];
+}
+
+export interface ArraySchema extends SchemaBase {
+  type: 'array';
+  items: OutputSchema;
+  minItems?: number;
+}
+
+export interface StringSchema extends SchemaBase {
+  type: 'string';
+  enum?: string[];
+}
+
+export interface NumberSchema extends SchemaBase {
+  type: 'number';
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface BooleanSchema extends SchemaBase {
+  type: 'boolean';
+}
+
+// Any JSON value
+export interface AnySchema extends SchemaBase {
+  type?: undefined;
+}
+
+export type OutputSchema = ObjectSchema | ArraySchema | StringSchema | NumberSchema | BooleanSchema | AnySchema;
+
+const tryParse = (text: string): { value: unknown } | undefined => {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * End of the JSON object or array opening at `start`, skipping brackets inside strings
+ */
+const matchingBracket = (text: string, start: number): number => {
+  const closers: string[] = [];
+  let inString = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      closers.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      if (closers.pop() !== char) {
+        return -1;
+      }
+      if (closers.length === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+};
+
+/**
+ * The JSON value in a model reply: the whole reply, a fenced code block, or the first
+ * object or array embedded in prose
+ */
+export const extractJSON = (text: string): unknown => {
+  const whole = tryParse(text.trim());
+  if (whole) {
+    return whole.value;
+  }
+
+  for (const fence of text.matchAll(/```(?:json)?\s*([\s\S]*?)```/gi)) {
+    const fenced = tryParse(fence[1]!.trim());
+    if (fenced) {
+      return fenced.value;
+    }
+  }
+
+  for (let start = text.search(/[{[]/); start !== -1; ) {
+    const end = matchingBracket(text, start);
+    const embedded = end === -1 ? undefined : tryParse(text.slice(start, end + 1));
+    if (embedded) {
+      return embedded.value;
+    }
+    const next = text.slice(start + 1).search(/[{[]/);
+    start = next === -1 ? -1 : start + 1 + next;
+  }
+
+  throw new Error('No JSON found in model output');
+};
+
+const describeType = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+};
+
+/**
+ * Problems with a value against a schema, one message per problem, empty when it conforms
+ */
+export const validateOutput = (schema: OutputSchema, value: unknown, path = '$'): string[] => {
+  switch (schema.type) {
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return [`${path}: expected object, got ${describeType(value)}`];
+      }
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required ?? [])
+        .filter(key => record[key] === undefined || record[key] === null)
+        .map(key => `${path}.${key}: is required`);
+      const invalid = Object.entries(schema.properties)
+        .filter(([key]) => record[key] !== undefined && record[key] !== null)
+        .flatMap(([key, property]) => validateOutput(property, record[key], `${path}.${key}`));
+      return [...missing, ...invalid];
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${path}: expected array, got ${describeType(value)}`];
+      }
+      const errors = value.flatMap((item, index) => validateOutput(schema.items, item, `${path}[${index}]`));
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.unshift(`${path}: expected at least ${schema.minItems} items, got ${value.length}`);
+      }
+      return errors;
+    }
+    case 'string':
+      if (typeof value !== 'string') {
+        return [`${path}: expected string, got ${describeType(value)}`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path}: expected one of ${schema.enum.join(', ')}, got ${value}`];
+      }
+      return [];
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [`${path}: expected number, got ${describeType(value)}`];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [`${path}: expected at least ${schema.minimum}, got ${value}`];
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return [`${path}: expected at most ${schema.maximum}, got ${value}`];
+      }
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected boolean, got ${describeType(value)}`];
+    default:
+      return value === undefined ? [`${path}: is required`] : [];
+  }
+};
+
+/**
+ * A value conforming to the schema, for offline answers
+ */
+export const sampleOutput = (schema: OutputSchema, name = 'value'): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties).map(([key, property]) => [key, sampleOutput(property, key)])
+      );
+    case 'array':
+      return Array.from({ length: Math.max(schema.minItems ?? 0, 1) }, (_, index) =>
+        sampleOutput(schema.items, `${name} ${index + 1}`)
+      );
+    case 'string':
+      return schema.enum?.[0] ?? `Sample ${name}`;
+    case 'number': {
+      const minimum = schema.minimum ?? 0;
+      return schema.maximum === undefined ? minimum + 1 : minimum + (schema.maximum - minimum) * 0.8;
+    }
+    case 'boolean':
+      return true;
+    default:
+      return {};
+  }
+};
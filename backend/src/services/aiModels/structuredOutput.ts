@@ -0,0 +1,328 @@
+/**
+ * Structured AI Outputs
+ * Typed output contracts per AI task, checked against their schema, with a bounded repair
+ * re-prompt when a model's answer does not conform and validation metrics per model
+ */
+
+import type OpenAI from 'openai';
+import type { ChatCompletionCreateParamsNonStreaming } from 'openai/resources/chat/completions';
+import {
+  aiProviderTransport,
+  AIProviderTransport,
+  chatCompletion,
+  ProviderCompletion,
+  TokenListener,
+} from './AIProviderTransport';
+import { extractJSON, OutputSchema, validateOutput } from './outputSchema';
+
+// Re-prompts after the first answer before giving up
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * What a task expects back from the model. `T` is the type of a conforming answer.
+ */
+export interface OutputContract<T> {
+  task: string;
+  schema: OutputSchema;
+  // Type of a conforming answer; never set
+  readonly output?: T;
+}
+
+const defineContract = <T>(task: string, schema: OutputSchema): OutputContract<T> => ({ task, schema });
+
+const text = (description: string): OutputSchema => ({ type: 'string', description });
+const texts = (description: string): OutputSchema => ({ type: 'array', items: { type: 'string' }, description });
+const confidence: OutputSchema = { type: 'number', minimum: 0, maximum: 1, description: 'Confidence from 0 to 1' };
+
+export interface PredictionOutput {
+  prediction: unknown;
+  confidence: number;
+  factors?: string[];
+  recommendations?: string[];
+}
+
+export interface InsightOutput {
+  title: string;
+  description: string;
+  confidence: number;
+  recommendations?: string[];
+  actionItems?: string[];
+  expectedImpact?: string;
+}
+
+export interface RecommendationOutput {
+  title: string;
+  description: string;
+  priority?: 'HIGH' | 'MEDIUM' | 'LOW';
+  actionItems?: string[];
+  expectedImpact?: string;
+  timeToImplement?: number;
+  resources?: string[];
+  successMetrics?: string[];
+  confidence?: number;
+}
+
+export interface ContentAnalysisOutput {
+  analysis: string;
+  confidence: number;
+  reasoning?: string;
+  suggestions?: string[];
+  categories?: string[];
+  sentimentScore?: number;
+  complexity?: 'low' | 'medium' | 'high';
+}
+
+export const predictionContract = defineContract<PredictionOutput>('prediction', {
+  type: 'object',
+  properties: {
+    prediction: { description: 'The prediction details' },
+    confidence,
+    factors: texts('Contributing factors'),
+    recommendations: texts('Recommended actions'),
+  },
+  required: ['prediction', 'confidence'],
+});
+
+export const insightsContract = defineContract<InsightOutput[]>('insight', {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      title: text('Short title'),
+      description: text('What was found and why it matters'),
+      confidence,
+      recommendations: texts('Recommended actions'),
+      actionItems: texts('Specific action items'),
+      expectedImpact: text('Expected impact of acting on it'),
+    },
+    required: ['title', 'description', 'confidence'],
+  },
+});
+
+export const recommendationsContract = defineContract<RecommendationOutput[]>('recommendation', {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      title: text('Short title'),
+      description: text('The recommendation and its rationale'),
+      priority: { type: 'string', enum: ['HIGH', 'MEDIUM', 'LOW'] },
+      actionItems: texts('Specific action items'),
+      expectedImpact: text('Expected learning impact'),
+      timeToImplement: { type: 'number', minimum: 0, description: 'Days to implement' },
+      resources: texts('Supporting resources'),
+      successMetrics: texts('How success is measured'),
+      confidence,
+    },
+    required: ['title', 'description'],
+  },
+});
+
+export const contentAnalysisContract = defineContract<ContentAnalysisOutput>('content-analysis', {
+  type: 'object',
+  properties: {
+    analysis: text('Detailed analysis of the content'),
+    confidence: { type: 'number', minimum: 0, maximum: 100, description: 'Confidence in the analysis from 0 to 100' },
+    reasoning: text('Approach and the factors that influenced the assessment'),
+    suggestions: texts('Specific, actionable improvement suggestions'),
+    categories: texts('Relevant educational categories, subjects or learning domains'),
+    sentimentScore: { type: 'number', minimum: -1, maximum: 1, description: 'Overall tone from -1 to 1' },
+    complexity: { type: 'string', enum: ['low', 'medium', 'high'], description: 'Cognitive load and difficulty' },
+  },
+  required: ['analysis', 'confidence'],
+});
+
+/**
+ * Contract for answers that only need to be a JSON object
+ */
+export const jsonObjectContract = (task: string): OutputContract<Record<string, unknown>> =>
+  defineContract(task, { type: 'object', properties: {} });
+
+/**
+ * Output instructions to end a prompt with
+ */
+export const formatInstructions = (contract: OutputContract<unknown>): string =>
+  'Respond with only JSON, without prose or code fences, matching this JSON Schema:\n' +
+  JSON.stringify(contract.schema, null, 2);
+
+export const repairPrompt = (contract: OutputContract<unknown>, errors: string[]): string =>
+  `Your previous answer did not match the required format:\n${errors.map(error => `- ${error}`).join('\n')}\n\n` +
+  formatInstructions(contract);
+
+/**
+ * Problems with a model answer against a contract, and the parsed value when there are none
+ */
+export const checkOutput = <T>(contract: OutputContract<T>, answer: string): { value?: T; errors: string[] } => {
+  let value: unknown;
+  try {
+    value = extractJSON(answer);
+  } catch (error) {
+    return { errors: [error instanceof Error ? error.message : 'Invalid JSON'] };
+  }
+  const errors = validateOutput(contract.schema, value);
+  return errors.length > 0 ? { errors } : { value: value as T, errors };
+};
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly task: string,
+    public readonly model: string,
+    public readonly errors: string[]
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export interface StructuredOutputStats {
+  model: string;
+  task: string;
+  requests: number;
+  // Conforming on the first answer, after a repair, or not at all
+  valid: number;
+  repaired: number;
+  failed: number;
+  // Answers that did not conform, repair attempts included
+  invalidAnswers: number;
+  firstAnswerFailureRate: number;
+  failureRate: number;
+}
+
+type Outcome = 'valid' | 'repaired' | 'failed';
+
+/**
+ * Validation outcomes per model and task, kept in memory since startup
+ */
+export class StructuredOutputMetrics {
+  private readonly stats = new Map<string, StructuredOutputStats>();
+
+  record(model: string, task: string, outcome: Outcome, invalidAnswers: number): void {
+    const key = `${model}\u0000${task}`;
+    const stats = this.stats.get(key) ?? {
+      model, task, requests: 0, valid: 0, repaired: 0, failed: 0, invalidAnswers: 0, firstAnswerFailureRate: 0, failureRate: 0,
+    };
+    stats.requests++;
+    stats[outcome]++;
+    stats.invalidAnswers += invalidAnswers;
+    stats.firstAnswerFailureRate = (stats.repaired + stats.failed) / stats.requests;
+    stats.failureRate = stats.failed / stats.requests;
+    this.stats.set(key, stats);
+  }
+
+  getStats(model?: string): StructuredOutputStats[] {
+    return [...this.stats.values()]
+      .filter(stats => model === undefined || stats.model === model)
+      .map(stats => ({ ...stats }));
+  }
+
+  reset(): void {
+    this.stats.clear();
+  }
+}
+
+export const structuredOutputMetrics = new StructuredOutputMetrics();
+
+export interface StructuredRequest {
+  provider: string;
+  model: string;
+  messages: ChatMessage[];
+  options?: Record<string, unknown>;
+  maxRepairs?: number;
+  signal?: AbortSignal;
+  // Receives the first answer as it is generated; repairs too if the listener can restart
+  onToken?: TokenListener;
+}
+
+export interface StructuredResult<T> {
+  value: T;
+  tokens: { input: number; output: number };
+  // Provider calls made, repairs included
+  attempts: number;
+}
+
+/**
+ * Ask for an answer matching a contract. Answers that do not conform are sent back with
+ * the problems found, up to `maxRepairs` times, before failing with StructuredOutputError.
+ * `live` performs the provider call for the conversation so far, streaming to the listener
+ * it is given when the provider supports that.
+ */
+export const generateStructured = async <T>(
+  contract: OutputContract<T>,
+  request: StructuredRequest,
+  live: (messages: ChatMessage[], onToken?: TokenListener) => Promise<ProviderCompletion>,
+  transport: AIProviderTransport = aiProviderTransport,
+  metrics: StructuredOutputMetrics = structuredOutputMetrics
+): Promise<StructuredResult<T>> => {
+  const maxRepairs = request.maxRepairs ?? MAX_REPAIR_ATTEMPTS;
+  const tokens = { input: 0, output: 0 };
+  let messages = request.messages;
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const conversation = messages;
+    // Listeners drop the rejected answer before the repair replaces it
+    const listener = attempt === 0 || request.onToken?.restart ? request.onToken : undefined;
+    if (attempt > 0) {
+      listener?.restart?.();
+    }
+    const completion = await transport.complete(
+      {
+        provider: request.provider,
+        model: request.model,
+        messages: conversation,
+        ...(request.options && { options: request.options }),
+        schema: contract.schema,
+      },
+      onToken => live(conversation, onToken),
+      request.signal,
+      listener
+    );
+    tokens.input += completion.tokens?.input ?? 0;
+    tokens.output += completion.tokens?.output ?? 0;
+
+    const checked = checkOutput(contract, completion.text);
+    if (checked.value !== undefined) {
+      metrics.record(request.model, contract.task, attempt === 0 ? 'valid' : 'repaired', attempt);
+      return { value: checked.value, tokens, attempts: attempt + 1 };
+    }
+
+    errors = checked.errors;
+    messages = [
+      ...conversation,
+      { role: 'assistant', content: completion.text },
+      { role: 'user', content: repairPrompt(contract, errors) },
+    ];
+  }
+
+  metrics.record(request.model, contract.task, 'failed', maxRepairs + 1);
+  throw new StructuredOutputError(
+    `${request.model} did not return a valid ${contract.task} after ${maxRepairs + 1} attempts: ${errors.join('; ')}`,
+    contract.task,
+    request.model,
+    errors
+  );
+};
+
+/**
+ * generateStructured through an OpenAI-compatible client
+ */
+export const chatStructured = <T>(
+  client: OpenAI,
+  provider: string,
+  contract: OutputContract<T>,
+  body: Omit<ChatCompletionCreateParamsNonStreaming, 'messages'> & { messages: ChatMessage[] },
+  options: { maxRepairs?: number; signal?: AbortSignal; onToken?: TokenListener } = {}
+): Promise<StructuredResult<T>> => {
+  const { model, messages, ...rest } = body;
+  return generateStructured(
+    contract,
+    { provider, model, messages, options: rest, ...options },
+    (conversation, onToken) => chatCompletion(client, { ...body, messages: conversation }, options.signal, onToken)
+  );
+};
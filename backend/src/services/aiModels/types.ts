@@ -3,14 +3,22 @@
  * Story 1.2: AI Model Service Infrastructure
  */
 
-// Core AI Service Types
-export type AIServiceType = 'gpt4' | 'claude' | 'gemini' | 'cnn' | 'openrouter';
+import type { AIModelCapabilities, AIProviderKind } from '../../config/aiProviders';
+
+// Core AI Service Types; any model declared in the provider registry is also a service
+export type AIServiceType = 'gpt4' | 'claude' | 'gemini' | 'cnn' | 'openrouter' | (string & {});
 
 export interface AIServiceConfig {
   type?: AIServiceType;
   serviceName?: string;
+  // Registry provider and its kind; services configured without one are resolved by type
+  provider?: string;
+  providerKind?: AIProviderKind;
+  displayName?: string;
+  capabilities?: AIModelCapabilities;
   apiKey: string;
   endpoint?: string;
+  headers?: Record<string, string>;
   maxRetries?: number;
   timeout?: number;
   maxContentLength?: number;
@@ -64,6 +72,9 @@ export interface AIAnalysisResponse {
     categories?: string[];
     sentimentScore?: number;
     complexity?: 'low' | 'medium' | 'high';
+    cacheHit?: boolean;
+    // Prompt template version the analysis was produced with
+    promptVersion?: string;
   };
   error?: string;
 }
@@ -82,20 +93,38 @@ export interface MultiAIAnalysisRequest {
   services: AIServiceType[];
   options?: {
     requireConsensus?: boolean;
+    // Least agreement (0 to 1) the caller accepts; a warning is returned below it
     confidenceThreshold?: number;
     maxParallelRequests?: number;
     progressCallback?: ProgressCallback;
   };
 }
 
+// Findings compared between services
+export type ConsensusDimension = 'topics' | 'entities' | 'categories' | 'sentiment';
+
+// How much two services agree, from 0 to 1, overall and per finding compared
+export interface ConsensusPair {
+  services: [AIServiceType, AIServiceType];
+  agreement: number;
+  dimensions: Partial<Record<ConsensusDimension, number>>;
+}
+
+export interface AIConsensus {
+  agreed: boolean;
+  // Average pairwise agreement, from 0 to 1
+  confidence: number;
+  summary: string;
+  pairs: ConsensusPair[];
+  // Set when a confidenceThreshold was requested and the services fall short of it
+  warning?: string;
+}
+
 export interface MultiAIAnalysisResponse {
   success: boolean;
+  // Every requested service's response, including unsuccessful ones
   results: Map<AIServiceType, AIAnalysisResponse>;
-  consensus?: {
-    agreed: boolean;
-    confidence: number;
-    summary: string;
-  };
+  consensus?: AIConsensus;
   processingTime: number;
   metadata: {
     servicesUsed: AIServiceType[];
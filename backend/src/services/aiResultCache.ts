@@ -0,0 +1,180 @@
+/**
+ * AI Result Cache
+ * Reuses AI output for identical content, model and prompt version, so re-uploading the
+ * same file does not call (and pay for) every model again
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { BUILTIN_PROMPT_VERSION } from '../config/promptTemplates';
+
+const DEFAULT_TTL_HOURS = 168;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface CacheKeyParts {
+  contentHash: string;
+  model: string;
+  promptVersion: string;
+}
+
+export interface CachedResult<T> {
+  result: T;
+  cacheHit: boolean;
+}
+
+/**
+ * What an AI result depends on: the prompt content, any file sent with it, the model and
+ * the version of the prompt templates (the built-in ones if not given)
+ */
+export interface CachedRequest {
+  content: string;
+  file?: HashedFile;
+  model: string;
+  promptVersion?: string;
+}
+
+export interface CachePurgeFilter {
+  model?: string;
+  contentHash?: string;
+  expiredOnly?: boolean;
+}
+
+type HashedFile = Pick<Express.Multer.File, 'mimetype' | 'path'> & { buffer?: Buffer };
+
+const getTtlHours = (): number => {
+  const value = Number(process.env['AI_CACHE_TTL_HOURS']);
+  return process.env['AI_CACHE_TTL_HOURS'] !== undefined && Number.isFinite(value) && value >= 0
+    ? value
+    : DEFAULT_TTL_HOURS;
+};
+
+/**
+ * SHA-256 of the prompt content and, when a file is sent along, its type and bytes
+ */
+export const hashContent = async (content: string, file?: HashedFile): Promise<string> => {
+  const hash = createHash('sha256').update(content);
+  if (file) {
+    hash.update('\0').update(file.mimetype).update('\0');
+    hash.update(file.buffer ?? (await fs.readFile(file.path)));
+  }
+  return hash.digest('hex');
+};
+
+export const cacheKey = ({ contentHash, model, promptVersion }: CacheKeyParts): string =>
+  `${model}:${promptVersion}:${contentHash}`;
+
+/**
+ * Result as returned to callers, with whether it came from the cache in its metadata
+ */
+export const withCacheHit = <T>(result: T, cacheHit: boolean): T => ({
+  ...result,
+  metadata: { ...(result as { metadata?: object } | null)?.metadata, cacheHit },
+});
+
+export class AIResultCache {
+  constructor(private readonly ttlHours: number = getTtlHours()) {}
+
+  get enabled(): boolean {
+    return this.ttlHours > 0;
+  }
+
+  /**
+   * Cached result for these key parts, or null if there is none or it has expired
+   */
+  async get<T>(parts: CacheKeyParts): Promise<T | null> {
+    const entry = await prisma.aIResultCache.findUnique({ where: { key: cacheKey(parts) } });
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= new Date()) {
+      await prisma.aIResultCache.deleteMany({ where: { id: entry.id } });
+      return null;
+    }
+
+    await prisma.aIResultCache.update({ where: { id: entry.id }, data: { hits: { increment: 1 } } });
+    return entry.result as unknown as T;
+  }
+
+  async set(parts: CacheKeyParts, result: unknown): Promise<void> {
+    const expiresAt = new Date(Date.now() + this.ttlHours * HOUR_MS);
+    const data = { result: result as Prisma.InputJsonValue, expiresAt, hits: 0 };
+
+    await prisma.aIResultCache.upsert({
+      where: { key: cacheKey(parts) },
+      create: { key: cacheKey(parts), ...parts, ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * Cached result if there is one, otherwise compute it and store it if shouldCache allows.
+   * The cache is an optimisation only, so its own failures are logged and never fail the analysis.
+   */
+  async getOrCompute<T>(
+    parts: CacheKeyParts,
+    compute: () => Promise<T>,
+    shouldCache: (result: T) => boolean = () => true
+  ): Promise<CachedResult<T>> {
+    if (!this.enabled) {
+      return { result: await compute(), cacheHit: false };
+    }
+
+    const cached = await this.get<T>(parts).catch(error => {
+      console.error('❌ AI result cache lookup failed:', error);
+      return null;
+    });
+    if (cached !== null) {
+      return { result: cached, cacheHit: true };
+    }
+
+    const result = await compute();
+    if (!shouldCache(result)) {
+      return { result, cacheHit: false };
+    }
+    await this.set(parts, result).catch(error => console.error('❌ Failed to cache AI result:', error));
+
+    return { result, cacheHit: false };
+  }
+
+  /**
+   * Run an analysis through the cache under its prompt version, flagging in the result's
+   * metadata whether it was served from the cache
+   */
+  async withCache<T>(
+    request: CachedRequest,
+    compute: () => Promise<T>,
+    shouldCache?: (result: T) => boolean
+  ): Promise<T> {
+    if (!this.enabled) {
+      return withCacheHit(await compute(), false);
+    }
+
+    const contentHash = await hashContent(request.content, request.file);
+    const { result, cacheHit } = await this.getOrCompute(
+      { contentHash, model: request.model, promptVersion: request.promptVersion ?? BUILTIN_PROMPT_VERSION },
+      compute,
+      shouldCache
+    );
+    return withCacheHit(result, cacheHit);
+  }
+
+  /**
+   * Remove cached results (admin), optionally only for one model, one content hash or
+   * only those that have expired. Returns the number of entries removed.
+   */
+  async purge(filter: CachePurgeFilter = {}): Promise<number> {
+    const { count } = await prisma.aIResultCache.deleteMany({
+      where: {
+        ...(filter.model && { model: filter.model }),
+        ...(filter.contentHash && { contentHash: filter.contentHash }),
+        ...(filter.expiredOnly && { expiresAt: { lte: new Date() } }),
+      },
+    });
+    return count;
+  }
+}
+
+export const aiResultCache = new AIResultCache();
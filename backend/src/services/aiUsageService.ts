@@ -0,0 +1,393 @@
+/**
+ * AI Usage Service
+ * Ledger of provider calls with their token usage and estimated cost, and the per-user,
+ * per-course and per-role budgets that limit AI spend
+ */
+
+import { AIBudget, AIBudgetAction, AIBudgetPeriod, AIBudgetScope, Prisma, UserRole as PrismaUserRole } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { getModelDefinition } from '../config/aiProviders';
+import { CourseRequester, courseService } from './courseService';
+import { UserRole } from '../types';
+import { ForbiddenError, NotFoundError, ServiceError } from '../utils/errors';
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+const OBJECT_ID_PATTERN = /^[0-9a-f]{24}$/i;
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+}
+
+/**
+ * Who an AI request is made for, and the course it is billed to if any
+ */
+export interface AIUsageContext {
+  userId: string;
+  role: UserRole;
+  courseId?: string | null;
+}
+
+export interface UsageEntry {
+  userId: string;
+  courseId?: string | null;
+  model: string;
+  source: 'ai-analysis' | 'ai-models';
+  jobId?: string;
+  tokens: TokenUsage | null;
+}
+
+export interface BudgetData {
+  scope: AIBudgetScope;
+  scopeId: string;
+  period: AIBudgetPeriod;
+  limitUsd: number;
+  action?: AIBudgetAction;
+}
+
+export interface BudgetStatus {
+  id: string;
+  scope: AIBudgetScope;
+  scopeId: string;
+  period: AIBudgetPeriod;
+  limitUsd: number;
+  action: AIBudgetAction;
+  spentUsd: number;
+  remainingUsd: number;
+  exhausted: boolean;
+}
+
+/**
+ * Anything that records provider calls in the ledger
+ */
+export type AIUsageRecorder = Pick<AIUsageService, 'record'>;
+
+const roundUsd = (value: number): number => Math.round(value * 1_000_000) / 1_000_000;
+
+/**
+ * Token counts reported by a provider, from either OpenRouter (usage) or the
+ * AIServiceManager services (tokens)
+ */
+export const extractTokenUsage = (result: any): TokenUsage | null => {
+  const tokens = result?.metadata?.tokens;
+  if (tokens && typeof tokens === 'object') {
+    return { input: Number(tokens.input) || 0, output: Number(tokens.output) || 0 };
+  }
+  const usage = result?.metadata?.usage;
+  if (usage && typeof usage === 'object') {
+    return { input: Number(usage.prompt_tokens) || 0, output: Number(usage.completion_tokens) || 0 };
+  }
+  return null;
+};
+
+/**
+ * Combined price per million tokens, from the provider registry; models without pricing are not charged
+ */
+export const modelPrice = (model: string): number => {
+  const pricing = getModelDefinition(model)?.pricing;
+  return pricing ? pricing.input + pricing.output : 0;
+};
+
+export const estimateCost = (model: string, tokens: TokenUsage | null): number => {
+  const pricing = getModelDefinition(model)?.pricing;
+  if (!pricing || !tokens) {
+    return 0;
+  }
+  return roundUsd((tokens.input * pricing.input + tokens.output * pricing.output) / TOKENS_PER_PRICE_UNIT);
+};
+
+/**
+ * Start of the current budget period (UTC)
+ */
+export const periodStart = (period: AIBudgetPeriod, now: Date = new Date()): Date =>
+  period === AIBudgetPeriod.DAILY
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+export const describeBudget = (budget: Pick<BudgetStatus, 'scope' | 'period' | 'limitUsd'>): string =>
+  `${budget.period === AIBudgetPeriod.DAILY ? 'Daily' : 'Monthly'} ${budget.scope.toLowerCase()} AI budget ` +
+  `($${budget.limitUsd.toFixed(2)})`;
+
+/**
+ * Models to run once exhausted budgets are taken into account: rejected outright if any
+ * of them rejects, otherwise each model is swapped for the cheapest candidate if that is cheaper
+ */
+export const resolveModels = <T extends string>(
+  models: T[],
+  exhausted: Pick<BudgetStatus, 'scope' | 'period' | 'limitUsd' | 'action'>[],
+  candidates: T[]
+): T[] => {
+  if (exhausted.length === 0) {
+    return models;
+  }
+
+  const rejecting = exhausted.find(budget => budget.action === AIBudgetAction.REJECT);
+  const cheapest = [...candidates].sort((a, b) => modelPrice(a) - modelPrice(b))[0];
+  if (rejecting || !cheapest) {
+    throw new ServiceError(`${describeBudget(rejecting ?? exhausted[0]!)} is used up`, 429);
+  }
+
+  return [...new Set(models.map(model => (modelPrice(model) > modelPrice(cheapest) ? cheapest : model)))];
+};
+
+export class AIUsageService {
+  /**
+   * Add a provider call to the ledger. Never throws, so accounting cannot fail an analysis.
+   */
+  async record(entry: UsageEntry): Promise<void> {
+    try {
+      await prisma.aIUsageRecord.create({
+        data: {
+          userId: entry.userId,
+          courseId: entry.courseId ?? null,
+          model: entry.model,
+          source: entry.source,
+          jobId: entry.jobId ?? null,
+          inputTokens: entry.tokens?.input ?? 0,
+          outputTokens: entry.tokens?.output ?? 0,
+          costUsd: estimateCost(entry.model, entry.tokens),
+        },
+      });
+    } catch (error) {
+      console.error('❌ Failed to record AI usage:', error);
+    }
+  }
+
+  /**
+   * Check the course a request is billed to: the requester must be enrolled in it or manage it.
+   * Without a courseId the course is worked out from the requester's enrollments.
+   */
+  async resolveCourse(courseId: unknown, requester: CourseRequester): Promise<string | null> {
+    if (courseId === undefined || courseId === null || courseId === '') {
+      return this.defaultCourse(requester);
+    }
+    if (typeof courseId !== 'string' || !OBJECT_ID_PATTERN.test(courseId)) {
+      throw new ServiceError('Invalid courseId');
+    }
+
+    const course = await prisma.course.findUnique({ where: { id: courseId } });
+    if (!course) {
+      throw new NotFoundError('Course not found');
+    }
+    if (!courseService.canManage(course, requester)) {
+      const enrollment = await prisma.courseEnrollment.findUnique({
+        where: { userId_courseId: { userId: requester.userId, courseId } },
+      });
+      if (!enrollment?.isActive) {
+        throw new ForbiddenError('Not enrolled in this course');
+      }
+    }
+
+    return courseId;
+  }
+
+  /**
+   * Budgets that apply to a request and how much of each has been spent this period
+   */
+  async getBudgetStatus(context: AIUsageContext): Promise<BudgetStatus[]> {
+    const budgets = await prisma.aIBudget.findMany({
+      where: {
+        OR: [
+          { scope: AIBudgetScope.USER, scopeId: context.userId },
+          { scope: AIBudgetScope.ROLE, scopeId: context.role },
+          ...(context.courseId ? [{ scope: AIBudgetScope.COURSE, scopeId: context.courseId }] : []),
+        ],
+      },
+    });
+
+    return Promise.all(budgets.map(async budget => {
+      const spentUsd = await this.spentSince(
+        budget.scope === AIBudgetScope.COURSE ? { courseId: budget.scopeId } : { userId: context.userId },
+        periodStart(budget.period)
+      );
+      return this.toStatus(budget, spentUsd);
+    }));
+  }
+
+  /**
+   * Apply the requester's budgets to the models they asked for, rejecting the request or
+   * downgrading to the cheapest of the candidate models once a budget is used up
+   */
+  async applyBudgets<T extends string>(models: T[], context: AIUsageContext, candidates: T[]): Promise<T[]> {
+    const exhausted = (await this.getBudgetStatus(context)).filter(budget => budget.exhausted);
+    return resolveModels(models, exhausted, candidates);
+  }
+
+  /**
+   * Budgets the requester can manage: all for admins; for professors, those they created
+   * and those on their courses
+   */
+  async listBudgets(requester: CourseRequester) {
+    this.assertBudgetManager(requester);
+
+    if (requester.role === UserRole.ADMIN) {
+      return prisma.aIBudget.findMany({ orderBy: { createdAt: 'desc' } });
+    }
+
+    const courses = await prisma.course.findMany({ where: { ownerId: requester.userId }, select: { id: true } });
+    return prisma.aIBudget.findMany({
+      where: {
+        OR: [
+          { createdById: requester.userId },
+          { scope: AIBudgetScope.COURSE, scopeId: { in: courses.map(course => course.id) } },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Create or replace the budget for a scope and period
+   */
+  async setBudget(data: BudgetData, requester: CourseRequester) {
+    this.validateBudget(data);
+    await this.assertCanManage(data.scope, data.scopeId, requester);
+
+    const existing = await prisma.aIBudget.findUnique({
+      where: { scope_scopeId_period: { scope: data.scope, scopeId: data.scopeId, period: data.period } },
+    });
+    if (existing) {
+      await this.assertCanReplace(existing, requester);
+    }
+
+    const values = { limitUsd: data.limitUsd, action: data.action ?? AIBudgetAction.REJECT, createdById: requester.userId };
+    return prisma.aIBudget.upsert({
+      where: { scope_scopeId_period: { scope: data.scope, scopeId: data.scopeId, period: data.period } },
+      create: { scope: data.scope, scopeId: data.scopeId, period: data.period, ...values },
+      update: values,
+    });
+  }
+
+  async deleteBudget(budgetId: string, requester: CourseRequester): Promise<void> {
+    const budget = await prisma.aIBudget.findUnique({ where: { id: budgetId } });
+    if (!budget) {
+      throw new NotFoundError('Budget not found');
+    }
+    await this.assertCanManage(budget.scope, budget.scopeId, requester);
+    await this.assertCanReplace(budget, requester);
+
+    await prisma.aIBudget.delete({ where: { id: budgetId } });
+  }
+
+  /**
+   * Course to bill when the client names none, so leaving courseId out cannot skip a course
+   * budget: the requester's only course, or else their only course with a budget. Requesters
+   * with budgets in several courses must say which course a request is for.
+   */
+  private async defaultCourse(requester: CourseRequester): Promise<string | null> {
+    const enrollments = await prisma.courseEnrollment.findMany({
+      where: { userId: requester.userId, isActive: true },
+      select: { courseId: true },
+    });
+    if (enrollments.length <= 1) {
+      return enrollments[0]?.courseId ?? null;
+    }
+
+    const budgets = await prisma.aIBudget.findMany({
+      where: { scope: AIBudgetScope.COURSE, scopeId: { in: enrollments.map(enrollment => enrollment.courseId) } },
+      select: { scopeId: true },
+    });
+    const budgeted = [...new Set(budgets.map(budget => budget.scopeId))];
+    if (budgeted.length > 1) {
+      throw new ServiceError('courseId is required: more than one of your courses has an AI budget');
+    }
+    return budgeted[0] ?? null;
+  }
+
+  private async spentSince(where: Prisma.AIUsageRecordWhereInput, since: Date): Promise<number> {
+    const { _sum } = await prisma.aIUsageRecord.aggregate({
+      where: { ...where, createdAt: { gte: since } },
+      _sum: { costUsd: true },
+    });
+    return roundUsd(_sum.costUsd ?? 0);
+  }
+
+  private toStatus(budget: AIBudget, spentUsd: number): BudgetStatus {
+    return {
+      id: budget.id,
+      scope: budget.scope,
+      scopeId: budget.scopeId,
+      period: budget.period,
+      limitUsd: budget.limitUsd,
+      action: budget.action,
+      spentUsd,
+      remainingUsd: roundUsd(Math.max(0, budget.limitUsd - spentUsd)),
+      exhausted: spentUsd >= budget.limitUsd,
+    };
+  }
+
+  private validateBudget(data: BudgetData): void {
+    if (!Object.values(AIBudgetScope).includes(data.scope)) {
+      throw new ServiceError('Invalid scope');
+    }
+    if (!Object.values(AIBudgetPeriod).includes(data.period)) {
+      throw new ServiceError('Invalid period');
+    }
+    if (data.action !== undefined && !Object.values(AIBudgetAction).includes(data.action)) {
+      throw new ServiceError('Invalid action');
+    }
+    if (typeof data.limitUsd !== 'number' || !Number.isFinite(data.limitUsd) || data.limitUsd < 0) {
+      throw new ServiceError('limitUsd must be a non-negative number');
+    }
+    const validScopeId = data.scope === AIBudgetScope.ROLE
+      ? Object.values(UserRole).includes(data.scopeId as UserRole)
+      : typeof data.scopeId === 'string' && OBJECT_ID_PATTERN.test(data.scopeId);
+    if (!validScopeId) {
+      throw new ServiceError('Invalid scopeId');
+    }
+  }
+
+  private assertBudgetManager(requester: CourseRequester): void {
+    if (requester.role !== UserRole.ADMIN && requester.role !== UserRole.PROFESSOR) {
+      throw new ForbiddenError('Only admins and professors can manage AI budgets');
+    }
+  }
+
+  /**
+   * Professors may only replace or remove budgets they set themselves, or budgets on their
+   * own courses that no admin set
+   */
+  private async assertCanReplace(budget: AIBudget, requester: CourseRequester): Promise<void> {
+    if (requester.role === UserRole.ADMIN || budget.createdById === requester.userId) {
+      return;
+    }
+
+    const creator = await prisma.user.findUnique({ where: { id: budget.createdById }, select: { role: true } });
+    if (creator?.role === PrismaUserRole.ADMIN) {
+      throw new ForbiddenError('This budget was set by an admin');
+    }
+    if (budget.scope !== AIBudgetScope.COURSE) {
+      throw new ForbiddenError('This budget was set by another instructor');
+    }
+  }
+
+  /**
+   * Admins manage every budget; professors manage budgets on their courses and on
+   * students enrolled in them
+   */
+  private async assertCanManage(scope: AIBudgetScope, scopeId: string, requester: CourseRequester): Promise<void> {
+    this.assertBudgetManager(requester);
+    if (requester.role === UserRole.ADMIN) {
+      return;
+    }
+
+    switch (scope) {
+      case AIBudgetScope.COURSE:
+        await courseService.getManageableCourse(scopeId, requester);
+        return;
+      case AIBudgetScope.USER: {
+        const enrollment = await prisma.courseEnrollment.findFirst({
+          where: { userId: scopeId, isActive: true, course: { ownerId: requester.userId } },
+        });
+        if (!enrollment) {
+          throw new ForbiddenError('Budgets can only be set for students in your courses');
+        }
+        return;
+      }
+      default:
+        throw new ForbiddenError('Only admins can set role budgets');
+    }
+  }
+}
+
+export const aiUsageService = new AIUsageService();
@@ -0,0 +1,152 @@
+/**
+ * Assignment Service
+ * Assignment listing and access checks shared by the submission and grading pipelines
+ */
+
+import { Assignment, Course, Prisma, SubmissionStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { CourseRequester } from './courseService';
+import { UserRole } from '../types';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+
+export type AssignmentWithCourse = Assignment & { course: Course };
+
+type GradeFields = {
+  status: SubmissionStatus;
+  grade?: number | null;
+  feedback?: string | null;
+  rubricScores?: Prisma.JsonValue | null;
+  gradedAt?: Date | null;
+  gradedBy?: string | null;
+};
+
+/**
+ * Hide grading output from students until the submission is RETURNED
+ */
+export const withReleasedGrade = <T extends GradeFields>(submission: T): T => {
+  if (submission.status !== SubmissionStatus.GRADED) {
+    return submission;
+  }
+
+  return {
+    ...submission,
+    ...('grade' in submission && { grade: null }),
+    ...('feedback' in submission && { feedback: null }),
+    ...('rubricScores' in submission && { rubricScores: null }),
+    ...('gradedAt' in submission && { gradedAt: null }),
+    ...('gradedBy' in submission && { gradedBy: null }),
+  };
+};
+
+export class AssignmentService {
+  /**
+   * List assignments the requester can see, optionally scoped to one course
+   */
+  async listAssignments(requester: CourseRequester, courseId?: string) {
+    const where: Prisma.AssignmentWhereInput = courseId ? { courseId } : {};
+
+    if (requester.role !== UserRole.ADMIN) {
+      where.OR = [
+        { professorId: requester.userId },
+        { course: { ownerId: requester.userId } },
+        { course: { isActive: true, enrollments: { some: { userId: requester.userId, isActive: true } } } },
+      ];
+    }
+
+    const assignments = await prisma.assignment.findMany({
+      where,
+      include: {
+        course: { select: { id: true, title: true, ownerId: true } },
+        submissions: {
+          where: { studentId: requester.userId },
+          select: { id: true, attemptNumber: true, status: true, submittedAt: true, grade: true, isLate: true },
+          orderBy: { attemptNumber: 'desc' },
+        },
+        _count: { select: { submissions: { where: { status: { not: 'DRAFT' } } } } },
+      },
+      orderBy: [{ dueDate: 'asc' }, { createdAt: 'desc' }],
+    });
+
+    return assignments.map(({ _count, submissions, ...assignment }) => ({
+      ...assignment,
+      submissions: submissions.map(withReleasedGrade),
+      submissionCount: _count.submissions,
+    }));
+  }
+
+  /**
+   * Get an assignment with the requester's own submissions
+   */
+  async getAssignment(assignmentId: string, requester: CourseRequester) {
+    const assignment = await this.getAccessibleAssignment(assignmentId, requester);
+
+    const submissions = await prisma.submission.findMany({
+      where: { assignmentId, studentId: requester.userId },
+      include: { files: true },
+      orderBy: { attemptNumber: 'desc' },
+    });
+
+    return {
+      ...assignment,
+      submissions: submissions.map(withReleasedGrade),
+      canManage: this.canManage(assignment, requester),
+    };
+  }
+
+  /**
+   * Load an assignment the requester may view (course staff or enrolled student)
+   */
+  async getAccessibleAssignment(assignmentId: string, requester: CourseRequester): Promise<AssignmentWithCourse> {
+    const assignment = await this.findAssignment(assignmentId);
+
+    if (this.canManage(assignment, requester)) {
+      return assignment;
+    }
+
+    const enrollment = await prisma.courseEnrollment.findUnique({
+      where: { userId_courseId: { userId: requester.userId, courseId: assignment.courseId } },
+    });
+    if (!enrollment?.isActive || !assignment.course.isActive) {
+      throw new ForbiddenError('Unauthorized to access this assignment');
+    }
+
+    return assignment;
+  }
+
+  /**
+   * Load an assignment the requester may grade and configure
+   */
+  async getManageableAssignment(assignmentId: string, requester: CourseRequester): Promise<AssignmentWithCourse> {
+    const assignment = await this.findAssignment(assignmentId);
+
+    if (!this.canManage(assignment, requester)) {
+      throw new ForbiddenError('Unauthorized to manage this assignment');
+    }
+
+    return assignment;
+  }
+
+  /**
+   * Course owners, the assigning professor and admins manage an assignment
+   */
+  canManage(assignment: AssignmentWithCourse, requester: CourseRequester): boolean {
+    return requester.role === UserRole.ADMIN
+      || assignment.professorId === requester.userId
+      || assignment.course.ownerId === requester.userId;
+  }
+
+  private async findAssignment(assignmentId: string): Promise<AssignmentWithCourse> {
+    const assignment = await prisma.assignment.findUnique({
+      where: { id: assignmentId },
+      include: { course: true },
+    });
+
+    if (!assignment) {
+      throw new NotFoundError('Assignment not found');
+    }
+
+    return assignment;
+  }
+}
+
+export const assignmentService = new AssignmentService();
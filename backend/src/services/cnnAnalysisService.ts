@@ -0,0 +1,469 @@
+/**
+ * CNN Analysis Service
+ * Background CNN analysis of submitted image files for assignments that require it
+ */
+
+import { promises as fs } from 'fs';
+import { AnnotationContentType, NotificationType, Prisma, SubmissionFile, SubmissionStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { assignmentService } from './assignmentService';
+import { CourseRequester } from './courseService';
+import { notificationService } from './notificationService';
+import { cnnInferenceService } from './cnnInferenceService';
+import { ImageSummary, imagePreprocessingService } from './imagePreprocessingService';
+import { KnowledgeEnricher, KnowledgeEnrichment, knowledgeEnrichmentService } from './knowledgeEnrichmentService';
+import { ICNNAnalysisResult, ICNNService, UserRole } from '../types';
+import { ConflictError, ForbiddenError, NotFoundError, ServiceError } from '../utils/errors';
+
+export type CNNAnalysisStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+
+// A run that has not finished by then is treated as abandoned and may be restarted
+const STALE_ANALYSIS_MS = 30 * 60 * 1000;
+
+export interface CNNFileAnalysis {
+  fileId: string;
+  fileName: string;
+  status: 'COMPLETED' | 'FAILED' | 'SKIPPED';
+  analysisId?: string;
+  result?: ICNNAnalysisResult;
+  error?: string;
+}
+
+/**
+ * Shape of Submission.cnnAnalysisResults
+ */
+export interface SubmissionCNNAnalysis {
+  status: CNNAnalysisStatus;
+  requestedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  files: CNNFileAnalysis[];
+}
+
+/**
+ * Image analysis backend used for submissions
+ */
+export type CNNAnalyzer = Pick<ICNNService, 'analyzeImage'> & {
+  modelVersions?: () => Record<string, string>;
+};
+
+type AnalyzedFile = Pick<SubmissionFile, 'fileName' | 'originalName' | 'filePath' | 'fileSize' | 'mimeType'> & {
+  // Set for uploads, which are normalized before analysis; submitted files are kept as submitted
+  image?: ImageSummary;
+  thumbnail?: string;
+};
+
+/**
+ * Only images are run through the CNN; other submitted files are recorded as skipped
+ */
+export const isAnalyzableFile = (file: Pick<SubmissionFile, 'mimeType'>): boolean =>
+  file.mimeType.toLowerCase().startsWith('image/');
+
+/**
+ * Categories and tags stored on the CNNAnalysis record
+ */
+export const summarizeResult = (result: ICNNAnalysisResult): { categories: string[]; tags: string[] } => ({
+  categories: [...new Set(result.analysis.categorization.map(c => c.category))],
+  tags: [...new Set([
+    ...result.analysis.objectDetection.map(detection => detection.label.toLowerCase()),
+    ...result.analysis.categorization.flatMap(c => c.subcategories.map(sub => sub.toLowerCase())),
+  ])],
+});
+
+/**
+ * Result with the most relevant explanation as its wikipediaInfo
+ */
+export const withWikipediaInfo = (result: ICNNAnalysisResult, enrichment: KnowledgeEnrichment | null): ICNNAnalysisResult => {
+  const { wikipediaInfo: _previous, ...rest } = result;
+  const top = enrichment?.articles[0];
+  if (!top) {
+    return rest;
+  }
+  const { term: _term, source: _source, relevanceScore: _relevance, ...wikipediaInfo } = top;
+  return { ...rest, wikipediaInfo };
+};
+
+/**
+ * Whether a submission's analysis is still waiting or running. Queued runs always are, as they
+ * may wait behind others; runs started more than STALE_ANALYSIS_MS ago count as abandoned,
+ * e.g. by a crash, so staff can start them again.
+ */
+export const isAnalysisInProgress = (state: SubmissionCNNAnalysis | null, now: Date = new Date()): boolean => {
+  if (state?.status === 'PENDING') {
+    return true;
+  }
+  if (state?.status !== 'PROCESSING') {
+    return false;
+  }
+  const started = Date.parse(state.startedAt ?? state.requestedAt);
+  return now.getTime() - started < STALE_ANALYSIS_MS;
+};
+
+const pendingState = (): SubmissionCNNAnalysis => ({ status: 'PENDING', requestedAt: new Date().toISOString(), files: [] });
+
+/**
+ * Overall status once every file has been handled: failed only if no image could be analyzed
+ */
+export const overallStatus = (files: CNNFileAnalysis[]): CNNAnalysisStatus => {
+  const analyzable = files.filter(file => file.status !== 'SKIPPED');
+  return analyzable.length > 0 && analyzable.every(file => file.status === 'FAILED') ? 'FAILED' : 'COMPLETED';
+};
+
+export class CNNAnalysisService {
+  // Inference is CPU-bound, so submissions are analyzed one at a time
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly analyzer: CNNAnalyzer | null = null,
+    private readonly enricher: KnowledgeEnricher | null = null
+  ) {}
+
+  /**
+   * Queue analysis for a newly submitted attempt if its assignment, or a course step
+   * linked to it, asks for CNN analysis. Never throws, so it cannot fail the submission.
+   */
+  async queueForSubmission(submissionId: string): Promise<void> {
+    try {
+      const submission = await prisma.submission.findUnique({
+        where: { id: submissionId },
+        include: { assignment: { select: { id: true, requiresCNNAnalysis: true } } },
+      });
+      if (!submission || !(await this.requiresAnalysis(submission.assignment))) {
+        return;
+      }
+
+      await this.markPending(submissionId);
+      this.enqueue(submissionId);
+    } catch (error) {
+      console.error('❌ Failed to queue CNN analysis:', error);
+    }
+  }
+
+  /**
+   * Analyze a single uploaded image for the requester and store the result
+   */
+  async analyzeUpload(file: Express.Multer.File, requester: CourseRequester) {
+    let filePath = file.path;
+    try {
+      if (!isAnalyzableFile({ mimeType: file.mimetype })) {
+        throw new ServiceError('Only image files can be analyzed');
+      }
+
+      const image = await imagePreprocessingService.ingest(file);
+      filePath = image.filePath;
+      const uploaded: AnalyzedFile = {
+        fileName: image.fileName,
+        originalName: file.originalname,
+        filePath: image.filePath,
+        fileSize: image.summary.size,
+        mimeType: image.mimeType,
+        image: image.summary,
+        thumbnail: image.thumbnail,
+      };
+      const result = await this.runAnalyzer(uploaded);
+      const record = await this.createRecord(uploaded, result, requester.userId);
+
+      return this.presentRecord(record);
+    } catch (error) {
+      await fs.unlink(filePath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a stored analysis. Visible to its owner, admins and, for submissions, course staff.
+   */
+  async getAnalysis(analysisId: string, requester: CourseRequester) {
+    const record = await prisma.cNNAnalysis.findUnique({
+      where: { id: analysisId },
+      include: { submission: { select: { assignmentId: true } } },
+    });
+    if (!record) {
+      throw new NotFoundError('Analysis not found');
+    }
+
+    if (record.userId !== requester.userId && requester.role !== UserRole.ADMIN) {
+      if (!record.submission) {
+        throw new ForbiddenError('Unauthorized to view this analysis');
+      }
+      await assignmentService.getManageableAssignment(record.submission.assignmentId, requester);
+    }
+
+    const { submission: _submission, ...analysis } = record;
+    return this.presentRecord(analysis);
+  }
+
+  /**
+   * Explain a stored analysis again, e.g. after a glossary was imported for its course
+   */
+  async enrichAnalysis(analysisId: string, requester: CourseRequester) {
+    const record = await prisma.cNNAnalysis.findUnique({
+      where: { id: analysisId },
+      include: { submission: { select: { assignmentId: true, assignment: { select: { courseId: true } } } } },
+    });
+    if (!record) {
+      throw new NotFoundError('Analysis not found');
+    }
+
+    if (record.userId !== requester.userId && requester.role !== UserRole.ADMIN) {
+      if (!record.submission) {
+        throw new ForbiddenError('Unauthorized to view this analysis');
+      }
+      await assignmentService.getManageableAssignment(record.submission.assignmentId, requester);
+    }
+    if (!this.enricher) {
+      throw new ServiceError('Knowledge enrichment is not configured on this server', 503);
+    }
+
+    const result = record.analysisResults as unknown as ICNNAnalysisResult;
+    const enrichment = await this.enrich(result, record.submission?.assignment.courseId);
+    const updated = await prisma.cNNAnalysis.update({
+      where: { id: analysisId },
+      data: {
+        analysisResults: withWikipediaInfo(result, enrichment) as unknown as Prisma.InputJsonValue,
+        wikipediaData: enrichment ? (enrichment as unknown as Prisma.InputJsonValue) : null,
+      },
+    });
+
+    return this.presentRecord(updated);
+  }
+
+  /**
+   * Re-run analysis for a submission (course staff), e.g. after a failure or an abandoned run
+   */
+  async reanalyze(assignmentId: string, submissionId: string, requester: CourseRequester) {
+    await assignmentService.getManageableAssignment(assignmentId, requester);
+
+    const submission = await prisma.submission.findUnique({ where: { id: submissionId } });
+    if (!submission || submission.assignmentId !== assignmentId) {
+      throw new NotFoundError('Submission not found');
+    }
+    if (submission.status === SubmissionStatus.DRAFT) {
+      throw new ServiceError('Draft submissions cannot be analyzed');
+    }
+
+    if (isAnalysisInProgress(submission.cnnAnalysisResults as unknown as SubmissionCNNAnalysis | null)) {
+      throw new ConflictError('Analysis is already in progress');
+    }
+
+    // Claim the run only if the submission is unchanged since it was read, so concurrent requests queue it once
+    const state = pendingState();
+    const { count } = await prisma.submission.updateMany({
+      where: { id: submissionId, updatedAt: submission.updatedAt },
+      data: { cnnAnalysisResults: state as unknown as Prisma.InputJsonValue },
+    });
+    if (count === 0) {
+      throw new ConflictError('Analysis is already in progress');
+    }
+    this.enqueue(submissionId);
+
+    return state;
+  }
+
+  /**
+   * Re-queue submissions that were waiting or being analyzed when the server last stopped
+   */
+  async resumePendingAnalyses(): Promise<void> {
+    try {
+      const submissions = await prisma.submission.findMany({
+        where: { cnnAnalysisResults: { not: null } },
+        select: { id: true, cnnAnalysisResults: true },
+      });
+      submissions
+        .map(submission => ({ id: submission.id, state: submission.cnnAnalysisResults as unknown as SubmissionCNNAnalysis }))
+        .filter(({ state }) => state.status === 'PENDING' || state.status === 'PROCESSING')
+        .sort((a, b) => a.state.requestedAt.localeCompare(b.state.requestedAt))
+        .forEach(({ id }) => this.enqueue(id));
+    } catch (error) {
+      console.error('❌ Failed to resume CNN analyses:', error);
+    }
+  }
+
+  private enqueue(submissionId: string): void {
+    this.queue = this.queue
+      .then(() => this.analyzeSubmission(submissionId))
+      .catch(error => console.error(`❌ CNN analysis failed for submission ${submissionId}:`, error));
+  }
+
+  private async markPending(submissionId: string): Promise<SubmissionCNNAnalysis> {
+    const state = pendingState();
+    await this.saveState(submissionId, state);
+    return state;
+  }
+
+  /**
+   * Analyze each file, store a CNNAnalysis per image and notify the student when done
+   */
+  private async analyzeSubmission(submissionId: string): Promise<void> {
+    const submission = await prisma.submission.findUnique({
+      where: { id: submissionId },
+      include: {
+        files: { orderBy: { uploadedAt: 'asc' } },
+        assignment: { select: { id: true, title: true, courseId: true } },
+      },
+    });
+    if (!submission) {
+      return;
+    }
+
+    const previous = submission.cnnAnalysisResults as unknown as SubmissionCNNAnalysis | null;
+    const state: SubmissionCNNAnalysis = {
+      status: 'PROCESSING',
+      requestedAt: previous?.requestedAt ?? new Date().toISOString(),
+      startedAt: new Date().toISOString(),
+      files: [],
+    };
+    await this.saveState(submissionId, state);
+
+    // A re-run replaces the records of the previous run, with the corrections made on them
+    const replaced = await prisma.cNNAnalysis.findMany({ where: { submissionId }, select: { id: true } });
+    const replacedIds = replaced.map(analysis => analysis.id);
+    await prisma.$transaction([
+      prisma.detectionFeedback.deleteMany({ where: { analysisId: { in: replacedIds } } }),
+      prisma.collaborationAnnotation.deleteMany({
+        where: { contentId: { in: replacedIds }, contentType: AnnotationContentType.CNN_ANALYSIS },
+      }),
+      prisma.cNNAnalysis.deleteMany({ where: { id: { in: replacedIds } } }),
+    ]);
+
+    for (const file of submission.files) {
+      state.files.push(await this.analyzeFile(file, submission.studentId, submissionId, submission.assignment.courseId));
+    }
+
+    state.status = overallStatus(state.files);
+    state.completedAt = new Date().toISOString();
+    await this.saveState(submissionId, state);
+
+    const analysisIds = state.files.flatMap(file => (file.analysisId ? [file.analysisId] : []));
+    if (analysisIds.length > 0) {
+      await notificationService.notify({
+        userId: submission.studentId,
+        type: NotificationType.CNN_ANALYSIS_COMPLETE,
+        title: 'Image analysis complete',
+        message: `Your submission for "${submission.assignment.title}" has been analyzed`,
+        data: { assignmentId: submission.assignment.id, submissionId, analysisIds },
+      });
+    }
+  }
+
+  private async analyzeFile(
+    file: SubmissionFile,
+    userId: string,
+    submissionId: string,
+    courseId: string
+  ): Promise<CNNFileAnalysis> {
+    const base = { fileId: file.id, fileName: file.originalName };
+
+    if (!isAnalyzableFile(file)) {
+      return { ...base, status: 'SKIPPED' };
+    }
+
+    try {
+      const result = { ...(await this.runAnalyzer(file)), fileId: file.id };
+      const record = await this.createRecord(file, result, userId, { submissionId, submissionFileId: file.id }, courseId);
+
+      return { ...base, status: 'COMPLETED', analysisId: record.id, result: { ...result, _id: record.id } };
+    } catch (error) {
+      console.error(`❌ CNN analysis failed for ${file.originalName}:`, error);
+      return { ...base, status: 'FAILED', error: error instanceof Error ? error.message : 'Analysis failed' };
+    }
+  }
+
+  private async runAnalyzer(file: AnalyzedFile): Promise<ICNNAnalysisResult> {
+    if (!this.analyzer) {
+      throw new ServiceError('CNN inference is not configured on this server', 503);
+    }
+    const result = await this.analyzer.analyzeImage(file.filePath);
+    return { ...result, fileName: file.originalName };
+  }
+
+  private async createRecord(
+    file: AnalyzedFile,
+    result: ICNNAnalysisResult,
+    userId: string,
+    source: { submissionId: string; submissionFileId: string } | null = null,
+    courseId?: string
+  ) {
+    const { categories, tags } = summarizeResult(result);
+    const enrichment = await this.enrich(result, courseId);
+    const thumbnail = file.thumbnail ?? await this.thumbnail(file.filePath);
+
+    return prisma.cNNAnalysis.create({
+      data: {
+        fileName: file.fileName,
+        originalFileName: file.originalName,
+        filePath: file.filePath,
+        fileSize: file.fileSize,
+        mimeType: file.mimeType,
+        image: file.image ? (file.image as unknown as Prisma.InputJsonValue) : null,
+        thumbnail,
+        confidence: result.analysis.confidence,
+        analysisResults: withWikipediaInfo(result, enrichment) as unknown as Prisma.InputJsonValue,
+        wikipediaData: enrichment ? (enrichment as unknown as Prisma.InputJsonValue) : null,
+        categories,
+        tags,
+        processingTime: Math.round(result.processingTime),
+        modelVersions: this.analyzer?.modelVersions?.() ?? null,
+        userId,
+        submissionId: source?.submissionId ?? null,
+        submissionFileId: source?.submissionFileId ?? null,
+      },
+    });
+  }
+
+  /**
+   * Stored analysis without its server-side file path
+   */
+  private presentRecord<T extends { id: string; filePath: string; analysisResults: Prisma.JsonValue }>(record: T) {
+    const { filePath: _filePath, ...analysis } = record;
+    return {
+      ...analysis,
+      analysisResults: { ...(record.analysisResults as object), _id: record.id } as unknown as ICNNAnalysisResult,
+    };
+  }
+
+  /**
+   * Preview of a submitted image. Never throws, so a missing preview cannot fail an analysis.
+   */
+  private async thumbnail(filePath: string): Promise<string | null> {
+    try {
+      return await imagePreprocessingService.thumbnail(filePath);
+    } catch (error) {
+      console.error('❌ Thumbnail creation failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Explanations of what was detected, for the course the image belongs to. Never throws,
+   * so enrichment cannot fail an analysis.
+   */
+  private async enrich(result: ICNNAnalysisResult, courseId?: string | null): Promise<KnowledgeEnrichment | null> {
+    if (!this.enricher) {
+      return null;
+    }
+    try {
+      return await this.enricher.enrich(result, courseId);
+    } catch (error) {
+      console.error('❌ Knowledge enrichment failed:', error);
+      return null;
+    }
+  }
+
+  private async requiresAnalysis(assignment: { id: string; requiresCNNAnalysis: boolean }): Promise<boolean> {
+    if (assignment.requiresCNNAnalysis) {
+      return true;
+    }
+    const steps = await prisma.courseStep.count({ where: { assignmentId: assignment.id, cnnAnalysisEnabled: true } });
+    return steps > 0;
+  }
+
+  private async saveState(submissionId: string, state: SubmissionCNNAnalysis): Promise<void> {
+    await prisma.submission.update({
+      where: { id: submissionId },
+      data: { cnnAnalysisResults: state as unknown as Prisma.InputJsonValue },
+    });
+  }
+}
+
+export const cnnAnalysisService = new CNNAnalysisService(cnnInferenceService, knowledgeEnrichmentService);
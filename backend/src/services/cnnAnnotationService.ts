@@ -0,0 +1,446 @@
+/**
+ * CNN Annotation Service
+ * Turns CNN object detections into HIGHLIGHT annotations on the analyzed image, authored by a
+ * system user, so instructors can relabel them, delete false positives and add missed objects.
+ * Every correction is stored as DetectionFeedback for review of the model's output.
+ */
+
+import {
+  AnnotationContentType,
+  AnnotationType,
+  AnnotationVisibility,
+  CollaborationAnnotation,
+  DetectionFeedbackKind,
+  DetectionFeedbackStatus,
+  Prisma,
+  UserRole as PrismaUserRole,
+} from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { assignmentService } from './assignmentService';
+import { CourseRequester } from './courseService';
+import { ICNNAnalysisResult, IObjectDetection, UserRole } from '../types';
+import { ForbiddenError, NotFoundError, ServiceError } from '../utils/errors';
+
+const OBJECT_ID_PATTERN = /^[0-9a-f]{24}$/i;
+const DEFAULT_SYSTEM_USER_EMAIL = 'cnn-detector@system.local';
+const MAX_LABEL_LENGTH = 100;
+const DEFAULT_PAGE_SIZE = 50;
+
+export const DETECTION_SOURCE = 'cnn-detection';
+export const CORRECTION_SOURCE = 'cnn-correction';
+
+export type BoundingBox = IObjectDetection['boundingBox'];
+
+/**
+ * Shape of CollaborationAnnotation.metadata for detection annotations
+ */
+export interface DetectionAnnotationMetadata {
+  // cnn-detection for the model's detections, cnn-correction for objects instructors added
+  source: typeof DETECTION_SOURCE | typeof CORRECTION_SOURCE;
+  label: string;
+  detectionIndex?: number;
+  confidence?: number;
+  // Label the model gave, once an instructor relabeled the detection
+  originalLabel?: string;
+}
+
+export interface MissedDetectionData {
+  label: unknown;
+  boundingBox: unknown;
+}
+
+export interface FeedbackQuery {
+  status?: unknown;
+  analysisId?: unknown;
+  page?: unknown;
+}
+
+export interface FeedbackReviewData {
+  status: unknown;
+  notes?: unknown;
+}
+
+const annotationInclude = {
+  author: { select: { id: true, firstName: true, lastName: true, avatar: true, role: true } },
+} satisfies Prisma.CollaborationAnnotationInclude;
+
+export const annotationText = (label: string, confidence?: number): string =>
+  confidence === undefined ? label : `${label} (${Math.round(confidence * 100)}%)`;
+
+/**
+ * Annotations for the detections of an analysis, positioned on their bounding boxes in image pixels
+ */
+export const detectionAnnotations = (
+  analysisId: string,
+  result: ICNNAnalysisResult,
+  authorId: string
+): Prisma.CollaborationAnnotationCreateManyInput[] =>
+  result.analysis.objectDetection.map((detection, detectionIndex) => {
+    const metadata: DetectionAnnotationMetadata = {
+      source: DETECTION_SOURCE,
+      label: detection.label,
+      detectionIndex,
+      confidence: detection.confidence,
+    };
+    return {
+      contentId: analysisId,
+      contentType: AnnotationContentType.CNN_ANALYSIS,
+      authorId,
+      text: annotationText(detection.label, detection.confidence),
+      position: { ...detection.boundingBox },
+      annotationType: AnnotationType.HIGHLIGHT,
+      visibility: AnnotationVisibility.COURSE,
+      permissions: {},
+      metadata: metadata as unknown as Prisma.InputJsonValue,
+    };
+  });
+
+export const parseLabel = (label: unknown): string => {
+  if (typeof label !== 'string' || !label.trim()) {
+    throw new ServiceError('label is required');
+  }
+  if (label.trim().length > MAX_LABEL_LENGTH) {
+    throw new ServiceError(`label must be at most ${MAX_LABEL_LENGTH} characters`);
+  }
+  return label.trim();
+};
+
+export const parseBoundingBox = (value: unknown): BoundingBox => {
+  const box = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const [x, y, width, height] = ['x', 'y', 'width', 'height'].map(key => box[key]);
+  const valid = [x, y, width, height].every(n => typeof n === 'number' && Number.isFinite(n) && n >= 0)
+    && (width as number) > 0 && (height as number) > 0;
+  if (!valid) {
+    throw new ServiceError('boundingBox needs non-negative x and y and a positive width and height');
+  }
+  return { x: x as number, y: y as number, width: width as number, height: height as number };
+};
+
+const detectionMetadata = (annotation: Pick<CollaborationAnnotation, 'metadata'>): DetectionAnnotationMetadata | null => {
+  const metadata = annotation.metadata as Partial<DetectionAnnotationMetadata> | null;
+  return metadata && (metadata.source === DETECTION_SOURCE || metadata.source === CORRECTION_SOURCE) && typeof metadata.label === 'string'
+    ? metadata as DetectionAnnotationMetadata
+    : null;
+};
+
+export class CNNAnnotationService {
+  private systemUserId: Promise<string> | null = null;
+
+  /**
+   * Annotate the detections of an analysis. Analyses are only annotated once, so repeated
+   * calls return the existing annotations (corrections included).
+   */
+  async annotateDetections(analysisId: string, requester: CourseRequester) {
+    const analysis = await this.getAnalysis(analysisId, requester, 'view');
+    const existing = await this.listAnnotations(analysisId);
+    if (existing.length > 0) {
+      return { annotations: existing, created: 0 };
+    }
+
+    // Claim the analysis so concurrent calls cannot annotate it twice
+    const { count } = await prisma.cNNAnalysis.updateMany({
+      where: {
+        id: analysisId,
+        OR: [{ detectionsAnnotatedAt: null }, { detectionsAnnotatedAt: { isSet: false } }],
+      },
+      data: { detectionsAnnotatedAt: new Date() },
+    });
+    if (count === 0) {
+      return { annotations: await this.listAnnotations(analysisId), created: 0 };
+    }
+
+    const result = analysis.analysisResults as unknown as ICNNAnalysisResult;
+    try {
+      const data = detectionAnnotations(analysisId, result, await this.getSystemUserId());
+      if (data.length > 0) {
+        await prisma.collaborationAnnotation.createMany({ data });
+      }
+      return { annotations: await this.listAnnotations(analysisId), created: data.length };
+    } catch (error) {
+      // Release the claim so the detections can be annotated again
+      await prisma.cNNAnalysis.update({ where: { id: analysisId }, data: { detectionsAnnotatedAt: null } }).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Correct the label of a detection
+   */
+  async relabelDetection(analysisId: string, annotationId: string, label: unknown, requester: CourseRequester) {
+    const corrected = parseLabel(label);
+    const analysis = await this.getAnalysis(analysisId, requester, 'correct');
+    const { annotation, metadata } = await this.getDetectionAnnotation(analysisId, annotationId);
+
+    const originalLabel = metadata.originalLabel ?? metadata.label;
+    const updated = await prisma.collaborationAnnotation.update({
+      where: { id: annotationId },
+      data: {
+        text: annotationText(corrected, metadata.source === DETECTION_SOURCE ? metadata.confidence : undefined),
+        metadata: {
+          ...metadata,
+          label: corrected,
+          ...(metadata.source === DETECTION_SOURCE && { originalLabel }),
+        } as unknown as Prisma.InputJsonValue,
+        isEdited: true,
+        editedAt: new Date(),
+        version: { increment: 1 },
+      },
+      include: annotationInclude,
+    });
+
+    // One open correction per annotation: relabeling again (or relabeling an added object)
+    // updates it, and relabeling back to the model's label withdraws it
+    const pending = await this.findPendingFeedback(annotationId);
+    if (pending) {
+      if (pending.kind === DetectionFeedbackKind.RELABELED && corrected === originalLabel) {
+        await prisma.detectionFeedback.delete({ where: { id: pending.id } });
+      } else {
+        await prisma.detectionFeedback.update({ where: { id: pending.id }, data: { label: corrected, createdById: requester.userId } });
+      }
+    } else if (metadata.source === DETECTION_SOURCE && corrected !== originalLabel) {
+      await prisma.detectionFeedback.create({
+        data: {
+          ...this.feedbackBase(analysis, annotation, metadata, requester),
+          kind: DetectionFeedbackKind.RELABELED,
+          label: corrected,
+        },
+      });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Delete a detection. Model detections are recorded as false positives; objects an
+   * instructor added are simply withdrawn.
+   */
+  async removeDetection(analysisId: string, annotationId: string, requester: CourseRequester): Promise<void> {
+    const analysis = await this.getAnalysis(analysisId, requester, 'correct');
+    const { annotation, metadata } = await this.getDetectionAnnotation(analysisId, annotationId);
+    const pending = await this.findPendingFeedback(annotationId);
+
+    if (metadata.source === CORRECTION_SOURCE) {
+      if (pending) {
+        await prisma.detectionFeedback.delete({ where: { id: pending.id } });
+      }
+    } else if (pending) {
+      await prisma.detectionFeedback.update({
+        where: { id: pending.id },
+        data: { kind: DetectionFeedbackKind.FALSE_POSITIVE, label: null, createdById: requester.userId },
+      });
+    } else {
+      await prisma.detectionFeedback.create({
+        data: {
+          ...this.feedbackBase(analysis, annotation, metadata, requester),
+          kind: DetectionFeedbackKind.FALSE_POSITIVE,
+        },
+      });
+    }
+
+    await prisma.collaborationAnnotation.update({
+      where: { id: annotationId },
+      data: { isDeleted: true, deletedAt: new Date() },
+    });
+  }
+
+  /**
+   * Add an object the model missed, authored by the instructor
+   */
+  async addMissedDetection(analysisId: string, data: MissedDetectionData, requester: CourseRequester) {
+    const label = parseLabel(data.label);
+    const boundingBox = parseBoundingBox(data.boundingBox);
+    const analysis = await this.getAnalysis(analysisId, requester, 'correct');
+
+    const metadata: DetectionAnnotationMetadata = { source: CORRECTION_SOURCE, label };
+    const annotation = await prisma.collaborationAnnotation.create({
+      data: {
+        contentId: analysisId,
+        contentType: AnnotationContentType.CNN_ANALYSIS,
+        authorId: requester.userId,
+        text: label,
+        position: boundingBox,
+        annotationType: AnnotationType.HIGHLIGHT,
+        visibility: AnnotationVisibility.COURSE,
+        permissions: {},
+        metadata: metadata as unknown as Prisma.InputJsonValue,
+      },
+      include: annotationInclude,
+    });
+
+    await prisma.detectionFeedback.create({
+      data: {
+        ...this.feedbackBase(analysis, annotation, metadata, requester),
+        kind: DetectionFeedbackKind.MISSED,
+        label,
+      },
+    });
+
+    return annotation;
+  }
+
+  /**
+   * Corrections to review (admins), oldest first
+   */
+  async listFeedback(query: FeedbackQuery, requester: CourseRequester) {
+    this.requireAdmin(requester);
+    const page = Math.max(1, Math.floor(Number(query.page)) || 1);
+    if (query.analysisId !== undefined && (typeof query.analysisId !== 'string' || !OBJECT_ID_PATTERN.test(query.analysisId))) {
+      throw new ServiceError('Invalid analysisId');
+    }
+    const where: Prisma.DetectionFeedbackWhereInput = {
+      status: query.status === undefined ? DetectionFeedbackStatus.PENDING : this.parseStatus(query.status),
+      ...(query.analysisId !== undefined && { analysisId: query.analysisId as string }),
+    };
+
+    const [feedback, total] = await Promise.all([
+      prisma.detectionFeedback.findMany({
+        where,
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * DEFAULT_PAGE_SIZE,
+        take: DEFAULT_PAGE_SIZE,
+      }),
+      prisma.detectionFeedback.count({ where }),
+    ]);
+
+    return { feedback, total, page, pageSize: DEFAULT_PAGE_SIZE };
+  }
+
+  /**
+   * Accept or reject a correction (admins)
+   */
+  async reviewFeedback(feedbackId: string, data: FeedbackReviewData, requester: CourseRequester) {
+    this.requireAdmin(requester);
+    const status = this.parseStatus(data.status);
+    if (status === DetectionFeedbackStatus.PENDING) {
+      throw new ServiceError('status must be ACCEPTED or REJECTED');
+    }
+    if (data.notes !== undefined && typeof data.notes !== 'string') {
+      throw new ServiceError('notes must be a string');
+    }
+    if (!OBJECT_ID_PATTERN.test(feedbackId) || !(await prisma.detectionFeedback.findUnique({ where: { id: feedbackId } }))) {
+      throw new NotFoundError('Detection feedback not found');
+    }
+
+    return prisma.detectionFeedback.update({
+      where: { id: feedbackId },
+      data: {
+        status,
+        reviewedById: requester.userId,
+        reviewedAt: new Date(),
+        reviewNotes: typeof data.notes === 'string' && data.notes.trim() ? data.notes.trim() : null,
+      },
+    });
+  }
+
+  /**
+   * Author of detection annotations: an inactive user without a password, so it cannot sign in
+   */
+  private getSystemUserId(): Promise<string> {
+    if (!this.systemUserId) {
+      const email = process.env['CNN_SYSTEM_USER_EMAIL'] || DEFAULT_SYSTEM_USER_EMAIL;
+      this.systemUserId = prisma.user.upsert({
+        where: { email },
+        update: {},
+        create: { email, firstName: 'CNN', lastName: 'Detector', role: PrismaUserRole.STUDENT, isActive: false },
+        select: { id: true },
+      }).then(user => user.id);
+      // Try again on the next call if it failed
+      this.systemUserId.catch(() => { this.systemUserId = null; });
+    }
+    return this.systemUserId;
+  }
+
+  /**
+   * The analysis, if the requester may see it (owner, course staff for submissions, admins)
+   * or correct its detections (course staff for submissions, the owner of a plain upload, admins)
+   */
+  private async getAnalysis(analysisId: string, requester: CourseRequester, access: 'view' | 'correct') {
+    const analysis = OBJECT_ID_PATTERN.test(analysisId)
+      ? await prisma.cNNAnalysis.findUnique({
+        where: { id: analysisId },
+        include: { submission: { select: { assignmentId: true } } },
+      })
+      : null;
+    if (!analysis) {
+      throw new NotFoundError('Analysis not found');
+    }
+
+    if (requester.role === UserRole.ADMIN) {
+      return analysis;
+    }
+    if (analysis.submission) {
+      if (access === 'view' && analysis.userId === requester.userId) {
+        return analysis;
+      }
+      await assignmentService.getManageableAssignment(analysis.submission.assignmentId, requester);
+    } else if (analysis.userId !== requester.userId) {
+      throw new ForbiddenError(`Unauthorized to ${access} this analysis`);
+    }
+    return analysis;
+  }
+
+  private async getDetectionAnnotation(analysisId: string, annotationId: string) {
+    const annotation = OBJECT_ID_PATTERN.test(annotationId)
+      ? await prisma.collaborationAnnotation.findUnique({ where: { id: annotationId } })
+      : null;
+    const metadata = annotation ? detectionMetadata(annotation) : null;
+    if (!annotation || !metadata || annotation.isDeleted || annotation.contentId !== analysisId
+      || annotation.contentType !== AnnotationContentType.CNN_ANALYSIS) {
+      throw new NotFoundError('Detection not found');
+    }
+    return { annotation, metadata };
+  }
+
+  private listAnnotations(analysisId: string) {
+    return prisma.collaborationAnnotation.findMany({
+      where: {
+        contentId: analysisId,
+        contentType: AnnotationContentType.CNN_ANALYSIS,
+        annotationType: AnnotationType.HIGHLIGHT,
+        isDeleted: false,
+      },
+      include: annotationInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  private findPendingFeedback(annotationId: string) {
+    return prisma.detectionFeedback.findFirst({
+      where: { annotationId, status: DetectionFeedbackStatus.PENDING },
+    });
+  }
+
+  private feedbackBase(
+    analysis: { id: string; modelVersions: Prisma.JsonValue },
+    annotation: Pick<CollaborationAnnotation, 'id' | 'position'>,
+    metadata: DetectionAnnotationMetadata,
+    requester: CourseRequester
+  ) {
+    return {
+      analysisId: analysis.id,
+      annotationId: annotation.id,
+      detectionIndex: metadata.detectionIndex ?? null,
+      originalLabel: metadata.source === DETECTION_SOURCE ? metadata.originalLabel ?? metadata.label : null,
+      confidence: metadata.confidence ?? null,
+      boundingBox: annotation.position as Prisma.InputJsonValue,
+      modelVersions: analysis.modelVersions ?? null,
+      createdById: requester.userId,
+    };
+  }
+
+  private parseStatus(status: unknown): DetectionFeedbackStatus {
+    const statuses = Object.values(DetectionFeedbackStatus) as string[];
+    if (typeof status !== 'string' || !statuses.includes(status)) {
+      throw new ServiceError(`status must be one of: ${statuses.join(', ')}`);
+    }
+    return status as DetectionFeedbackStatus;
+  }
+
+  private requireAdmin(requester: CourseRequester): void {
+    if (requester.role !== UserRole.ADMIN) {
+      throw new ForbiddenError('Only admins can review detection feedback');
+    }
+  }
+}
+
+export const cnnAnnotationService = new CNNAnnotationService();
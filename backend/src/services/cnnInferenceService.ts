@@ -0,0 +1,469 @@
+/**
+ * CNN Inference Service
+ * CPU-only image classification and object detection with ONNX models loaded from disk
+ *
+ * CNN_MODEL_DIR holds classifier.onnx (an ImageNet-style classifier) and optionally
+ * detector.onnx (a YOLOv8-style detector), each with a <name>.labels.txt file listing one
+ * class per line in output order.
+ */
+
+import path from 'path';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import sharp from 'sharp';
+import { InferenceSession, Tensor } from 'onnxruntime-node';
+import { ICategorization, ICNNAnalysisResult, IHardwareIdentification, IObjectDetection } from '../types';
+import { ServiceError } from '../utils/errors';
+
+const MODEL_DIR = process.env['CNN_MODEL_DIR'] || path.join(__dirname, '../../models');
+const DETECTION_THRESHOLD = Number(process.env['CNN_DETECTION_THRESHOLD']) || 0.35;
+const IOU_THRESHOLD = 0.45;
+const MAX_DETECTIONS = 50;
+const TOP_K = 5;
+const MIN_CATEGORY_CONFIDENCE = 0.05;
+const DEFAULT_CLASSIFIER_SIZE = 224;
+const DEFAULT_DETECTOR_SIZE = 640;
+const LETTERBOX_FILL = { r: 114, g: 114, b: 114 };
+const IMAGENET_MEAN: Rgb = [0.485, 0.456, 0.406];
+const IMAGENET_STD: Rgb = [0.229, 0.224, 0.225];
+const UNIT_MEAN: Rgb = [0, 0, 0];
+const UNIT_STD: Rgb = [1, 1, 1];
+
+// Labels (ImageNet and COCO names) reported as hardware identifications
+const HARDWARE_LABELS = new Set([
+  'laptop', 'notebook', 'desktop computer', 'computer keyboard', 'keyboard', 'mouse', 'remote',
+  'remote control', 'cell phone', 'cellular telephone', 'hand-held computer', 'ipod', 'monitor',
+  'screen', 'tv', 'television', 'printer', 'modem', 'hard disc', 'joystick', 'projector',
+  'microwave', 'oven', 'toaster', 'refrigerator', 'digital clock', 'digital watch', 'switch',
+  'oscilloscope', 'tape player', 'cassette player', 'loudspeaker', 'microphone',
+]);
+
+type Rgb = [number, number, number];
+
+export type TensorLayout = 'NCHW' | 'NHWC';
+
+export interface ClassLabel {
+  name: string;
+  synonyms: string[];
+}
+
+export interface ScoredClass {
+  index: number;
+  confidence: number;
+}
+
+export interface LetterboxTransform {
+  scale: number;
+  padX: number;
+  padY: number;
+  width: number;
+  height: number;
+}
+
+export interface RawDetection {
+  classIndex: number;
+  confidence: number;
+  box: { x: number; y: number; width: number; height: number };
+}
+
+interface LoadedModel {
+  session: InferenceSession;
+  labels: ClassLabel[];
+  inputName: string;
+  outputName: string;
+  width: number;
+  height: number;
+  layout: TensorLayout;
+  version: string;
+}
+
+interface LoadedModels {
+  classifier: LoadedModel | null;
+  detector: LoadedModel | null;
+}
+
+const round4 = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * Parse one labels file line. ImageNet synset lines ("n01440764 tench, Tinca tinca") lose
+ * their synset id; comma-separated names become the label and its synonyms.
+ */
+export const parseLabel = (line: string): ClassLabel => {
+  const [name = '', ...synonyms] = line.replace(/^n\d{8}\s+/, '').split(',').map(part => part.trim()).filter(Boolean);
+  return { name, synonyms };
+};
+
+/**
+ * Turn raw model outputs into probabilities, leaving outputs that already are probabilities alone
+ */
+export const toProbabilities = (values: ArrayLike<number>): number[] => {
+  const scores = Array.from(values);
+  const total = scores.reduce((sum, value) => sum + value, 0);
+  if (scores.every(value => value >= 0 && value <= 1) && Math.abs(total - 1) < 1e-3) {
+    return scores;
+  }
+
+  const max = scores.reduce((a, b) => Math.max(a, b), -Infinity);
+  const exps = scores.map(value => Math.exp(value - max));
+  const expTotal = exps.reduce((sum, value) => sum + value, 0);
+  return exps.map(value => value / expTotal);
+};
+
+/**
+ * The k most probable classes, best first
+ */
+export const topK = (probabilities: number[], k: number): ScoredClass[] =>
+  probabilities
+    .map((confidence, index) => ({ index, confidence }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, k);
+
+/**
+ * Scale and padding that fit an image inside the model input while keeping its aspect ratio
+ */
+export const letterbox = (imageWidth: number, imageHeight: number, inputWidth: number, inputHeight: number): LetterboxTransform => {
+  const scale = Math.min(inputWidth / imageWidth, inputHeight / imageHeight);
+  const width = Math.max(1, Math.round(imageWidth * scale));
+  const height = Math.max(1, Math.round(imageHeight * scale));
+  return {
+    scale,
+    padX: Math.floor((inputWidth - width) / 2),
+    padY: Math.floor((inputHeight - height) / 2),
+    width,
+    height,
+  };
+};
+
+/**
+ * Convert interleaved 8-bit RGB pixels to a normalized float tensor in the model's layout
+ */
+export const toTensorData = (
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  layout: TensorLayout,
+  mean: Rgb,
+  std: Rgb
+): Float32Array => {
+  const area = width * height;
+  const data = new Float32Array(area * 3);
+
+  for (let i = 0; i < area; i++) {
+    for (let c = 0; c < 3; c++) {
+      const value = (pixels[i * 3 + c]! / 255 - mean[c]!) / std[c]!;
+      data[layout === 'NCHW' ? c * area + i : i * 3 + c] = value;
+    }
+  }
+
+  return data;
+};
+
+/**
+ * Intersection over union of two boxes
+ */
+export const iou = (a: RawDetection['box'], b: RawDetection['box']): number => {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+/**
+ * Keep the most confident box among overlapping boxes of the same class
+ */
+export const nonMaxSuppression = (detections: RawDetection[], iouThreshold: number = IOU_THRESHOLD): RawDetection[] => {
+  const kept: RawDetection[] = [];
+  for (const detection of [...detections].sort((a, b) => b.confidence - a.confidence)) {
+    const overlaps = kept.some(other =>
+      other.classIndex === detection.classIndex && iou(other.box, detection.box) > iouThreshold
+    );
+    if (!overlaps) {
+      kept.push(detection);
+    }
+  }
+  return kept;
+};
+
+/**
+ * Decode a YOLOv8-style output ([1, 4 + classes, anchors] or [1, anchors, 4 + classes] of
+ * cx, cy, w, h and class scores) into boxes in original image pixels
+ */
+export const decodeDetections = (
+  data: ArrayLike<number>,
+  dims: readonly number[],
+  numClasses: number,
+  transform: LetterboxTransform,
+  imageWidth: number,
+  imageHeight: number,
+  threshold: number = DETECTION_THRESHOLD
+): RawDetection[] => {
+  const features = 4 + numClasses;
+  let anchors: number;
+  let at: (anchor: number, feature: number) => number;
+
+  if (dims.length === 3 && dims[1] === features) {
+    anchors = dims[2]!;
+    at = (anchor, feature) => data[feature * anchors + anchor]!;
+  } else if (dims.length === 3 && dims[2] === features) {
+    anchors = dims[1]!;
+    at = (anchor, feature) => data[anchor * features + feature]!;
+  } else {
+    throw new ServiceError(`Unsupported detector output shape [${dims.join(', ')}] for ${numClasses} classes`, 500);
+  }
+
+  const detections: RawDetection[] = [];
+  for (let anchor = 0; anchor < anchors; anchor++) {
+    let classIndex = 0;
+    let confidence = 0;
+    for (let c = 0; c < numClasses; c++) {
+      const score = at(anchor, 4 + c);
+      if (score > confidence) {
+        confidence = score;
+        classIndex = c;
+      }
+    }
+    if (confidence < threshold) {
+      continue;
+    }
+
+    const cx = at(anchor, 0);
+    const cy = at(anchor, 1);
+    const w = at(anchor, 2);
+    const h = at(anchor, 3);
+    const x1 = Math.min(imageWidth, Math.max(0, (cx - w / 2 - transform.padX) / transform.scale));
+    const y1 = Math.min(imageHeight, Math.max(0, (cy - h / 2 - transform.padY) / transform.scale));
+    const x2 = Math.min(imageWidth, Math.max(0, (cx + w / 2 - transform.padX) / transform.scale));
+    const y2 = Math.min(imageHeight, Math.max(0, (cy + h / 2 - transform.padY) / transform.scale));
+    if (x2 <= x1 || y2 <= y1) {
+      continue;
+    }
+
+    detections.push({
+      classIndex,
+      confidence,
+      box: { x: Math.round(x1), y: Math.round(y1), width: Math.round(x2 - x1), height: Math.round(y2 - y1) },
+    });
+  }
+
+  return nonMaxSuppression(detections).slice(0, MAX_DETECTIONS);
+};
+
+/**
+ * Combine classifier and detector outputs into the analysis stored for an image
+ */
+export const buildAnalysis = (
+  classes: { label: ClassLabel; confidence: number }[],
+  detections: IObjectDetection[]
+): ICNNAnalysisResult['analysis'] => {
+  const categorization: ICategorization[] = classes
+    .filter(item => item.confidence >= MIN_CATEGORY_CONFIDENCE)
+    .map(item => ({ category: item.label.name, subcategories: item.label.synonyms, confidence: round4(item.confidence) }));
+
+  const hardware = new Map<string, IHardwareIdentification>();
+  const candidates = [
+    ...detections.map(detection => ({ name: detection.label, confidence: detection.confidence })),
+    ...categorization.map(category => ({ name: category.category, confidence: category.confidence })),
+  ];
+  for (const candidate of candidates) {
+    const deviceType = candidate.name.toLowerCase();
+    if (HARDWARE_LABELS.has(deviceType) && (hardware.get(deviceType)?.confidence ?? 0) < candidate.confidence) {
+      hardware.set(deviceType, { deviceType, confidence: round4(candidate.confidence) });
+    }
+  }
+
+  const best = Math.max(0, ...categorization.map(c => c.confidence), ...detections.map(d => d.confidence));
+
+  return {
+    objectDetection: detections,
+    categorization,
+    hardwareIdentification: [...hardware.values()].sort((a, b) => b.confidence - a.confidence),
+    confidence: round4(best),
+  };
+};
+
+export class CNNInferenceService {
+  private models: Promise<LoadedModels> | null = null;
+  private loadedVersions: Record<string, string> = {};
+  // One inference at a time keeps a single-core host responsive
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Classify an image and detect objects in it
+   */
+  async analyzeImage(filePath: string): Promise<ICNNAnalysisResult> {
+    return this.exclusive(async () => {
+      const startedAt = Date.now();
+      const models = await this.loadModels();
+
+      const metadata = await sharp(filePath).metadata().catch(() => null);
+      if (!metadata?.width || !metadata.height) {
+        throw new ServiceError('File is not a readable image');
+      }
+      // EXIF orientations 5-8 rotate by 90 degrees, swapping width and height
+      const rotated = (metadata.orientation ?? 1) >= 5;
+      const imageWidth = rotated ? metadata.height : metadata.width;
+      const imageHeight = rotated ? metadata.width : metadata.height;
+
+      const classes = models.classifier ? await this.classify(filePath, models.classifier) : [];
+      const detections = models.detector
+        ? await this.detect(filePath, models.detector, imageWidth, imageHeight)
+        : [];
+
+      return {
+        fileId: '',
+        fileName: path.basename(filePath),
+        analysis: buildAnalysis(classes, detections),
+        processedAt: new Date(),
+        processingTime: Date.now() - startedAt,
+      };
+    });
+  }
+
+  /**
+   * Versions of the models the next analysis will use
+   */
+  modelVersions(): Record<string, string> {
+    return this.loadedVersions;
+  }
+
+  private async classify(filePath: string, model: LoadedModel) {
+    const { data } = await sharp(filePath)
+      .rotate()
+      .resize(model.width, model.height, { fit: 'cover' })
+      .removeAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const input = new Tensor(
+      'float32',
+      toTensorData(data, model.width, model.height, model.layout, IMAGENET_MEAN, IMAGENET_STD),
+      this.inputDims(model)
+    );
+    const output = await model.session.run({ [model.inputName]: input });
+    const probabilities = toProbabilities(output[model.outputName]!.data as Float32Array);
+
+    // Some classifiers reserve index 0 for "background", one more output than labels
+    const offset = probabilities.length === model.labels.length + 1 ? 1 : 0;
+    return topK(probabilities.slice(offset), TOP_K).map(({ index, confidence }) => ({
+      label: model.labels[index] ?? { name: `class ${index}`, synonyms: [] },
+      confidence,
+    }));
+  }
+
+  private async detect(filePath: string, model: LoadedModel, imageWidth: number, imageHeight: number) {
+    const transform = letterbox(imageWidth, imageHeight, model.width, model.height);
+    const { data } = await sharp(filePath)
+      .rotate()
+      .resize(transform.width, transform.height, { fit: 'fill' })
+      .removeAlpha()
+      .extend({
+        top: transform.padY,
+        bottom: model.height - transform.height - transform.padY,
+        left: transform.padX,
+        right: model.width - transform.width - transform.padX,
+        background: LETTERBOX_FILL,
+      })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const input = new Tensor(
+      'float32',
+      toTensorData(data, model.width, model.height, model.layout, UNIT_MEAN, UNIT_STD),
+      this.inputDims(model)
+    );
+    const output = await model.session.run({ [model.inputName]: input });
+    const tensor = output[model.outputName]!;
+
+    return decodeDetections(
+      tensor.data as Float32Array,
+      tensor.dims,
+      model.labels.length,
+      transform,
+      imageWidth,
+      imageHeight
+    ).map((detection): IObjectDetection => ({
+      label: model.labels[detection.classIndex]?.name ?? `class ${detection.classIndex}`,
+      confidence: round4(detection.confidence),
+      boundingBox: detection.box,
+    }));
+  }
+
+  private inputDims(model: LoadedModel): number[] {
+    return model.layout === 'NCHW' ? [1, 3, model.height, model.width] : [1, model.height, model.width, 3];
+  }
+
+  /**
+   * Load the models once. A failed load is retried on the next request, so models can be
+   * installed without restarting the server.
+   */
+  private loadModels(): Promise<LoadedModels> {
+    if (!this.models) {
+      this.models = (async () => {
+        const [classifier, detector] = await Promise.all([
+          this.loadModel('classifier', DEFAULT_CLASSIFIER_SIZE),
+          this.loadModel('detector', DEFAULT_DETECTOR_SIZE),
+        ]);
+        if (!classifier && !detector) {
+          throw new ServiceError(`No CNN model found in ${MODEL_DIR} (expected classifier.onnx and/or detector.onnx)`, 503);
+        }
+
+        this.loadedVersions = {
+          ...(classifier && { classifier: classifier.version }),
+          ...(detector && { detector: detector.version }),
+        };
+        return { classifier, detector };
+      })();
+      this.models.catch(() => {
+        this.models = null;
+      });
+    }
+    return this.models;
+  }
+
+  private async loadModel(name: string, defaultSize: number): Promise<LoadedModel | null> {
+    const modelPath = path.join(MODEL_DIR, `${name}.onnx`);
+    const model = await fs.readFile(modelPath).catch(() => null);
+    if (!model) {
+      return null;
+    }
+
+    const labelsText = await fs.readFile(path.join(MODEL_DIR, `${name}.labels.txt`), 'utf8').catch(() => {
+      throw new ServiceError(`Missing ${name}.labels.txt next to ${name}.onnx`, 503);
+    });
+    const labels = labelsText.split(/\r?\n/).filter(line => line.trim()).map(parseLabel);
+
+    const threads = Number(process.env['CNN_NUM_THREADS']);
+    const session = await InferenceSession.create(model, {
+      executionProviders: ['cpu'],
+      ...(threads > 0 && { intraOpNumThreads: threads }),
+    });
+
+    // Read the input size from the model, falling back for dynamic dimensions
+    const metadata = session.inputMetadata[0];
+    const shape = metadata?.isTensor ? metadata.shape : [];
+    const layout: TensorLayout = shape[3] === 3 ? 'NHWC' : 'NCHW';
+    const [h, w] = layout === 'NCHW' ? [shape[2], shape[3]] : [shape[1], shape[2]];
+
+    return {
+      session,
+      labels,
+      inputName: session.inputNames[0]!,
+      outputName: session.outputNames[0]!,
+      width: typeof w === 'number' && w > 0 ? w : defaultSize,
+      height: typeof h === 'number' && h > 0 ? h : defaultSize,
+      layout,
+      version: `${name}.onnx@${crypto.createHash('sha256').update(model).digest('hex').slice(0, 12)}`,
+    };
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export const cnnInferenceService = new CNNInferenceService();
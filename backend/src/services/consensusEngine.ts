@@ -0,0 +1,242 @@
+/**
+ * Consensus Engine
+ * Scores how much AI services analyzing the same content agree, by normalizing each
+ * answer's findings (topics, entities, categories, sentiment) and comparing them pairwise
+ */
+
+import { AIAnalysisResponse, AIConsensus, AIServiceType, ConsensusDimension, ConsensusPair } from './aiModels/types';
+import { contentWords } from './consolidationEngine';
+
+// Share of the pairwise score each finding carries when both services report it
+const DIMENSION_WEIGHTS: Record<ConsensusDimension, number> = {
+  topics: 0.4,
+  entities: 0.2,
+  categories: 0.25,
+  sentiment: 0.15,
+};
+// Agreement at which services count as agreeing when the caller sets no threshold
+export const DEFAULT_AGREEMENT_THRESHOLD = 0.5;
+// How much a result's own confidence counts, next to how much others agree with it, for bestResult
+const SELF_CONFIDENCE_WEIGHT = 0.3;
+const MAX_TOPICS = 15;
+const MAX_SHARED_LISTED = 5;
+
+export interface NormalizedFindings {
+  topics: Set<string>;
+  entities: Set<string>;
+  categories: Set<string>;
+  // -1 to 1, when the service reported it
+  sentiment?: number;
+}
+
+export interface ConsensusResult {
+  consensus: AIConsensus;
+  bestResult?: AIServiceType;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+const percent = (value: number): string => `${Math.round(value * 100)}%`;
+
+// Capitalized phrases and acronyms, e.g. "Newton's Laws", "DNA"
+const ENTITY_PATTERN = /\b[A-Z][A-Za-z0-9'-]*(?:\s+(?:of\s+)?[A-Z][A-Za-z0-9'-]*)*/g;
+
+/**
+ * Named things an answer mentions. A single capitalized word opening a sentence is only
+ * counted when it is an acronym, since it is capitalized anyway.
+ */
+export const extractEntities = (text: string): Set<string> => {
+  const entities = new Set<string>();
+  for (const match of text.matchAll(ENTITY_PATTERN)) {
+    const phrase = match[0].replace(/^(?:The|A|An)\s+/, '').replace(/'s$/, '');
+    const before = text.slice(0, match.index).trimEnd();
+    const opensSentence = before === '' || /[.!?:\n]$/.test(before);
+    const acronym = /^[A-Z0-9]{2,}$/.test(phrase);
+    if (!phrase.includes(' ') && opensSentence && !acronym) {
+      continue;
+    }
+    if (phrase.length > 1) {
+      entities.add(phrase.toLowerCase());
+    }
+  }
+  return entities;
+};
+
+/**
+ * Most frequent content words of an answer
+ */
+export const extractTopics = (text: string, limit = MAX_TOPICS): Set<string> => {
+  const counts = new Map<string, number>();
+  for (const word of contentWords(text)) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  return new Set(
+    [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([word]) => word)
+  );
+};
+
+export const normalizeFindings = (response: AIAnalysisResponse): NormalizedFindings => {
+  const { categories, sentimentScore } = response.metadata;
+  return {
+    topics: extractTopics(response.content),
+    entities: extractEntities(response.content),
+    categories: new Set((categories ?? []).map(category => category.trim().toLowerCase()).filter(Boolean)),
+    ...(typeof sentimentScore === 'number' && { sentiment: Math.max(-1, Math.min(1, sentimentScore)) }),
+  };
+};
+
+/**
+ * Share of the smaller set found in the other, so a shorter answer is not penalized for
+ * covering less
+ */
+export const overlap = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  a.forEach(item => {
+    if (b.has(item)) {
+      shared++;
+    }
+  });
+  return shared / Math.min(a.size, b.size);
+};
+
+/**
+ * Agreement of two services' findings. Findings only one of them reports are left out
+ * rather than counted as disagreement.
+ */
+export const scorePair = (a: NormalizedFindings, b: NormalizedFindings): Omit<ConsensusPair, 'services'> => {
+  const dimensions: ConsensusPair['dimensions'] = {
+    topics: overlap(a.topics, b.topics),
+  };
+  if (a.entities.size > 0 && b.entities.size > 0) {
+    dimensions.entities = overlap(a.entities, b.entities);
+  }
+  if (a.categories.size > 0 && b.categories.size > 0) {
+    dimensions.categories = overlap(a.categories, b.categories);
+  }
+  if (a.sentiment !== undefined && b.sentiment !== undefined) {
+    dimensions.sentiment = 1 - Math.abs(a.sentiment - b.sentiment) / 2;
+  }
+
+  let weighted = 0;
+  let weights = 0;
+  for (const [dimension, score] of Object.entries(dimensions) as [ConsensusDimension, number][]) {
+    weighted += score * DIMENSION_WEIGHTS[dimension];
+    weights += DIMENSION_WEIGHTS[dimension];
+  }
+
+  return {
+    agreement: round2(weighted / weights),
+    dimensions: Object.fromEntries(
+      Object.entries(dimensions).map(([dimension, score]) => [dimension, round2(score)])
+    ),
+  };
+};
+
+/**
+ * Services report confidence from 0 to 1 or 0 to 100
+ */
+const confidenceOf = (response: AIAnalysisResponse): number =>
+  Math.max(0, Math.min(1, response.confidence > 1 ? response.confidence / 100 : response.confidence));
+
+/**
+ * Findings reported by more than half of the services
+ */
+const sharedBy = (findings: NormalizedFindings[], dimension: 'topics' | 'entities' | 'categories'): string[] => {
+  const counts = new Map<string, number>();
+  for (const finding of findings) {
+    finding[dimension].forEach(item => counts.set(item, (counts.get(item) ?? 0) + 1));
+  }
+  return [...counts.entries()]
+    .filter(([, count]) => count * 2 > findings.length)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_SHARED_LISTED)
+    .map(([item]) => item);
+};
+
+/**
+ * Score the agreement of the successful responses, pick the result that best represents
+ * them and summarize what they share
+ */
+export const buildConsensus = (
+  results: Map<AIServiceType, AIAnalysisResponse>,
+  confidenceThreshold?: number
+): ConsensusResult => {
+  const successful = [...results.entries()].filter(([, response]) => response.success);
+  const threshold = confidenceThreshold ?? DEFAULT_AGREEMENT_THRESHOLD;
+
+  if (successful.length === 0) {
+    return {
+      consensus: {
+        agreed: false,
+        confidence: 0,
+        summary: 'No service produced a result, so there is nothing to compare',
+        pairs: [],
+        ...(confidenceThreshold !== undefined && { warning: 'Consensus could not be checked: every service failed' }),
+      },
+    };
+  }
+
+  const services = successful.map(([service]) => service);
+  const findings = successful.map(([, response]) => normalizeFindings(response));
+
+  if (successful.length === 1) {
+    const [service, response] = successful[0]!;
+    return {
+      consensus: {
+        agreed: false,
+        confidence: 0,
+        summary: `Only ${service} produced a result, so its findings are not corroborated by another service`,
+        pairs: [],
+        ...(confidenceThreshold !== undefined && {
+          warning: `Consensus could not be checked: only ${service} answered (confidence ${percent(confidenceOf(response))})`,
+        }),
+      },
+      bestResult: service,
+    };
+  }
+
+  const pairs: ConsensusPair[] = [];
+  for (let i = 0; i < services.length; i++) {
+    for (let j = i + 1; j < services.length; j++) {
+      pairs.push({ services: [services[i]!, services[j]!], ...scorePair(findings[i]!, findings[j]!) });
+    }
+  }
+
+  const confidence = round2(pairs.reduce((sum, pair) => sum + pair.agreement, 0) / pairs.length);
+  const agreed = confidence >= threshold;
+
+  // The result the others agree with most, tempered by how sure it is of itself
+  const scored = successful.map(([service, response]) => {
+    const own = pairs.filter(pair => pair.services.includes(service));
+    const support = own.reduce((sum, pair) => sum + pair.agreement, 0) / own.length;
+    return { service, score: support * (1 - SELF_CONFIDENCE_WEIGHT) + confidenceOf(response) * SELF_CONFIDENCE_WEIGHT };
+  });
+  const bestResult = scored.reduce((best, entry) => (entry.score > best.score ? entry : best)).service;
+
+  const shared = [
+    ['topics', sharedBy(findings, 'topics')],
+    ['categories', sharedBy(findings, 'categories')],
+    ['entities', sharedBy(findings, 'entities')],
+  ] as const;
+  const summary = [
+    `${services.length} services ${agreed ? 'agree' : 'disagree'} (${percent(confidence)} agreement).`,
+    ...shared.filter(([, items]) => items.length > 0).map(([label, items]) => `Shared ${label}: ${items.join(', ')}.`),
+    `${bestResult} best represents the results.`,
+  ].join(' ');
+
+  const weakest = pairs.reduce((low, pair) => (pair.agreement < low.agreement ? pair : low));
+  const warning = confidenceThreshold !== undefined && !agreed
+    ? `Services agree ${percent(confidence)}, below the requested ${percent(confidenceThreshold)}; ` +
+      `${weakest.services.join(' and ')} disagree most (${percent(weakest.agreement)})`
+    : undefined;
+
+  return {
+    consensus: { agreed, confidence, summary, pairs, ...(warning && { warning }) },
+    bestResult,
+  };
+};
@@ -0,0 +1,220 @@
+/**
+ * Consolidation Engine
+ * Combines per-model AI analysis results into consolidated insights based on
+ * how much the models actually agree with each other
+ */
+
+import { AIAnalysisResult, AIModelType, ConflictAnalysis, ConsolidatedInsights } from '../types';
+
+// Statements whose word overlap reaches this are treated as the same finding
+const SIMILARITY_THRESHOLD = 0.4;
+// Model confidences further apart than this are reported as a disagreement
+const CONFIDENCE_SPREAD_THRESHOLD = 0.3;
+const MAX_COMMON_FINDINGS = 8;
+const MAX_CONFLICTS = 10;
+const MAX_RECOMMENDATIONS = 6;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'this', 'that', 'these', 'those', 'with', 'from', 'into',
+  'has', 'have', 'had', 'its', 'it\'s', 'their', 'there', 'which', 'while', 'about', 'also', 'can',
+  'could', 'should', 'would', 'will', 'been', 'being', 'such', 'than', 'then', 'them', 'they', 'very',
+  'more', 'most', 'some', 'any', 'all', 'each', 'other', 'not', 'but', 'use', 'uses', 'used', 'using',
+]);
+
+export interface ModelStatement {
+  model: AIModelType;
+  text: string;
+  confidence: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Content words of a text in order, lower-cased with plural "s" removed
+ */
+export const contentWords = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9']+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+
+/**
+ * Distinct content words of a statement
+ */
+export const tokenize = (text: string): Set<string> => new Set(contentWords(text));
+
+/**
+ * Jaccard similarity of two token sets
+ */
+export const similarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) {
+      shared++;
+    }
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+/**
+ * Group statements that say the same thing, in order of first appearance
+ */
+export const clusterStatements = (statements: ModelStatement[]): ModelStatement[][] => {
+  const clusters: { tokens: Set<string>[]; members: ModelStatement[] }[] = [];
+
+  for (const statement of statements) {
+    const tokens = tokenize(statement.text);
+    if (tokens.size === 0) {
+      continue;
+    }
+    const cluster = clusters.find(candidate =>
+      candidate.tokens.some(existing => similarity(existing, tokens) >= SIMILARITY_THRESHOLD)
+    );
+    if (cluster) {
+      cluster.tokens.push(tokens);
+      cluster.members.push(statement);
+    } else {
+      clusters.push({ tokens: [tokens], members: [statement] });
+    }
+  }
+
+  return clusters.map(cluster => cluster.members);
+};
+
+const modelsIn = (cluster: ModelStatement[]): AIModelType[] => [...new Set(cluster.map(statement => statement.model))];
+
+/**
+ * Most confident wording of a finding
+ */
+const representative = (cluster: ModelStatement[]): string =>
+  [...cluster].sort((a, b) => b.confidence - a.confidence)[0]!.text;
+
+/**
+ * Clusters ranked by how many models support them, then by confidence
+ */
+const bySupport = (clusters: ModelStatement[][]): ModelStatement[][] =>
+  [...clusters].sort((a, b) =>
+    modelsIn(b).length - modelsIn(a).length ||
+    Math.max(...b.map(s => s.confidence)) - Math.max(...a.map(s => s.confidence))
+  );
+
+const resolutionFor = (supporting: number, total: number): string => {
+  if (supporting * 2 > total) {
+    return 'Most models identified this, so it is likely reliable';
+  }
+  if (supporting * 2 < total) {
+    return 'Only a minority of models identified this; verify it against the source before relying on it';
+  }
+  return 'Models are evenly split; review the source content to decide';
+};
+
+/**
+ * Entities that some models found and others did not, and large gaps in model confidence
+ */
+export const findConflicts = (results: AIAnalysisResult[]): ConflictAnalysis[] => {
+  if (results.length < 2) {
+    return [];
+  }
+
+  const models = results.map(result => result.model);
+  const conflicts: ConflictAnalysis[] = [];
+
+  const entities = new Map<string, { name: string; confidence: Partial<Record<AIModelType, number>> }>();
+  for (const result of results) {
+    for (const entity of result.results.entities) {
+      const key = entity.entity.trim().toLowerCase();
+      if (!key) {
+        continue;
+      }
+      const entry = entities.get(key) ?? { name: entity.entity.trim(), confidence: {} };
+      entry.confidence[result.model] = Math.max(entry.confidence[result.model] ?? 0, entity.confidence);
+      entities.set(key, entry);
+    }
+  }
+
+  for (const { name, confidence } of entities.values()) {
+    const found = models.filter(model => confidence[model] !== undefined);
+    if (found.length === models.length) {
+      continue;
+    }
+    const missing = models.filter(model => confidence[model] === undefined);
+    conflicts.push({
+      finding: `"${name}" identified by ${found.join(', ')} but not by ${missing.join(', ')}`,
+      models,
+      confidence: Object.fromEntries(models.map(model => [model, round2(confidence[model] ?? 0)])),
+      resolution: resolutionFor(found.length, models.length),
+    });
+  }
+
+  const confidences = results.map(result => result.confidence);
+  const highest = results.reduce((best, result) => (result.confidence > best.confidence ? result : best));
+  if (Math.max(...confidences) - Math.min(...confidences) >= CONFIDENCE_SPREAD_THRESHOLD) {
+    conflicts.unshift({
+      finding: 'Models report very different confidence in their analysis',
+      models,
+      confidence: Object.fromEntries(results.map(result => [result.model, round2(result.confidence)])),
+      resolution: `${highest.model} is the most confident; prefer findings that other models share`,
+    });
+  }
+
+  return conflicts.slice(0, MAX_CONFLICTS);
+};
+
+/**
+ * Consolidate the completed per-model results of one analysis
+ */
+export const consolidateInsights = (
+  results: Partial<Record<AIModelType, AIAnalysisResult>>,
+  requestedModels: AIModelType[] = Object.keys(results) as AIModelType[]
+): ConsolidatedInsights => {
+  const completed = Object.values(results).filter(
+    (result): result is AIAnalysisResult => !!result && result.status === 'completed'
+  );
+
+  if (completed.length === 0) {
+    return {
+      summary: 'No AI model produced results for this analysis',
+      commonFindings: [],
+      conflictingAnalyses: [],
+      confidenceScore: 0,
+      recommendedActions: [],
+    };
+  }
+
+  const insightClusters = clusterStatements(completed.flatMap(result =>
+    result.results.insights.map(text => ({ model: result.model, text, confidence: result.confidence }))
+  ));
+  const shared = insightClusters.filter(cluster => modelsIn(cluster).length > 1);
+  const conflicts = findConflicts(completed);
+
+  const recommendationClusters = bySupport(clusterStatements(completed.flatMap(result =>
+    result.results.recommendations.map(text => ({ model: result.model, text, confidence: result.confidence }))
+  )));
+  const recommendedActions = recommendationClusters.slice(0, MAX_RECOMMENDATIONS).map(representative);
+  if (conflicts.length > 0) {
+    recommendedActions.push(`Review the ${conflicts.length} point(s) where models disagree`);
+  }
+
+  // A single model cannot corroborate itself, so agreement only scales multi-model results
+  const averageConfidence = completed.reduce((sum, result) => sum + result.confidence, 0) / completed.length;
+  const agreement = insightClusters.length > 0 ? shared.length / insightClusters.length : 0;
+  const confidenceScore = completed.length > 1 ? averageConfidence * (0.5 + 0.5 * agreement) : averageConfidence;
+
+  const best = completed.reduce((top, result) => (result.confidence > top.confidence ? result : top));
+  const overview = completed.length > 1
+    ? `${completed.length} of ${requestedModels.length} models completed (${completed.map(r => r.model).join(', ')}), ` +
+      `sharing ${shared.length} of ${insightClusters.length} findings with ${conflicts.length} disagreement(s).`
+    : `1 of ${requestedModels.length} models completed (${best.model}); findings are not corroborated by another model.`;
+
+  return {
+    summary: best.results.description ? `${overview}\n\n${best.results.description}` : overview,
+    commonFindings: bySupport(shared).slice(0, MAX_COMMON_FINDINGS).map(representative),
+    conflictingAnalyses: conflicts,
+    confidenceScore: round2(confidenceScore),
+    recommendedActions,
+  };
+};
@@ -0,0 +1,534 @@
+/**
+ * Course Content Service
+ * Authoring of course modules and steps: create, edit, delete and atomic reordering
+ */
+
+import { Prisma, StepType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { courseService, CourseRequester } from './courseService';
+import { ModuleUnlockRules, parseUnlockRules, progressService } from './progressService';
+import { webSocketService } from './WebSocketService';
+import type { CourseStructureEvent } from '../websocket/types';
+import { ConflictError, NotFoundError, ServiceError } from '../utils/errors';
+
+export interface ModuleData {
+  title: string;
+  description?: string | null;
+  content?: string | null;
+  estimatedMinutes?: number;
+  isRequired?: boolean;
+  isLocked?: boolean;
+  unlockRules?: ModuleUnlockRules | null;
+}
+
+export interface StepData {
+  title: string;
+  type: StepType;
+  content?: string | null;
+  estimatedTime?: number;
+  isRequired?: boolean;
+  cnnAnalysisEnabled?: boolean;
+  resources?: Prisma.InputJsonValue | null;
+  assignmentId?: string | null;
+}
+
+const SUBMISSION_STEP_TYPES: StepType[] = [StepType.UPLOAD, StepType.ASSIGNMENT];
+
+export class CourseContentService {
+  /**
+   * List a course's modules with their steps in order. Students get each module's lock state
+   * for them, and only the outline (no content or resources) of steps in locked modules.
+   */
+  async getModules(courseId: string, requester: CourseRequester) {
+    const course = await courseService.getViewableCourse(courseId, requester);
+
+    const modules = await prisma.courseModule.findMany({
+      where: { courseId },
+      include: { steps: { orderBy: { order: 'asc' } } },
+      orderBy: { order: 'asc' },
+    });
+
+    return progressService.applyModuleLocks(
+      courseId,
+      modules,
+      courseService.canManage(course, requester) ? null : requester.userId
+    );
+  }
+
+  /**
+   * Get a single step. Students are refused steps of modules that are still locked for them.
+   */
+  async getStep(courseId: string, moduleId: string, stepId: string, requester: CourseRequester) {
+    await courseService.getViewableCourse(courseId, requester);
+    const step = await this.getModuleStep(courseId, moduleId, stepId);
+    await progressService.assertModuleUnlocked(courseId, moduleId, requester);
+
+    return step;
+  }
+
+  /**
+   * Append a module to the end of a course
+   */
+  async createModule(courseId: string, data: ModuleData, requester: CourseRequester) {
+    await courseService.getManageableCourse(courseId, requester);
+    this.validateModuleData(data);
+    const unlockRules = parseUnlockRules(data.unlockRules);
+    await this.validateUnlockRuleTargets(courseId, null, unlockRules);
+
+    const module = await this.serialized(() => prisma.$transaction(async (tx) => {
+      await tx.course.update({ where: { id: courseId }, data: { updatedAt: new Date() } });
+
+      const last = await tx.courseModule.findFirst({
+        where: { courseId },
+        orderBy: { order: 'desc' },
+        select: { order: true },
+      });
+
+      return tx.courseModule.create({
+        data: {
+          courseId,
+          title: data.title,
+          description: data.description ?? null,
+          content: data.content ?? null,
+          order: (last?.order ?? 0) + 1,
+          estimatedMinutes: data.estimatedMinutes ?? 30,
+          isRequired: data.isRequired ?? true,
+          isLocked: data.isLocked ?? false,
+          unlockRules: unlockRules as Prisma.InputJsonValue | null,
+        },
+        include: { steps: true },
+      });
+    }));
+
+    this.broadcast(courseId, { type: 'module_created', moduleId: module.id }, requester);
+    return module;
+  }
+
+  /**
+   * Update module fields. Order is changed through reorderModules only.
+   */
+  async updateModule(courseId: string, moduleId: string, data: Partial<ModuleData>, requester: CourseRequester) {
+    await courseService.getManageableCourse(courseId, requester);
+    await this.getCourseModule(courseId, moduleId);
+    this.validateModuleData(data);
+
+    const updateData: Prisma.CourseModuleUpdateInput = {};
+    if (data.title !== undefined) updateData.title = data.title;
+    if (data.description !== undefined) updateData.description = data.description;
+    if (data.content !== undefined) updateData.content = data.content;
+    if (data.estimatedMinutes !== undefined) updateData.estimatedMinutes = data.estimatedMinutes;
+    if (data.isRequired !== undefined) updateData.isRequired = data.isRequired;
+    if (data.isLocked !== undefined) updateData.isLocked = data.isLocked;
+    if (data.unlockRules !== undefined) {
+      const unlockRules = parseUnlockRules(data.unlockRules);
+      await this.validateUnlockRuleTargets(courseId, moduleId, unlockRules);
+      updateData.unlockRules = unlockRules as Prisma.InputJsonValue | null;
+    }
+
+    const module = await prisma.courseModule.update({
+      where: { id: moduleId },
+      data: updateData,
+      include: { steps: { orderBy: { order: 'asc' } } },
+    });
+
+    this.broadcast(courseId, { type: 'module_updated', moduleId }, requester);
+    return module;
+  }
+
+  /**
+   * Delete a module with its steps and close the gap in module order
+   */
+  async deleteModule(courseId: string, moduleId: string, requester: CourseRequester) {
+    await courseService.getManageableCourse(courseId, requester);
+    await this.getCourseModule(courseId, moduleId);
+
+    await this.serialized(() => prisma.$transaction(async (tx) => {
+      await tx.course.update({ where: { id: courseId }, data: { updatedAt: new Date() } });
+      const steps = await tx.courseStep.findMany({ where: { moduleId }, select: { id: true } });
+      await this.deleteStepRecords(tx, steps.map(step => step.id));
+      await tx.courseStep.deleteMany({ where: { moduleId } });
+      await tx.courseModule.delete({ where: { id: moduleId } });
+      await this.pruneUnlockRules(tx, courseId, new Set([moduleId, ...steps.map(step => step.id)]));
+
+      const remaining = await tx.courseModule.findMany({
+        where: { courseId },
+        orderBy: { order: 'asc' },
+        select: { id: true },
+      });
+      for (const [index, { id }] of remaining.entries()) {
+        await tx.courseModule.update({ where: { id }, data: { order: index + 1 } });
+      }
+    }));
+
+    this.broadcast(courseId, { type: 'module_deleted', moduleId }, requester);
+  }
+
+  /**
+   * Reorder all modules of a course. The list must contain every module exactly once,
+   * so a client working from a stale listing is rejected instead of creating duplicate orders.
+   */
+  async reorderModules(courseId: string, moduleIds: string[], requester: CourseRequester) {
+    await courseService.getManageableCourse(courseId, requester);
+
+    const modules = await this.serialized(() => prisma.$transaction(async (tx) => {
+      await tx.course.update({ where: { id: courseId }, data: { updatedAt: new Date() } });
+
+      const current = await tx.courseModule.findMany({ where: { courseId }, select: { id: true } });
+      this.assertSameMembers(current.map(m => m.id), moduleIds, 'module');
+
+      for (const [index, id] of moduleIds.entries()) {
+        await tx.courseModule.update({ where: { id }, data: { order: index + 1 } });
+      }
+
+      return tx.courseModule.findMany({
+        where: { courseId },
+        include: { steps: { orderBy: { order: 'asc' } } },
+        orderBy: { order: 'asc' },
+      });
+    }));
+
+    this.broadcast(courseId, { type: 'modules_reordered', order: moduleIds }, requester);
+    return modules;
+  }
+
+  /**
+   * Append a step to the end of a module
+   */
+  async createStep(courseId: string, moduleId: string, data: StepData, requester: CourseRequester) {
+    await courseService.getManageableCourse(courseId, requester);
+    await this.getCourseModule(courseId, moduleId);
+    this.validateStepData(data);
+    await this.validateStepAssignment(courseId, data.type, data.assignmentId);
+
+    const step = await this.serialized(() => prisma.$transaction(async (tx) => {
+      await tx.courseModule.update({ where: { id: moduleId }, data: { updatedAt: new Date() } });
+
+      const last = await tx.courseStep.findFirst({
+        where: { moduleId },
+        orderBy: { order: 'desc' },
+        select: { order: true },
+      });
+
+      return tx.courseStep.create({
+        data: {
+          moduleId,
+          title: data.title,
+          type: data.type,
+          content: data.content ?? null,
+          order: (last?.order ?? 0) + 1,
+          estimatedTime: data.estimatedTime ?? 15,
+          isRequired: data.isRequired ?? true,
+          cnnAnalysisEnabled: data.cnnAnalysisEnabled ?? false,
+          resources: data.resources ?? null,
+          assignmentId: data.assignmentId ?? null,
+        },
+      });
+    }));
+
+    this.broadcast(courseId, { type: 'step_created', moduleId, stepId: step.id }, requester);
+    return step;
+  }
+
+  /**
+   * Update step fields. Order is changed through reorderSteps only.
+   */
+  async updateStep(
+    courseId: string,
+    moduleId: string,
+    stepId: string,
+    data: Partial<StepData>,
+    requester: CourseRequester
+  ) {
+    await courseService.getManageableCourse(courseId, requester);
+    const current = await this.getModuleStep(courseId, moduleId, stepId);
+    this.validateStepData(data);
+    await this.validateStepAssignment(
+      courseId,
+      data.type ?? current.type,
+      data.assignmentId !== undefined ? data.assignmentId : current.assignmentId
+    );
+
+    const updateData: Prisma.CourseStepUpdateInput = {};
+    if (data.title !== undefined) updateData.title = data.title;
+    if (data.type !== undefined) updateData.type = data.type;
+    if (data.content !== undefined) updateData.content = data.content;
+    if (data.estimatedTime !== undefined) updateData.estimatedTime = data.estimatedTime;
+    if (data.isRequired !== undefined) updateData.isRequired = data.isRequired;
+    if (data.cnnAnalysisEnabled !== undefined) updateData.cnnAnalysisEnabled = data.cnnAnalysisEnabled;
+    if (data.resources !== undefined) updateData.resources = data.resources;
+    if (data.assignmentId !== undefined) {
+      updateData.assignment = data.assignmentId
+        ? { connect: { id: data.assignmentId } }
+        : { disconnect: true };
+    }
+
+    const step = await prisma.courseStep.update({
+      where: { id: stepId },
+      data: updateData,
+    });
+
+    this.broadcast(courseId, { type: 'step_updated', moduleId, stepId }, requester);
+    return step;
+  }
+
+  /**
+   * Delete a step and close the gap in step order
+   */
+  async deleteStep(courseId: string, moduleId: string, stepId: string, requester: CourseRequester) {
+    await courseService.getManageableCourse(courseId, requester);
+    await this.getModuleStep(courseId, moduleId, stepId);
+
+    await this.serialized(() => prisma.$transaction(async (tx) => {
+      await tx.courseModule.update({ where: { id: moduleId }, data: { updatedAt: new Date() } });
+      await this.deleteStepRecords(tx, [stepId]);
+      await tx.courseStep.delete({ where: { id: stepId } });
+      await this.pruneUnlockRules(tx, courseId, new Set([stepId]));
+
+      const remaining = await tx.courseStep.findMany({
+        where: { moduleId },
+        orderBy: { order: 'asc' },
+        select: { id: true },
+      });
+      for (const [index, { id }] of remaining.entries()) {
+        await tx.courseStep.update({ where: { id }, data: { order: index + 1 } });
+      }
+    }));
+
+    this.broadcast(courseId, { type: 'step_deleted', moduleId, stepId }, requester);
+  }
+
+  /**
+   * Reorder all steps of a module. The list must contain every step exactly once.
+   */
+  async reorderSteps(courseId: string, moduleId: string, stepIds: string[], requester: CourseRequester) {
+    await courseService.getManageableCourse(courseId, requester);
+    await this.getCourseModule(courseId, moduleId);
+
+    const steps = await this.serialized(() => prisma.$transaction(async (tx) => {
+      await tx.courseModule.update({ where: { id: moduleId }, data: { updatedAt: new Date() } });
+
+      const current = await tx.courseStep.findMany({ where: { moduleId }, select: { id: true } });
+      this.assertSameMembers(current.map(s => s.id), stepIds, 'step');
+
+      for (const [index, id] of stepIds.entries()) {
+        await tx.courseStep.update({ where: { id }, data: { order: index + 1 } });
+      }
+
+      return tx.courseStep.findMany({ where: { moduleId }, orderBy: { order: 'asc' } });
+    }));
+
+    this.broadcast(courseId, { type: 'steps_reordered', moduleId, order: stepIds }, requester);
+    return steps;
+  }
+
+  private async getCourseModule(courseId: string, moduleId: string) {
+    const module = await prisma.courseModule.findUnique({ where: { id: moduleId } });
+
+    if (!module || module.courseId !== courseId) {
+      throw new NotFoundError('Module not found');
+    }
+
+    return module;
+  }
+
+  private async getModuleStep(courseId: string, moduleId: string, stepId: string) {
+    await this.getCourseModule(courseId, moduleId);
+    const step = await prisma.courseStep.findUnique({ where: { id: stepId } });
+
+    if (!step || step.moduleId !== moduleId) {
+      throw new NotFoundError('Step not found');
+    }
+
+    return step;
+  }
+
+  /**
+   * Unlock rules may only point at modules and quiz steps of the same course, and
+   * prerequisites must not form a cycle (which would lock those modules forever)
+   */
+  private async validateUnlockRuleTargets(
+    courseId: string,
+    moduleId: string | null,
+    rules: ModuleUnlockRules | null
+  ): Promise<void> {
+    if (!rules) {
+      return;
+    }
+
+    const modules = await prisma.courseModule.findMany({
+      where: { courseId },
+      select: { id: true, unlockRules: true, steps: { select: { id: true, type: true } } },
+    });
+
+    const prerequisites = new Map(modules.map(module => [
+      module.id,
+      ((module.unlockRules ?? {}) as ModuleUnlockRules).prerequisiteModuleIds ?? [],
+    ]));
+    for (const id of rules.prerequisiteModuleIds ?? []) {
+      if (id === moduleId) {
+        throw new ServiceError('A module cannot be its own prerequisite');
+      }
+      if (!prerequisites.has(id)) {
+        throw new ServiceError(`Prerequisite module ${id} does not belong to this course`);
+      }
+    }
+
+    if (moduleId) {
+      prerequisites.set(moduleId, rules.prerequisiteModuleIds ?? []);
+      const visited = new Set<string>();
+      const pending = [...(rules.prerequisiteModuleIds ?? [])];
+      while (pending.length > 0) {
+        const id = pending.pop()!;
+        if (id === moduleId) {
+          throw new ServiceError('Module prerequisites cannot form a cycle');
+        }
+        if (!visited.has(id)) {
+          visited.add(id);
+          pending.push(...(prerequisites.get(id) ?? []));
+        }
+      }
+    }
+
+    const quizStepIds = new Set(
+      modules.flatMap(module => module.steps).filter(step => step.type === StepType.QUIZ).map(step => step.id)
+    );
+    for (const { stepId } of rules.minQuizScores ?? []) {
+      if (!quizStepIds.has(stepId)) {
+        throw new ServiceError(`Step ${stepId} is not a quiz step of this course`);
+      }
+    }
+  }
+
+  /**
+   * Remove completions and quizzes (with their attempts) that belong to steps being deleted
+   */
+  private async deleteStepRecords(tx: Prisma.TransactionClient, stepIds: string[]): Promise<void> {
+    const quizzes = await tx.quiz.findMany({ where: { stepId: { in: stepIds } }, select: { id: true } });
+    await tx.quizAttempt.deleteMany({ where: { quizId: { in: quizzes.map(quiz => quiz.id) } } });
+    await tx.quiz.deleteMany({ where: { stepId: { in: stepIds } } });
+    await tx.stepCompletion.deleteMany({ where: { stepId: { in: stepIds } } });
+  }
+
+  /**
+   * Drop references to deleted modules and steps from the course's unlock rules
+   */
+  private async pruneUnlockRules(
+    tx: Prisma.TransactionClient,
+    courseId: string,
+    removedIds: Set<string>
+  ): Promise<void> {
+    const modules = await tx.courseModule.findMany({
+      where: { courseId },
+      select: { id: true, unlockRules: true },
+    });
+
+    for (const module of modules) {
+      const rules = module.unlockRules as ModuleUnlockRules | null;
+      if (!rules) continue;
+
+      const pruned: ModuleUnlockRules = {
+        ...rules,
+        ...(rules.prerequisiteModuleIds && {
+          prerequisiteModuleIds: rules.prerequisiteModuleIds.filter(id => !removedIds.has(id)),
+        }),
+        ...(rules.minQuizScores && {
+          minQuizScores: rules.minQuizScores.filter(score => !removedIds.has(score.stepId)),
+        }),
+      };
+      if (JSON.stringify(pruned) !== JSON.stringify(rules)) {
+        await tx.courseModule.update({
+          where: { id: module.id },
+          data: { unlockRules: parseUnlockRules(pruned) as Prisma.InputJsonValue | null },
+        });
+      }
+    }
+  }
+
+  private assertSameMembers(currentIds: string[], requestedIds: string[], label: string): void {
+    const requested = new Set(requestedIds);
+    const matches = requested.size === requestedIds.length
+      && requested.size === currentIds.length
+      && currentIds.every(id => requested.has(id));
+
+    if (!matches) {
+      throw new ConflictError(`The ${label} list is out of date, reload and try again`);
+    }
+  }
+
+  /**
+   * Each authoring transaction first writes to the parent course or module document,
+   * so concurrent edits of the same parent conflict and one of them is rejected.
+   */
+  private async serialized<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+        throw new ConflictError('Another instructor is editing this course, please retry');
+      }
+      throw error;
+    }
+  }
+
+  private broadcast(
+    courseId: string,
+    event: Omit<CourseStructureEvent, 'courseId' | 'updatedBy' | 'timestamp'>,
+    requester: CourseRequester
+  ): void {
+    const payload: CourseStructureEvent = {
+      ...event,
+      courseId,
+      updatedBy: requester.userId,
+      timestamp: new Date(),
+    };
+    webSocketService.broadcastToCourse(courseId, 'course_structure_updated', payload);
+  }
+
+  private validateModuleData(data: Partial<ModuleData>): void {
+    if (data.title !== undefined && !data.title.trim()) {
+      throw new ServiceError('Module title cannot be empty');
+    }
+    if (data.estimatedMinutes !== undefined && (!Number.isInteger(data.estimatedMinutes) || data.estimatedMinutes < 0)) {
+      throw new ServiceError('estimatedMinutes must be a non-negative integer');
+    }
+  }
+
+  private validateStepData(data: Partial<StepData>): void {
+    if (data.title !== undefined && !data.title.trim()) {
+      throw new ServiceError('Step title cannot be empty');
+    }
+    if (data.type !== undefined && !Object.values(StepType).includes(data.type)) {
+      throw new ServiceError('Invalid step type');
+    }
+    if (data.estimatedTime !== undefined && (!Number.isInteger(data.estimatedTime) || data.estimatedTime < 0)) {
+      throw new ServiceError('estimatedTime must be a non-negative integer');
+    }
+  }
+
+  /**
+   * A linked assignment must belong to the course and is only meaningful for steps
+   * that are completed by submitting work
+   */
+  private async validateStepAssignment(
+    courseId: string,
+    type: StepType | undefined,
+    assignmentId: string | null | undefined
+  ): Promise<void> {
+    if (!assignmentId) {
+      return;
+    }
+    if (!type || !SUBMISSION_STEP_TYPES.includes(type)) {
+      throw new ServiceError('Only UPLOAD and ASSIGNMENT steps can be linked to an assignment');
+    }
+
+    const assignment = await prisma.assignment.findUnique({
+      where: { id: assignmentId },
+      select: { courseId: true },
+    });
+    if (!assignment || assignment.courseId !== courseId) {
+      throw new ServiceError('Linked assignment must belong to this course');
+    }
+  }
+}
+
+export const courseContentService = new CourseContentService();
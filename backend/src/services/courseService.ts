@@ -0,0 +1,443 @@
+/**
+ * Course Service
+ * Course catalog, course management and enrollment backed by the Prisma Course models
+ */
+
+import { CourseDifficulty, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { progressService } from './progressService';
+import { UserRole } from '../types';
+import { ConflictError, ForbiddenError, NotFoundError, ServiceError } from '../utils/errors';
+
+export interface CourseRequester {
+  userId: string;
+  role: UserRole;
+}
+
+export interface CreateCourseData {
+  title: string;
+  description: string;
+  syllabus?: string;
+  coverImage?: string;
+  isPublic?: boolean;
+  maxStudents?: number | null;
+  estimatedHours?: number | null;
+  startDate?: string | Date | null;
+  difficulty?: CourseDifficulty;
+}
+
+export type UpdateCourseData = Partial<CreateCourseData> & {
+  isActive?: boolean;
+};
+
+export interface CourseFilter {
+  difficulty?: CourseDifficulty;
+  isPublic?: boolean;
+  isActive?: boolean;
+  ownerId?: string;
+  search?: string;
+}
+
+const ownerSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  avatar: true,
+} as const;
+
+const courseListInclude = {
+  owner: { select: ownerSelect },
+  _count: {
+    select: {
+      enrollments: { where: { isActive: true } },
+      modules: true,
+    },
+  },
+} satisfies Prisma.CourseInclude;
+
+const courseDetailInclude = {
+  ...courseListInclude,
+  modules: {
+    orderBy: { order: 'asc' },
+    include: {
+      steps: { orderBy: { order: 'asc' } },
+    },
+  },
+} satisfies Prisma.CourseInclude;
+
+type CourseWithCounts = Prisma.CourseGetPayload<{ include: typeof courseListInclude }>;
+
+export class CourseService {
+  /**
+   * List courses visible to the requester with filtering and pagination
+   */
+  async listCourses(
+    filter: CourseFilter,
+    requester: CourseRequester,
+    page: number = 1,
+    limit: number = 20
+  ) {
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.CourseWhereInput = {
+      ...(filter.difficulty && { difficulty: filter.difficulty }),
+      ...(filter.isPublic !== undefined && { isPublic: filter.isPublic }),
+      ...(filter.isActive !== undefined && { isActive: filter.isActive }),
+      ...(filter.ownerId && { ownerId: filter.ownerId }),
+      ...(filter.search && {
+        OR: [
+          { title: { contains: filter.search, mode: 'insensitive' } },
+          { description: { contains: filter.search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    // Admins see everything, everyone else sees public active courses plus their own and enrolled ones
+    if (requester.role !== UserRole.ADMIN) {
+      where.AND = [{
+        OR: [
+          { isPublic: true, isActive: true },
+          { ownerId: requester.userId },
+          { enrollments: { some: { userId: requester.userId, isActive: true } } },
+        ],
+      }];
+    }
+
+    const [courses, totalCount] = await Promise.all([
+      prisma.course.findMany({
+        where,
+        include: courseListInclude,
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take: limit,
+      }),
+      prisma.course.count({ where }),
+    ]);
+
+    return {
+      courses: courses.map(course => this.withStudentCount(course)),
+      totalCount,
+      page,
+      totalPages: Math.ceil(totalCount / limit),
+    };
+  }
+
+  /**
+   * Get courses the user owns or is actively enrolled in
+   */
+  async getUserCourses(userId: string) {
+    const courses = await prisma.course.findMany({
+      where: {
+        OR: [
+          { ownerId: userId },
+          { enrollments: { some: { userId, isActive: true } } },
+        ],
+      },
+      include: {
+        ...courseListInclude,
+        enrollments: {
+          where: { userId },
+          select: { enrolledAt: true, progress: true, completedAt: true, isActive: true },
+        },
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    return courses.map(({ enrollments, ...course }) => ({
+      ...this.withStudentCount(course),
+      isOwner: course.ownerId === userId,
+      enrollment: enrollments[0] ?? null,
+    }));
+  }
+
+  /**
+   * Get a course with its modules and steps. Like the module listing, students get each
+   * module's lock state for them and only the outline of steps in locked modules.
+   */
+  async getCourseById(courseId: string, requester: CourseRequester) {
+    const course = await prisma.course.findUnique({
+      where: { id: courseId },
+      include: courseDetailInclude,
+    });
+
+    if (!course) {
+      throw new NotFoundError('Course not found');
+    }
+
+    const enrollment = await this.assertCanView(course, requester);
+    const modules = await progressService.applyModuleLocks(
+      course.id,
+      course.modules,
+      this.canManage(course, requester) ? null : requester.userId
+    );
+
+    return {
+      ...this.withStudentCount(course),
+      modules,
+      isOwner: course.ownerId === requester.userId,
+      enrollment: enrollment?.isActive ? enrollment : null,
+    };
+  }
+
+  /**
+   * Create a course owned by the requester
+   */
+  async createCourse(data: CreateCourseData, requester: CourseRequester) {
+    this.validateCourseData(data);
+
+    const course = await prisma.course.create({
+      data: {
+        title: data.title,
+        description: data.description,
+        syllabus: data.syllabus ?? null,
+        coverImage: data.coverImage ?? null,
+        isPublic: data.isPublic ?? false,
+        maxStudents: data.maxStudents ?? null,
+        estimatedHours: data.estimatedHours ?? null,
+        startDate: data.startDate ? new Date(data.startDate) : null,
+        difficulty: data.difficulty ?? CourseDifficulty.BEGINNER,
+        ownerId: requester.userId,
+      },
+      include: courseListInclude,
+    });
+
+    return this.withStudentCount(course);
+  }
+
+  /**
+   * Update course details (owner or admin only)
+   */
+  async updateCourse(courseId: string, data: UpdateCourseData, requester: CourseRequester) {
+    await this.getManageableCourse(courseId, requester);
+    this.validateCourseData(data);
+
+    if (data.maxStudents !== undefined && data.maxStudents !== null) {
+      const activeEnrollments = await prisma.courseEnrollment.count({
+        where: { courseId, isActive: true },
+      });
+      if (data.maxStudents < activeEnrollments) {
+        throw new ConflictError(`maxStudents cannot be lower than the ${activeEnrollments} students already enrolled`);
+      }
+    }
+
+    const updateData: Prisma.CourseUpdateInput = {};
+    if (data.title !== undefined) updateData.title = data.title;
+    if (data.description !== undefined) updateData.description = data.description;
+    if (data.syllabus !== undefined) updateData.syllabus = data.syllabus;
+    if (data.coverImage !== undefined) updateData.coverImage = data.coverImage;
+    if (data.isPublic !== undefined) updateData.isPublic = data.isPublic;
+    if (data.isActive !== undefined) updateData.isActive = data.isActive;
+    if (data.maxStudents !== undefined) updateData.maxStudents = data.maxStudents;
+    if (data.estimatedHours !== undefined) updateData.estimatedHours = data.estimatedHours;
+    if (data.startDate !== undefined) updateData.startDate = data.startDate ? new Date(data.startDate) : null;
+    if (data.difficulty !== undefined) updateData.difficulty = data.difficulty;
+
+    const course = await prisma.course.update({
+      where: { id: courseId },
+      data: updateData,
+      include: courseListInclude,
+    });
+
+    return this.withStudentCount(course);
+  }
+
+  /**
+   * Archive a course (owner or admin only). Courses are deactivated rather than
+   * removed so enrollments, submissions and analytics keep their references.
+   */
+  async archiveCourse(courseId: string, requester: CourseRequester) {
+    await this.getManageableCourse(courseId, requester);
+
+    return prisma.course.update({
+      where: { id: courseId },
+      data: { isActive: false, isPublic: false },
+    });
+  }
+
+  /**
+   * Enroll a student in a course, enforcing maxStudents
+   */
+  async enroll(courseId: string, userId: string) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        // Touching the course document makes concurrent enrollments conflict on it,
+        // so two students cannot both take the last seat
+        const course = await tx.course.update({
+          where: { id: courseId },
+          data: { updatedAt: new Date() },
+        });
+
+        if (!course.isActive) {
+          throw new ServiceError('Course is not accepting enrollments');
+        }
+        if (course.ownerId === userId) {
+          throw new ServiceError('Course owners cannot enroll in their own course');
+        }
+
+        const existing = await tx.courseEnrollment.findUnique({
+          where: { userId_courseId: { userId, courseId } },
+        });
+        if (existing?.isActive) {
+          throw new ConflictError('Already enrolled in this course');
+        }
+        if (!course.isPublic && !existing) {
+          throw new ForbiddenError('Unauthorized to enroll in a private course');
+        }
+
+        if (course.maxStudents !== null) {
+          const activeEnrollments = await tx.courseEnrollment.count({
+            where: { courseId, isActive: true },
+          });
+          if (activeEnrollments >= course.maxStudents) {
+            throw new ConflictError('Course is full');
+          }
+        }
+
+        if (existing) {
+          return tx.courseEnrollment.update({
+            where: { id: existing.id },
+            data: { isActive: true },
+          });
+        }
+
+        return tx.courseEnrollment.create({
+          data: { userId, courseId },
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2025') {
+          throw new NotFoundError('Course not found');
+        }
+        if (error.code === 'P2034') {
+          throw new ConflictError('Enrollment conflicted with another request, please retry');
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Unenroll a student. Students can leave on their own, owners and admins can remove anyone.
+   */
+  async unenroll(courseId: string, studentId: string, requester: CourseRequester) {
+    const course = await prisma.course.findUnique({ where: { id: courseId } });
+    if (!course) {
+      throw new NotFoundError('Course not found');
+    }
+
+    if (studentId !== requester.userId && !this.canManage(course, requester)) {
+      throw new ForbiddenError('Unauthorized to remove students from this course');
+    }
+
+    const enrollment = await prisma.courseEnrollment.findUnique({
+      where: { userId_courseId: { userId: studentId, courseId } },
+    });
+    if (!enrollment || !enrollment.isActive) {
+      throw new NotFoundError('Enrollment not found');
+    }
+
+    // Keep the record so progress is restored if the student re-enrolls
+    return prisma.courseEnrollment.update({
+      where: { id: enrollment.id },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * List the active students of a course (owner or admin only)
+   */
+  async getEnrollments(courseId: string, requester: CourseRequester) {
+    await this.getManageableCourse(courseId, requester);
+
+    return prisma.courseEnrollment.findMany({
+      where: { courseId, isActive: true },
+      include: {
+        user: { select: { id: true, firstName: true, lastName: true, email: true, avatar: true } },
+      },
+      orderBy: { enrolledAt: 'asc' },
+    });
+  }
+
+  /**
+   * Whether the requester may edit the course
+   */
+  canManage(course: { ownerId: string }, requester: CourseRequester): boolean {
+    return course.ownerId === requester.userId || requester.role === UserRole.ADMIN;
+  }
+
+  /**
+   * Load a course and ensure the requester may view it
+   */
+  async getViewableCourse(courseId: string, requester: CourseRequester) {
+    const course = await prisma.course.findUnique({ where: { id: courseId } });
+
+    if (!course) {
+      throw new NotFoundError('Course not found');
+    }
+    await this.assertCanView(course, requester);
+
+    return course;
+  }
+
+  /**
+   * Load a course and ensure the requester may manage it
+   */
+  async getManageableCourse(courseId: string, requester: CourseRequester) {
+    const course = await prisma.course.findUnique({ where: { id: courseId } });
+
+    if (!course) {
+      throw new NotFoundError('Course not found');
+    }
+    if (!this.canManage(course, requester)) {
+      throw new ForbiddenError('Unauthorized to manage this course');
+    }
+
+    return course;
+  }
+
+  /**
+   * Ensure the requester may view the course and return their enrollment, if any
+   */
+  private async assertCanView(
+    course: { id: string; ownerId: string; isPublic: boolean; isActive: boolean },
+    requester: CourseRequester
+  ) {
+    const enrollment = await prisma.courseEnrollment.findUnique({
+      where: { userId_courseId: { userId: requester.userId, courseId: course.id } },
+    });
+
+    const isEnrolled = enrollment?.isActive ?? false;
+    if (!(course.isPublic && course.isActive) && !isEnrolled && !this.canManage(course, requester)) {
+      throw new ForbiddenError('Unauthorized to view this course');
+    }
+
+    return enrollment;
+  }
+
+  private validateCourseData(data: UpdateCourseData): void {
+    if (data.difficulty !== undefined && !Object.values(CourseDifficulty).includes(data.difficulty)) {
+      throw new ServiceError('Invalid difficulty');
+    }
+    if (data.maxStudents !== undefined && data.maxStudents !== null && (!Number.isInteger(data.maxStudents) || data.maxStudents < 1)) {
+      throw new ServiceError('maxStudents must be a positive integer');
+    }
+    if (data.estimatedHours !== undefined && data.estimatedHours !== null && (!Number.isInteger(data.estimatedHours) || data.estimatedHours < 0)) {
+      throw new ServiceError('estimatedHours must be a non-negative integer');
+    }
+    if (data.startDate && Number.isNaN(new Date(data.startDate).getTime())) {
+      throw new ServiceError('startDate must be a valid date');
+    }
+  }
+
+  private withStudentCount<T extends CourseWithCounts>(course: T) {
+    const { _count, ...rest } = course;
+    return {
+      ...rest,
+      studentCount: _count.enrollments,
+      moduleCount: _count.modules,
+    };
+  }
+}
+
+export const courseService = new CourseService();
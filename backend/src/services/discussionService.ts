@@ -0,0 +1,448 @@
+/**
+ * Discussion Service
+ * Course and general discussion threads, replies, per-day view counting and instructor moderation
+ */
+
+import { Discussion, DiscussionReply, NotificationType, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { courseService, CourseRequester } from './courseService';
+import { notificationService } from './notificationService';
+import { UserRole } from '../types';
+import { ForbiddenError, NotFoundError, ServiceError } from '../utils/errors';
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_CONTENT_LENGTH = 20000;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 30;
+const FORUM_MODERATOR_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.COMMUNITY_MODERATOR, UserRole.REGULAR_MODERATOR];
+
+export interface DiscussionFilter {
+  courseId?: string;
+  tags?: string[];
+  search?: string;
+}
+
+export interface CreateDiscussionData {
+  title: string;
+  content: string;
+  courseId?: string | null;
+  tags?: string[];
+  isAnonymous?: boolean;
+}
+
+export interface UpdateDiscussionData {
+  title?: string;
+  content?: string;
+  tags?: string[];
+}
+
+export interface CreateReplyData {
+  content: string;
+  isAnonymous?: boolean;
+}
+
+export interface DiscussionViewer {
+  userId: string;
+  canModerate: boolean;
+}
+
+const authorSelect = { select: { id: true, firstName: true, lastName: true, avatar: true } } satisfies Prisma.UserDefaultArgs;
+
+const discussionInclude = {
+  author: authorSelect,
+  course: { select: { id: true, title: true, ownerId: true } },
+} satisfies Prisma.DiscussionInclude;
+
+type DiscussionWithRelations = Prisma.DiscussionGetPayload<{ include: typeof discussionInclude }>;
+
+/**
+ * UTC calendar day used to count each reader at most once per day
+ */
+export const viewDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Trim, lowercase and de-duplicate tags
+ */
+export const normalizeTags = (tags: unknown): string[] => {
+  if (tags === undefined || tags === null) {
+    return [];
+  }
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+    throw new ServiceError('tags must be an array of strings');
+  }
+
+  const normalized = [...new Set(tags.map((tag: string) => tag.trim().toLowerCase()).filter(Boolean))];
+  if (normalized.length > MAX_TAGS) {
+    throw new ServiceError(`A discussion can have at most ${MAX_TAGS} tags`);
+  }
+  if (normalized.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    throw new ServiceError(`Tags must be at most ${MAX_TAG_LENGTH} characters`);
+  }
+
+  return normalized;
+};
+
+/**
+ * Hide the author of an anonymous post from everyone except its author and moderators
+ */
+export const redactAuthor = <T extends { isAnonymous: boolean; authorId: string | null; author?: unknown }>(
+  post: T,
+  viewer: DiscussionViewer
+): T => {
+  if (!post.isAnonymous || viewer.canModerate || post.authorId === viewer.userId) {
+    return post;
+  }
+  return { ...post, authorId: null, ...('author' in post && { author: null }) };
+};
+
+export class DiscussionService {
+  /**
+   * List threads visible to the requester, pinned first, with course, tag and text filters
+   */
+  async listDiscussions(
+    filter: DiscussionFilter,
+    requester: CourseRequester,
+    page: number = 1,
+    limit: number = 20
+  ) {
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.DiscussionWhereInput = {
+      ...(filter.tags && filter.tags.length > 0 && { tags: { hasEvery: filter.tags.map(tag => tag.toLowerCase()) } }),
+      ...(filter.search && {
+        OR: [
+          { title: { contains: filter.search, mode: 'insensitive' } },
+          { content: { contains: filter.search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const isForumModerator = FORUM_MODERATOR_ROLES.includes(requester.role);
+    if (filter.courseId) {
+      if (!isForumModerator) {
+        await courseService.getViewableCourse(filter.courseId, requester);
+      }
+      where.courseId = filter.courseId;
+    } else if (!isForumModerator) {
+      // General discussions plus those of courses the requester teaches or is enrolled in
+      where.AND = [{
+        OR: [
+          { courseId: null },
+          { course: { is: { ownerId: requester.userId } } },
+          { course: { is: { enrollments: { some: { userId: requester.userId, isActive: true } } } } },
+        ],
+      }];
+    }
+
+    const [discussions, totalCount] = await Promise.all([
+      prisma.discussion.findMany({
+        where,
+        include: discussionInclude,
+        orderBy: [{ isPinned: 'desc' }, { createdAt: 'desc' }],
+        skip,
+        take: limit,
+      }),
+      prisma.discussion.count({ where }),
+    ]);
+
+    return {
+      discussions: discussions.map(discussion =>
+        redactAuthor(discussion, this.viewer(discussion, requester))
+      ),
+      totalCount,
+      page,
+      totalPages: Math.ceil(totalCount / limit),
+    };
+  }
+
+  /**
+   * Get a thread with its replies, counting the view once per reader per day
+   */
+  async getDiscussion(discussionId: string, requester: CourseRequester) {
+    const discussion = await this.getReadableDiscussion(discussionId, requester);
+    const counted = await this.recordView(discussionId, requester.userId);
+
+    const replies = await prisma.discussionReply.findMany({
+      where: { discussionId },
+      include: { author: authorSelect },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const viewer = this.viewer(discussion, requester);
+    return {
+      ...redactAuthor(discussion, viewer),
+      viewCount: discussion.viewCount + (counted ? 1 : 0),
+      canModerate: viewer.canModerate,
+      replies: replies.map(reply => redactAuthor(reply, viewer)),
+    };
+  }
+
+  /**
+   * Start a thread, in a course the requester participates in or in the general forum
+   */
+  async createDiscussion(data: CreateDiscussionData, requester: CourseRequester) {
+    const title = this.validateTitle(data.title);
+    const content = this.validateContent(data.content);
+    const tags = normalizeTags(data.tags);
+
+    if (data.courseId) {
+      await this.assertCanParticipate(data.courseId, requester);
+    }
+
+    const discussion = await prisma.discussion.create({
+      data: {
+        title,
+        content,
+        tags,
+        isAnonymous: data.isAnonymous ?? false,
+        authorId: requester.userId,
+        courseId: data.courseId ?? null,
+      },
+      include: discussionInclude,
+    });
+
+    return redactAuthor(discussion, this.viewer(discussion, requester));
+  }
+
+  /**
+   * Edit a thread. Authors can edit their own threads, moderators any thread.
+   */
+  async updateDiscussion(discussionId: string, data: UpdateDiscussionData, requester: CourseRequester) {
+    const discussion = await this.getReadableDiscussion(discussionId, requester);
+    const viewer = this.viewer(discussion, requester);
+
+    if (discussion.authorId !== requester.userId && !viewer.canModerate) {
+      throw new ForbiddenError('Only the author or a moderator can edit this discussion');
+    }
+    if (discussion.isLocked && !viewer.canModerate) {
+      throw new ForbiddenError('This discussion is locked');
+    }
+
+    const updated = await prisma.discussion.update({
+      where: { id: discussionId },
+      data: {
+        ...(data.title !== undefined && { title: this.validateTitle(data.title) }),
+        ...(data.content !== undefined && { content: this.validateContent(data.content) }),
+        ...(data.tags !== undefined && { tags: normalizeTags(data.tags) }),
+      },
+      include: discussionInclude,
+    });
+
+    return redactAuthor(updated, viewer);
+  }
+
+  /**
+   * Delete a thread with its replies and view records
+   */
+  async deleteDiscussion(discussionId: string, requester: CourseRequester) {
+    const discussion = await this.getReadableDiscussion(discussionId, requester);
+
+    if (discussion.authorId !== requester.userId && !this.viewer(discussion, requester).canModerate) {
+      throw new ForbiddenError('Only the author or a moderator can delete this discussion');
+    }
+
+    await prisma.$transaction([
+      prisma.discussionView.deleteMany({ where: { discussionId } }),
+      prisma.discussionReply.deleteMany({ where: { discussionId } }),
+      prisma.discussion.delete({ where: { id: discussionId } }),
+    ]);
+  }
+
+  /**
+   * Reply to a thread. Locked threads only accept replies from moderators.
+   */
+  async createReply(discussionId: string, data: CreateReplyData, requester: CourseRequester) {
+    const content = this.validateContent(data.content);
+    const discussion = await this.getReadableDiscussion(discussionId, requester);
+    const viewer = this.viewer(discussion, requester);
+
+    if (discussion.courseId && !viewer.canModerate) {
+      await this.assertCanParticipate(discussion.courseId, requester);
+    }
+
+    // The lock guard and the counter update share one write, so a thread locked
+    // mid-request rejects the reply and replyCount always matches the replies
+    const reply = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.discussion.updateMany({
+        where: { id: discussionId, ...(!viewer.canModerate && { isLocked: false }) },
+        data: { replyCount: { increment: 1 } },
+      });
+      if (count === 0) {
+        throw new ForbiddenError('This discussion is locked');
+      }
+
+      return tx.discussionReply.create({
+        data: {
+          content,
+          isAnonymous: data.isAnonymous ?? false,
+          discussionId,
+          authorId: requester.userId,
+        },
+        include: { author: authorSelect },
+      });
+    });
+
+    if (discussion.authorId && discussion.authorId !== requester.userId) {
+      await this.notifyReply(discussion, reply);
+    }
+
+    return redactAuthor(reply, viewer);
+  }
+
+  /**
+   * Delete a reply. Authors can delete their own replies, moderators any reply.
+   */
+  async deleteReply(discussionId: string, replyId: string, requester: CourseRequester) {
+    const discussion = await this.getReadableDiscussion(discussionId, requester);
+    const reply = await prisma.discussionReply.findFirst({ where: { id: replyId, discussionId } });
+
+    if (!reply) {
+      throw new NotFoundError('Reply not found');
+    }
+    if (reply.authorId !== requester.userId && !this.viewer(discussion, requester).canModerate) {
+      throw new ForbiddenError('Only the author or a moderator can delete this reply');
+    }
+
+    await prisma.$transaction([
+      prisma.discussionReply.delete({ where: { id: replyId } }),
+      prisma.discussion.update({ where: { id: discussionId }, data: { replyCount: { decrement: 1 } } }),
+    ]);
+  }
+
+  /**
+   * Pin or unpin a thread (moderators only)
+   */
+  async setPinned(discussionId: string, isPinned: boolean, requester: CourseRequester) {
+    return this.moderate(discussionId, { isPinned }, requester);
+  }
+
+  /**
+   * Lock or unlock a thread for replies (moderators only)
+   */
+  async setLocked(discussionId: string, isLocked: boolean, requester: CourseRequester) {
+    return this.moderate(discussionId, { isLocked }, requester);
+  }
+
+  private async moderate(
+    discussionId: string,
+    data: Pick<Prisma.DiscussionUpdateInput, 'isPinned' | 'isLocked'>,
+    requester: CourseRequester
+  ) {
+    const discussion = await this.getReadableDiscussion(discussionId, requester);
+    const viewer = this.viewer(discussion, requester);
+
+    if (!viewer.canModerate) {
+      throw new ForbiddenError('Only instructors can moderate this discussion');
+    }
+
+    const updated = await prisma.discussion.update({
+      where: { id: discussionId },
+      data,
+      include: discussionInclude,
+    });
+
+    return redactAuthor(updated, viewer);
+  }
+
+  /**
+   * Count a view unless the reader already viewed the thread today. Returns whether it was counted.
+   */
+  private async recordView(discussionId: string, userId: string): Promise<boolean> {
+    try {
+      await prisma.discussionView.create({
+        data: { discussionId, userId, day: viewDay(new Date()) },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+
+    await prisma.discussion.update({
+      where: { id: discussionId },
+      data: { viewCount: { increment: 1 } },
+    });
+    return true;
+  }
+
+  /**
+   * Load a thread and ensure the requester may read it
+   */
+  private async getReadableDiscussion(discussionId: string, requester: CourseRequester) {
+    const discussion = await prisma.discussion.findUnique({
+      where: { id: discussionId },
+      include: discussionInclude,
+    });
+
+    if (!discussion) {
+      throw new NotFoundError('Discussion not found');
+    }
+    if (discussion.courseId && !FORUM_MODERATOR_ROLES.includes(requester.role)) {
+      await courseService.getViewableCourse(discussion.courseId, requester);
+    }
+
+    return discussion;
+  }
+
+  /**
+   * Posting in a course forum requires an active enrollment or course management rights
+   */
+  private async assertCanParticipate(courseId: string, requester: CourseRequester) {
+    const course = await courseService.getViewableCourse(courseId, requester);
+    if (courseService.canManage(course, requester)) {
+      return;
+    }
+
+    const enrollment = await prisma.courseEnrollment.findUnique({
+      where: { userId_courseId: { userId: requester.userId, courseId } },
+    });
+    if (!enrollment?.isActive) {
+      throw new ForbiddenError('Enroll in this course to take part in its discussions');
+    }
+  }
+
+  /**
+   * Site moderators moderate everything, course owners and admins their course threads,
+   * and professors also moderate the general forum
+   */
+  private viewer(discussion: DiscussionWithRelations, requester: CourseRequester): DiscussionViewer {
+    const canModerate = FORUM_MODERATOR_ROLES.includes(requester.role) || (discussion.course
+      ? courseService.canManage(discussion.course, requester)
+      : requester.role === UserRole.PROFESSOR);
+
+    return { userId: requester.userId, canModerate };
+  }
+
+  private async notifyReply(discussion: Discussion, reply: DiscussionReply) {
+    await notificationService.notify({
+      userId: discussion.authorId!,
+      type: NotificationType.DISCUSSION_REPLY,
+      title: 'New reply',
+      message: `Someone replied to "${discussion.title}"`,
+      data: { discussionId: discussion.id, replyId: reply.id, courseId: discussion.courseId },
+    });
+  }
+
+  private validateTitle(title: unknown): string {
+    if (typeof title !== 'string' || !title.trim()) {
+      throw new ServiceError('title is required');
+    }
+    if (title.trim().length > MAX_TITLE_LENGTH) {
+      throw new ServiceError(`title must be at most ${MAX_TITLE_LENGTH} characters`);
+    }
+    return title.trim();
+  }
+
+  private validateContent(content: unknown): string {
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new ServiceError('content is required');
+    }
+    if (content.length > MAX_CONTENT_LENGTH) {
+      throw new ServiceError(`content must be at most ${MAX_CONTENT_LENGTH} characters`);
+    }
+    return content;
+  }
+}
+
+export const discussionService = new DiscussionService();
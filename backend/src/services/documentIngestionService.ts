@@ -0,0 +1,314 @@
+/**
+ * Document Ingestion Service
+ * Local text, structure and image extraction for PDF and DOCX uploads, and chunking of
+ * long documents so they can be analyzed in full
+ */
+
+import { promises as fs } from 'fs';
+import { PDFParse } from 'pdf-parse';
+import mammoth from 'mammoth';
+import { ServiceError } from '../utils/errors';
+
+const PDF_MIME_TYPE = 'application/pdf';
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const TEXT_MIME_TYPES = ['text/', 'application/json', 'application/xml'];
+// Icons, bullets and rules are not worth keeping
+const MIN_IMAGE_SIZE = 32;
+
+export type DocumentFormat = 'pdf' | 'docx' | 'text';
+
+/**
+ * A page (PDF) or heading-delimited section (DOCX, text) of a document
+ */
+export interface DocumentSection {
+  title: string;
+  page?: number;
+  text: string;
+}
+
+export interface ExtractedImage {
+  page?: number;
+  mimeType: string;
+  width?: number;
+  height?: number;
+  data: Buffer;
+}
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  text: string;
+  sections: DocumentSection[];
+  pageCount?: number;
+  images: ExtractedImage[];
+}
+
+/**
+ * Summary of an extracted document stored alongside its analysis
+ */
+export interface DocumentSummary {
+  format: DocumentFormat;
+  pageCount?: number;
+  sectionCount: number;
+  imageCount: number;
+  characters: number;
+}
+
+export interface DocumentChunk {
+  index: number;
+  label: string;
+  text: string;
+}
+
+/**
+ * Whether text can be extracted from files of this type
+ */
+export const getDocumentFormat = (mimeType: string): DocumentFormat | null => {
+  const type = mimeType.toLowerCase();
+  if (type === PDF_MIME_TYPE) {
+    return 'pdf';
+  }
+  if (type === DOCX_MIME_TYPE) {
+    return 'docx';
+  }
+  return TEXT_MIME_TYPES.some(prefix => type.startsWith(prefix)) ? 'text' : null;
+};
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&#x27;/g, '\'')
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+
+/**
+ * Split mammoth's HTML into sections at each heading, keeping paragraphs and list items as lines
+ */
+export const htmlToSections = (html: string): DocumentSection[] => {
+  const sections: DocumentSection[] = [];
+  let current: DocumentSection = { title: '', text: '' };
+
+  const blocks = html.match(/<(h[1-6]|p|li|td|th)\b[^>]*>[\s\S]*?<\/\1>/g) ?? [];
+  for (const block of blocks) {
+    const text = decodeEntities(block.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+    if (!text) {
+      continue;
+    }
+    if (/^<h[1-6]/.test(block)) {
+      if (current.text || current.title) {
+        sections.push(current);
+      }
+      current = { title: text, text: '' };
+    } else {
+      current.text += current.text ? `\n${text}` : text;
+    }
+  }
+
+  if (current.text || current.title) {
+    sections.push(current);
+  }
+  return sections;
+};
+
+/**
+ * Split plain text into pieces of at most maxLength, preferring paragraph, then line,
+ * then sentence, then word boundaries
+ */
+export const splitText = (text: string, maxLength: number): string[] => {
+  if (text.length <= maxLength) {
+    return text.trim() ? [text.trim()] : [];
+  }
+
+  for (const separator of ['\n\n', '\n', '. ', ' ']) {
+    const parts = text.split(separator);
+    if (parts.length < 2) {
+      continue;
+    }
+
+    const pieces: string[] = [];
+    let current = '';
+    for (const part of parts) {
+      const candidate = current ? current + separator + part : part;
+      if (candidate.length <= maxLength) {
+        current = candidate;
+        continue;
+      }
+      if (current) {
+        pieces.push(current);
+      }
+      current = part;
+    }
+    if (current) {
+      pieces.push(current);
+    }
+
+    return pieces.flatMap(piece => splitText(piece, maxLength));
+  }
+
+  const pieces: string[] = [];
+  for (let start = 0; start < text.length; start += maxLength) {
+    pieces.push(text.slice(start, start + maxLength));
+  }
+  return pieces;
+};
+
+const sectionLabel = (section: DocumentSection): string =>
+  section.page !== undefined ? `Page ${section.page}` : section.title || 'Untitled section';
+
+const rangeLabel = (labels: string[]): string => {
+  const first = labels[0] ?? '';
+  const last = labels[labels.length - 1] ?? '';
+  return first === last ? first : `${first} - ${last}`;
+};
+
+/**
+ * Pack sections into chunks of at most maxLength characters, splitting sections that are
+ * too long on their own. Each chunk is labelled with the pages or sections it covers.
+ */
+export const chunkDocument = (sections: DocumentSection[], maxLength: number): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+  let text = '';
+  let labels: string[] = [];
+
+  const flush = () => {
+    if (text) {
+      chunks.push({ index: chunks.length, label: rangeLabel(labels), text });
+    }
+    text = '';
+    labels = [];
+  };
+
+  for (const section of sections) {
+    const label = sectionLabel(section);
+    const heading = section.page !== undefined ? `[Page ${section.page}]` : section.title;
+    const body = heading ? `${heading}\n${section.text}` : section.text;
+
+    for (const piece of splitText(body, maxLength)) {
+      const candidate = text ? `${text}\n\n${piece}` : piece;
+      if (candidate.length > maxLength) {
+        flush();
+        text = piece;
+      } else {
+        text = candidate;
+      }
+      if (labels[labels.length - 1] !== label) {
+        labels.push(label);
+      }
+    }
+  }
+
+  flush();
+  return chunks;
+};
+
+/**
+ * Text sent to the models: sections in order, with page markers and image placeholders
+ */
+export const toAnalysisText = (document: ExtractedDocument): string => {
+  const imageNote = (count: number) => (count > 0 ? `\n[${count} embedded image(s)]` : '');
+
+  const sections = document.sections.map(section => {
+    const images = document.images.filter(image => section.page !== undefined && image.page === section.page);
+    const heading = section.page !== undefined ? `[Page ${section.page}]` : section.title;
+    return [heading, section.text].filter(Boolean).join('\n') + imageNote(images.length);
+  });
+
+  // DOCX images have no page to attach to
+  const unplaced = document.images.filter(image => image.page === undefined).length;
+  return sections.join('\n\n') + imageNote(unplaced);
+};
+
+export const summarizeDocument = (document: ExtractedDocument): DocumentSummary => ({
+  format: document.format,
+  ...(document.pageCount !== undefined && { pageCount: document.pageCount }),
+  sectionCount: document.sections.length,
+  imageCount: document.images.length,
+  characters: document.text.length,
+});
+
+export class DocumentIngestionService {
+  /**
+   * Extract text, structure and embedded images from a stored upload
+   */
+  async extract(filePath: string, mimeType: string): Promise<ExtractedDocument> {
+    const format = getDocumentFormat(mimeType);
+    if (!format) {
+      throw new ServiceError(`Text cannot be extracted from ${mimeType} files`);
+    }
+
+    const data = await fs.readFile(filePath);
+
+    try {
+      switch (format) {
+        case 'pdf':
+          return await this.extractPdf(data);
+        case 'docx':
+          return await this.extractDocx(data);
+        default:
+          return this.extractText(data.toString('utf-8'));
+      }
+    } catch (error) {
+      if (error instanceof ServiceError) {
+        throw error;
+      }
+      throw new ServiceError(`Could not read document: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  }
+
+  private async extractPdf(data: Buffer): Promise<ExtractedDocument> {
+    const parser = new PDFParse({ data });
+
+    try {
+      const text = await parser.getText();
+      const images = await parser.getImage({ imageBuffer: true, imageDataUrl: false, imageThreshold: MIN_IMAGE_SIZE });
+
+      const sections = text.pages.map(page => ({ title: '', page: page.num, text: page.text.trim() }));
+      return {
+        format: 'pdf',
+        text: sections.map(section => section.text).join('\n\n'),
+        sections,
+        pageCount: text.total,
+        images: images.pages.flatMap(page => page.images.map(image => ({
+          page: page.pageNumber,
+          mimeType: 'image/png',
+          width: image.width,
+          height: image.height,
+          data: Buffer.from(image.data),
+        }))),
+      };
+    } finally {
+      await parser.destroy();
+    }
+  }
+
+  private async extractDocx(data: Buffer): Promise<ExtractedDocument> {
+    const images: ExtractedImage[] = [];
+    const { value: html } = await mammoth.convertToHtml({ buffer: data }, {
+      convertImage: mammoth.images.imgElement(async image => {
+        images.push({ mimeType: image.contentType, data: await image.readAsBuffer() });
+        return { src: '' };
+      }),
+    });
+
+    const sections = htmlToSections(html);
+    return {
+      format: 'docx',
+      text: sections.map(section => [section.title, section.text].filter(Boolean).join('\n')).join('\n\n'),
+      sections,
+      images,
+    };
+  }
+
+  private extractText(text: string): ExtractedDocument {
+    return {
+      format: 'text',
+      text,
+      sections: [{ title: '', text }],
+      images: [],
+    };
+  }
+}
+
+export const documentIngestionService = new DocumentIngestionService();
@@ -0,0 +1,474 @@
+/**
+ * Gradebook Service
+ * Per-course grid of enrolled students against assignments, with CSV export and grade import
+ */
+
+import { SubmissionStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { courseService, CourseRequester } from './courseService';
+import { ServiceError } from '../utils/errors';
+// csv-writer publishes its TypeScript sources, which do not build under our compiler settings
+const createArrayCsvStringifier = require('csv-writer').createArrayCsvStringifier;
+
+const STUDENT_ID_HEADER = 'Student ID';
+const EMAIL_HEADER = 'Email';
+// Grade columns carry the assignment id, e.g. "Feature maps [64b7...] (/100)"
+const GRADE_COLUMN_PATTERN = /\[([0-9a-f]{24})\]\s*\(\/\d+(?:\.\d+)?\)$/i;
+
+export interface GradebookStudent {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface GradebookAssignment {
+  id: string;
+  title: string;
+  pointsWorth: number;
+  dueDate: Date | null;
+}
+
+export interface GradebookSubmission {
+  id: string;
+  assignmentId: string;
+  studentId: string;
+  attemptNumber: number;
+  status: SubmissionStatus;
+  grade: number | null;
+  isLate: boolean;
+  latePenaltyApplied: number | null;
+  submittedAt: Date | null;
+  gradedAt: Date | null;
+}
+
+export interface GradebookCell {
+  assignmentId: string;
+  submissionId: string | null;
+  attemptNumber: number | null;
+  status: SubmissionStatus | null;
+  grade: number | null;
+  isLate: boolean;
+  latePenaltyApplied: number | null;
+  gradedAt: Date | null;
+  // A newer attempt is waiting to be graded
+  needsGrading: boolean;
+}
+
+export interface GradebookRow {
+  student: GradebookStudent;
+  cells: GradebookCell[];
+  pointsEarned: number;
+  pointsPossible: number;
+  percentage: number | null;
+}
+
+export interface Gradebook {
+  assignments: GradebookAssignment[];
+  rows: GradebookRow[];
+}
+
+export interface GradeChange {
+  row: number;
+  studentId: string;
+  assignmentId: string;
+  submissionId: string;
+  previousGrade: number | null;
+  grade: number;
+}
+
+export interface ImportIssue {
+  row: number;
+  column?: string;
+  message: string;
+}
+
+export interface GradeImportReport {
+  applied: boolean;
+  changes: GradeChange[];
+  unchanged: number;
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Parse RFC 4180 CSV text into rows of cells. Handles quoted fields, escaped quotes,
+ * embedded newlines, CRLF line endings and a leading byte order mark.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new ServiceError('CSV has an unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+/**
+ * Header title of an assignment's grade column. Import matches columns by the embedded id,
+ * so titles can be renamed in the course without breaking older exports.
+ */
+export const gradeColumnHeader = (assignment: GradebookAssignment): string =>
+  `${assignment.title} [${assignment.id}] (/${assignment.pointsWorth})`;
+
+/**
+ * Assignment id referenced by a grade column header, if it is one
+ */
+export const parseGradeColumn = (header: string): string | null =>
+  GRADE_COLUMN_PATTERN.exec(header.trim())?.[1]?.toLowerCase() ?? null;
+
+/**
+ * Keep spreadsheet applications from evaluating exported text as a formula
+ */
+const escapeFormula = (value: string): string => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value);
+
+/**
+ * Build the grid: one row per student, one cell per assignment showing the latest graded attempt
+ */
+export const buildGradebook = (
+  students: GradebookStudent[],
+  assignments: GradebookAssignment[],
+  submissions: GradebookSubmission[]
+): Gradebook => {
+  const byCell = new Map<string, GradebookSubmission[]>();
+  for (const submission of submissions) {
+    if (submission.status === SubmissionStatus.DRAFT) {
+      continue;
+    }
+    const key = `${submission.studentId}:${submission.assignmentId}`;
+    byCell.set(key, [...(byCell.get(key) ?? []), submission]);
+  }
+
+  const rows = students.map(student => {
+    let pointsEarned = 0;
+    let pointsPossible = 0;
+
+    const cells = assignments.map((assignment): GradebookCell => {
+      const attempts = (byCell.get(`${student.id}:${assignment.id}`) ?? [])
+        .sort((a, b) => b.attemptNumber - a.attemptNumber);
+      const graded = attempts.find(attempt => attempt.gradedAt !== null && attempt.grade !== null);
+      const latest = attempts[0];
+
+      if (graded) {
+        pointsEarned += graded.grade!;
+        pointsPossible += assignment.pointsWorth;
+      }
+
+      return {
+        assignmentId: assignment.id,
+        submissionId: graded?.id ?? null,
+        attemptNumber: graded?.attemptNumber ?? null,
+        status: graded?.status ?? latest?.status ?? null,
+        grade: graded?.grade ?? null,
+        isLate: graded?.isLate ?? latest?.isLate ?? false,
+        latePenaltyApplied: graded?.latePenaltyApplied ?? null,
+        gradedAt: graded?.gradedAt ?? null,
+        needsGrading: latest !== undefined && latest.gradedAt === null,
+      };
+    });
+
+    return {
+      student,
+      cells,
+      pointsEarned: round2(pointsEarned),
+      pointsPossible,
+      percentage: pointsPossible > 0 ? round2((pointsEarned / pointsPossible) * 100) : null,
+    };
+  });
+
+  return { assignments, rows };
+};
+
+/**
+ * Render the gradebook as CSV. Each assignment gets a grade column followed by late and
+ * penalty columns; only grade columns are read back on import.
+ */
+export const gradebookToCsv = (gradebook: Gradebook): string => {
+  const header = [STUDENT_ID_HEADER, EMAIL_HEADER, 'Last Name', 'First Name'];
+  for (const assignment of gradebook.assignments) {
+    header.push(gradeColumnHeader(assignment), `${assignment.title} Late`, `${assignment.title} Late Penalty %`);
+  }
+  header.push('Total Points', 'Points Possible', 'Percentage');
+
+  const stringifier = createArrayCsvStringifier({ header: header.map(escapeFormula) });
+  const records = gradebook.rows.map(row => [
+    row.student.id,
+    escapeFormula(row.student.email),
+    escapeFormula(row.student.lastName),
+    escapeFormula(row.student.firstName),
+    ...row.cells.flatMap(cell => [
+      cell.grade ?? '',
+      cell.isLate ? 'yes' : '',
+      cell.latePenaltyApplied ?? '',
+    ]),
+    row.pointsEarned,
+    row.pointsPossible,
+    row.percentage ?? '',
+  ]);
+
+  return stringifier.getHeaderString() + stringifier.stringifyRecords(records);
+};
+
+/**
+ * Check an edited gradebook CSV against the current gradebook. Cells left as exported are
+ * ignored; changed cells grade the student's latest submitted attempt. Grades are final
+ * points, so late penalties are not applied again.
+ */
+export const validateGradeImport = (
+  rows: string[][],
+  gradebook: Gradebook,
+  submissions: GradebookSubmission[]
+): Omit<GradeImportReport, 'applied'> => {
+  const errors: ImportIssue[] = [];
+  const warnings: ImportIssue[] = [];
+  const changes: GradeChange[] = [];
+  let unchanged = 0;
+
+  const [header, ...body] = rows;
+  if (!header) {
+    return { changes, unchanged, errors: [{ row: 1, message: 'The file is empty' }], warnings };
+  }
+
+  const headers = header.map(cell => cell.trim());
+  const idIndex = headers.indexOf(STUDENT_ID_HEADER);
+  const emailIndex = headers.indexOf(EMAIL_HEADER);
+  if (idIndex === -1 && emailIndex === -1) {
+    errors.push({ row: 1, message: `A "${STUDENT_ID_HEADER}" or "${EMAIL_HEADER}" column is required` });
+  }
+
+  const assignments = new Map(gradebook.assignments.map(assignment => [assignment.id, assignment]));
+  const gradeColumns: { index: number; assignment: GradebookAssignment }[] = [];
+  headers.forEach((title, index) => {
+    const assignmentId = parseGradeColumn(title);
+    if (!assignmentId) {
+      return;
+    }
+    const assignment = assignments.get(assignmentId);
+    if (!assignment) {
+      errors.push({ row: 1, column: title, message: 'Assignment is not part of this course' });
+      return;
+    }
+    gradeColumns.push({ index, assignment });
+  });
+  if (gradeColumns.length === 0) {
+    errors.push({ row: 1, message: 'No assignment grade columns found' });
+  }
+  if (errors.length > 0) {
+    return { changes, unchanged, errors, warnings };
+  }
+
+  const rowsById = new Map(gradebook.rows.map(row => [row.student.id, row]));
+  const rowsByEmail = new Map(gradebook.rows.map(row => [row.student.email.toLowerCase(), row]));
+  const latestAttempts = new Map<string, GradebookSubmission>();
+  for (const submission of submissions) {
+    if (submission.status === SubmissionStatus.DRAFT) {
+      continue;
+    }
+    const key = `${submission.studentId}:${submission.assignmentId}`;
+    const current = latestAttempts.get(key);
+    if (!current || submission.attemptNumber > current.attemptNumber) {
+      latestAttempts.set(key, submission);
+    }
+  }
+
+  const seen = new Set<string>();
+  body.forEach((cells, offset) => {
+    const rowNumber = offset + 2;
+    if (cells.every(cell => cell.trim() === '')) {
+      return;
+    }
+
+    const studentId = idIndex === -1 ? '' : (cells[idIndex] ?? '').trim();
+    const email = emailIndex === -1 ? '' : (cells[emailIndex] ?? '').trim().replace(/^'/, '').toLowerCase();
+    const gradebookRow = (studentId && rowsById.get(studentId)) || (email && rowsByEmail.get(email)) || undefined;
+    if (!gradebookRow) {
+      errors.push({ row: rowNumber, message: `Unknown student ${studentId || email || '(no id or email)'}` });
+      return;
+    }
+    if (seen.has(gradebookRow.student.id)) {
+      errors.push({ row: rowNumber, message: `Student ${gradebookRow.student.email} appears more than once` });
+      return;
+    }
+    seen.add(gradebookRow.student.id);
+
+    for (const { index, assignment } of gradeColumns) {
+      const raw = (cells[index] ?? '').trim();
+      const column = headers[index]!;
+      const cell = gradebookRow.cells.find(c => c.assignmentId === assignment.id)!;
+
+      if (raw === '') {
+        if (cell.grade !== null) {
+          warnings.push({ row: rowNumber, column, message: 'Blank cell ignored, grades cannot be cleared by import' });
+        }
+        continue;
+      }
+
+      const grade = Number(raw);
+      if (!Number.isFinite(grade)) {
+        errors.push({ row: rowNumber, column, message: `"${raw}" is not a number` });
+        continue;
+      }
+      if (grade < 0 || grade > assignment.pointsWorth) {
+        errors.push({ row: rowNumber, column, message: `${grade} is outside 0-${assignment.pointsWorth} points` });
+        continue;
+      }
+      if (cell.grade !== null && round2(grade) === cell.grade) {
+        unchanged++;
+        continue;
+      }
+
+      const target = latestAttempts.get(`${gradebookRow.student.id}:${assignment.id}`);
+      if (!target) {
+        errors.push({ row: rowNumber, column, message: `${gradebookRow.student.email} has no submission to grade` });
+        continue;
+      }
+
+      changes.push({
+        row: rowNumber,
+        studentId: gradebookRow.student.id,
+        assignmentId: assignment.id,
+        submissionId: target.id,
+        previousGrade: target.grade,
+        grade: round2(grade),
+      });
+    }
+  });
+
+  return { changes, unchanged, errors, warnings };
+};
+
+export class GradebookService {
+  /**
+   * The course gradebook (course staff only)
+   */
+  async getGradebook(courseId: string, requester: CourseRequester): Promise<Gradebook> {
+    const { gradebook } = await this.load(courseId, requester);
+    return gradebook;
+  }
+
+  /**
+   * The course gradebook as CSV
+   */
+  async exportCsv(courseId: string, requester: CourseRequester): Promise<string> {
+    const { gradebook } = await this.load(courseId, requester);
+    return gradebookToCsv(gradebook);
+  }
+
+  /**
+   * Import edited grades from CSV. Nothing is written unless every row validates;
+   * with dryRun the report is returned without writing.
+   */
+  async importCsv(courseId: string, csv: string, requester: CourseRequester, dryRun = false): Promise<GradeImportReport> {
+    const { gradebook, submissions } = await this.load(courseId, requester);
+    const report = validateGradeImport(parseCsv(csv), gradebook, submissions);
+
+    if (dryRun || report.errors.length > 0 || report.changes.length === 0) {
+      return { ...report, applied: false };
+    }
+
+    const gradedAt = new Date();
+    const current = new Map(submissions.map(submission => [submission.id, submission]));
+    await prisma.$transaction(report.changes.map(change => prisma.submission.update({
+      where: { id: change.submissionId },
+      data: {
+        grade: change.grade,
+        gradedAt,
+        gradedBy: requester.userId,
+        // The imported grade replaces any rubric grading, whose level choices no longer add up to it
+        rubricScores: null,
+        // Released grades stay released; anything else waits to be returned
+        ...(current.get(change.submissionId)?.status !== SubmissionStatus.RETURNED && { status: SubmissionStatus.GRADED }),
+      },
+    })));
+
+    return { ...report, applied: true };
+  }
+
+  private async load(courseId: string, requester: CourseRequester) {
+    const course = await courseService.getManageableCourse(courseId, requester);
+
+    const [enrollments, assignments] = await Promise.all([
+      prisma.courseEnrollment.findMany({
+        where: { courseId, isActive: true, userId: { not: course.ownerId } },
+        include: { user: { select: { id: true, email: true, firstName: true, lastName: true } } },
+      }),
+      prisma.assignment.findMany({
+        where: { courseId },
+        select: { id: true, title: true, pointsWorth: true, dueDate: true },
+        orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }],
+      }),
+    ]);
+
+    const submissions = await prisma.submission.findMany({
+      where: {
+        assignmentId: { in: assignments.map(assignment => assignment.id) },
+        studentId: { in: enrollments.map(enrollment => enrollment.userId) },
+        status: { not: SubmissionStatus.DRAFT },
+      },
+      select: {
+        id: true,
+        assignmentId: true,
+        studentId: true,
+        attemptNumber: true,
+        status: true,
+        grade: true,
+        isLate: true,
+        latePenaltyApplied: true,
+        submittedAt: true,
+        gradedAt: true,
+      },
+    });
+
+    const students = enrollments
+      .map(enrollment => enrollment.user)
+      .sort((a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName));
+
+    return { gradebook: buildGradebook(students, assignments, submissions), submissions };
+  }
+}
+
+export const gradebookService = new GradebookService();
@@ -0,0 +1,389 @@
+/**
+ * Grading Service
+ * Rubric authoring per assignment and rubric-based grading of submissions
+ */
+
+import { NotificationType, Prisma, RubricCriteria, RubricLevel, SubmissionStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { assignmentService } from './assignmentService';
+import { CourseRequester } from './courseService';
+import { notificationService } from './notificationService';
+import { IRubricScore } from '../types';
+import { ConflictError, NotFoundError, ServiceError } from '../utils/errors';
+
+export interface RubricLevelData {
+  name: string;
+  description?: string;
+  points: number;
+}
+
+export interface RubricCriteriaData {
+  name: string;
+  description?: string;
+  maxPoints: number;
+  levels: RubricLevelData[];
+}
+
+export interface RubricData {
+  name: string;
+  description?: string;
+  criteria: RubricCriteriaData[];
+}
+
+export interface RubricSelection {
+  criteriaId: string;
+  levelId: string;
+  points?: number;
+  feedback?: string;
+}
+
+export interface GradeSubmissionData {
+  rubricScores: RubricSelection[];
+  feedback?: string;
+  returnToStudent?: boolean;
+}
+
+export type RubricWithCriteria = {
+  totalPoints: number;
+  criteria: (RubricCriteria & { levels: RubricLevel[] })[];
+};
+
+export interface RubricScoreResult {
+  rubricScores: IRubricScore[];
+  earnedPoints: number;
+  totalPoints: number;
+  percentage: number;
+}
+
+const rubricInclude = {
+  criteria: {
+    orderBy: { order: 'asc' },
+    include: { levels: { orderBy: { order: 'asc' } } },
+  },
+} satisfies Prisma.RubricInclude;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+/**
+ * Check a rubric definition and return its total points (the sum of criterion maxima)
+ */
+export const validateRubric = (rubric: RubricData): number => {
+  if (!rubric.name?.trim()) {
+    throw new ServiceError('Rubric name is required');
+  }
+  if (!Array.isArray(rubric.criteria) || rubric.criteria.length === 0) {
+    throw new ServiceError('A rubric needs at least one criterion');
+  }
+
+  for (const criterion of rubric.criteria) {
+    if (!criterion.name?.trim()) {
+      throw new ServiceError('Every criterion needs a name');
+    }
+    if (!isNonNegativeInteger(criterion.maxPoints) || criterion.maxPoints === 0) {
+      throw new ServiceError(`Criterion "${criterion.name}" needs a positive whole number of max points`);
+    }
+    if (!Array.isArray(criterion.levels) || criterion.levels.length === 0) {
+      throw new ServiceError(`Criterion "${criterion.name}" needs at least one level`);
+    }
+    for (const level of criterion.levels) {
+      if (!level.name?.trim()) {
+        throw new ServiceError(`Every level of "${criterion.name}" needs a name`);
+      }
+      if (!isNonNegativeInteger(level.points) || level.points > criterion.maxPoints) {
+        throw new ServiceError(
+          `Level "${level.name}" of "${criterion.name}" must be worth 0-${criterion.maxPoints} whole points`
+        );
+      }
+    }
+  }
+
+  return rubric.criteria.reduce((sum, criterion) => sum + criterion.maxPoints, 0);
+};
+
+/**
+ * Resolve per-criterion level selections against a rubric. Every criterion must be scored
+ * exactly once with one of its own levels; points default to the level's points and may be
+ * adjusted up to the criterion's maxPoints.
+ */
+export const scoreRubric = (rubric: RubricWithCriteria, selections: RubricSelection[]): RubricScoreResult => {
+  if (!Array.isArray(selections)) {
+    throw new ServiceError('rubricScores must be an array');
+  }
+
+  const criteriaById = new Map(rubric.criteria.map(criterion => [criterion.id, criterion]));
+  const scored = new Set<string>();
+  const rubricScores: IRubricScore[] = [];
+
+  for (const selection of selections) {
+    const criterion = criteriaById.get(selection.criteriaId);
+    if (!criterion) {
+      throw new ServiceError(`Criterion ${selection.criteriaId} does not belong to this rubric`);
+    }
+    if (scored.has(criterion.id)) {
+      throw new ServiceError(`Criterion "${criterion.name}" was scored more than once`);
+    }
+
+    const level = criterion.levels.find(l => l.id === selection.levelId);
+    if (!level) {
+      throw new ServiceError(`Level ${selection.levelId} does not belong to criterion "${criterion.name}"`);
+    }
+
+    const points = selection.points ?? level.points;
+    if (typeof points !== 'number' || !Number.isFinite(points) || points < 0 || points > criterion.maxPoints) {
+      throw new ServiceError(`Points for "${criterion.name}" must be between 0 and ${criterion.maxPoints}`);
+    }
+
+    scored.add(criterion.id);
+    rubricScores.push({
+      criteriaId: criterion.id,
+      levelId: level.id,
+      points,
+      ...(selection.feedback && { feedback: selection.feedback }),
+    });
+  }
+
+  const missing = rubric.criteria.filter(criterion => !scored.has(criterion.id));
+  if (missing.length > 0) {
+    throw new ServiceError(`Missing scores for: ${missing.map(c => c.name).join(', ')}`);
+  }
+
+  const earnedPoints = rubricScores.reduce((sum, score) => sum + score.points, 0);
+  const percentage = rubric.totalPoints > 0 ? round2((earnedPoints / rubric.totalPoints) * 100) : 0;
+
+  return { rubricScores, earnedPoints, totalPoints: rubric.totalPoints, percentage };
+};
+
+/**
+ * Scale a rubric percentage to the assignment's points and apply any late penalty
+ */
+export const calculateGrade = (percentage: number, pointsWorth: number, latePenaltyApplied: number | null): number => {
+  const penalty = Math.min(100, Math.max(0, latePenaltyApplied ?? 0));
+  return round2((percentage / 100) * pointsWorth * (1 - penalty / 100));
+};
+
+export class GradingService {
+  /**
+   * Get an assignment's rubric with criteria and levels in display order
+   */
+  async getRubric(assignmentId: string, requester: CourseRequester) {
+    await assignmentService.getAccessibleAssignment(assignmentId, requester);
+
+    const rubric = await prisma.rubric.findUnique({
+      where: { assignmentId },
+      include: rubricInclude,
+    });
+    if (!rubric) {
+      throw new NotFoundError('Rubric not found');
+    }
+
+    return rubric;
+  }
+
+  /**
+   * Create or replace an assignment's rubric. Replacing is refused once submissions have
+   * been graded against it, since their stored scores reference its criteria and levels.
+   */
+  async saveRubric(assignmentId: string, data: RubricData, requester: CourseRequester) {
+    await assignmentService.getManageableAssignment(assignmentId, requester);
+    const totalPoints = validateRubric(data);
+    await this.assertNoGradedSubmissions(assignmentId);
+
+    const rubric = await this.serialized(() => prisma.$transaction(async (tx) => {
+      await tx.assignment.update({ where: { id: assignmentId }, data: { updatedAt: new Date() } });
+
+      const existing = await tx.rubric.findUnique({ where: { assignmentId }, select: { id: true } });
+      if (existing) {
+        await this.deleteCriteria(tx, existing.id);
+      }
+
+      const rubricData = {
+        name: data.name.trim(),
+        description: data.description ?? null,
+        totalPoints,
+      };
+      const saved = existing
+        ? await tx.rubric.update({ where: { id: existing.id }, data: rubricData })
+        : await tx.rubric.create({ data: { ...rubricData, assignmentId } });
+
+      for (const [criteriaOrder, criterion] of data.criteria.entries()) {
+        await tx.rubricCriteria.create({
+          data: {
+            rubricId: saved.id,
+            name: criterion.name.trim(),
+            description: criterion.description ?? null,
+            maxPoints: criterion.maxPoints,
+            order: criteriaOrder,
+            levels: {
+              create: criterion.levels.map((level, levelOrder) => ({
+                name: level.name.trim(),
+                description: level.description ?? null,
+                points: level.points,
+                order: levelOrder,
+              })),
+            },
+          },
+        });
+      }
+
+      return tx.rubric.findUniqueOrThrow({ where: { id: saved.id }, include: rubricInclude });
+    }));
+
+    return rubric;
+  }
+
+  /**
+   * Remove an assignment's rubric
+   */
+  async deleteRubric(assignmentId: string, requester: CourseRequester): Promise<void> {
+    await assignmentService.getManageableAssignment(assignmentId, requester);
+    await this.assertNoGradedSubmissions(assignmentId);
+
+    await this.serialized(() => prisma.$transaction(async (tx) => {
+      await tx.assignment.update({ where: { id: assignmentId }, data: { updatedAt: new Date() } });
+
+      const rubric = await tx.rubric.findUnique({ where: { assignmentId }, select: { id: true } });
+      if (!rubric) {
+        throw new NotFoundError('Rubric not found');
+      }
+
+      await this.deleteCriteria(tx, rubric.id);
+      await tx.rubric.delete({ where: { id: rubric.id } });
+    }));
+  }
+
+  /**
+   * Grade a submission by choosing one level per rubric criterion
+   */
+  async gradeSubmission(
+    assignmentId: string,
+    submissionId: string,
+    data: GradeSubmissionData,
+    requester: CourseRequester
+  ) {
+    const assignment = await assignmentService.getManageableAssignment(assignmentId, requester);
+
+    const rubric = await prisma.rubric.findUnique({
+      where: { assignmentId },
+      include: rubricInclude,
+    });
+    if (!rubric) {
+      throw new ServiceError('This assignment has no rubric to grade against');
+    }
+
+    const submission = await this.findGradableSubmission(assignmentId, submissionId);
+    const { rubricScores, percentage } = scoreRubric(rubric, data.rubricScores);
+    const grade = calculateGrade(percentage, assignment.pointsWorth, submission.latePenaltyApplied);
+    // A grade the student has already been given stays released when it is revised
+    const status = data.returnToStudent || submission.status === SubmissionStatus.RETURNED
+      ? SubmissionStatus.RETURNED
+      : SubmissionStatus.GRADED;
+
+    const graded = await prisma.submission.update({
+      where: { id: submission.id },
+      data: {
+        grade,
+        feedback: data.feedback ?? null,
+        rubricScores: rubricScores as unknown as Prisma.InputJsonValue,
+        gradedAt: new Date(),
+        gradedBy: requester.userId,
+        status,
+      },
+    });
+
+    if (status === SubmissionStatus.RETURNED) {
+      await this.notifyStudent(graded.studentId, assignment.id, assignment.title, graded.id, grade, assignment.pointsWorth);
+    }
+
+    return graded;
+  }
+
+  /**
+   * Release a graded submission to the student
+   */
+  async returnSubmission(assignmentId: string, submissionId: string, requester: CourseRequester) {
+    const assignment = await assignmentService.getManageableAssignment(assignmentId, requester);
+    const submission = await this.findGradableSubmission(assignmentId, submissionId);
+
+    // Only a GRADED submission can be returned, so concurrent returns notify once
+    const { count } = await prisma.submission.updateMany({
+      where: { id: submission.id, status: SubmissionStatus.GRADED },
+      data: { status: SubmissionStatus.RETURNED },
+    });
+    if (count === 0) {
+      throw new ConflictError('Only graded submissions can be returned');
+    }
+
+    const returned = await prisma.submission.findUniqueOrThrow({ where: { id: submission.id } });
+    await this.notifyStudent(
+      returned.studentId,
+      assignment.id,
+      assignment.title,
+      returned.id,
+      returned.grade,
+      assignment.pointsWorth
+    );
+
+    return returned;
+  }
+
+  private async findGradableSubmission(assignmentId: string, submissionId: string) {
+    const submission = await prisma.submission.findUnique({ where: { id: submissionId } });
+
+    if (!submission || submission.assignmentId !== assignmentId) {
+      throw new NotFoundError('Submission not found');
+    }
+    if (submission.status === SubmissionStatus.DRAFT) {
+      throw new ConflictError('Draft submissions cannot be graded');
+    }
+
+    return submission;
+  }
+
+  private async assertNoGradedSubmissions(assignmentId: string): Promise<void> {
+    const graded = await prisma.submission.count({
+      where: { assignmentId, gradedAt: { not: null } },
+    });
+    if (graded > 0) {
+      throw new ConflictError('The rubric cannot be changed after submissions have been graded with it');
+    }
+  }
+
+  private async deleteCriteria(tx: Prisma.TransactionClient, rubricId: string): Promise<void> {
+    const criteria = await tx.rubricCriteria.findMany({ where: { rubricId }, select: { id: true } });
+    await tx.rubricLevel.deleteMany({ where: { criteriaId: { in: criteria.map(c => c.id) } } });
+    await tx.rubricCriteria.deleteMany({ where: { rubricId } });
+  }
+
+  private async notifyStudent(
+    studentId: string,
+    assignmentId: string,
+    assignmentTitle: string,
+    submissionId: string,
+    grade: number | null,
+    pointsWorth: number
+  ): Promise<void> {
+    await notificationService.notify({
+      userId: studentId,
+      type: NotificationType.ASSIGNMENT_GRADED,
+      title: 'Assignment graded',
+      message: `Your submission for "${assignmentTitle}" was graded: ${grade ?? 0}/${pointsWorth}`,
+      data: { assignmentId, submissionId, grade },
+    });
+  }
+
+  private async serialized<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+        throw new ConflictError('The rubric is being edited by someone else, please retry');
+      }
+      throw error;
+    }
+  }
+}
+
+export const gradingService = new GradingService();
@@ -0,0 +1,189 @@
+/**
+ * Image Preprocessing Service
+ * Normalizes uploaded images before AI and CNN analysis: applies their EXIF orientation,
+ * strips metadata (EXIF, GPS, XMP), converts HEIC, TIFF and GIF to JPEG or PNG, caps their
+ * size and creates thumbnails. Model requests get a copy downsized to the provider's maximum.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp, { Metadata } from 'sharp';
+import { ServiceError } from '../utils/errors';
+
+const DEFAULT_MAX_DIMENSION = 4096;
+const THUMBNAIL_SIZE = 256;
+const JPEG_QUALITY = 85;
+const THUMBNAIL_QUALITY = 70;
+// Formats every vision provider accepts as they are
+const PASSTHROUGH_FORMATS = ['jpeg', 'png', 'webp'];
+
+export type ImageOutputFormat = 'jpeg' | 'png';
+
+/**
+ * Shape of AIAnalysisJob.image and CNNAnalysis.image
+ */
+export interface ImageSummary {
+  originalFormat: string;
+  originalSize: number;
+  width: number;
+  height: number;
+  size: number;
+  // Multi-frame images (animated GIFs, multi-page TIFFs) are analyzed from their first frame
+  frames?: number;
+}
+
+export interface PreprocessedImage {
+  data: Buffer;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * An upload after ingestion: the normalized file replaces the uploaded one
+ */
+export interface IngestedImage {
+  filePath: string;
+  fileName: string;
+  mimeType: string;
+  // Thumbnail as a data URL, small enough to store with the analysis
+  thumbnail: string;
+  summary: ImageSummary;
+}
+
+type ImageSource = Partial<Pick<Express.Multer.File, 'buffer' | 'path'>>;
+
+/**
+ * Longest edge stored images are capped at (IMAGE_MAX_DIMENSION)
+ */
+export const getMaxImageDimension = (): number => {
+  const value = parseInt(process.env['IMAGE_MAX_DIMENSION'] || '', 10);
+  return value > 0 ? value : DEFAULT_MAX_DIMENSION;
+};
+
+export const isImageMimeType = (mimeType: string): boolean =>
+  mimeType.toLowerCase().startsWith('image/');
+
+/**
+ * Images with transparency stay lossless; everything else becomes JPEG
+ */
+export const outputFormat = (metadata: Pick<Metadata, 'hasAlpha'>): ImageOutputFormat =>
+  metadata.hasAlpha ? 'png' : 'jpeg';
+
+/**
+ * Whether an image can be sent as it is: a format providers accept, within the size, and
+ * without metadata or an orientation to apply
+ */
+export const canPassThrough = (
+  metadata: Pick<Metadata, 'format' | 'width' | 'height' | 'orientation' | 'exif' | 'xmp' | 'pages'>,
+  maxDimension: number
+): boolean =>
+  PASSTHROUGH_FORMATS.includes(metadata.format ?? '')
+  && Math.max(metadata.width ?? Infinity, metadata.height ?? Infinity) <= maxDimension
+  && (metadata.orientation ?? 1) === 1
+  && !metadata.exif
+  && !metadata.xmp
+  && (metadata.pages ?? 1) === 1;
+
+export class ImagePreprocessingService {
+  /**
+   * Normalize an uploaded image on disk in place (the extension follows the new format) and
+   * create its thumbnail
+   */
+  async ingest(file: Pick<Express.Multer.File, 'path' | 'size'>): Promise<IngestedImage> {
+    const metadata = await this.readMetadata(file.path);
+    const image = await this.normalize(file.path, metadata, getMaxImageDimension());
+
+    const extension = image.mimeType === 'image/png' ? '.png' : '.jpg';
+    const filePath = path.join(path.dirname(file.path), `${path.parse(file.path).name}${extension}`);
+    await fs.writeFile(filePath, image.data);
+    if (filePath !== file.path) {
+      await fs.unlink(file.path).catch(() => undefined);
+    }
+
+    return {
+      filePath,
+      fileName: path.basename(filePath),
+      mimeType: image.mimeType,
+      thumbnail: await this.thumbnail(image.data),
+      summary: {
+        originalFormat: metadata.format ?? 'unknown',
+        originalSize: file.size,
+        width: image.width,
+        height: image.height,
+        size: image.data.length,
+        ...(metadata.pages !== undefined && metadata.pages > 1 && { frames: metadata.pages }),
+      },
+    };
+  }
+
+  /**
+   * The image as a model should receive it: at most maxDimension on its longest edge, without
+   * metadata, as JPEG or PNG unless it already is a format providers accept
+   */
+  async prepareForModel(file: ImageSource, maxDimension: number): Promise<PreprocessedImage> {
+    const input = file.buffer ?? file.path;
+    if (!input) {
+      throw new ServiceError('File buffer or path not available');
+    }
+
+    const metadata = await this.readMetadata(input);
+    if (canPassThrough(metadata, maxDimension)) {
+      return {
+        data: typeof input === 'string' ? await fs.readFile(input) : input,
+        mimeType: `image/${metadata.format}`,
+        width: metadata.width!,
+        height: metadata.height!,
+      };
+    }
+    return this.normalize(input, metadata, maxDimension);
+  }
+
+  /**
+   * Small WebP preview as a data URL
+   */
+  async thumbnail(input: Buffer | string): Promise<string> {
+    const data = await sharp(input)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: THUMBNAIL_QUALITY })
+      .toBuffer();
+    return `data:image/webp;base64,${data.toString('base64')}`;
+  }
+
+  private async readMetadata(input: Buffer | string): Promise<Metadata> {
+    try {
+      return await sharp(input).metadata();
+    } catch {
+      throw new ServiceError('File is not a readable image');
+    }
+  }
+
+  /**
+   * Upright, metadata-free first frame, downsized to maxDimension
+   */
+  private async normalize(input: Buffer | string, metadata: Metadata, maxDimension: number): Promise<PreprocessedImage> {
+    const format = outputFormat(metadata);
+    // sharp writes no metadata unless asked to, so EXIF (GPS included) and XMP are dropped
+    const pipeline = sharp(input, { pages: 1 })
+      .rotate()
+      .resize(maxDimension, maxDimension, { fit: 'inside', withoutEnlargement: true });
+
+    try {
+      const { data, info } = await (format === 'png'
+        ? pipeline.png({ compressionLevel: 9 })
+        : pipeline.jpeg({ quality: JPEG_QUALITY, mozjpeg: true })
+      ).toBuffer({ resolveWithObject: true });
+      return { data, mimeType: `image/${format}`, width: info.width, height: info.height };
+    } catch (error) {
+      // Prebuilt sharp reads AVIF-encoded HEIF only; HEVC needs a libvips built with libde265
+      if (metadata.format === 'heif') {
+        throw new ServiceError('This HEIC image cannot be decoded on this server; export it as JPEG and upload it again');
+      }
+      console.error('❌ Image preprocessing failed:', error);
+      throw new ServiceError('File is not a readable image');
+    }
+  }
+}
+
+export const imagePreprocessingService = new ImagePreprocessingService();
@@ -1,4 +1,6 @@
 import OpenAI from 'openai';
+import { aiProviderTransport } from './aiModels/AIProviderTransport';
+import { chatStructured, formatInstructions, insightsContract, OutputContract } from './aiModels/structuredOutput';
 
 export interface AnalyticsData {
   userEngagement: any;
@@ -35,12 +37,26 @@ export class InsightGenerationEngine {
   private aiClient: OpenAI;
 
   constructor() {
+    // Replayed and fake providers send nothing, so they run without a key
+    const offline = ['replay', 'fake'].includes(aiProviderTransport.getMode());
     this.aiClient = new OpenAI({
-      apiKey: process.env['OPENAI_API_KEY'] || process.env['OPENROUTER_API_KEY'],
+      apiKey: process.env['OPENAI_API_KEY'] || process.env['OPENROUTER_API_KEY'] || (offline ? 'not-needed' : undefined),
       baseURL: process.env['OPENROUTER_API_KEY'] ? 'https://openrouter.ai/api/v1' : undefined
     });
   }
 
+  /**
+   * Ask the model for an answer matching an output contract
+   */
+  private async complete<T>(contract: OutputContract<T>, prompt: string, temperature: number): Promise<T> {
+    const completion = await chatStructured(this.aiClient, 'insights', contract, {
+      model: "gpt-4",
+      messages: [{ role: "user", content: prompt }],
+      temperature
+    });
+    return completion.value;
+  }
+
   /**
    * Process analytics data and AI results to generate insights
    */
@@ -94,16 +110,10 @@ export class InsightGenerationEngine {
         3. Areas of improvement
         4. Success indicators
         
-        Format as JSON array with title, description, confidence (0-1), and actionable recommendations.
+        ${formatInstructions(insightsContract)}
       `;
 
-      const response = await this.aiClient.chat.completions.create({
-        model: "gpt-4",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.3
-      });
-
-      const aiInsights = JSON.parse(response.choices[0]?.message?.content || '[]');
+      const aiInsights = await this.complete(insightsContract, prompt, 0.3);
 
       for (const insight of aiInsights) {
         insights.push({
@@ -146,16 +156,11 @@ export class InsightGenerationEngine {
         3. Engagement patterns by content
         4. Optimal content delivery strategies
         
-        Provide actionable insights in JSON format.
+        Provide actionable insights.
+        ${formatInstructions(insightsContract)}
       `;
 
-      const response = await this.aiClient.chat.completions.create({
-        model: "gpt-4",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.3
-      });
-
-      const aiInsights = JSON.parse(response.choices[0]?.message?.content || '[]');
+      const aiInsights = await this.complete(insightsContract, prompt, 0.3);
 
       for (const insight of aiInsights) {
         insights.push({
@@ -199,15 +204,10 @@ export class InsightGenerationEngine {
         4. User behavior trends
         
         Provide insights with confidence scores and recommendations.
+        ${formatInstructions(insightsContract)}
       `;
 
-      const response = await this.aiClient.chat.completions.create({
-        model: "gpt-4",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.3
-      });
-
-      const aiInsights = JSON.parse(response.choices[0]?.message?.content || '[]');
+      const aiInsights = await this.complete(insightsContract, prompt, 0.3);
 
       for (const insight of aiInsights) {
         insights.push({
@@ -260,16 +260,11 @@ export class InsightGenerationEngine {
         - Implementation priority
         - Success metrics
         
-        Return as JSON array with high confidence recommendations.
+        Only include high confidence recommendations.
+        ${formatInstructions(insightsContract)}
       `;
 
-      const response = await this.aiClient.chat.completions.create({
-        model: "gpt-4",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.2
-      });
-
-      const aiInsights = JSON.parse(response.choices[0]?.message?.content || '[]');
+      const aiInsights = await this.complete(insightsContract, prompt, 0.2);
 
       for (const insight of aiInsights) {
         insights.push({
@@ -314,13 +309,13 @@ export class InsightGenerationEngine {
         Keep it concise but actionable for educational administrators.
       `;
 
-      const response = await this.aiClient.chat.completions.create({
+      const response = await aiProviderTransport.chat(this.aiClient, 'insights', {
         model: "gpt-4",
         messages: [{ role: "user", content: prompt }],
         temperature: 0.3
       });
 
-      return response.choices[0]?.message?.content || 'Summary generation failed';
+      return response.text || 'Summary generation failed';
     } catch (error) {
       console.error('Error generating insight summary:', error);
       return 'Unable to generate insight summary';
@@ -0,0 +1,237 @@
+/**
+ * Knowledge Base Service
+ * Imports and manages the local knowledge base CNN results are explained from: Wikipedia
+ * extract dumps (platform-wide, admins) and glossaries (platform-wide, or curated by
+ * instructors for their courses)
+ */
+
+import { KnowledgeEntry, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { CourseRequester, courseService } from './courseService';
+import { knowledgeEnrichmentService, normalizeTerm } from './knowledgeEnrichmentService';
+import { UserRole } from '../types';
+import { ForbiddenError, NotFoundError, ServiceError } from '../utils/errors';
+
+const OBJECT_ID_PATTERN = /^[0-9a-f]{24}$/i;
+const KNOWLEDGE_SOURCES = ['wikipedia', 'glossary'] as const;
+const MAX_IMPORT_ENTRIES = 20000;
+const MAX_SUMMARY_LENGTH = 1200;
+const INSERT_BATCH_SIZE = 500;
+const DEFAULT_PAGE_SIZE = 50;
+
+export type KnowledgeSource = typeof KNOWLEDGE_SOURCES[number];
+
+export interface KnowledgeImportData {
+  source: unknown;
+  // Entries as parsed JSON, or the text of an uploaded JSON / JSON Lines file
+  entries?: unknown;
+  content?: string;
+  courseId?: unknown;
+  // Remove the scope's existing entries of this source first (default false)
+  replace?: unknown;
+}
+
+export interface KnowledgeImportResult {
+  imported: number;
+  removed: number;
+}
+
+export interface KnowledgeQuery {
+  courseId?: unknown;
+  source?: unknown;
+  q?: unknown;
+  page?: unknown;
+}
+
+export type KnowledgeEntryData = Pick<KnowledgeEntry, 'term' | 'aliases' | 'title' | 'summary' | 'url' | 'images' | 'relatedTopics'>;
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+/**
+ * Leading paragraphs of a text, up to the summary length (whole articles in dumps are cut
+ * down to their introduction)
+ */
+export const summarize = (text: string, maxLength = MAX_SUMMARY_LENGTH): string => {
+  const paragraphs = text.trim().split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+  let summary = '';
+  for (const paragraph of paragraphs) {
+    const next = summary ? `${summary}\n\n${paragraph}` : paragraph;
+    if (next.length > maxLength) {
+      return summary || `${paragraph.slice(0, maxLength - 1).trimEnd()}…`;
+    }
+    summary = next;
+  }
+  return summary;
+};
+
+/**
+ * Entries of an uploaded file: a JSON array, or JSON Lines as written by Wikipedia extract tools
+ */
+export const parseKnowledgeFile = (content: string): unknown[] => {
+  const text = content.trim();
+  try {
+    if (text.startsWith('[')) {
+      return JSON.parse(text) as unknown[];
+    }
+    return text.split('\n').filter(line => line.trim()).map(line => JSON.parse(line) as unknown);
+  } catch {
+    throw new ServiceError('The file must be a JSON array or JSON Lines of entries');
+  }
+};
+
+/**
+ * One entry in the stored shape. Accepts glossary terms ({ term, definition, aliases? }) and
+ * Wikipedia extracts ({ title, extract | text | summary, url? }).
+ */
+export const toEntryData = (raw: unknown, index: number): KnowledgeEntryData => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ServiceError(`Entry ${index + 1} must be an object`);
+  }
+  const entry = raw as Record<string, unknown>;
+  const title = [entry['title'], entry['term']].find((value): value is string => typeof value === 'string' && value.trim() !== '');
+  const text = [entry['summary'], entry['extract'], entry['definition'], entry['text']]
+    .find((value): value is string => typeof value === 'string' && value.trim() !== '');
+  if (!title) {
+    throw new ServiceError(`Entry ${index + 1} needs a title or term`);
+  }
+  if (!text) {
+    throw new ServiceError(`Entry ${index + 1} (${title}) needs a summary, extract, definition or text`);
+  }
+
+  const term = normalizeTerm(title);
+  return {
+    term,
+    aliases: [...new Set(strings(entry['aliases']).map(normalizeTerm))].filter(alias => alias !== term),
+    title: title.trim(),
+    summary: summarize(text),
+    url: typeof entry['url'] === 'string' && entry['url'].trim() ? entry['url'].trim() : null,
+    images: strings(entry['images']),
+    relatedTopics: strings(entry['relatedTopics']),
+  };
+};
+
+export class KnowledgeBaseService {
+  /**
+   * Import entries into the platform knowledge base or a course glossary. Entries replace
+   * existing ones with the same term in that scope and source.
+   */
+  async importEntries(data: KnowledgeImportData, requester: CourseRequester): Promise<KnowledgeImportResult> {
+    const source = this.parseSource(data.source);
+    if (data.replace !== undefined && typeof data.replace !== 'boolean') {
+      throw new ServiceError('replace must be a boolean');
+    }
+    const course = await this.resolveScope(data.courseId, requester, 'manage');
+    if (course && source !== 'glossary') {
+      throw new ServiceError('Courses can only import glossaries');
+    }
+
+    const raw = data.content !== undefined ? parseKnowledgeFile(data.content) : data.entries;
+    if (!Array.isArray(raw) || raw.length === 0) {
+      throw new ServiceError('entries must be a non-empty array');
+    }
+    if (raw.length > MAX_IMPORT_ENTRIES) {
+      throw new ServiceError(`At most ${MAX_IMPORT_ENTRIES} entries can be imported at once`);
+    }
+
+    // Later entries for the same term win
+    const entries = [...new Map(raw.map((entry, index) => toEntryData(entry, index)).map(entry => [entry.term, entry])).values()];
+
+    const scope = { source, courseId: course };
+    const batches: Prisma.PrismaPromise<Prisma.BatchPayload>[] = [];
+    for (let start = 0; start < entries.length; start += INSERT_BATCH_SIZE) {
+      batches.push(prisma.knowledgeEntry.createMany({
+        data: entries.slice(start, start + INSERT_BATCH_SIZE).map(entry => ({
+          ...entry,
+          ...scope,
+          createdById: requester.userId,
+        })),
+      }));
+    }
+    // A failed batch leaves the scope as it was
+    const [removed] = await prisma.$transaction([
+      prisma.knowledgeEntry.deleteMany({
+        where: data.replace === true ? scope : { ...scope, term: { in: entries.map(entry => entry.term) } },
+      }),
+      ...batches,
+    ]);
+
+    knowledgeEnrichmentService.clearCache();
+    return { imported: entries.length, removed: removed.count };
+  }
+
+  /**
+   * Entries of the platform knowledge base or a course glossary, optionally matching a term
+   */
+  async listEntries(query: KnowledgeQuery, requester: CourseRequester) {
+    const course = await this.resolveScope(query.courseId, requester, 'view');
+    const page = Math.max(1, Math.floor(Number(query.page)) || 1);
+    const where: Prisma.KnowledgeEntryWhereInput = {
+      courseId: course,
+      ...(query.source !== undefined && { source: this.parseSource(query.source) }),
+      ...(typeof query.q === 'string' && query.q.trim() && { term: { contains: normalizeTerm(query.q) } }),
+    };
+
+    const [entries, total] = await Promise.all([
+      prisma.knowledgeEntry.findMany({
+        where,
+        orderBy: { term: 'asc' },
+        skip: (page - 1) * DEFAULT_PAGE_SIZE,
+        take: DEFAULT_PAGE_SIZE,
+      }),
+      prisma.knowledgeEntry.count({ where }),
+    ]);
+
+    return { entries, total, page, pageSize: DEFAULT_PAGE_SIZE };
+  }
+
+  async deleteEntry(entryId: string, requester: CourseRequester): Promise<void> {
+    if (!OBJECT_ID_PATTERN.test(entryId)) {
+      throw new NotFoundError('Knowledge entry not found');
+    }
+    const entry = await prisma.knowledgeEntry.findUnique({ where: { id: entryId } });
+    if (!entry) {
+      throw new NotFoundError('Knowledge entry not found');
+    }
+    await this.resolveScope(entry.courseId, requester, 'manage');
+
+    await prisma.knowledgeEntry.delete({ where: { id: entryId } });
+    knowledgeEnrichmentService.clearCache();
+  }
+
+  private parseSource(source: unknown): KnowledgeSource {
+    if (!KNOWLEDGE_SOURCES.includes(source as KnowledgeSource)) {
+      throw new ServiceError(`source must be one of: ${KNOWLEDGE_SOURCES.join(', ')}`);
+    }
+    return source as KnowledgeSource;
+  }
+
+  /**
+   * The course a request is about, or null for the platform knowledge base, which admins
+   * change and professors can view; course glossaries belong to whoever manages the course
+   */
+  private async resolveScope(
+    courseId: unknown,
+    requester: CourseRequester,
+    access: 'view' | 'manage'
+  ): Promise<string | null> {
+    if (requester.role !== UserRole.ADMIN && requester.role !== UserRole.PROFESSOR) {
+      throw new ForbiddenError('Only admins and professors can manage the knowledge base');
+    }
+
+    if (courseId === undefined || courseId === null || courseId === '') {
+      if (access === 'manage' && requester.role !== UserRole.ADMIN) {
+        throw new ForbiddenError('Only admins can change the platform knowledge base');
+      }
+      return null;
+    }
+    if (typeof courseId !== 'string' || !OBJECT_ID_PATTERN.test(courseId)) {
+      throw new ServiceError('Invalid courseId');
+    }
+
+    await courseService.getManageableCourse(courseId, requester);
+    return courseId;
+  }
+}
+
+export const knowledgeBaseService = new KnowledgeBaseService();
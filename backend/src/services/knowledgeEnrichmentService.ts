@@ -0,0 +1,319 @@
+/**
+ * Knowledge Enrichment Service
+ * Explains what the CNN detected by looking its labels and categories up in knowledge
+ * providers: the local knowledge base (imported Wikipedia extracts and instructor glossaries)
+ * and, when enabled, live Wikipedia. Lookups are cached per course and term.
+ */
+
+import { KnowledgeEntry } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { ICNNAnalysisResult, IWikipediaInfo } from '../types';
+
+const DEFAULT_CACHE_TTL_MINUTES = 60;
+const MAX_CACHED_TERMS = 5000;
+const MAX_TERMS = 8;
+const LIVE_TIMEOUT_MS = 5000;
+const DEFAULT_WIKIPEDIA_API = 'https://en.wikipedia.org/api/rest_v1';
+
+/**
+ * What a provider knows about a term
+ */
+export interface KnowledgeHit extends IWikipediaInfo {
+  source: string;
+}
+
+/**
+ * An explanation attached to an analysis, for the detected term it explains
+ */
+export interface KnowledgeArticle extends KnowledgeHit {
+  term: string;
+  // Confidence of the detection or category it explains
+  relevanceScore: number;
+}
+
+/**
+ * Shape of CNNAnalysis.wikipediaData
+ */
+export interface KnowledgeEnrichment {
+  articles: KnowledgeArticle[];
+  providers: string[];
+  enrichedAt: string;
+}
+
+/**
+ * Somewhere detected terms can be looked up. Returns hits by (normalized) term; terms it
+ * does not know are left out.
+ */
+export interface KnowledgeProvider {
+  readonly name: string;
+  lookup(terms: string[], courseId?: string | null): Promise<Map<string, KnowledgeHit>>;
+}
+
+export interface EnrichmentTerm {
+  term: string;
+  relevance: number;
+}
+
+/**
+ * Anything that enriches CNN results
+ */
+export type KnowledgeEnricher = Pick<KnowledgeEnrichmentService, 'enrich'>;
+
+const getCacheTtlMs = (): number => {
+  const value = Number(process.env['KNOWLEDGE_CACHE_TTL_MINUTES']);
+  const minutes = process.env['KNOWLEDGE_CACHE_TTL_MINUTES'] !== undefined && Number.isFinite(value) && value >= 0
+    ? value
+    : DEFAULT_CACHE_TTL_MINUTES;
+  return minutes * 60 * 1000;
+};
+
+export const normalizeTerm = (value: string): string =>
+  value.trim().toLowerCase().replace(/[_\s]+/g, ' ');
+
+/**
+ * Terms worth explaining for an analysis: detected objects, categories and hardware, most
+ * confident first
+ */
+export const enrichmentTerms = (result: ICNNAnalysisResult, limit = MAX_TERMS): EnrichmentTerm[] => {
+  const relevance = new Map<string, number>();
+  const add = (value: string | undefined, confidence: number) => {
+    const term = value ? normalizeTerm(value) : '';
+    if (term) {
+      relevance.set(term, Math.max(relevance.get(term) ?? 0, confidence));
+    }
+  };
+
+  const { objectDetection, categorization, hardwareIdentification } = result.analysis;
+  objectDetection.forEach(detection => add(detection.label, detection.confidence));
+  categorization.forEach(category => {
+    add(category.category, category.confidence);
+    category.subcategories.forEach(sub => add(sub, category.confidence));
+  });
+  hardwareIdentification.forEach(hardware => {
+    add(hardware.model, hardware.confidence);
+    add(hardware.deviceType, hardware.confidence);
+  });
+
+  return [...relevance.entries()]
+    .map(([term, confidence]) => ({ term, relevance: confidence }))
+    .sort((a, b) => b.relevance - a.relevance)
+    .slice(0, limit);
+};
+
+const entryRank = (entry: Pick<KnowledgeEntry, 'courseId' | 'source'>): number =>
+  (entry.courseId ? 0 : 2) + (entry.source === 'glossary' ? 0 : 1);
+
+/**
+ * The entry for each term: a course glossary before the platform glossary before imported
+ * Wikipedia extracts
+ */
+export const pickEntries = (
+  entries: Pick<KnowledgeEntry, 'term' | 'aliases' | 'title' | 'summary' | 'url' | 'images' | 'relatedTopics' | 'source' | 'courseId'>[],
+  terms: string[]
+): Map<string, KnowledgeHit> => {
+  const ranked = [...entries].sort((a, b) => entryRank(a) - entryRank(b));
+  const hits = new Map<string, KnowledgeHit>();
+  for (const term of terms) {
+    const entry = ranked.find(candidate => candidate.term === term) ?? ranked.find(candidate => candidate.aliases.includes(term));
+    if (entry) {
+      hits.set(term, {
+        title: entry.title,
+        summary: entry.summary,
+        url: entry.url ?? '',
+        images: entry.images,
+        relatedTopics: entry.relatedTopics,
+        source: entry.source,
+      });
+    }
+  }
+  return hits;
+};
+
+/**
+ * Imported Wikipedia extracts and instructor glossaries
+ */
+export class LocalKnowledgeProvider implements KnowledgeProvider {
+  readonly name = 'local';
+
+  async lookup(terms: string[], courseId?: string | null): Promise<Map<string, KnowledgeHit>> {
+    const entries = await prisma.knowledgeEntry.findMany({
+      where: {
+        OR: [{ term: { in: terms } }, { aliases: { hasSome: terms } }],
+        AND: [{ OR: [{ courseId: null }, ...(courseId ? [{ courseId }] : [])] }],
+      },
+    });
+    return pickEntries(entries, terms);
+  }
+}
+
+/**
+ * Page summaries from the Wikipedia REST API (KNOWLEDGE_LIVE_WIKIPEDIA=true). Terms are
+ * looked up one by one, so it is queried after the local knowledge base.
+ */
+export class WikipediaProvider implements KnowledgeProvider {
+  readonly name = 'wikipedia-live';
+
+  constructor(
+    private readonly baseUrl: string = process.env['WIKIPEDIA_API_URL'] || DEFAULT_WIKIPEDIA_API,
+    private readonly timeoutMs: number = LIVE_TIMEOUT_MS
+  ) {}
+
+  async lookup(terms: string[]): Promise<Map<string, KnowledgeHit>> {
+    const hits = new Map<string, KnowledgeHit>();
+    for (const term of terms) {
+      const hit = await this.summary(term);
+      if (hit) {
+        hits.set(term, hit);
+      }
+    }
+    return hits;
+  }
+
+  private async summary(term: string): Promise<KnowledgeHit | null> {
+    const response = await fetch(`${this.baseUrl}/page/summary/${encodeURIComponent(term.replace(/ /g, '_'))}`, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Wikipedia returned ${response.status} for "${term}"`);
+    }
+
+    const page = await response.json() as {
+      type?: string;
+      title?: string;
+      extract?: string;
+      content_urls?: { desktop?: { page?: string } };
+      thumbnail?: { source?: string };
+    };
+    // Disambiguation pages do not explain anything on their own
+    if (!page.title || !page.extract || page.type === 'disambiguation') {
+      return null;
+    }
+    return {
+      title: page.title,
+      summary: page.extract,
+      url: page.content_urls?.desktop?.page ?? '',
+      images: page.thumbnail?.source ? [page.thumbnail.source] : [],
+      relatedTopics: [],
+      source: 'wikipedia',
+    };
+  }
+}
+
+const defaultProviders = (): KnowledgeProvider[] => [
+  new LocalKnowledgeProvider(),
+  ...(process.env['KNOWLEDGE_LIVE_WIKIPEDIA'] === 'true' ? [new WikipediaProvider()] : []),
+];
+
+export class KnowledgeEnrichmentService {
+  // Hits, and misses as null, by course and term
+  private cache = new Map<string, { hit: KnowledgeHit | null; expiresAt: number }>();
+
+  constructor(
+    private readonly providers: KnowledgeProvider[] = defaultProviders(),
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Explanations for what an analysis found, most relevant first. Providers that fail are
+   * skipped, so enrichment never fails an analysis.
+   */
+  async enrich(result: ICNNAnalysisResult, courseId?: string | null): Promise<KnowledgeEnrichment> {
+    const terms = enrichmentTerms(result);
+    const hits = await this.lookup(terms.map(({ term }) => term), courseId);
+
+    const articles: KnowledgeArticle[] = [];
+    for (const { term, relevance } of terms) {
+      const hit = hits.get(term);
+      // Several detected terms can lead to the same article; keep its most relevant one
+      if (hit && !articles.some(article => article.title === hit.title)) {
+        articles.push({ ...hit, term, relevanceScore: relevance });
+      }
+    }
+
+    return {
+      articles,
+      providers: this.providers.map(provider => provider.name),
+      enrichedAt: new Date(this.now()).toISOString(),
+    };
+  }
+
+  /**
+   * What the knowledge providers know about a single term
+   */
+  async getWikipediaInfo(query: string, courseId?: string | null): Promise<IWikipediaInfo | null> {
+    const term = normalizeTerm(query);
+    const hit = (await this.lookup([term], courseId)).get(term);
+    if (!hit) {
+      return null;
+    }
+    const { source: _source, ...info } = hit;
+    return info;
+  }
+
+  /**
+   * Forget cached lookups, e.g. after the knowledge base changed
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async lookup(terms: string[], courseId?: string | null): Promise<Map<string, KnowledgeHit>> {
+    const hits = new Map<string, KnowledgeHit>();
+    let missing: string[] = [];
+    for (const term of terms) {
+      const cached = this.cache.get(this.cacheKey(term, courseId));
+      if (cached && cached.expiresAt > this.now()) {
+        if (cached.hit) {
+          hits.set(term, cached.hit);
+        }
+      } else {
+        missing.push(term);
+      }
+    }
+
+    const looked = [...missing];
+    let failed = false;
+    for (const provider of this.providers) {
+      if (missing.length === 0) {
+        break;
+      }
+      try {
+        const found = await provider.lookup(missing, courseId);
+        found.forEach((hit, term) => hits.set(term, hit));
+        missing = missing.filter(term => !found.has(term));
+      } catch (error) {
+        console.error(`❌ Knowledge lookup failed in ${provider.name}:`, error);
+        failed = true;
+      }
+    }
+
+    // Misses are only remembered when every provider could be asked
+    const expiresAt = this.now() + getCacheTtlMs();
+    for (const term of looked) {
+      const hit = hits.get(term) ?? null;
+      if (hit || !failed) {
+        this.remember(this.cacheKey(term, courseId), { hit, expiresAt });
+      }
+    }
+    return hits;
+  }
+
+  private remember(key: string, entry: { hit: KnowledgeHit | null; expiresAt: number }): void {
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    // Maps keep insertion order, so the first key is the least recently looked up
+    if (this.cache.size > MAX_CACHED_TERMS) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+
+  private cacheKey(term: string, courseId?: string | null): string {
+    return `${courseId ?? ''}\0${term}`;
+  }
+}
+
+export const knowledgeEnrichmentService = new KnowledgeEnrichmentService();
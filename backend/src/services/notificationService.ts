@@ -0,0 +1,57 @@
+/**
+ * Notification Service
+ * Persists user notifications and pushes them to connected clients
+ */
+
+import { NotificationPriority, NotificationType, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { webSocketService } from './WebSocketService';
+
+export interface CreateNotificationData {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: Prisma.InputJsonValue;
+  priority?: NotificationPriority;
+  expiresAt?: Date;
+}
+
+export class NotificationService {
+  /**
+   * Store a notification and deliver it in real time. Delivery failures are logged,
+   * never thrown, so they cannot fail the operation that triggered the notification.
+   */
+  async notify(data: CreateNotificationData) {
+    try {
+      const notification = await prisma.notification.create({
+        data: {
+          userId: data.userId,
+          type: data.type,
+          title: data.title,
+          message: data.message,
+          data: data.data ?? null,
+          priority: data.priority ?? NotificationPriority.NORMAL,
+          expiresAt: data.expiresAt ?? null,
+        },
+      });
+
+      webSocketService.sendNotification({
+        type: 'notification_new',
+        notificationId: notification.id,
+        userId: notification.userId,
+        notificationType: notification.type,
+        title: notification.title,
+        message: notification.message,
+        priority: notification.priority,
+      });
+
+      return notification;
+    } catch (error) {
+      console.error('❌ Failed to send notification:', error);
+      return null;
+    }
+  }
+}
+
+export const notificationService = new NotificationService();
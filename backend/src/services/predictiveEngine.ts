@@ -1,4 +1,17 @@
 import OpenAI from 'openai';
+import { aiProviderTransport } from './aiModels/AIProviderTransport';
+import {
+  chatStructured,
+  formatInstructions,
+  jsonObjectContract,
+  OutputContract,
+  predictionContract,
+} from './aiModels/structuredOutput';
+import { promptTemplateService, PromptResolver } from './promptTemplateService';
+import { PromptKey, renderPrompt } from '../config/promptTemplates';
+
+const trendAnalysisContract = jsonObjectContract('trend-analysis');
+const featureImportanceContract = jsonObjectContract('feature-importance');
 
 export interface PredictionInput {
   userId?: string;
@@ -15,6 +28,7 @@ export interface PredictionResult {
   factors: string[];
   recommendations: string[];
   timeframe: number;
+  promptVersion?: string; // Prompt template version that produced it
 }
 
 /**
@@ -24,13 +38,51 @@ export interface PredictionResult {
 export class PredictiveAnalyticsEngine {
   private aiClient: OpenAI;
 
-  constructor() {
+  constructor(private readonly prompts: PromptResolver = promptTemplateService) {
+    // Replayed and fake providers send nothing, so they run without a key
+    const offline = ['replay', 'fake'].includes(aiProviderTransport.getMode());
     this.aiClient = new OpenAI({
-      apiKey: process.env['OPENAI_API_KEY'] || process.env['OPENROUTER_API_KEY'],
+      apiKey: process.env['OPENAI_API_KEY'] || process.env['OPENROUTER_API_KEY'] || (offline ? 'not-needed' : undefined),
       baseURL: process.env['OPENROUTER_API_KEY'] ? 'https://openrouter.ai/api/v1' : undefined
     });
   }
 
+  /**
+   * Ask the model for an answer matching an output contract
+   */
+  private async complete<T>(contract: OutputContract<T>, prompt: string, temperature: number): Promise<T> {
+    const completion = await chatStructured(this.aiClient, 'predictive', contract, {
+      model: "gpt-4",
+      messages: [{ role: "user", content: prompt }],
+      temperature
+    });
+    return completion.value;
+  }
+
+  /**
+   * Render the template in effect for a task (the course's override if it has one) and
+   * ask for an answer, returning it with the template version used
+   */
+  private async completeTemplate<T>(
+    contract: OutputContract<T>,
+    key: PromptKey,
+    values: Record<string, string | number>,
+    temperature: number,
+    courseId?: string
+  ): Promise<{ result: T; promptVersion: string }> {
+    const template = await this.prompts.resolve(key, courseId);
+    const prompt = `${renderPrompt(template, values)}\n\n${formatInstructions(contract)}`;
+    return { result: await this.complete(contract, prompt, temperature), promptVersion: template.version };
+  }
+
+  private predictionValues(input: PredictionInput): Record<string, string | number> {
+    return {
+      historicalData: JSON.stringify(input.historicalData),
+      currentMetrics: JSON.stringify(input.currentMetrics),
+      timeframe: input.timeframe
+    };
+  }
+
   /**
    * Generate predictions based on input data
    */
@@ -66,30 +118,9 @@ export class PredictiveAnalyticsEngine {
    */
   private async predictPerformance(input: PredictionInput): Promise<PredictionResult | null> {
     try {
-      const prompt = `
-        Analyze the following educational data to predict performance trends:
-        
-        Historical Data: ${JSON.stringify(input.historicalData)}
-        Current Metrics: ${JSON.stringify(input.currentMetrics)}
-        Prediction Timeframe: ${input.timeframe} days
-        
-        Predict:
-        1. Grade/score trends
-        2. Skill development progress
-        3. Learning velocity changes
-        4. Areas of improvement or decline
-        
-        Provide specific predictions with confidence scores and contributing factors.
-        Format as JSON with prediction details, confidence (0-1), and recommendation actions.
-      `;
-
-      const response = await this.aiClient.chat.completions.create({
-        model: "gpt-4",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.2
-      });
-
-      const result = JSON.parse(response.choices[0]?.message?.content || '{}');
+      const { result, promptVersion } = await this.completeTemplate(
+        predictionContract, 'prediction-performance', this.predictionValues(input), 0.2, input.courseId
+      );
 
       return {
         type: 'PERFORMANCE_TREND',
@@ -97,7 +128,8 @@ export class PredictiveAnalyticsEngine {
         confidence: result.confidence || 0.5,
         factors: result.factors || [],
         recommendations: result.recommendations || [],
-        timeframe: input.timeframe
+        timeframe: input.timeframe,
+        promptVersion
       };
     } catch (error) {
       console.error('Error predicting performance:', error);
@@ -110,29 +142,9 @@ export class PredictiveAnalyticsEngine {
    */
   private async predictEngagement(input: PredictionInput): Promise<PredictionResult | null> {
     try {
-      const prompt = `
-        Predict student engagement patterns based on historical and current data:
-        
-        Historical Data: ${JSON.stringify(input.historicalData)}
-        Current Metrics: ${JSON.stringify(input.currentMetrics)}
-        Timeframe: ${input.timeframe} days
-        
-        Predict:
-        1. Activity level changes
-        2. Participation trends
-        3. Attention span patterns
-        4. Drop-off risk periods
-        
-        Include specific engagement metrics, confidence levels, and actionable insights.
-      `;
-
-      const response = await this.aiClient.chat.completions.create({
-        model: "gpt-4",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.2
-      });
-
-      const result = JSON.parse(response.choices[0]?.message?.content || '{}');
+      const { result, promptVersion } = await this.completeTemplate(
+        predictionContract, 'prediction-engagement', this.predictionValues(input), 0.2, input.courseId
+      );
 
       return {
         type: 'ENGAGEMENT_PATTERN',
@@ -140,7 +152,8 @@ export class PredictiveAnalyticsEngine {
         confidence: result.confidence || 0.5,
         factors: result.factors || [],
         recommendations: result.recommendations || [],
-        timeframe: input.timeframe
+        timeframe: input.timeframe,
+        promptVersion
       };
     } catch (error) {
       console.error('Error predicting engagement:', error);
@@ -153,30 +166,9 @@ export class PredictiveAnalyticsEngine {
    */
   private async predictRisks(input: PredictionInput): Promise<PredictionResult | null> {
     try {
-      const prompt = `
-        Analyze data to predict educational risks and challenges:
-        
-        Historical Data: ${JSON.stringify(input.historicalData)}
-        Current Metrics: ${JSON.stringify(input.currentMetrics)}
-        Timeframe: ${input.timeframe} days
-        
-        Identify risks for:
-        1. Academic failure or difficulties
-        2. Engagement drop-off
-        3. Skill gaps development
-        4. Motivation decline
-        5. Course completion issues
-        
-        Provide risk assessments with probability scores and prevention strategies.
-      `;
-
-      const response = await this.aiClient.chat.completions.create({
-        model: "gpt-4",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.1
-      });
-
-      const result = JSON.parse(response.choices[0]?.message?.content || '{}');
+      const { result, promptVersion } = await this.completeTemplate(
+        predictionContract, 'prediction-risk', this.predictionValues(input), 0.1, input.courseId
+      );
 
       return {
         type: 'RISK_ASSESSMENT',
@@ -184,7 +176,8 @@ export class PredictiveAnalyticsEngine {
         confidence: result.confidence || 0.5,
         factors: result.factors || [],
         recommendations: result.recommendations || [],
-        timeframe: input.timeframe
+        timeframe: input.timeframe,
+        promptVersion
       };
     } catch (error) {
       console.error('Error predicting risks:', error);
@@ -197,29 +190,9 @@ export class PredictiveAnalyticsEngine {
    */
   private async predictSuccess(input: PredictionInput): Promise<PredictionResult | null> {
     try {
-      const prompt = `
-        Predict likelihood of educational success based on comprehensive data analysis:
-        
-        Historical Data: ${JSON.stringify(input.historicalData)}
-        Current Metrics: ${JSON.stringify(input.currentMetrics)}
-        Timeframe: ${input.timeframe} days
-        
-        Predict success in:
-        1. Course completion
-        2. Learning objective achievement
-        3. Skill mastery
-        4. Overall academic progress
-        
-        Provide percentage likelihood, key success factors, and optimization strategies.
-      `;
-
-      const response = await this.aiClient.chat.completions.create({
-        model: "gpt-4",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.2
-      });
-
-      const result = JSON.parse(response.choices[0]?.message?.content || '{}');
+      const { result, promptVersion } = await this.completeTemplate(
+        predictionContract, 'prediction-success', this.predictionValues(input), 0.2, input.courseId
+      );
 
       return {
         type: 'SUCCESS_LIKELIHOOD',
@@ -227,7 +200,8 @@ export class PredictiveAnalyticsEngine {
         confidence: result.confidence || 0.5,
         factors: result.factors || [],
         recommendations: result.recommendations || [],
-        timeframe: input.timeframe
+        timeframe: input.timeframe,
+        promptVersion
       };
     } catch (error) {
       console.error('Error predicting success:', error);
@@ -240,29 +214,10 @@ export class PredictiveAnalyticsEngine {
    */
   async analyzeTrends(historicalData: any, timeframe: number): Promise<any> {
     try {
-      const prompt = `
-        Analyze historical educational data to identify trends:
-        
-        Data: ${JSON.stringify(historicalData)}
-        Analysis Period: ${timeframe} days
-        
-        Identify:
-        1. Performance trends (improving/declining)
-        2. Seasonal patterns
-        3. Cyclical behaviors
-        4. Anomalies or outliers
-        5. Correlation patterns
-        
-        Provide trend analysis with statistical confidence and future implications.
-      `;
-
-      const response = await this.aiClient.chat.completions.create({
-        model: "gpt-4",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.2
-      });
-
-      return JSON.parse(response.choices[0]?.message?.content || '{}');
+      const { result } = await this.completeTemplate(
+        trendAnalysisContract, 'trend-analysis', { historicalData: JSON.stringify(historicalData), timeframe }, 0.2
+      );
+      return result;
     } catch (error) {
       console.error('Error analyzing trends:', error);
       return { error: 'Trend analysis failed' };
@@ -314,28 +269,10 @@ export class PredictiveAnalyticsEngine {
    */
   async analyzeFeatureImportance(data: any): Promise<any> {
     try {
-      const prompt = `
-        Analyze the importance of different features in educational outcomes:
-        
-        Data: ${JSON.stringify(data)}
-        
-        Determine feature importance for:
-        1. Student performance prediction
-        2. Engagement forecasting
-        3. Risk assessment
-        4. Success probability
-        
-        Rank features by importance and provide explanation for each ranking.
-        Include correlation strengths and predictive power.
-      `;
-
-      const response = await this.aiClient.chat.completions.create({
-        model: "gpt-4",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.1
-      });
-
-      return JSON.parse(response.choices[0]?.message?.content || '{}');
+      const { result } = await this.completeTemplate(
+        featureImportanceContract, 'feature-importance', { data: JSON.stringify(data) }, 0.1
+      );
+      return result;
     } catch (error) {
       console.error('Error analyzing feature importance:', error);
       return { error: 'Feature importance analysis failed' };
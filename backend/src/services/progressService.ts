@@ -0,0 +1,592 @@
+/**
+ * Progress Service
+ * Per-student step completion, the CourseEnrollment progress it drives and the
+ * module unlock rules evaluated from it
+ */
+
+import { Prisma, QuizAttemptStatus, StepCompletionSource } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { courseService, CourseRequester } from './courseService';
+import { ForbiddenError, NotFoundError, ServiceError } from '../utils/errors';
+
+export interface ProgressStep {
+  id: string;
+  isRequired: boolean;
+  estimatedTime: number;
+}
+
+export interface ProgressModule {
+  id: string;
+  title: string;
+  steps: ProgressStep[];
+}
+
+export interface ModuleProgress {
+  moduleId: string;
+  title: string;
+  completedSteps: number;
+  totalSteps: number;
+  isComplete: boolean;
+}
+
+export interface ProgressSummary {
+  progress: number;
+  completedSteps: number;
+  totalSteps: number;
+  modulesCompleted: number;
+  totalModules: number;
+  modules: ModuleProgress[];
+  completedStepIds: string[];
+}
+
+export type EnrollmentProgress = ProgressSummary & { completedAt: Date | null };
+
+export type ReleaseAnchor = 'ENROLLMENT' | 'COURSE_START';
+
+/**
+ * Stored in CourseModule.unlockRules. Every rule present must be met for the module to unlock.
+ */
+export interface ModuleUnlockRules {
+  prerequisiteModuleIds?: string[];
+  minQuizScores?: { stepId: string; minScore: number }[];
+  releaseAt?: string;
+  releaseAfterDays?: number;
+  releaseRelativeTo?: ReleaseAnchor;
+}
+
+export interface ModuleLockContext {
+  now: Date;
+  enrolledAt: Date | null;
+  courseStartDate: Date;
+  completedModuleIds: Set<string>;
+  quizScores: Map<string, number>;
+  moduleTitles: Map<string, string>;
+  stepTitles: Map<string, string>;
+}
+
+export interface ModuleLock {
+  isLocked: boolean;
+  lockReason: string | null;
+  unlocksAt: Date | null;
+}
+
+/**
+ * Progress weights steps by estimated minutes (at least 1, so zero-minute steps still count)
+ */
+const stepWeight = (step: ProgressStep): number => Math.max(1, step.estimatedTime);
+
+/**
+ * Fraction (0-1) of required step time completed. Optional steps never affect progress.
+ */
+export const calculateProgress = (steps: ProgressStep[], completedStepIds: Set<string>): number => {
+  const required = steps.filter(step => step.isRequired);
+  const total = required.reduce((sum, step) => sum + stepWeight(step), 0);
+  if (total === 0) {
+    return 0;
+  }
+
+  const done = required
+    .filter(step => completedStepIds.has(step.id))
+    .reduce((sum, step) => sum + stepWeight(step), 0);
+
+  return Math.round((done / total) * 10000) / 10000;
+};
+
+/**
+ * Course progress with a per-module breakdown. A module is complete once all of its required
+ * steps are (or all of its steps, when none are required).
+ */
+export const summarizeProgress = (modules: ProgressModule[], completedStepIds: Set<string>): ProgressSummary => {
+  const steps = modules.flatMap(module => module.steps);
+
+  const moduleProgress = modules.map(module => {
+    const required = module.steps.filter(step => step.isRequired);
+    const counted = required.length > 0 ? required : module.steps;
+    const completedSteps = module.steps.filter(step => completedStepIds.has(step.id)).length;
+
+    return {
+      moduleId: module.id,
+      title: module.title,
+      completedSteps,
+      totalSteps: module.steps.length,
+      isComplete: counted.length > 0 && counted.every(step => completedStepIds.has(step.id)),
+    };
+  });
+
+  return {
+    progress: calculateProgress(steps, completedStepIds),
+    completedSteps: steps.filter(step => completedStepIds.has(step.id)).length,
+    totalSteps: steps.length,
+    modulesCompleted: moduleProgress.filter(module => module.isComplete).length,
+    totalModules: modules.length,
+    modules: moduleProgress,
+    completedStepIds: steps.filter(step => completedStepIds.has(step.id)).map(step => step.id),
+  };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check the shape of unlock rules sent by an instructor and return them normalized
+ */
+export const parseUnlockRules = (value: unknown): ModuleUnlockRules | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ServiceError('unlockRules must be an object');
+  }
+
+  const input = value as Record<string, unknown>;
+  const rules: ModuleUnlockRules = {};
+
+  if (input['prerequisiteModuleIds'] !== undefined) {
+    const ids = input['prerequisiteModuleIds'];
+    if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+      throw new ServiceError('prerequisiteModuleIds must be an array of module IDs');
+    }
+    if (ids.length > 0) rules.prerequisiteModuleIds = [...new Set(ids as string[])];
+  }
+
+  if (input['minQuizScores'] !== undefined) {
+    const scores = input['minQuizScores'];
+    const valid = Array.isArray(scores) && scores.every(score =>
+      typeof score?.stepId === 'string'
+      && typeof score?.minScore === 'number'
+      && score.minScore >= 0
+      && score.minScore <= 100
+    );
+    if (!valid) {
+      throw new ServiceError('minQuizScores must be a list of { stepId, minScore } with minScore between 0 and 100');
+    }
+    if ((scores as unknown[]).length > 0) {
+      rules.minQuizScores = (scores as { stepId: string; minScore: number }[])
+        .map(({ stepId, minScore }) => ({ stepId, minScore }));
+    }
+  }
+
+  if (input['releaseAt'] !== undefined && input['releaseAt'] !== null) {
+    const releaseAt = new Date(input['releaseAt'] as string);
+    if (Number.isNaN(releaseAt.getTime())) {
+      throw new ServiceError('releaseAt must be a valid date');
+    }
+    rules.releaseAt = releaseAt.toISOString();
+  }
+
+  if (input['releaseAfterDays'] !== undefined && input['releaseAfterDays'] !== null) {
+    const days = input['releaseAfterDays'];
+    if (typeof days !== 'number' || !Number.isInteger(days) || days < 0) {
+      throw new ServiceError('releaseAfterDays must be a non-negative integer');
+    }
+    const anchor = input['releaseRelativeTo'] ?? 'ENROLLMENT';
+    if (anchor !== 'ENROLLMENT' && anchor !== 'COURSE_START') {
+      throw new ServiceError('releaseRelativeTo must be ENROLLMENT or COURSE_START');
+    }
+    rules.releaseAfterDays = days;
+    rules.releaseRelativeTo = anchor;
+  }
+
+  return Object.keys(rules).length > 0 ? rules : null;
+};
+
+/**
+ * Decide whether a module is locked for one student and explain why
+ */
+export const evaluateModuleLock = (
+  module: { isLocked: boolean; unlockRules: Prisma.JsonValue | null },
+  context: ModuleLockContext
+): ModuleLock => {
+  if (module.isLocked) {
+    return { isLocked: true, lockReason: 'Locked by the instructor', unlocksAt: null };
+  }
+
+  const rules = (module.unlockRules ?? {}) as ModuleUnlockRules;
+  const reasons: string[] = [];
+  let unlocksAt: Date | null = null;
+
+  const releaseDates: Date[] = [];
+  if (rules.releaseAt) {
+    releaseDates.push(new Date(rules.releaseAt));
+  }
+  if (rules.releaseAfterDays !== undefined) {
+    const anchor = rules.releaseRelativeTo === 'COURSE_START' ? context.courseStartDate : context.enrolledAt;
+    if (anchor) {
+      releaseDates.push(new Date(anchor.getTime() + rules.releaseAfterDays * DAY_MS));
+    } else {
+      reasons.push(`Available ${rules.releaseAfterDays} days after enrollment`);
+    }
+  }
+  const pendingRelease = releaseDates.filter(date => date > context.now).sort((a, b) => b.getTime() - a.getTime())[0];
+  if (pendingRelease) {
+    unlocksAt = pendingRelease;
+    reasons.push(`Available from ${pendingRelease.toISOString()}`);
+  }
+
+  const missingModules = (rules.prerequisiteModuleIds ?? []).filter(id => !context.completedModuleIds.has(id));
+  if (missingModules.length > 0) {
+    const titles = missingModules.map(id => `"${context.moduleTitles.get(id) ?? id}"`);
+    reasons.push(`Complete ${titles.join(', ')} first`);
+  }
+
+  for (const { stepId, minScore } of rules.minQuizScores ?? []) {
+    const score = context.quizScores.get(stepId);
+    if (score === undefined || score < minScore) {
+      reasons.push(`Score at least ${minScore}% on "${context.stepTitles.get(stepId) ?? stepId}"`);
+    }
+  }
+
+  return {
+    isLocked: reasons.length > 0,
+    lockReason: reasons.length > 0 ? reasons.join('; ') : null,
+    unlocksAt,
+  };
+};
+
+const progressModuleSelect = {
+  id: true,
+  title: true,
+  courseId: true,
+  steps: {
+    select: { id: true, isRequired: true, estimatedTime: true },
+    orderBy: { order: 'asc' },
+  },
+} as const;
+
+export class ProgressService {
+  /**
+   * Mark a step done for the requesting student
+   */
+  async completeStep(courseId: string, moduleId: string, stepId: string, requester: CourseRequester) {
+    await this.getActiveEnrollment(courseId, requester.userId);
+    const step = await this.getCourseStep(courseId, moduleId, stepId);
+    await this.assertModuleUnlocked(courseId, moduleId, requester);
+
+    if (step.assignmentId) {
+      throw new ServiceError('This step is completed by submitting its linked assignment');
+    }
+    if (step.quiz) {
+      throw new ServiceError('This step is completed by passing its quiz');
+    }
+
+    await prisma.stepCompletion.upsert({
+      where: { userId_stepId: { userId: requester.userId, stepId } },
+      create: { userId: requester.userId, courseId, stepId, source: StepCompletionSource.MANUAL },
+      update: {},
+    });
+
+    return this.getCourseProgress(courseId, requester);
+  }
+
+  /**
+   * Undo a manual step completion. Completions recorded from submissions stay.
+   */
+  async uncompleteStep(courseId: string, moduleId: string, stepId: string, requester: CourseRequester) {
+    await this.getActiveEnrollment(courseId, requester.userId);
+    await this.getCourseStep(courseId, moduleId, stepId);
+
+    const { count } = await prisma.stepCompletion.deleteMany({
+      where: { userId: requester.userId, stepId, source: StepCompletionSource.MANUAL },
+    });
+    if (count === 0) {
+      throw new NotFoundError('No manual completion recorded for this step');
+    }
+
+    return this.getCourseProgress(courseId, requester);
+  }
+
+  /**
+   * Complete every step linked to an assignment once the student submits it. Failures are
+   * logged rather than thrown so they never fail the submission itself.
+   */
+  async recordAssignmentSubmission(assignmentId: string, studentId: string): Promise<void> {
+    try {
+      const steps = await prisma.courseStep.findMany({
+        where: { assignmentId },
+        select: { id: true, module: { select: { courseId: true } } },
+      });
+
+      const courseIds = new Set<string>();
+      for (const step of steps) {
+        const courseId = step.module.courseId;
+        await prisma.stepCompletion.upsert({
+          where: { userId_stepId: { userId: studentId, stepId: step.id } },
+          create: { userId: studentId, courseId, stepId: step.id, source: StepCompletionSource.SUBMISSION },
+          update: {},
+        });
+        courseIds.add(courseId);
+      }
+
+      for (const courseId of courseIds) {
+        await this.recalculate(studentId, courseId);
+      }
+    } catch (error) {
+      console.error('❌ Failed to record step completion for submission:', error);
+    }
+  }
+
+  /**
+   * Complete a quiz step when the student passes and return the updated progress (null when
+   * the attempt did not pass). Scores stay on the attempts, where unlock rules read them.
+   */
+  async recordQuizResult(
+    userId: string,
+    courseId: string,
+    stepId: string,
+    passed: boolean
+  ): Promise<EnrollmentProgress | null> {
+    if (!passed) {
+      return null;
+    }
+
+    await prisma.stepCompletion.upsert({
+      where: { userId_stepId: { userId, stepId } },
+      create: { userId, courseId, stepId, source: StepCompletionSource.QUIZ },
+      update: {},
+    });
+
+    return this.recalculate(userId, courseId);
+  }
+
+  /**
+   * Recompute and store a student's enrollment progress. completedAt is set the first time
+   * progress reaches 100% and cleared if new required steps bring it back down.
+   */
+  async recalculate(userId: string, courseId: string): Promise<EnrollmentProgress> {
+    const [modules, completions, enrollment] = await Promise.all([
+      prisma.courseModule.findMany({
+        where: { courseId },
+        select: progressModuleSelect,
+        orderBy: { order: 'asc' },
+      }),
+      prisma.stepCompletion.findMany({ where: { userId, courseId }, select: { stepId: true } }),
+      prisma.courseEnrollment.findUnique({ where: { userId_courseId: { userId, courseId } } }),
+    ]);
+
+    const summary = summarizeProgress(modules, new Set(completions.map(c => c.stepId)));
+    const completedAt = summary.progress >= 1 ? enrollment?.completedAt ?? new Date() : null;
+
+    if (
+      enrollment
+      && (enrollment.progress !== summary.progress || enrollment.completedAt?.getTime() !== completedAt?.getTime())
+    ) {
+      await prisma.courseEnrollment.update({
+        where: { id: enrollment.id },
+        data: { progress: summary.progress, completedAt },
+      });
+    }
+
+    return { ...summary, completedAt };
+  }
+
+  /**
+   * Progress in one course. Students see their own; course staff may pass a studentId.
+   */
+  async getCourseProgress(courseId: string, requester: CourseRequester, studentId?: string) {
+    const course = await courseService.getViewableCourse(courseId, requester);
+    const userId = studentId ?? requester.userId;
+
+    if (userId !== requester.userId && !courseService.canManage(course, requester)) {
+      throw new ForbiddenError("Unauthorized to view this student's progress");
+    }
+
+    await this.getActiveEnrollment(courseId, userId);
+    const progress = await this.recalculate(userId, courseId);
+
+    return { courseId, userId, ...progress };
+  }
+
+  /**
+   * Progress cards for every active enrollment of a student, as shown on the student dashboard
+   */
+  async getDashboardProgress(requester: CourseRequester) {
+    const enrollments = await prisma.courseEnrollment.findMany({
+      where: { userId: requester.userId, isActive: true, course: { isActive: true } },
+      include: { course: { select: { id: true, title: true } } },
+      orderBy: { enrolledAt: 'desc' },
+    });
+    const courseIds = enrollments.map(enrollment => enrollment.courseId);
+
+    const [modules, completions, assignments] = await Promise.all([
+      prisma.courseModule.findMany({
+        where: { courseId: { in: courseIds } },
+        select: progressModuleSelect,
+        orderBy: { order: 'asc' },
+      }),
+      prisma.stepCompletion.findMany({
+        where: { userId: requester.userId, courseId: { in: courseIds } },
+        select: { stepId: true },
+      }),
+      prisma.assignment.findMany({
+        where: {
+          courseId: { in: courseIds },
+          dueDate: { gte: new Date() },
+          submissions: { none: { studentId: requester.userId, status: { not: 'DRAFT' } } },
+        },
+        select: { courseId: true, dueDate: true },
+        orderBy: { dueDate: 'asc' },
+      }),
+    ]);
+    const completed = new Set(completions.map(c => c.stepId));
+
+    return enrollments.map(enrollment => {
+      const summary = summarizeProgress(
+        modules.filter(module => module.courseId === enrollment.courseId),
+        completed
+      );
+      const nextDeadline = assignments.find(assignment => assignment.courseId === enrollment.courseId)?.dueDate;
+
+      return {
+        id: enrollment.courseId,
+        name: enrollment.course.title,
+        completion: summary.progress,
+        modulesCompleted: summary.modulesCompleted,
+        totalModules: summary.totalModules,
+        completedAt: enrollment.completedAt,
+        ...(nextDeadline && { nextDeadline: nextDeadline.toISOString() }),
+        color: summary.progress >= 0.7 ? 'green' : summary.progress >= 0.4 ? 'yellow' : 'red',
+      };
+    });
+  }
+
+  /**
+   * Evaluate every module's unlock rules for one student
+   */
+  async getModuleLocks(courseId: string, userId: string): Promise<Map<string, ModuleLock>> {
+    const [course, modules, completions, enrollment, quizAttempts] = await Promise.all([
+      prisma.course.findUnique({ where: { id: courseId }, select: { startDate: true, createdAt: true } }),
+      prisma.courseModule.findMany({
+        where: { courseId },
+        select: {
+          id: true,
+          title: true,
+          isLocked: true,
+          unlockRules: true,
+          steps: { select: { id: true, title: true, isRequired: true, estimatedTime: true } },
+        },
+        orderBy: { order: 'asc' },
+      }),
+      prisma.stepCompletion.findMany({ where: { userId, courseId }, select: { stepId: true } }),
+      prisma.courseEnrollment.findUnique({ where: { userId_courseId: { userId, courseId } } }),
+      prisma.quizAttempt.findMany({
+        where: { userId, status: QuizAttemptStatus.SUBMITTED, quiz: { courseId } },
+        select: { score: true, quiz: { select: { stepId: true } } },
+      }),
+    ]);
+
+    if (!course) {
+      throw new NotFoundError('Course not found');
+    }
+
+    const summary = summarizeProgress(modules, new Set(completions.map(c => c.stepId)));
+    const quizScores = new Map<string, number>();
+    for (const attempt of quizAttempts) {
+      const best = quizScores.get(attempt.quiz.stepId) ?? 0;
+      quizScores.set(attempt.quiz.stepId, Math.max(best, attempt.score ?? 0));
+    }
+
+    const context: ModuleLockContext = {
+      now: new Date(),
+      enrolledAt: enrollment?.isActive ? enrollment.enrolledAt : null,
+      // Courses without an explicit start date are considered started when created
+      courseStartDate: course.startDate ?? course.createdAt,
+      completedModuleIds: new Set(summary.modules.filter(m => m.isComplete).map(m => m.moduleId)),
+      // Best submitted attempt per quiz step, passed or not
+      quizScores,
+      moduleTitles: new Map(modules.map(m => [m.id, m.title])),
+      stepTitles: new Map(modules.flatMap(m => m.steps).map(step => [step.id, step.title])),
+    };
+
+    return new Map(modules.map(module => [module.id, evaluateModuleLock(module, context)]));
+  }
+
+  /**
+   * Add each module's lock state for a student and reduce steps of locked modules to their
+   * outline (no content or resources). Course staff (userId null) only see instructor locks.
+   */
+  async applyModuleLocks<M extends { id: string; isLocked: boolean; steps: S[] }, S>(
+    courseId: string,
+    modules: M[],
+    userId: string | null
+  ) {
+    if (userId === null) {
+      return modules.map(module => ({
+        ...module,
+        lockReason: module.isLocked ? 'Locked by the instructor' : null,
+        unlocksAt: null,
+      }));
+    }
+
+    const locks = await this.getModuleLocks(courseId, userId);
+    return modules.map(module => {
+      const lock = locks.get(module.id) ?? { isLocked: false, lockReason: null, unlocksAt: null };
+      return {
+        ...module,
+        ...lock,
+        steps: lock.isLocked
+          ? module.steps.map(step => ({ ...step, content: null, resources: null }))
+          : module.steps,
+      };
+    });
+  }
+
+  /**
+   * Reject access to a module that is still locked for a student. Course staff are never locked out.
+   */
+  async assertModuleUnlocked(courseId: string, moduleId: string, requester: CourseRequester): Promise<void> {
+    const course = await courseService.getViewableCourse(courseId, requester);
+    if (courseService.canManage(course, requester)) {
+      return;
+    }
+
+    const lock = (await this.getModuleLocks(courseId, requester.userId)).get(moduleId);
+    if (lock?.isLocked) {
+      throw new ForbiddenError(`This module is locked: ${lock.lockReason}`);
+    }
+  }
+
+  /**
+   * An assignment linked only to steps in locked modules cannot be submitted yet
+   */
+  async assertAssignmentUnlocked(assignmentId: string, courseId: string, userId: string): Promise<void> {
+    const steps = await prisma.courseStep.findMany({
+      where: { assignmentId },
+      select: { moduleId: true },
+    });
+    if (steps.length === 0) {
+      return;
+    }
+
+    const locks = await this.getModuleLocks(courseId, userId);
+    const blocking = steps.map(step => locks.get(step.moduleId)).filter(lock => lock?.isLocked);
+    if (blocking.length === steps.length) {
+      throw new ForbiddenError(`This assignment is in a locked module: ${blocking[0]!.lockReason}`);
+    }
+  }
+
+  private async getActiveEnrollment(courseId: string, userId: string) {
+    const enrollment = await prisma.courseEnrollment.findUnique({
+      where: { userId_courseId: { userId, courseId } },
+    });
+
+    if (!enrollment?.isActive) {
+      throw new ForbiddenError('Progress is only tracked for enrolled students');
+    }
+
+    return enrollment;
+  }
+
+  private async getCourseStep(courseId: string, moduleId: string, stepId: string) {
+    const step = await prisma.courseStep.findUnique({
+      where: { id: stepId },
+      include: { module: { select: { courseId: true } }, quiz: { select: { id: true } } },
+    });
+
+    if (!step || step.moduleId !== moduleId || step.module.courseId !== courseId) {
+      throw new NotFoundError('Step not found');
+    }
+
+    return step;
+  }
+}
+
+export const progressService = new ProgressService();
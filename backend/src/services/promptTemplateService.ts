@@ -0,0 +1,291 @@
+/**
+ * Prompt Template Service
+ * Versioned AI prompt templates: administrators publish platform versions, professors
+ * override them for their courses, and AI calls resolve the version in effect so stored
+ * results can record which prompt produced them
+ */
+
+import { Prisma, PromptTemplate } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import {
+  builtinPrompt,
+  isPromptKey,
+  PROMPT_DEFINITIONS,
+  PROMPT_KEYS,
+  PromptKey,
+  PromptSet,
+  ResolvedPrompt,
+  templateVariables,
+} from '../config/promptTemplates';
+import { CourseRequester, courseService } from './courseService';
+import { UserRole } from '../types';
+import { ConflictError, ForbiddenError, NotFoundError, ServiceError } from '../utils/errors';
+
+const OBJECT_ID_PATTERN = /^[0-9a-f]{24}$/i;
+const MAX_TEMPLATE_LENGTH = 20000;
+
+export interface PromptTemplateData {
+  template: unknown;
+  notes?: unknown;
+  courseId?: unknown;
+  // Make the new version the one in use (default true)
+  activate?: unknown;
+}
+
+export interface PromptTemplateSummary {
+  key: PromptKey;
+  description: string;
+  variables: string[];
+  required: string[];
+  active: ResolvedPrompt;
+  // Whether a course override is in use rather than the platform template
+  overridden: boolean;
+}
+
+/**
+ * Anything that resolves the prompt templates in effect
+ */
+export type PromptResolver = Pick<PromptTemplateService, 'resolve' | 'resolveAll'>;
+
+type TemplateVersion = Pick<PromptTemplate, 'key' | 'courseId' | 'version' | 'template'>;
+
+export const versionLabel = (template: Pick<PromptTemplate, 'key' | 'courseId' | 'version'>): string =>
+  template.courseId
+    ? `${template.key}@course-${template.courseId}-v${template.version}`
+    : `${template.key}@v${template.version}`;
+
+export const toResolvedPrompt = (template: TemplateVersion): ResolvedPrompt => ({
+  key: template.key as PromptKey,
+  version: versionLabel(template),
+  template: template.template,
+});
+
+/**
+ * Check a template for a task and return the variables it uses
+ */
+export const validateTemplate = (key: PromptKey, template: unknown): string[] => {
+  if (typeof template !== 'string' || !template.trim()) {
+    throw new ServiceError('template is required');
+  }
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    throw new ServiceError(`template must be at most ${MAX_TEMPLATE_LENGTH} characters`);
+  }
+
+  const { variables, required } = PROMPT_DEFINITIONS[key];
+  const used = templateVariables(template);
+  const unknown = used.filter(variable => !variables.includes(variable));
+  if (unknown.length > 0) {
+    throw new ServiceError(`Unknown variables for ${key}: ${unknown.join(', ')}. Available: ${variables.join(', ')}`);
+  }
+  const missing = required.filter(variable => !used.includes(variable));
+  if (missing.length > 0) {
+    throw new ServiceError(`Template for ${key} must use ${missing.map(variable => `{{${variable}}}`).join(', ')}`);
+  }
+  return used;
+};
+
+/**
+ * The active template for each task: a course override before the platform template
+ */
+export const pickActive = (templates: TemplateVersion[], keys: PromptKey[], courseId?: string | null): PromptSet => {
+  const prompts: PromptSet = {};
+  for (const key of keys) {
+    const forKey = templates.filter(template => template.key === key);
+    const active = (courseId && forKey.find(template => template.courseId === courseId)) ||
+      forKey.find(template => !template.courseId);
+    prompts[key] = active ? toResolvedPrompt(active) : builtinPrompt(key);
+  }
+  return prompts;
+};
+
+export class PromptTemplateService {
+  /**
+   * The template in effect for a task and course. Falls back to the built-in template,
+   * also when the templates cannot be read, so prompts never block an AI call.
+   */
+  async resolve(key: PromptKey, courseId?: string | null): Promise<ResolvedPrompt> {
+    return (await this.resolveAll([key], courseId))[key] ?? builtinPrompt(key);
+  }
+
+  async resolveAll(keys: PromptKey[], courseId?: string | null): Promise<PromptSet> {
+    try {
+      const templates = await prisma.promptTemplate.findMany({
+        where: {
+          key: { in: keys },
+          isActive: true,
+          OR: [{ courseId: null }, ...(courseId ? [{ courseId }] : [])],
+        },
+      });
+      return pickActive(templates, keys, courseId);
+    } catch (error) {
+      console.error('❌ Failed to load prompt templates, using built-in ones:', error);
+      return pickActive([], keys);
+    }
+  }
+
+  /**
+   * Every task with the template in effect, platform-wide or for a course
+   */
+  async listTemplates(requester: CourseRequester, courseId?: unknown): Promise<PromptTemplateSummary[]> {
+    const course = await this.resolveScope(courseId, requester, 'view');
+    const prompts = await this.resolveAll(PROMPT_KEYS, course);
+
+    return PROMPT_KEYS.map(key => {
+      const active = prompts[key] ?? builtinPrompt(key);
+      const { description, variables, required } = PROMPT_DEFINITIONS[key];
+      return {
+        key,
+        description,
+        variables,
+        required,
+        active,
+        overridden: active.version.startsWith(`${key}@course-`),
+      };
+    });
+  }
+
+  /**
+   * Versions of a task's platform template, or of a course's override, newest first
+   */
+  async listVersions(key: unknown, requester: CourseRequester, courseId?: unknown): Promise<PromptTemplate[]> {
+    const promptKey = this.parseKey(key);
+    const course = await this.resolveScope(courseId, requester, 'view');
+
+    return prisma.promptTemplate.findMany({
+      where: { key: promptKey, courseId: course },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  /**
+   * Add a version of a task's platform template (admins) or course override (course managers)
+   */
+  async createVersion(key: unknown, data: PromptTemplateData, requester: CourseRequester): Promise<PromptTemplate> {
+    const promptKey = this.parseKey(key);
+    const variables = validateTemplate(promptKey, data.template);
+    if (data.notes !== undefined && data.notes !== null && typeof data.notes !== 'string') {
+      throw new ServiceError('notes must be a string');
+    }
+    if (data.activate !== undefined && typeof data.activate !== 'boolean') {
+      throw new ServiceError('activate must be a boolean');
+    }
+    const course = await this.resolveScope(data.courseId, requester, 'manage');
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const latest = await tx.promptTemplate.findFirst({
+          where: { key: promptKey, courseId: course },
+          orderBy: { version: 'desc' },
+        });
+        const created = await tx.promptTemplate.create({
+          data: {
+            key: promptKey,
+            courseId: course,
+            version: (latest?.version ?? 0) + 1,
+            template: data.template as string,
+            variables,
+            notes: typeof data.notes === 'string' ? data.notes : null,
+            createdById: requester.userId,
+          },
+        });
+
+        return data.activate === false ? created : this.activate(tx, created);
+      });
+    } catch (error) {
+      // Versions are unique per template, so a concurrent save of the same number fails
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('Another version of this template was saved at the same time; try again');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Put an earlier (or later) version back in use
+   */
+  async activateVersion(
+    key: unknown,
+    version: unknown,
+    requester: CourseRequester,
+    courseId?: unknown
+  ): Promise<PromptTemplate> {
+    const promptKey = this.parseKey(key);
+    const number = Number(version);
+    if (!Number.isInteger(number) || number < 1) {
+      throw new ServiceError('Invalid version');
+    }
+    const course = await this.resolveScope(courseId, requester, 'manage');
+
+    const template = await prisma.promptTemplate.findFirst({
+      where: { key: promptKey, courseId: course, version: number },
+    });
+    if (!template) {
+      throw new NotFoundError('Prompt template version not found');
+    }
+    return prisma.$transaction(tx => this.activate(tx, template));
+  }
+
+  /**
+   * Stop overriding a task's template for a course, so the platform template applies again
+   */
+  async clearOverride(key: unknown, courseId: unknown, requester: CourseRequester): Promise<void> {
+    const promptKey = this.parseKey(key);
+    const course = await this.resolveScope(courseId, requester, 'manage');
+    if (!course) {
+      throw new ServiceError('courseId is required');
+    }
+
+    await prisma.promptTemplate.updateMany({
+      where: { key: promptKey, courseId: course, isActive: true },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * Make a version the only active one of its template, within the caller's transaction
+   */
+  private async activate(tx: Prisma.TransactionClient, template: PromptTemplate): Promise<PromptTemplate> {
+    await tx.promptTemplate.updateMany({
+      where: { key: template.key, courseId: template.courseId, isActive: true, id: { not: template.id } },
+      data: { isActive: false },
+    });
+    return tx.promptTemplate.update({ where: { id: template.id }, data: { isActive: true } });
+  }
+
+  private parseKey(key: unknown): PromptKey {
+    if (!isPromptKey(key)) {
+      throw new NotFoundError(`Unknown prompt template: ${String(key)}`);
+    }
+    return key;
+  }
+
+  /**
+   * The course a request is about, or null for platform templates. Platform templates are
+   * visible to admins and professors and changed by admins; course overrides belong to
+   * whoever manages the course.
+   */
+  private async resolveScope(
+    courseId: unknown,
+    requester: CourseRequester,
+    access: 'view' | 'manage'
+  ): Promise<string | null> {
+    if (requester.role !== UserRole.ADMIN && requester.role !== UserRole.PROFESSOR) {
+      throw new ForbiddenError('Only admins and professors can manage prompt templates');
+    }
+
+    if (courseId === undefined || courseId === null || courseId === '') {
+      if (access === 'manage' && requester.role !== UserRole.ADMIN) {
+        throw new ForbiddenError('Only admins can change platform prompt templates');
+      }
+      return null;
+    }
+    if (typeof courseId !== 'string' || !OBJECT_ID_PATTERN.test(courseId)) {
+      throw new ServiceError('Invalid courseId');
+    }
+
+    await courseService.getManageableCourse(courseId, requester);
+    return courseId;
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
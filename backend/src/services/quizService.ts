@@ -0,0 +1,787 @@
+/**
+ * Quiz Service
+ * Course question banks, quiz settings for QUIZ steps, randomized attempts and auto-grading
+ */
+
+import vm from 'vm';
+import { Prisma, QuestionType, Quiz, QuizAttempt, QuizAttemptStatus, QuizQuestion, StepType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { courseService, CourseRequester } from './courseService';
+import { progressService } from './progressService';
+import { AnalyticsService } from './AnalyticsService';
+import { ConflictError, ForbiddenError, NotFoundError, ServiceError } from '../utils/errors';
+
+// Network latency allowance before a timed attempt is considered over
+const SUBMIT_GRACE_MS = 30 * 1000;
+const MAX_PATTERN_LENGTH = 500;
+const MAX_TEXT_ANSWER_LENGTH = 1000;
+const ALLOWED_REGEX_FLAGS = /^[imsu]*$/;
+// How long a short-answer pattern may run against one answer before the answer counts as wrong
+const PATTERN_MATCH_TIMEOUT_MS = 50;
+const REPEAT_QUANTIFIER = /^(?:[*+]|\{\d+(?:,\d*)?\})\??/;
+// Patterns run in their own context so the match can be bounded by a timeout
+const patternContext = vm.createContext({});
+
+export interface QuestionOption {
+  id: string;
+  text: string;
+}
+
+export interface NumericAnswer {
+  value: number;
+  tolerance: number;
+}
+
+export interface PatternAnswer {
+  pattern: string;
+  flags?: string;
+}
+
+/**
+ * MULTIPLE_CHOICE: option id, MULTI_SELECT: option ids, TRUE_FALSE: boolean,
+ * NUMERIC: { value, tolerance }, SHORT_ANSWER: { pattern, flags? } matched against the whole answer
+ */
+export type CorrectAnswer = string | string[] | boolean | NumericAnswer | PatternAnswer;
+
+export interface QuestionData {
+  type: QuestionType;
+  prompt: string;
+  options?: { id?: string; text: string }[] | null;
+  correctAnswer: unknown;
+  points?: number;
+  explanation?: string | null;
+  tags?: string[];
+}
+
+export interface QuizSettings {
+  questionIds?: string[];
+  tags?: string[];
+  questionCount?: number | null;
+  timeLimitMinutes?: number | null;
+  maxAttempts?: number | null;
+  passingScore?: number;
+  shuffleOptions?: boolean;
+  showCorrectAnswers?: boolean;
+}
+
+export interface QuestionResult {
+  questionId: string;
+  isCorrect: boolean;
+  pointsEarned: number;
+  pointsPossible: number;
+}
+
+export interface AttemptGrade {
+  results: QuestionResult[];
+  pointsEarned: number;
+  pointsPossible: number;
+  score: number;
+}
+
+type GradableQuestion = Pick<QuizQuestion, 'id' | 'type' | 'correctAnswer' | 'points'>;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/**
+ * Whether a pattern repeats a group that itself contains a repetition or an alternation, like
+ * (a+)+ or (a|ab)*: the shapes that backtrack exponentially on an answer that almost matches
+ */
+export const hasNestedRepetition = (pattern: string): boolean => {
+  // Per open group: whether it contains a repetition or an alternation
+  const groups: boolean[] = [false];
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      i++;
+    } else if (char === '[') {
+      // Skip the character class; a leading ] is a literal
+      let end = pattern[i + 1] === '^' ? i + 2 : i + 1;
+      if (pattern[end] === ']') {
+        end++;
+      }
+      while (end < pattern.length && pattern[end] !== ']') {
+        end += pattern[end] === '\\' ? 2 : 1;
+      }
+      i = end;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const inner = groups.length > 1 ? groups.pop()! : false;
+      const quantifier = REPEAT_QUANTIFIER.exec(pattern.slice(i + 1));
+      if (quantifier && inner) {
+        return true;
+      }
+      groups[groups.length - 1] ||= inner || quantifier !== null;
+      i += quantifier?.[0].length ?? 0;
+    } else if (char === '|' || REPEAT_QUANTIFIER.test(pattern.slice(i))) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Match an answer against a short-answer pattern. The match is bounded by a timeout so a
+ * pattern that backtracks badly cannot stall the server; a timed-out match counts as wrong.
+ */
+export const matchesPattern = (expected: PatternAnswer, answer: string): boolean => {
+  patternContext['pattern'] = `^(?:${expected.pattern})$`;
+  patternContext['flags'] = expected.flags ?? '';
+  patternContext['answer'] = answer;
+
+  try {
+    return vm.runInContext('new RegExp(pattern, flags).test(answer)', patternContext, {
+      timeout: PATTERN_MATCH_TIMEOUT_MS,
+    }) === true;
+  } catch (error) {
+    console.error('❌ Short-answer pattern match timed out:', expected.pattern, error);
+    return false;
+  }
+};
+
+/**
+ * Validate question input and return it in stored form
+ */
+export const normalizeQuestion = (data: QuestionData) => {
+  if (!Object.values(QuestionType).includes(data.type)) {
+    throw new ServiceError('Invalid question type');
+  }
+  if (!data.prompt?.trim()) {
+    throw new ServiceError('Question prompt is required');
+  }
+  const points = data.points ?? 1;
+  if (typeof points !== 'number' || !(points > 0)) {
+    throw new ServiceError('Question points must be a positive number');
+  }
+
+  let options: QuestionOption[] | null = null;
+  let correctAnswer: CorrectAnswer;
+  const answer = data.correctAnswer;
+
+  switch (data.type) {
+    case QuestionType.MULTIPLE_CHOICE:
+    case QuestionType.MULTI_SELECT: {
+      if (!Array.isArray(data.options) || data.options.length < 2) {
+        throw new ServiceError('Choice questions need at least two options');
+      }
+      options = data.options.map((option, index) => ({
+        id: option.id?.trim() || `opt${index + 1}`,
+        text: option.text,
+      }));
+      if (options.some(option => typeof option.text !== 'string' || !option.text.trim())) {
+        throw new ServiceError('Every option needs text');
+      }
+      const ids = new Set(options.map(option => option.id));
+      if (ids.size !== options.length) {
+        throw new ServiceError('Option ids must be unique');
+      }
+
+      if (data.type === QuestionType.MULTIPLE_CHOICE) {
+        if (typeof answer !== 'string' || !ids.has(answer)) {
+          throw new ServiceError('correctAnswer must be the id of one of the options');
+        }
+        correctAnswer = answer;
+      } else {
+        const valid = Array.isArray(answer)
+          && answer.length > 0
+          && answer.every(id => typeof id === 'string' && ids.has(id));
+        if (!valid) {
+          throw new ServiceError('correctAnswer must list one or more option ids');
+        }
+        correctAnswer = [...new Set(answer as string[])];
+      }
+      break;
+    }
+
+    case QuestionType.TRUE_FALSE:
+      if (typeof answer !== 'boolean') {
+        throw new ServiceError('correctAnswer must be true or false');
+      }
+      correctAnswer = answer;
+      break;
+
+    case QuestionType.NUMERIC: {
+      const { value, tolerance = 0 } = (answer ?? {}) as Partial<NumericAnswer>;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new ServiceError('correctAnswer.value must be a number');
+      }
+      if (typeof tolerance !== 'number' || !(tolerance >= 0)) {
+        throw new ServiceError('correctAnswer.tolerance must be a non-negative number');
+      }
+      correctAnswer = { value, tolerance };
+      break;
+    }
+
+    case QuestionType.SHORT_ANSWER: {
+      const { pattern, flags = 'i' } = (answer ?? {}) as Partial<PatternAnswer>;
+      if (typeof pattern !== 'string' || !pattern || pattern.length > MAX_PATTERN_LENGTH) {
+        throw new ServiceError(`correctAnswer.pattern must be a regular expression of at most ${MAX_PATTERN_LENGTH} characters`);
+      }
+      if (typeof flags !== 'string' || !ALLOWED_REGEX_FLAGS.test(flags)) {
+        throw new ServiceError('correctAnswer.flags may only contain i, m, s and u');
+      }
+      try {
+        new RegExp(pattern, flags);
+      } catch {
+        throw new ServiceError('correctAnswer.pattern is not a valid regular expression');
+      }
+      if (hasNestedRepetition(pattern)) {
+        throw new ServiceError('correctAnswer.pattern may not repeat a group that contains a repetition or alternation, such as (a+)+');
+      }
+      correctAnswer = { pattern, flags };
+      break;
+    }
+  }
+
+  return {
+    type: data.type,
+    prompt: data.prompt.trim(),
+    options,
+    correctAnswer,
+    points,
+    explanation: data.explanation ?? null,
+    tags: [...new Set((data.tags ?? []).map(tag => tag.trim().toLowerCase()).filter(Boolean))],
+  };
+};
+
+/**
+ * Check one answer against a question's stored correct answer
+ */
+export const isAnswerCorrect = (question: Pick<QuizQuestion, 'type' | 'correctAnswer'>, answer: unknown): boolean => {
+  const correct = question.correctAnswer as CorrectAnswer;
+
+  switch (question.type) {
+    case QuestionType.MULTIPLE_CHOICE:
+      return typeof answer === 'string' && answer === correct;
+
+    case QuestionType.MULTI_SELECT: {
+      if (!Array.isArray(answer) || !answer.every(id => typeof id === 'string')) {
+        return false;
+      }
+      const chosen = new Set(answer);
+      const expected = correct as string[];
+      return chosen.size === expected.length && expected.every(id => chosen.has(id));
+    }
+
+    case QuestionType.TRUE_FALSE:
+      return typeof answer === 'boolean' && answer === correct;
+
+    case QuestionType.NUMERIC: {
+      const value = typeof answer === 'string' && answer.trim() !== '' ? Number(answer) : answer;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return false;
+      }
+      const expected = correct as NumericAnswer;
+      // Small epsilon so a tolerance of 0.1 accepts 3.24 for 3.14 despite float rounding
+      return Math.abs(value - expected.value) <= expected.tolerance + 1e-9;
+    }
+
+    case QuestionType.SHORT_ANSWER: {
+      if (typeof answer !== 'string' || answer.length > MAX_TEXT_ANSWER_LENGTH) {
+        return false;
+      }
+      return matchesPattern(correct as PatternAnswer, answer.trim());
+    }
+
+    default:
+      return false;
+  }
+};
+
+/**
+ * Grade a set of answers keyed by question id. Questions are all-or-nothing.
+ */
+export const gradeAttempt = (questions: GradableQuestion[], answers: Record<string, unknown>): AttemptGrade => {
+  const results = questions.map(question => {
+    const isCorrect = isAnswerCorrect(question, answers[question.id]);
+    return {
+      questionId: question.id,
+      isCorrect,
+      pointsEarned: isCorrect ? question.points : 0,
+      pointsPossible: question.points,
+    };
+  });
+
+  const pointsEarned = results.reduce((sum, result) => sum + result.pointsEarned, 0);
+  const pointsPossible = results.reduce((sum, result) => sum + result.pointsPossible, 0);
+
+  return {
+    results,
+    pointsEarned: round2(pointsEarned),
+    pointsPossible: round2(pointsPossible),
+    score: pointsPossible > 0 ? round2((pointsEarned / pointsPossible) * 100) : 0,
+  };
+};
+
+/**
+ * Fisher-Yates shuffle returning a new array
+ */
+export const shuffle = <T>(items: T[], random: () => number = Math.random): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j]!, result[i]!];
+  }
+  return result;
+};
+
+/**
+ * Draw `count` distinct questions from the pool in random order
+ */
+export const drawQuestions = <T>(pool: T[], count: number | null, random: () => number = Math.random): T[] => {
+  const size = count ?? pool.length;
+  if (pool.length === 0 || pool.length < size) {
+    throw new ServiceError(`This quiz needs ${size} questions but only ${pool.length} are available`);
+  }
+  return shuffle(pool, random).slice(0, size);
+};
+
+export class QuizService {
+  private analyticsService = new AnalyticsService();
+
+  /**
+   * List the active questions of a course's bank, optionally by tag
+   */
+  async listQuestions(courseId: string, requester: CourseRequester, tag?: string) {
+    await courseService.getManageableCourse(courseId, requester);
+
+    return prisma.quizQuestion.findMany({
+      where: { courseId, isActive: true, ...(tag && { tags: { has: tag.toLowerCase() } }) },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Add a question to a course's bank
+   */
+  async createQuestion(courseId: string, data: QuestionData, requester: CourseRequester) {
+    await courseService.getManageableCourse(courseId, requester);
+    const question = normalizeQuestion(data);
+
+    return prisma.quizQuestion.create({
+      data: {
+        ...question,
+        options: question.options as Prisma.InputJsonValue | null,
+        correctAnswer: question.correctAnswer as Prisma.InputJsonValue,
+        courseId,
+      },
+    });
+  }
+
+  /**
+   * Edit a question. Attempts still in progress are graded against the new version.
+   */
+  async updateQuestion(courseId: string, questionId: string, data: Partial<QuestionData>, requester: CourseRequester) {
+    await courseService.getManageableCourse(courseId, requester);
+    const existing = await this.getCourseQuestion(courseId, questionId);
+
+    const question = normalizeQuestion({
+      type: data.type ?? existing.type,
+      prompt: data.prompt ?? existing.prompt,
+      options: data.options !== undefined ? data.options : existing.options as QuestionOption[] | null,
+      correctAnswer: data.correctAnswer !== undefined ? data.correctAnswer : existing.correctAnswer,
+      points: data.points ?? existing.points,
+      explanation: data.explanation !== undefined ? data.explanation : existing.explanation,
+      tags: data.tags ?? existing.tags,
+    });
+
+    return prisma.quizQuestion.update({
+      where: { id: questionId },
+      data: {
+        ...question,
+        options: question.options as Prisma.InputJsonValue | null,
+        correctAnswer: question.correctAnswer as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /**
+   * Retire a question. It is kept so past attempts can still show it.
+   */
+  async deleteQuestion(courseId: string, questionId: string, requester: CourseRequester): Promise<void> {
+    await courseService.getManageableCourse(courseId, requester);
+    await this.getCourseQuestion(courseId, questionId);
+
+    await prisma.quizQuestion.update({ where: { id: questionId }, data: { isActive: false } });
+  }
+
+  /**
+   * Quiz settings for a step. Students also get their attempt history and remaining attempts.
+   */
+  async getQuiz(courseId: string, moduleId: string, stepId: string, requester: CourseRequester) {
+    const course = await courseService.getViewableCourse(courseId, requester);
+    await this.getQuizStep(courseId, moduleId, stepId);
+    const quiz = await this.findQuiz(stepId);
+
+    if (courseService.canManage(course, requester)) {
+      const attemptCount = await prisma.quizAttempt.count({ where: { quizId: quiz.id } });
+      return { ...quiz, attemptCount };
+    }
+
+    await progressService.assertModuleUnlocked(courseId, moduleId, requester);
+    const attempts = await prisma.quizAttempt.findMany({
+      where: { quizId: quiz.id, userId: requester.userId },
+      select: { id: true, attemptNumber: true, status: true, score: true, startedAt: true, expiresAt: true, submittedAt: true },
+      orderBy: { attemptNumber: 'asc' },
+    });
+    const scores = attempts.map(attempt => attempt.score).filter((score): score is number => score !== null);
+    const { questionIds, tags, ...settings } = quiz;
+
+    return {
+      ...settings,
+      attempts,
+      bestScore: scores.length > 0 ? Math.max(...scores) : null,
+      attemptsRemaining: quiz.maxAttempts === null ? null : Math.max(0, quiz.maxAttempts - attempts.length),
+    };
+  }
+
+  /**
+   * Create or update the quiz settings of a QUIZ step
+   */
+  async saveQuiz(courseId: string, moduleId: string, stepId: string, settings: QuizSettings, requester: CourseRequester) {
+    await courseService.getManageableCourse(courseId, requester);
+    await this.getQuizStep(courseId, moduleId, stepId);
+    const data = await this.validateSettings(courseId, settings);
+
+    return prisma.quiz.upsert({
+      where: { stepId },
+      create: { ...data, courseId, stepId },
+      update: data,
+    });
+  }
+
+  /**
+   * Start (or resume) an attempt, drawing its questions
+   */
+  async startAttempt(courseId: string, moduleId: string, stepId: string, requester: CourseRequester) {
+    await this.assertCanAttempt(courseId, moduleId, stepId, requester);
+    const quiz = await this.findQuiz(stepId);
+
+    const attempts = await prisma.quizAttempt.findMany({
+      where: { quizId: quiz.id, userId: requester.userId },
+      orderBy: { attemptNumber: 'desc' },
+    });
+
+    const open = attempts.find(attempt => attempt.status === QuizAttemptStatus.IN_PROGRESS);
+    if (open && !this.isPastDeadline(open, new Date())) {
+      return this.presentAttempt(open, quiz);
+    }
+    if (open) {
+      await this.expireAttempt(open);
+    }
+
+    if (quiz.maxAttempts !== null && attempts.length >= quiz.maxAttempts) {
+      throw new ConflictError(`All ${quiz.maxAttempts} allowed attempts have been used`);
+    }
+
+    const pool = await this.getQuestionPool(quiz);
+    const questions = drawQuestions(pool, quiz.questionCount);
+    const optionOrder = quiz.shuffleOptions
+      ? Object.fromEntries(questions
+        .filter(question => Array.isArray(question.options))
+        .map(question => [question.id, shuffle((question.options as unknown as QuestionOption[]).map(o => o.id))]))
+      : null;
+    const startedAt = new Date();
+
+    try {
+      const attempt = await prisma.quizAttempt.create({
+        data: {
+          quizId: quiz.id,
+          userId: requester.userId,
+          attemptNumber: (attempts[0]?.attemptNumber ?? 0) + 1,
+          questionIds: questions.map(question => question.id),
+          optionOrder,
+          startedAt,
+          expiresAt: quiz.timeLimitMinutes
+            ? new Date(startedAt.getTime() + quiz.timeLimitMinutes * 60 * 1000)
+            : null,
+        },
+      });
+
+      return this.presentAttempt(attempt, quiz, questions);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('Another attempt was started at the same time, please retry');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Grade an attempt and feed the result into step completion and analytics
+   */
+  async submitAttempt(
+    courseId: string,
+    moduleId: string,
+    stepId: string,
+    attemptId: string,
+    answers: Record<string, unknown>,
+    requester: CourseRequester
+  ) {
+    await this.assertCanAttempt(courseId, moduleId, stepId, requester);
+    const quiz = await this.findQuiz(stepId);
+
+    const attempt = await prisma.quizAttempt.findUnique({ where: { id: attemptId } });
+    if (!attempt || attempt.quizId !== quiz.id || attempt.userId !== requester.userId) {
+      throw new NotFoundError('Attempt not found');
+    }
+    if (attempt.status !== QuizAttemptStatus.IN_PROGRESS) {
+      throw new ConflictError('This attempt has already been submitted');
+    }
+
+    const submittedAt = new Date();
+    if (this.isPastDeadline(attempt, submittedAt)) {
+      await this.expireAttempt(attempt);
+      throw new ConflictError('The time limit for this attempt has passed');
+    }
+
+    const questions = await this.getAttemptQuestions(attempt);
+    const grade = gradeAttempt(questions, answers ?? {});
+
+    // Only an in-progress attempt can be graded, so a double submit is rejected
+    const { count } = await prisma.quizAttempt.updateMany({
+      where: { id: attempt.id, status: QuizAttemptStatus.IN_PROGRESS },
+      data: {
+        status: QuizAttemptStatus.SUBMITTED,
+        answers: answers as Prisma.InputJsonValue,
+        results: grade.results as unknown as Prisma.InputJsonValue,
+        score: grade.score,
+        pointsEarned: grade.pointsEarned,
+        pointsPossible: grade.pointsPossible,
+        submittedAt,
+      },
+    });
+    if (count === 0) {
+      throw new ConflictError('This attempt has already been submitted');
+    }
+
+    const passed = grade.score >= quiz.passingScore;
+    const progress = await progressService.recordQuizResult(requester.userId, courseId, stepId, passed);
+
+    await this.analyticsService.recordUserAnalytics({
+      userId: requester.userId,
+      sessionId: `quiz_${attempt.id}`,
+      action: 'quiz_attempt_submitted',
+      resource: stepId,
+      duration: submittedAt.getTime() - attempt.startedAt.getTime(),
+      learningProgress: {
+        type: 'quiz_attempt',
+        courseId,
+        moduleId,
+        stepId,
+        quizId: quiz.id,
+        attemptNumber: attempt.attemptNumber,
+        score: grade.score,
+        pointsEarned: grade.pointsEarned,
+        pointsPossible: grade.pointsPossible,
+        passed,
+        ...(progress && { courseProgress: progress.progress }),
+      },
+    });
+
+    const submitted = await prisma.quizAttempt.findUniqueOrThrow({ where: { id: attempt.id } });
+    return { ...(await this.presentAttempt(submitted, quiz, questions)), passed };
+  }
+
+  /**
+   * Attempts of a quiz: course staff see everyone's, students their own
+   */
+  async listAttempts(courseId: string, moduleId: string, stepId: string, requester: CourseRequester) {
+    const course = await courseService.getViewableCourse(courseId, requester);
+    await this.getQuizStep(courseId, moduleId, stepId);
+    const quiz = await this.findQuiz(stepId);
+    const isStaff = courseService.canManage(course, requester);
+
+    return prisma.quizAttempt.findMany({
+      where: { quizId: quiz.id, ...(!isStaff && { userId: requester.userId }) },
+      select: {
+        id: true,
+        attemptNumber: true,
+        status: true,
+        score: true,
+        pointsEarned: true,
+        pointsPossible: true,
+        startedAt: true,
+        submittedAt: true,
+        user: { select: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: [{ userId: 'asc' }, { attemptNumber: 'asc' }],
+    });
+  }
+
+  /**
+   * Students must be actively enrolled and the step's module unlocked for them
+   */
+  private async assertCanAttempt(courseId: string, moduleId: string, stepId: string, requester: CourseRequester) {
+    const course = await courseService.getViewableCourse(courseId, requester);
+    await this.getQuizStep(courseId, moduleId, stepId);
+
+    if (courseService.canManage(course, requester)) {
+      throw new ForbiddenError('Course staff cannot take their own quiz');
+    }
+
+    const enrollment = await prisma.courseEnrollment.findUnique({
+      where: { userId_courseId: { userId: requester.userId, courseId } },
+    });
+    if (!enrollment?.isActive) {
+      throw new ForbiddenError('Only enrolled students can take this quiz');
+    }
+
+    await progressService.assertModuleUnlocked(courseId, moduleId, requester);
+  }
+
+  /**
+   * Questions in the order they were drawn, with options in the attempt's order. Correct answers
+   * are only included once the attempt is over and the quiz allows showing them.
+   */
+  private async presentAttempt(attempt: QuizAttempt, quiz: Quiz, drawn?: QuizQuestion[]) {
+    const questions = drawn ?? await this.getAttemptQuestions(attempt);
+    const optionOrder = (attempt.optionOrder ?? {}) as Record<string, string[]>;
+    const revealAnswers = attempt.status !== QuizAttemptStatus.IN_PROGRESS && quiz.showCorrectAnswers;
+
+    return {
+      id: attempt.id,
+      quizId: attempt.quizId,
+      attemptNumber: attempt.attemptNumber,
+      status: attempt.status,
+      startedAt: attempt.startedAt,
+      expiresAt: attempt.expiresAt,
+      submittedAt: attempt.submittedAt,
+      score: attempt.score,
+      pointsEarned: attempt.pointsEarned,
+      pointsPossible: attempt.pointsPossible,
+      answers: attempt.answers,
+      results: attempt.results,
+      questions: questions.map(question => {
+        const options = question.options as unknown as QuestionOption[] | null;
+        const order = optionOrder[question.id];
+        return {
+          id: question.id,
+          type: question.type,
+          prompt: question.prompt,
+          points: question.points,
+          options: options && order
+            ? order.map(id => options.find(option => option.id === id)).filter(Boolean)
+            : options,
+          ...(revealAnswers && { correctAnswer: question.correctAnswer, explanation: question.explanation }),
+        };
+      }),
+    };
+  }
+
+  private async getAttemptQuestions(attempt: QuizAttempt): Promise<QuizQuestion[]> {
+    const questions = await prisma.quizQuestion.findMany({ where: { id: { in: attempt.questionIds } } });
+    const byId = new Map(questions.map(question => [question.id, question]));
+
+    return attempt.questionIds
+      .map(id => byId.get(id))
+      .filter((question): question is QuizQuestion => question !== undefined);
+  }
+
+  private async getQuestionPool(quiz: Quiz): Promise<QuizQuestion[]> {
+    return prisma.quizQuestion.findMany({
+      where: {
+        courseId: quiz.courseId,
+        isActive: true,
+        ...(quiz.questionIds.length > 0
+          ? { id: { in: quiz.questionIds } }
+          : quiz.tags.length > 0 && { tags: { hasSome: quiz.tags } }),
+      },
+    });
+  }
+
+  private isPastDeadline(attempt: QuizAttempt, now: Date): boolean {
+    return attempt.expiresAt !== null && now.getTime() > attempt.expiresAt.getTime() + SUBMIT_GRACE_MS;
+  }
+
+  /**
+   * Close an attempt whose time ran out without a submission; it scores zero
+   */
+  private async expireAttempt(attempt: QuizAttempt): Promise<void> {
+    await prisma.quizAttempt.updateMany({
+      where: { id: attempt.id, status: QuizAttemptStatus.IN_PROGRESS },
+      data: { status: QuizAttemptStatus.EXPIRED, score: 0, pointsEarned: 0, submittedAt: attempt.expiresAt },
+    });
+  }
+
+  private async validateSettings(courseId: string, settings: QuizSettings) {
+    const nullablePositive = (value: unknown, name: string): number | null => {
+      if (value === undefined || value === null) {
+        return null;
+      }
+      if (!isPositiveInteger(value)) {
+        throw new ServiceError(`${name} must be a positive integer`);
+      }
+      return value;
+    };
+
+    const questionIds = [...new Set(settings.questionIds ?? [])];
+    if (questionIds.length > 0) {
+      const found = await prisma.quizQuestion.count({ where: { id: { in: questionIds }, courseId, isActive: true } });
+      if (found !== questionIds.length) {
+        throw new ServiceError('Every question must be an active question of this course');
+      }
+    }
+
+    const passingScore = settings.passingScore ?? 70;
+    if (typeof passingScore !== 'number' || passingScore < 0 || passingScore > 100) {
+      throw new ServiceError('passingScore must be between 0 and 100');
+    }
+
+    const questionCount = nullablePositive(settings.questionCount, 'questionCount');
+    if (questionCount !== null && questionIds.length > 0 && questionCount > questionIds.length) {
+      throw new ServiceError('questionCount cannot exceed the number of selected questions');
+    }
+
+    return {
+      questionIds,
+      tags: [...new Set((settings.tags ?? []).map(tag => tag.trim().toLowerCase()).filter(Boolean))],
+      questionCount,
+      timeLimitMinutes: nullablePositive(settings.timeLimitMinutes, 'timeLimitMinutes'),
+      maxAttempts: nullablePositive(settings.maxAttempts, 'maxAttempts'),
+      passingScore,
+      shuffleOptions: settings.shuffleOptions ?? true,
+      showCorrectAnswers: settings.showCorrectAnswers ?? true,
+    };
+  }
+
+  private async getQuizStep(courseId: string, moduleId: string, stepId: string) {
+    const step = await prisma.courseStep.findUnique({
+      where: { id: stepId },
+      include: { module: { select: { courseId: true } } },
+    });
+
+    if (!step || step.moduleId !== moduleId || step.module.courseId !== courseId) {
+      throw new NotFoundError('Step not found');
+    }
+    if (step.type !== StepType.QUIZ) {
+      throw new ServiceError('Only QUIZ steps have a quiz');
+    }
+
+    return step;
+  }
+
+  private async findQuiz(stepId: string): Promise<Quiz> {
+    const quiz = await prisma.quiz.findUnique({ where: { stepId } });
+    if (!quiz) {
+      throw new NotFoundError('This step has no quiz yet');
+    }
+    return quiz;
+  }
+
+  private async getCourseQuestion(courseId: string, questionId: string): Promise<QuizQuestion> {
+    const question = await prisma.quizQuestion.findUnique({ where: { id: questionId } });
+    if (!question || question.courseId !== courseId || !question.isActive) {
+      throw new NotFoundError('Question not found');
+    }
+    return question;
+  }
+}
+
+export const quizService = new QuizService();
@@ -1,4 +1,6 @@
 import OpenAI from 'openai';
+import { aiProviderTransport } from './aiModels/AIProviderTransport';
+import { chatStructured, formatInstructions, OutputContract, recommendationsContract } from './aiModels/structuredOutput';
 
 export interface RecommendationInput {
   userId?: string;
@@ -31,12 +33,26 @@ export class RecommendationEngine {
   private aiClient: OpenAI;
 
   constructor() {
+    // Replayed and fake providers send nothing, so they run without a key
+    const offline = ['replay', 'fake'].includes(aiProviderTransport.getMode());
     this.aiClient = new OpenAI({
-      apiKey: process.env['OPENAI_API_KEY'] || process.env['OPENROUTER_API_KEY'],
+      apiKey: process.env['OPENAI_API_KEY'] || process.env['OPENROUTER_API_KEY'] || (offline ? 'not-needed' : undefined),
       baseURL: process.env['OPENROUTER_API_KEY'] ? 'https://openrouter.ai/api/v1' : undefined
     });
   }
 
+  /**
+   * Ask the model for an answer matching an output contract
+   */
+  private async complete<T>(contract: OutputContract<T>, prompt: string, temperature: number): Promise<T> {
+    const completion = await chatStructured(this.aiClient, 'recommendations', contract, {
+      model: "gpt-4",
+      messages: [{ role: "user", content: prompt }],
+      temperature
+    });
+    return completion.value;
+  }
+
   /**
    * Generate comprehensive recommendations
    */
@@ -92,16 +108,10 @@ export class RecommendationEngine {
         - Implementation timeline
         - Success metrics
         
-        Format as JSON array of recommendation objects.
+        ${formatInstructions(recommendationsContract)}
       `;
 
-      const response = await this.aiClient.chat.completions.create({
-        model: "gpt-4",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.3
-      });
-
-      const aiRecommendations = JSON.parse(response.choices[0]?.message?.content || '[]');
+      const aiRecommendations = await this.complete(recommendationsContract, prompt, 0.3);
 
       return aiRecommendations.map((rec: any) => ({
         type: 'LEARNING_PATH',
@@ -142,15 +152,10 @@ export class RecommendationEngine {
         
         Focus on improving engagement and learning outcomes.
         Provide specific content suggestions with rationale.
+        ${formatInstructions(recommendationsContract)}
       `;
 
-      const response = await this.aiClient.chat.completions.create({
-        model: "gpt-4",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.3
-      });
-
-      const aiRecommendations = JSON.parse(response.choices[0]?.message?.content || '[]');
+      const aiRecommendations = await this.complete(recommendationsContract, prompt, 0.3);
 
       return aiRecommendations.map((rec: any) => ({
         type: 'CONTENT_OPTIMIZATION',
@@ -191,15 +196,10 @@ export class RecommendationEngine {
         
         Base recommendations on learning science and personalized data analysis.
         Include implementation guidance and expected outcomes.
+        ${formatInstructions(recommendationsContract)}
       `;
 
-      const response = await this.aiClient.chat.completions.create({
-        model: "gpt-4",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.3
-      });
-
-      const aiRecommendations = JSON.parse(response.choices[0]?.message?.content || '[]');
+      const aiRecommendations = await this.complete(recommendationsContract, prompt, 0.3);
 
       return aiRecommendations.map((rec: any) => ({
         type: 'STUDY_STRATEGY',
@@ -240,15 +240,10 @@ export class RecommendationEngine {
         
         Prioritize urgent interventions and provide step-by-step implementation.
         Include prevention strategies for future issues.
+        ${formatInstructions(recommendationsContract)}
       `;
 
-      const response = await this.aiClient.chat.completions.create({
-        model: "gpt-4",
-        messages: [{ role: "user", content: prompt }],
-        temperature: 0.2
-      });
-
-      const aiRecommendations = JSON.parse(response.choices[0]?.message?.content || '[]');
+      const aiRecommendations = await this.complete(recommendationsContract, prompt, 0.2);
 
       return aiRecommendations.map((rec: any) => ({
         type: 'INTERVENTION',
@@ -311,13 +306,13 @@ export class RecommendationEngine {
         Keep it concise but comprehensive for educators and administrators.
       `;
 
-      const response = await this.aiClient.chat.completions.create({
+      const response = await aiProviderTransport.chat(this.aiClient, 'recommendations', {
         model: "gpt-4",
         messages: [{ role: "user", content: prompt }],
         temperature: 0.3
       });
 
-      return response.choices[0]?.message?.content || 'Summary generation failed';
+      return response.text || 'Summary generation failed';
     } catch (error) {
       console.error('Error generating recommendation summary:', error);
       return 'Unable to generate recommendation summary';
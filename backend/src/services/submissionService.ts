@@ -0,0 +1,275 @@
+/**
+ * Submission Service
+ * Assignment submission pipeline: draft handling, file validation, attempt limits and late penalties
+ */
+
+import path from 'path';
+import { promises as fs } from 'fs';
+import { Assignment, Prisma, SubmissionStatus } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { assignmentService, AssignmentWithCourse, withReleasedGrade } from './assignmentService';
+import { CourseRequester } from './courseService';
+import { progressService } from './progressService';
+import { cnnAnalysisService } from './cnnAnalysisService';
+import { ConflictError, ForbiddenError, NotFoundError, ServiceError } from '../utils/errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LateStatus {
+  isLate: boolean;
+  daysLate: number;
+  latePenaltyApplied: number | null;
+}
+
+/**
+ * Compute lateness for a submission made at `submittedAt`. Every started day past the
+ * due date costs `latePenaltyPercent`, capped at 100%.
+ */
+export const calculateLateStatus = (
+  assignment: Pick<Assignment, 'dueDate' | 'latePenaltyPercent'>,
+  submittedAt: Date
+): LateStatus => {
+  if (!assignment.dueDate || submittedAt <= assignment.dueDate) {
+    return { isLate: false, daysLate: 0, latePenaltyApplied: null };
+  }
+
+  const daysLate = Math.ceil((submittedAt.getTime() - assignment.dueDate.getTime()) / DAY_MS);
+  const latePenaltyApplied = assignment.latePenaltyPercent
+    ? Math.min(100, daysLate * assignment.latePenaltyPercent)
+    : null;
+
+  return { isLate: true, daysLate, latePenaltyApplied };
+};
+
+/**
+ * Lower-case extension of a file name without the leading dot
+ */
+export const getFileExtension = (fileName: string): string =>
+  path.extname(fileName).slice(1).toLowerCase();
+
+/**
+ * Check uploaded files against the assignment's accepted types and size limit
+ */
+export const validateSubmissionFiles = (
+  assignment: Pick<Assignment, 'acceptedFileTypes' | 'maxFileSize'>,
+  files: Pick<Express.Multer.File, 'originalname' | 'size'>[]
+): string[] => {
+  const accepted = assignment.acceptedFileTypes.map(type => type.replace(/^\./, '').toLowerCase());
+  const errors: string[] = [];
+
+  for (const file of files) {
+    const extension = getFileExtension(file.originalname);
+    if (accepted.length > 0 && !accepted.includes(extension)) {
+      errors.push(`${file.originalname}: file type .${extension || '?'} is not accepted (allowed: ${accepted.join(', ')})`);
+    }
+    if (file.size > assignment.maxFileSize) {
+      errors.push(`${file.originalname}: file exceeds the ${assignment.maxFileSize} byte limit`);
+    }
+  }
+
+  return errors;
+};
+
+const submissionInclude = {
+  files: { orderBy: { uploadedAt: 'asc' } },
+} satisfies Prisma.SubmissionInclude;
+
+export class SubmissionService {
+  /**
+   * Create or extend the student's open draft with uploaded files
+   */
+  async saveDraft(assignmentId: string, requester: CourseRequester, files: Express.Multer.File[]) {
+    try {
+      const assignment = await this.getSubmittableAssignment(assignmentId, requester);
+
+      const errors = validateSubmissionFiles(assignment, files);
+      if (errors.length > 0) {
+        throw new ServiceError(`Invalid files: ${errors.join('; ')}`);
+      }
+
+      const draft = await this.getOrCreateDraft(assignment, requester.userId);
+
+      if (files.length > 0) {
+        await prisma.submissionFile.createMany({
+          data: files.map(file => ({
+            submissionId: draft.id,
+            originalName: file.originalname,
+            fileName: file.filename,
+            filePath: file.path,
+            fileSize: file.size,
+            mimeType: file.mimetype,
+          })),
+        });
+      }
+
+      return prisma.submission.findUniqueOrThrow({
+        where: { id: draft.id },
+        include: submissionInclude,
+      });
+    } catch (error) {
+      await this.discardUploads(files);
+      throw error;
+    }
+  }
+
+  /**
+   * Finalize the open draft (optionally adding files first), moving it from DRAFT to SUBMITTED
+   */
+  async submit(assignmentId: string, requester: CourseRequester, files: Express.Multer.File[] = []) {
+    const draft = await this.saveDraft(assignmentId, requester, files);
+    const assignment = await this.getSubmittableAssignment(assignmentId, requester);
+
+    if (draft.files.length === 0) {
+      throw new ServiceError('At least one file is required to submit');
+    }
+
+    const submittedAt = new Date();
+    const { isLate, latePenaltyApplied } = calculateLateStatus(assignment, submittedAt);
+
+    // Only a draft can be submitted, so a double submit cannot finalize the attempt twice
+    const { count } = await prisma.submission.updateMany({
+      where: { id: draft.id, status: SubmissionStatus.DRAFT },
+      data: {
+        status: SubmissionStatus.SUBMITTED,
+        submittedAt,
+        isLate,
+        latePenaltyApplied,
+      },
+    });
+    if (count === 0) {
+      throw new ConflictError('Submission was already submitted');
+    }
+
+    await progressService.recordAssignmentSubmission(assignmentId, requester.userId);
+    await cnnAnalysisService.queueForSubmission(draft.id);
+
+    return prisma.submission.findUniqueOrThrow({
+      where: { id: draft.id },
+      include: submissionInclude,
+    });
+  }
+
+  /**
+   * Remove a file from the student's draft
+   */
+  async removeDraftFile(assignmentId: string, submissionId: string, fileId: string, requester: CourseRequester) {
+    const submission = await prisma.submission.findUnique({
+      where: { id: submissionId },
+      include: { files: true },
+    });
+
+    if (!submission || submission.assignmentId !== assignmentId) {
+      throw new NotFoundError('Submission not found');
+    }
+    if (submission.studentId !== requester.userId) {
+      throw new ForbiddenError('Unauthorized to modify this submission');
+    }
+    if (submission.status !== SubmissionStatus.DRAFT) {
+      throw new ConflictError('Only draft submissions can be modified');
+    }
+
+    const file = submission.files.find(f => f.id === fileId);
+    if (!file) {
+      throw new NotFoundError('File not found');
+    }
+
+    await prisma.submissionFile.delete({ where: { id: fileId } });
+    await fs.unlink(file.filePath).catch(() => undefined);
+
+    return prisma.submission.findUniqueOrThrow({
+      where: { id: submissionId },
+      include: submissionInclude,
+    });
+  }
+
+  /**
+   * List submissions: course staff see every student's, students see their own
+   */
+  async getSubmissions(assignmentId: string, requester: CourseRequester) {
+    const assignment = await assignmentService.getAccessibleAssignment(assignmentId, requester);
+    const isStaff = assignmentService.canManage(assignment, requester);
+
+    const submissions = await prisma.submission.findMany({
+      where: {
+        assignmentId,
+        ...(isStaff ? { status: { not: SubmissionStatus.DRAFT } } : { studentId: requester.userId }),
+      },
+      include: {
+        ...submissionInclude,
+        student: { select: { id: true, firstName: true, lastName: true, email: true } },
+      },
+      orderBy: [{ studentId: 'asc' }, { attemptNumber: 'desc' }],
+    });
+
+    return isStaff ? submissions : submissions.map(withReleasedGrade);
+  }
+
+  /**
+   * Load an assignment the requester can currently submit to
+   */
+  private async getSubmittableAssignment(assignmentId: string, requester: CourseRequester) {
+    const assignment = await assignmentService.getAccessibleAssignment(assignmentId, requester);
+
+    if (assignmentService.canManage(assignment, requester)) {
+      throw new ForbiddenError('Course staff cannot submit to their own assignment');
+    }
+
+    const now = new Date();
+    if (now < assignment.availableFrom) {
+      throw new ForbiddenError(`Assignment opens at ${assignment.availableFrom.toISOString()}`);
+    }
+    if (assignment.availableUntil && now > assignment.availableUntil) {
+      throw new ForbiddenError('Assignment is closed for submissions');
+    }
+    if (assignment.dueDate && now > assignment.dueDate && !assignment.allowLateSubmission) {
+      throw new ForbiddenError('The due date has passed and late submissions are not allowed');
+    }
+    await progressService.assertAssignmentUnlocked(assignment.id, assignment.courseId, requester.userId);
+
+    return assignment;
+  }
+
+  /**
+   * Return the open draft or start a new attempt if attempts remain
+   */
+  private async getOrCreateDraft(assignment: AssignmentWithCourse, studentId: string) {
+    const attempts = await prisma.submission.findMany({
+      where: { assignmentId: assignment.id, studentId },
+      select: { id: true, attemptNumber: true, status: true },
+      orderBy: { attemptNumber: 'desc' },
+    });
+
+    const draft = attempts.find(attempt => attempt.status === SubmissionStatus.DRAFT);
+    if (draft) {
+      return draft;
+    }
+
+    const usedAttempts = attempts.length;
+    if (usedAttempts >= assignment.allowedAttempts) {
+      throw new ConflictError(`All ${assignment.allowedAttempts} allowed attempts have been used`);
+    }
+
+    try {
+      return await prisma.submission.create({
+        data: {
+          assignmentId: assignment.id,
+          studentId,
+          attemptNumber: (attempts[0]?.attemptNumber ?? 0) + 1,
+          status: SubmissionStatus.DRAFT,
+        },
+        select: { id: true, attemptNumber: true, status: true },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('Another attempt was started at the same time, please retry');
+      }
+      throw error;
+    }
+  }
+
+  private async discardUploads(files: Express.Multer.File[]): Promise<void> {
+    await Promise.all(files.map(file => fs.unlink(file.path).catch(() => undefined)));
+  }
+}
+
+export const submissionService = new SubmissionService();
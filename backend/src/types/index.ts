@@ -291,8 +291,8 @@ export interface IEmailService {
   sendAssignmentNotification: (email: string, assignment: IAssignment) => Promise<void>;
 }
 
-// AI Model Types
-export type AIModelType = 'gpt4' | 'claude' | 'gemini';
+// AI Model Types (built-in models; any model declared in the provider registry is accepted)
+export type AIModelType = 'gpt4' | 'claude' | 'gemini' | (string & {});
 export type AnalysisModelType = 'cnn' | AIModelType;
 
 export interface MultiAnalysisRequest {
@@ -332,7 +332,7 @@ export interface ConsolidatedInsights {
 export interface ConflictAnalysis {
   finding: string;
   models: AIModelType[];
-  confidence: Record<AIModelType, number>;
+  confidence: Partial<Record<AIModelType, number>>;
   resolution: string;
 }
 
@@ -349,6 +349,8 @@ export interface AIAnalysisResult {
   };
   processingTime: number;
   timestamp: Date;
+  cacheHit?: boolean; // Served from the AI result cache
+  promptVersion?: string; // Prompt template version that produced it
 }
 
 export interface EntityExtraction {
@@ -0,0 +1,53 @@
+/**
+ * Service Errors
+ * Errors thrown by domain services that carry the HTTP status the controller should respond with
+ */
+
+import { Response } from 'express';
+
+export class ServiceError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'ServiceError';
+  }
+}
+
+export class NotFoundError extends ServiceError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ForbiddenError extends ServiceError {
+  constructor(message: string) {
+    super(message, 403);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class ConflictError extends ServiceError {
+  constructor(message: string) {
+    super(message, 409);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * Resolve the HTTP status for an error thrown by a service call
+ */
+export const getErrorStatus = (error: unknown): number =>
+  error instanceof ServiceError ? error.statusCode : 500;
+
+/**
+ * Log a failed service call and send the standard error response
+ */
+export const sendErrorResponse = (res: Response, error: unknown, message: string): void => {
+  console.error(`❌ ${message}:`, error);
+  res.status(getErrorStatus(error)).json({
+    success: false,
+    message,
+    error: error instanceof Error ? error.message : 'Unknown error',
+    timestamp: new Date().toISOString(),
+  });
+};
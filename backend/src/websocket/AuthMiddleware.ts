@@ -6,11 +6,12 @@
 import { Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import { SocketData } from './types';
+import { UserRole } from '../types';
 
 interface JWTPayload {
   userId: string;
   email: string;
-  role: 'STUDENT' | 'PROFESSOR' | 'ADMIN';
+  role: UserRole;
   iat: number;
   exp: number;
 }
@@ -77,7 +78,7 @@ export const authenticateSocket = async (
  * Role-based access control for WebSocket namespaces
  */
 export const authorizeNamespace = (
-  requiredRoles: Array<'STUDENT' | 'PROFESSOR' | 'ADMIN'>
+  requiredRoles: UserRole[]
 ) => {
   return (socket: Socket, next: (err?: Error) => void): void => {
     const userRole = socket.data?.userRole;
@@ -6,6 +6,7 @@
 import { Server } from 'socket.io';
 import { MessageEvent, NotificationEvent, ProgressEvent } from './types';
 import { ConnectionManager } from './ConnectionManager';
+import { UserRole } from '../types';
 
 export class EventBroadcaster {
   constructor(
@@ -119,7 +120,7 @@ export class EventBroadcaster {
   /**
    * Broadcast to users with specific role
    */
-  broadcastToRole(role: 'STUDENT' | 'PROFESSOR' | 'ADMIN', event: string, data: any): void {
+  broadcastToRole(role: UserRole, event: string, data: any): void {
     try {
       const connections = this.connectionManager.getActiveConnections();
       
@@ -19,6 +19,7 @@ import { EventBroadcaster } from './EventBroadcaster';
 import { CollaborationHandler } from './CollaborationHandler';
 import { InsightsHandler } from './InsightsHandler';
 import { AdvancedInsightsService } from '../services/advancedInsightsService';
+import { aiAnalysisJobService } from '../services/aiAnalysisJobService';
 
 export class WebSocketServer {
   private io: SocketIOServer<
@@ -190,6 +191,23 @@ export class WebSocketServer {
       console.log('📊 Client connected to analytics namespace');
       
       const socketData = socket.data as SocketData;
+
+      // Follow an analysis job's streamed output; only its owner (or an admin) may
+      socket.on('track_progress', async ({ jobId }) => {
+        try {
+          await aiAnalysisJobService.getJob(jobId, {
+            userId: socketData.userId,
+            role: socketData.userRole,
+          });
+          await socket.join(`analysis:${jobId}`);
+        } catch {
+          socket.emit('error', `Access denied to analysis: ${jobId}`);
+        }
+      });
+      socket.on('stop_tracking', ({ jobId }) => {
+        socket.leave(`analysis:${jobId}`);
+      });
+
       if (socketData?.userId && this.insightsHandler) {
         this.insightsHandler.handleConnection(socket, socketData.userId);
         
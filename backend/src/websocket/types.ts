@@ -19,7 +19,7 @@ export interface NotificationEvent {
   type: 'notification_new' | 'notification_read';
   notificationId: string;
   userId: string;
-  notificationType: 'CNN_ANALYSIS_COMPLETE' | 'PEER_CONNECTION' | 'ASSIGNMENT_DUE' | 'NEW_MESSAGE' | 'SYSTEM_UPDATE';
+  notificationType: 'CNN_ANALYSIS_COMPLETE' | 'PEER_CONNECTION' | 'ASSIGNMENT_DUE' | 'NEW_MESSAGE' | 'SYSTEM_UPDATE' | 'ASSIGNMENT_GRADED' | 'DISCUSSION_REPLY';
   title: string;
   message: string;
   priority: 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT';
@@ -36,6 +36,21 @@ export interface ProgressEvent {
   data: Record<string, any>;
 }
 
+// Output of an AI model streamed to the `analysis:<id>` room while it is generated
+export interface AnalysisOutputEvent {
+  analysisId: string;
+  model: string;
+  // Text generated since the previous event
+  delta: string;
+  // Characters at the end of the text sent before that the delta replaces, e.g. a rejected answer being repaired
+  retracted?: number;
+  // Estimated tokens received so far, against the tokens the answer is expected to take
+  tokens: number;
+  expectedTokens: number;
+  progress: number;
+  timestamp: Date;
+}
+
 // Collaboration annotation events
 export interface AnnotationEvent {
   type: 'annotation_created' | 'annotation_updated' | 'annotation_deleted' | 'annotation_resolved';
@@ -58,10 +73,22 @@ export interface AnnotationEvent {
   timestamp: Date;
 }
 
+// Course structure events (module/step authoring)
+export interface CourseStructureEvent {
+  type: 'module_created' | 'module_updated' | 'module_deleted' | 'modules_reordered'
+    | 'step_created' | 'step_updated' | 'step_deleted' | 'steps_reordered';
+  courseId: string;
+  moduleId?: string;
+  stepId?: string;
+  order?: string[];
+  updatedBy: string;
+  timestamp: Date;
+}
+
 // WebSocket connection authentication data
 export interface AuthenticatedSocket extends Socket {
   userId: string;
-  userRole: 'STUDENT' | 'PROFESSOR' | 'ADMIN';
+  userRole: UserRole;
   courseIds: string[];
 }
 
@@ -70,7 +97,9 @@ export type ServerToClientEvents = {
   message: (data: MessageEvent) => void;
   notification: (data: NotificationEvent) => void;
   progress: (data: ProgressEvent) => void;
+  analysis_output: (data: AnalysisOutputEvent) => void;
   annotation: (data: AnnotationEvent) => void;
+  course_structure_updated: (data: CourseStructureEvent) => void;
   error: (message: string) => void;
   connected: (data: { userId: string; timestamp: Date }) => void;
   disconnected: (data: { userId: string; timestamp: Date }) => void;
@@ -89,6 +118,9 @@ export type ClientToServerEvents = {
   delete_annotation: (annotationId: string) => void;
   resolve_annotation: (annotationId: string) => void;
   heartbeat: () => void;
+  // Follow the streamed output of an analysis (analytics namespace)
+  track_progress: (data: { jobId: string; contentId?: string }) => void;
+  stop_tracking: (data: { jobId: string }) => void;
 };
 
 // Inter-server events (for scaling)
@@ -99,8 +131,9 @@ export type InterServerEvents = {
 // Socket data
 export type SocketData = {
   userId: string;
-  userRole: 'STUDENT' | 'PROFESSOR' | 'ADMIN';
+  userRole: UserRole;
   courseIds: string[];
 };
 
 import { Socket } from 'socket.io';
+import { UserRole } from '../types';
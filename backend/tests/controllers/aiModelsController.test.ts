@@ -25,6 +25,9 @@ jest.mock('../../src/config/aiServices', () => ({
   validateAIServiceConfig: jest.fn()
 }));
 
+// The result cache and usage ledger are not exercised here
+jest.mock('../../src/lib/prisma', () => ({ prisma: {} }));
+
 // Mock the AI service manager
 jest.mock('../../src/services/aiModels/AIServiceManager', () => ({
   AIServiceManager: jest.fn().mockImplementation(() => ({
@@ -36,6 +39,16 @@ jest.mock('../../src/services/aiModels/AIServiceManager', () => ({
       processingTime: 1000,
       metadata: { serviceName: 'gpt4', model: 'gpt-4' }
     }),
+    analyzeMulti: jest.fn().mockResolvedValue({
+      success: true,
+      results: new Map([
+        ['gpt4', { success: true, content: 'Test analysis', confidence: 0.9, processingTime: 1000, metadata: { serviceName: 'gpt4', model: 'gpt-4' } }],
+        ['claude', { success: false, content: '', confidence: 0, processingTime: 10, metadata: { serviceName: 'claude', model: 'claude' }, error: 'Service claude is not enabled' }]
+      ]),
+      consensus: { agreed: false, confidence: 0, summary: 'Only gpt4 produced a result', pairs: [] },
+      processingTime: 1000,
+      metadata: { servicesUsed: ['gpt4'], failedServices: ['claude'], bestResult: 'gpt4' }
+    }),
     getServiceHealth: jest.fn().mockResolvedValue(true),
     getServiceMetrics: jest.fn().mockReturnValue({
       serviceName: 'gpt4',
@@ -232,6 +245,37 @@ describe('AI Models Controller', () => {
       expect(response.body.success).toBe(false);
       expect(response.body.error).toContain('Invalid service: invalid-service');
     });
+
+    it('should return 400 for a confidence threshold outside 0 to 1', async () => {
+      const response = await request(app)
+        .post('/compare')
+        .send({
+          content: 'Test content',
+          contentType: 'text/plain',
+          services: ['gpt4'],
+          confidenceThreshold: 70
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('confidenceThreshold must be a number between 0 and 1');
+    });
+
+    it('should return consensus, the best result and per-service errors', async () => {
+      const response = await request(app)
+        .post('/compare')
+        .send({
+          content: 'Test content',
+          contentType: 'text/plain',
+          services: ['gpt4', 'claude'],
+          confidenceThreshold: 0.6
+        });
+
+      expect(response.status).toBe(200);
+      expect(Object.keys(response.body.results)).toEqual(['gpt4']);
+      expect(response.body.errors).toEqual({ claude: 'Service claude is not enabled' });
+      expect(response.body.consensus.summary).toBe('Only gpt4 produced a result');
+      expect(response.body.comparison).toEqual({ totalServices: 2, successfulServices: 1, failedServices: 1, bestResult: 'gpt4' });
+    });
   });
 
   describe('PUT /config', () => {
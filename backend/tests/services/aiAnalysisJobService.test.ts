@@ -0,0 +1,190 @@
+/**
+ * AI Analysis Job Service Tests
+ * Model selection, progress aggregation, final job status and chunked document analysis
+ */
+
+import { AIAnalysisJobStatus } from '@prisma/client';
+import {
+  analyzeInChunks,
+  jobOutcome,
+  OutputStream,
+  overallProgress,
+  parseSelectedModels,
+  streamedProgress,
+  toModelResult,
+} from '../../src/services/aiAnalysisJobService';
+
+jest.mock('../../src/lib/prisma', () => ({ prisma: {} }));
+jest.mock('../../src/services/aiModels/AIModelFactory', () => ({ aiModelFactory: { getModel: jest.fn() } }));
+jest.mock('../../src/services/WebSocketService', () => ({ webSocketService: {} }));
+jest.mock('pdf-parse', () => ({ PDFParse: jest.fn() }));
+jest.mock('mammoth', () => ({}));
+
+describe('parseSelectedModels', () => {
+  it('should accept arrays and JSON strings from multipart forms', () => {
+    expect(parseSelectedModels(['gpt4', 'claude'])).toEqual(['gpt4', 'claude']);
+    expect(parseSelectedModels('["gemini","gemini"]')).toEqual(['gemini']);
+  });
+
+  it('should reject missing, malformed and unknown models', () => {
+    expect(() => parseSelectedModels([])).toThrow('No AI models selected');
+    expect(() => parseSelectedModels('gpt4')).toThrow('Invalid selectedModels format');
+    expect(() => parseSelectedModels(['gpt4', 'llama'])).toThrow('Unknown AI models: llama');
+  });
+});
+
+describe('overallProgress', () => {
+  it('should average model progress', () => {
+    expect(overallProgress({
+      gpt4: { progress: 100, status: 'completed' },
+      claude: { progress: 10, status: 'processing' },
+      gemini: { progress: 0, status: 'pending' },
+    })).toBe(37);
+    expect(overallProgress({})).toBe(0);
+  });
+});
+
+describe('jobOutcome', () => {
+  it('should complete when every model succeeded', () => {
+    expect(jobOutcome({ gpt4: { progress: 100, status: 'completed' } })).toBe(AIAnalysisJobStatus.COMPLETED);
+  });
+
+  it('should complete with errors when only some models succeeded', () => {
+    expect(jobOutcome({
+      gpt4: { progress: 100, status: 'completed' },
+      claude: { progress: 0, status: 'error', errorMessage: 'timeout' },
+    })).toBe(AIAnalysisJobStatus.COMPLETED_WITH_ERRORS);
+  });
+
+  it('should fail when no model succeeded', () => {
+    expect(jobOutcome({ gemini: { progress: 0, status: 'error' } })).toBe(AIAnalysisJobStatus.FAILED);
+  });
+});
+
+describe('streamedProgress', () => {
+  it('should advance with the tokens received and stop short of the end of a request', () => {
+    expect(streamedProgress(0, 1, 0, 600)).toBe(10);
+    expect(streamedProgress(0, 1, 300, 600)).toBe(50);
+    expect(streamedProgress(0, 1, 2000, 600)).toBe(86);
+    expect(streamedProgress(1, 2, 300, 600)).toBe(70);
+  });
+});
+
+describe('OutputStream', () => {
+  it('should forward output in batches with the tokens of the current request', () => {
+    let now = 1000;
+    const flushed: [string, number][] = [];
+    const output = new OutputStream((delta, tokens) => flushed.push([delta, tokens]), 100, () => now);
+
+    output.push('The circuit ');
+    output.push('uses ');
+    now += 150;
+    output.push('a 555 timer.');
+    output.nextRequest();
+    output.push('Combined');
+    output.end();
+
+    expect(flushed).toEqual([
+      ['The circuit ', 3],
+      ['uses a 555 timer.', 8],
+      ['\n\nCombined', 2],
+    ]);
+  });
+
+  it('should take back the forwarded output of a restarted request', () => {
+    let now = 1000;
+    const flushed: [string, number, number][] = [];
+    const output = new OutputStream((delta, tokens, retracted) => flushed.push([delta, tokens, retracted]), 100, () => now);
+
+    output.push('Intro');
+    output.nextRequest();
+    output.push('Not JSON');
+    now += 150;
+    output.push(' at all');
+    output.listener.restart?.();
+    output.listener('{"summary": "ok"}');
+    output.end();
+
+    expect(flushed).toEqual([
+      ['Intro', 2, 0],
+      ['\n\nNot JSON at all', 4, 0],
+      ['', 0, 15],
+      ['{"summary": "ok"}', 5, 0],
+    ]);
+  });
+});
+
+describe('toModelResult', () => {
+  it('should map provider output without inventing findings', () => {
+    const result = toModelResult('claude', {
+      summary: 'A circuit diagram',
+      keyPoints: ['Uses a 555 timer'],
+      topics: ['education'],
+      confidence: 0.8,
+      processingTime: 1200,
+    });
+
+    expect(result).toMatchObject({
+      model: 'claude',
+      status: 'completed',
+      confidence: 0.8,
+      processingTime: 1200,
+      results: {
+        description: 'A circuit diagram',
+        insights: ['Uses a 555 timer'],
+        entities: [{ entity: 'education', type: 'concept', confidence: 0.8 }],
+        recommendations: [],
+      },
+    });
+  });
+});
+
+describe('analyzeInChunks', () => {
+  const chunks = [
+    { index: 0, label: 'Page 1', text: '[Page 1]\nIntroduction to circuits' },
+    { index: 1, label: 'Page 2 - Page 3', text: '[Page 2]\nOhm\'s law\n\n[Page 3]\nKirchhoff\'s laws' },
+  ];
+
+  it('should analyze each chunk, then combine the partial analyses', async () => {
+    const analyze = jest.fn(async (content: string) => ({
+      summary: content.startsWith('Part') ? `summary of ${content.split(' ')[1]}` : 'whole document',
+      processingTime: 100,
+    }));
+    const progress: number[][] = [];
+
+    const result = await analyzeInChunks({ analyze } as any, chunks, {
+      documentName: 'notes.pdf',
+      maxLength: 1000,
+      onProgress: (done, total) => progress.push([done, total]),
+    });
+
+    expect(analyze).toHaveBeenCalledTimes(3);
+    expect(analyze.mock.calls[0]![0]).toContain('Part 1 of 2 (Page 1) of "notes.pdf"');
+    expect(analyze.mock.calls[1]![0]).toContain('Part 2 of 2 (Page 2 - Page 3)');
+    const combine = analyze.mock.calls[2]![0];
+    expect(combine).toContain('[Part 1: Page 1]\nsummary of 1');
+    expect(combine).toContain('[Part 2: Page 2 - Page 3]\nsummary of 2');
+    expect(result).toMatchObject({ summary: 'whole document', processingTime: 300, metadata: { chunks: 2 } });
+    expect(progress).toEqual([[1, 3], [2, 3], [3, 3]]);
+  });
+
+  it('should condense partial analyses that are too long to combine at once', async () => {
+    const analyze = jest.fn(async (content: string) => ({
+      summary: content.startsWith('Part') ? 'x'.repeat(200) : 'short',
+    }));
+
+    const result = await analyzeInChunks({ analyze } as any, chunks, { documentName: 'notes.pdf', maxLength: 350 });
+
+    expect(analyze.mock.calls.length).toBeGreaterThan(3);
+    analyze.mock.calls.forEach(([content]) => expect(content.length).toBeLessThanOrEqual(350));
+    expect(result.summary).toBe('short');
+  });
+
+  it('should stop at the first failing chunk', async () => {
+    const analyze = jest.fn().mockRejectedValue(new Error('aborted'));
+
+    await expect(analyzeInChunks({ analyze } as any, chunks, { documentName: 'notes.pdf', maxLength: 1000 }))
+      .rejects.toThrow('aborted');
+    expect(analyze).toHaveBeenCalledTimes(1);
+  });
+});
@@ -5,6 +5,7 @@
 
 import { AIServiceManager, AIServiceManagerConfig } from '../../../src/services/aiModels/AIServiceManager';
 import { AIServiceConfig, AIServiceType } from '../../../src/services/aiModels/types';
+import { builtinPrompt } from '../../../src/config/promptTemplates';
 
 // Mock the AI services
 jest.mock('../../../src/services/aiModels/GPT4Service');
@@ -115,7 +116,7 @@ describe('AIServiceManager', () => {
       const result = await serviceManager.analyzeContent('test content', 'text/plain');
       
       expect(result).toEqual(mockResponse);
-      expect(mockCircuitBreaker.fire).toHaveBeenCalledWith('test content', 'text/plain');
+      expect(mockCircuitBreaker.fire).toHaveBeenCalledWith('test content', 'text/plain', builtinPrompt('content-analysis'));
     });
 
     it('should use preferred service when specified', async () => {
@@ -138,7 +139,7 @@ describe('AIServiceManager', () => {
       const result = await serviceManager.analyzeContent('test content', 'text/plain', 'claude');
       
       expect(result).toEqual(mockResponse);
-      expect(mockCircuitBreaker.fire).toHaveBeenCalledWith('test content', 'text/plain');
+      expect(mockCircuitBreaker.fire).toHaveBeenCalledWith('test content', 'text/plain', builtinPrompt('content-analysis'));
     });
 
     it('should fallback to next service when primary fails', async () => {
@@ -169,7 +170,7 @@ describe('AIServiceManager', () => {
       
       expect(result).toEqual(fallbackResponse);
       expect(mockPrimaryCircuitBreaker.fire).toHaveBeenCalled();
-      expect(mockFallbackCircuitBreaker.fire).toHaveBeenCalledWith('test content', 'text/plain');
+      expect(mockFallbackCircuitBreaker.fire).toHaveBeenCalledWith('test content', 'text/plain', builtinPrompt('content-analysis'));
     });
 
     it('should throw error when all services fail', async () => {
@@ -187,6 +188,57 @@ describe('AIServiceManager', () => {
     });
   });
 
+  describe('analyzeMulti()', () => {
+    beforeEach(async () => {
+      await serviceManager.initialize();
+    });
+
+    const answer = (serviceName: string, content: string) => ({
+      success: true,
+      content,
+      confidence: 0.8,
+      processingTime: 1000,
+      metadata: { serviceName, model: serviceName, categories: ['Biology'], sentimentScore: 0.4 },
+    });
+
+    it('should run each service without falling back and score their consensus', async () => {
+      (serviceManager as any).circuitBreakers.set('gpt4', {
+        fire: jest.fn().mockResolvedValue(answer('gpt4', 'Photosynthesis turns light into chemical energy in the Chloroplast.')),
+      });
+      (serviceManager as any).circuitBreakers.set('claude', {
+        fire: jest.fn().mockRejectedValue(new Error('Rate limited')),
+      });
+
+      const result = await serviceManager.analyzeMulti({
+        content: 'test content',
+        contentType: 'text/plain',
+        services: ['gpt4', 'claude'],
+        options: { requireConsensus: true, confidenceThreshold: 0.6 },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.results.get('claude')).toMatchObject({ success: false, error: 'Rate limited' });
+      expect(result.metadata).toEqual({ servicesUsed: ['gpt4'], failedServices: ['claude'], bestResult: 'gpt4' });
+      expect(result.consensus?.warning).toContain('only gpt4 answered');
+    });
+
+    it('should leave consensus out unless it is required', async () => {
+      const content = 'Photosynthesis turns light into chemical energy in the Chloroplast.';
+      (serviceManager as any).circuitBreakers.set('gpt4', { fire: jest.fn().mockResolvedValue(answer('gpt4', content)) });
+      (serviceManager as any).circuitBreakers.set('claude', { fire: jest.fn().mockResolvedValue(answer('claude', content)) });
+
+      const result = await serviceManager.analyzeMulti({
+        content: 'test content',
+        contentType: 'text/plain',
+        services: ['gpt4', 'claude'],
+      });
+
+      expect(result.consensus).toBeUndefined();
+      expect(result.metadata.bestResult).toBeUndefined();
+      expect([...result.results.keys()]).toEqual(['gpt4', 'claude']);
+    });
+  });
+
   describe('getServiceHealth()', () => {
     beforeEach(async () => {
       await serviceManager.initialize();
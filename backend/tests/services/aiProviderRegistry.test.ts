@@ -0,0 +1,155 @@
+/**
+ * AI Provider Registry Tests
+ * Loading and validating provider and model declarations, availability and building
+ * models and services from them
+ */
+
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  AIProvidersConfig,
+  getAvailableModels,
+  getModelContentLength,
+  getModelImageDimension,
+  getProvider,
+  loadAIProvidersConfig,
+  mergeAIProvidersConfig,
+  validateAIProvidersConfig,
+} from '../../src/config/aiProviders';
+import { createAIServiceConfigs } from '../../src/config/aiServices';
+import { AIProviderRegistry, createAIService } from '../../src/services/aiModels/AIProviderRegistry';
+import { OpenAICompatibleService } from '../../src/services/aiModels/OpenAICompatibleService';
+import { OpenRouterIntegration } from '../../src/services/aiModels/OpenRouterIntegration';
+
+const localModel = {
+  id: 'llama',
+  provider: 'local',
+  model: 'llama3.1:8b',
+  displayName: 'Llama 3.1 8B',
+  capabilities: { vision: false, jsonMode: true, contextTokens: 8000 },
+};
+
+const writeProvidersFile = (contents: unknown): string => {
+  const file = path.join(mkdtempSync(path.join(tmpdir(), 'ai-providers-')), 'providers.json');
+  writeFileSync(file, JSON.stringify(contents));
+  return file;
+};
+
+describe('loadAIProvidersConfig', () => {
+  it('should make OpenRouter models available once the key is set', () => {
+    const env = { OPENROUTER_API_KEY: 'or-key' };
+    const ids = getAvailableModels(loadAIProvidersConfig(env), env).map(model => model.id);
+
+    expect(ids).toEqual(['gpt4', 'claude', 'gemini']);
+    expect(getAvailableModels(loadAIProvidersConfig({}), {})).toEqual([]);
+  });
+
+  it('should only use the local provider when its endpoint is set, without a key', () => {
+    const env = { LOCAL_AI_ENDPOINT: 'http://localhost:11434/v1', LOCAL_AI_MODEL: 'qwen2.5' };
+    const [model] = getAvailableModels(loadAIProvidersConfig(env), env);
+
+    expect(model).toMatchObject({ id: 'local', model: 'qwen2.5', provider: 'local' });
+  });
+
+  it('should add and override models from AI_PROVIDERS_FILE', () => {
+    const env = {
+      OPENROUTER_API_KEY: 'or-key',
+      LOCAL_AI_ENDPOINT: 'http://gpu-box:8000/v1',
+      AI_PROVIDERS_FILE: writeProvidersFile({
+        models: [localModel, { id: 'gemini', enabled: false }, { id: 'gpt4', capabilities: { vision: false } }],
+      }),
+    };
+    const config = loadAIProvidersConfig(env);
+    const available = getAvailableModels(config, env);
+
+    expect(available.map(model => model.id)).toEqual(['gpt4', 'claude', 'local', 'llama']);
+    expect(available[0]!.capabilities).toEqual({ vision: false, jsonMode: true, contextTokens: 128000 });
+    expect(getModelContentLength(available[3]!)).toBe(24000);
+  });
+
+  it('should reject unreadable files', () => {
+    expect(() => loadAIProvidersConfig({ AI_PROVIDERS_FILE: '/nonexistent/providers.json' }))
+      .toThrow('Could not read AI_PROVIDERS_FILE');
+  });
+});
+
+describe('validateAIProvidersConfig', () => {
+  const base = loadAIProvidersConfig({});
+  const withModel = (model: object): AIProvidersConfig =>
+    mergeAIProvidersConfig(base, { models: [model as any] });
+
+  it('should reject unknown providers, kinds and incomplete capabilities', () => {
+    expect(() => validateAIProvidersConfig(withModel({ ...localModel, provider: 'nowhere' })))
+      .toThrow('AI model llama uses unknown provider: nowhere');
+    expect(() => validateAIProvidersConfig(withModel({ ...localModel, capabilities: { vision: true } })))
+      .toThrow('AI model llama needs vision, jsonMode and contextTokens capabilities');
+    expect(() => validateAIProvidersConfig(
+      mergeAIProvidersConfig(base, { providers: [{ id: 'vertex', kind: 'vertex' as any }] })
+    )).toThrow('AI provider vertex has unknown kind: vertex');
+    expect(() => validateAIProvidersConfig(withModel({ ...localModel, maxImageDimension: 0 })))
+      .toThrow('AI model llama needs a positive maxImageDimension');
+    expect(() => validateAIProvidersConfig(
+      mergeAIProvidersConfig(base, { providers: [{ id: 'local', kind: 'openai-compatible', limits: { requestsPerMinute: -1 } }] })
+    )).toThrow('AI provider local needs positive limits');
+  });
+});
+
+describe('createAIServiceConfigs', () => {
+  const keys = ['OPENROUTER_API_KEY', 'OPENROUTER_RPM', 'OPENROUTER_REQUESTS_PER_HOUR'];
+
+  afterEach(() => keys.forEach(key => delete process.env[key]));
+
+  it('should default rate limits per provider and still read the older OpenRouter names', () => {
+    process.env['OPENROUTER_API_KEY'] = 'sk-or-test';
+    const [defaults] = createAIServiceConfigs();
+
+    expect(defaults?.rateLimit).toEqual({ requestsPerMinute: 100, requestsPerHour: 1000 });
+    expect(defaults?.circuitBreaker?.monitoringPeriod).toBe(300000);
+
+    process.env['OPENROUTER_RPM'] = '20';
+    process.env['OPENROUTER_REQUESTS_PER_HOUR'] = '500';
+    expect(createAIServiceConfigs()[0]?.rateLimit).toEqual({ requestsPerMinute: 20, requestsPerHour: 500 });
+  });
+});
+
+describe('getModelImageDimension', () => {
+  it('should size images by the model, then its provider', () => {
+    const config = loadAIProvidersConfig({});
+    const model = (id: string) => config.models.find(candidate => candidate.id === id)!;
+
+    expect(getModelImageDimension(model('claude'), getProvider('openrouter', config)!)).toBe(1568);
+    expect(getModelImageDimension(model('gpt4'), getProvider('openrouter', config)!)).toBe(2048);
+    expect(getModelImageDimension(model('local'), getProvider('local', config)!)).toBe(1024);
+  });
+});
+
+describe('AIProviderRegistry', () => {
+  const env = { OPENROUTER_API_KEY: 'or-key', LOCAL_AI_ENDPOINT: 'http://localhost:11434/v1' };
+  const registry = new AIProviderRegistry(() => loadAIProvidersConfig(env), env);
+
+  it('should build service configurations from the provider and model', () => {
+    expect(registry.getServiceConfig('claude')).toMatchObject({
+      serviceName: 'claude',
+      providerKind: 'openai-compatible',
+      apiKey: 'or-key',
+      endpoint: 'https://openrouter.ai/api/v1',
+      models: ['anthropic/claude-3.5-sonnet'],
+      maxContentLength: 100000,
+    });
+    expect(registry.getServiceConfig('local')).toMatchObject({ apiKey: 'not-needed', endpoint: 'http://localhost:11434/v1' });
+    expect(() => registry.getServiceConfig('deepseek')).toThrow('AI model deepseek is not available');
+  });
+
+  it('should create OpenAI-compatible analysis models and services', () => {
+    const model = registry.createModel('local');
+
+    expect(model).toBeInstanceOf(OpenRouterIntegration);
+    expect(model.getEstimatedTime()).toBe(5000);
+    expect(createAIService('local', registry.getServiceConfig('local'))).toBeInstanceOf(OpenAICompatibleService);
+  });
+
+  it('should reject services without a known provider kind', () => {
+    expect(() => createAIService('invalid-service', { apiKey: 'key' })).toThrow('Unsupported AI service type: invalid-service');
+  });
+});
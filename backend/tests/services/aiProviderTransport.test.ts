@@ -0,0 +1,182 @@
+/**
+ * AI Provider Transport Tests
+ * Request fingerprints, recording and replaying fixtures, the scripted fake provider, and
+ * AIServiceManager fallback running on it without network
+ */
+
+import { getEventListeners } from 'events';
+import { mkdtempSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  AIProviderTransport,
+  aiProviderTransport,
+  defaultFakeText,
+  fingerprintRequest,
+  ProviderRequest,
+  sanitizeRequest,
+} from '../../src/services/aiModels/AIProviderTransport';
+import { AIServiceManager } from '../../src/services/aiModels/AIServiceManager';
+import { AIServiceConfig } from '../../src/services/aiModels/types';
+
+const request: ProviderRequest = {
+  provider: 'openrouter',
+  model: 'openai/gpt-4o',
+  messages: [{ role: 'user', content: 'Summarize photosynthesis' }],
+  options: { temperature: 0.3, max_tokens: 1000 },
+};
+
+const withImage = (data: string): ProviderRequest => ({
+  ...request,
+  messages: [{ role: 'user', content: [{ type: 'image_url', image_url: { url: `data:image/png;base64,${data}` } }] }],
+});
+
+const fixturesDir = () => mkdtempSync(path.join(tmpdir(), 'ai-fixtures-'));
+
+describe('fingerprintRequest', () => {
+  it('should ignore key order and tell requests apart', () => {
+    const reordered = { options: { max_tokens: 1000, temperature: 0.3 }, messages: request.messages, model: request.model, provider: 'openrouter' };
+
+    expect(fingerprintRequest(reordered)).toBe(fingerprintRequest(request));
+    expect(fingerprintRequest({ ...request, model: 'anthropic/claude-3.5-sonnet' })).not.toBe(fingerprintRequest(request));
+    expect(fingerprintRequest(withImage('AAAA'))).not.toBe(fingerprintRequest(withImage('AAAB')));
+  });
+
+  it('should store inline images as digests', () => {
+    const sanitized = JSON.stringify(sanitizeRequest(withImage('AAAA')));
+
+    expect(sanitized).toContain('data:image/png;sha256,');
+    expect(sanitized).not.toContain('AAAA');
+  });
+});
+
+describe('AIProviderTransport record and replay', () => {
+  it('should replay what was recorded without calling the provider', async () => {
+    const dir = fixturesDir();
+    const live = jest.fn().mockResolvedValue({ text: 'Light becomes sugar', tokens: { input: 12, output: 4 } });
+
+    const recorder = new AIProviderTransport({ mode: 'record', fixturesDir: dir });
+    await expect(recorder.complete(request, live)).resolves.toEqual({ text: 'Light becomes sugar', tokens: { input: 12, output: 4 } });
+    expect(readdirSync(path.join(dir, 'openrouter'))).toEqual([`${fingerprintRequest(request)}.json`]);
+
+    const replayer = new AIProviderTransport({ mode: 'replay', fixturesDir: dir });
+    await expect(replayer.complete(request, live)).resolves.toEqual({ text: 'Light becomes sugar', tokens: { input: 12, output: 4 } });
+    expect(live).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail replay of requests that were never recorded', async () => {
+    const replayer = new AIProviderTransport({ mode: 'replay', fixturesDir: fixturesDir() });
+
+    await expect(replayer.complete(request, jest.fn())).rejects.toThrow(
+      `No recorded response for openrouter/openai/gpt-4o (${fingerprintRequest(request)})`
+    );
+  });
+});
+
+describe('AIProviderTransport fake provider', () => {
+  it('should answer deterministically, in JSON when asked for it', async () => {
+    const fake = new AIProviderTransport({ mode: 'fake' });
+    const json = { ...request, messages: [{ role: 'user', content: 'Format as JSON with confidence' }] };
+
+    const first = await fake.complete(request, jest.fn());
+    expect(first.text).toBe(defaultFakeText(request));
+    expect((await fake.complete(request, jest.fn())).text).toBe(first.text);
+    expect(first.text).toContain('CONFIDENCE: 80');
+    expect(JSON.parse((await fake.complete(json, jest.fn())).text)).toMatchObject({ confidence: 0.8 });
+  });
+
+  it('should apply scripted failures and outputs in rule order', async () => {
+    const fake = new AIProviderTransport({
+      mode: 'fake',
+      script: {
+        rules: [
+          { model: 'openai/gpt-4o', error: 'Rate limited', times: 1 },
+          { match: 'photosynthesis', text: 'Scripted answer', tokens: { input: 1, output: 2 } },
+        ],
+      },
+    });
+
+    await expect(fake.complete(request, jest.fn())).rejects.toThrow('Rate limited');
+    await expect(fake.complete(request, jest.fn())).resolves.toEqual({ text: 'Scripted answer', tokens: { input: 1, output: 2 } });
+  });
+
+  it('should stop waiting out its latency when cancelled', async () => {
+    const fake = new AIProviderTransport({ mode: 'fake', script: { latencyMs: 60000 } });
+    const controller = new AbortController();
+
+    const pending = fake.complete(request, jest.fn(), controller.signal);
+    controller.abort(new Error('Cancelled'));
+
+    await expect(pending).rejects.toThrow('Cancelled');
+  });
+
+  it('should stream its answer in chunks', async () => {
+    const fake = new AIProviderTransport({
+      mode: 'fake',
+      script: { rules: [{ text: 'Plants turn light into chemical energy.' }] },
+    });
+    const chunks: string[] = [];
+
+    const response = await fake.complete(request, jest.fn(), undefined, text => chunks.push(text));
+
+    expect(chunks).toEqual(['Plants turn light ', 'into chemical energy.']);
+    expect(chunks.join('')).toBe(response.text);
+  });
+
+  it('should not leave cancellation listeners behind once its chunks are sent', async () => {
+    const fake = new AIProviderTransport({
+      mode: 'fake',
+      script: { latencyMs: 4, rules: [{ text: 'Plants turn light into chemical energy.' }] },
+    });
+    const controller = new AbortController();
+
+    await fake.complete(request, jest.fn(), controller.signal, jest.fn());
+
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+});
+
+describe('AIProviderTransport live streaming', () => {
+  it('should hand over the whole answer when the provider does not stream', async () => {
+    const live = new AIProviderTransport({ mode: 'live' });
+    const chunks: string[] = [];
+
+    await live.complete(request, async () => ({ text: 'Whole answer' }), undefined, text => chunks.push(text));
+
+    expect(chunks).toEqual(['Whole answer']);
+  });
+});
+
+describe('AIServiceManager on the fake provider', () => {
+  const service = (id: string, model: string): AIServiceConfig => ({
+    serviceName: id,
+    provider: 'openrouter',
+    providerKind: 'openai-compatible',
+    apiKey: 'not-needed',
+    endpoint: 'https://openrouter.ai/api/v1',
+    models: [model],
+  });
+
+  afterEach(() => aiProviderTransport.configure({ mode: 'live', script: {} }));
+
+  it('should fall back when the primary provider fails', async () => {
+    aiProviderTransport.configure({
+      mode: 'fake',
+      script: { rules: [{ model: 'openai/gpt-4o', error: 'Service unavailable' }] },
+    });
+    const manager = new AIServiceManager({
+      services: [service('gpt4', 'openai/gpt-4o'), service('claude', 'anthropic/claude-3.5-sonnet')],
+      enabledServices: ['gpt4', 'claude'],
+      fallbackOrder: ['gpt4', 'claude'],
+      circuitBreakerOptions: { timeout: 5000, errorThresholdPercentage: 50, resetTimeout: 60000 },
+      defaultService: 'gpt4',
+    });
+
+    const response = await manager.analyzeContent('Photosynthesis turns light into sugar.', 'text/plain');
+
+    expect(response.success).toBe(true);
+    expect(response.metadata.model).toBe('anthropic/claude-3.5-sonnet');
+    expect(response.metadata.tokens?.output).toBeGreaterThan(0);
+    await manager.cleanup();
+  });
+});
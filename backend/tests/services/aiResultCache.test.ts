@@ -0,0 +1,145 @@
+/**
+ * AI Result Cache Tests
+ * Content hashing, cache hits and misses, expiry and purging
+ */
+
+import { AIResultCache, cacheKey, hashContent, withCacheHit } from '../../src/services/aiResultCache';
+
+jest.mock('../../src/lib/prisma', () => ({
+  prisma: {
+    aIResultCache: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+import { prisma } from '../../src/lib/prisma';
+
+const mockCache = (prisma as any).aIResultCache;
+
+const parts = { contentHash: 'abc', model: 'gpt4', promptVersion: 'v1' };
+
+describe('hashContent', () => {
+  it('should be stable for the same content and change with the file', async () => {
+    const image = { mimetype: 'image/png', path: '', buffer: Buffer.from([1, 2, 3]) };
+
+    expect(await hashContent('notes')).toBe(await hashContent('notes'));
+    expect(await hashContent('notes')).not.toBe(await hashContent('notes!'));
+    expect(await hashContent('notes', image)).not.toBe(await hashContent('notes'));
+    expect(await hashContent('notes', image)).not.toBe(
+      await hashContent('notes', { ...image, buffer: Buffer.from([1, 2, 4]) })
+    );
+  });
+});
+
+describe('cacheKey and withCacheHit', () => {
+  it('should key by model, prompt version and content', () => {
+    expect(cacheKey(parts)).toBe('gpt4:v1:abc');
+    expect(cacheKey({ ...parts, promptVersion: 'v2' })).not.toBe(cacheKey(parts));
+  });
+
+  it('should flag results in their metadata', () => {
+    expect(withCacheHit({ summary: 's', metadata: { model: 'x' } }, true)).toEqual({
+      summary: 's',
+      metadata: { model: 'x', cacheHit: true },
+    });
+  });
+});
+
+describe('AIResultCache', () => {
+  let cache: AIResultCache;
+  const compute = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cache = new AIResultCache(24);
+    compute.mockResolvedValue({ summary: 'fresh' });
+  });
+
+  it('should return a stored result without computing it again', async () => {
+    mockCache.findUnique.mockResolvedValue({
+      id: 'entry-1',
+      result: { summary: 'cached' },
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    await expect(cache.getOrCompute(parts, compute)).resolves.toEqual({
+      result: { summary: 'cached' },
+      cacheHit: true,
+    });
+    expect(compute).not.toHaveBeenCalled();
+    expect(mockCache.update).toHaveBeenCalledWith({ where: { id: 'entry-1' }, data: { hits: { increment: 1 } } });
+  });
+
+  it('should compute and store on a miss', async () => {
+    mockCache.findUnique.mockResolvedValue(null);
+
+    await expect(cache.getOrCompute(parts, compute)).resolves.toEqual({
+      result: { summary: 'fresh' },
+      cacheHit: false,
+    });
+    expect(mockCache.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { key: 'gpt4:v1:abc' },
+      create: expect.objectContaining({ ...parts, key: 'gpt4:v1:abc', result: { summary: 'fresh' } }),
+    }));
+  });
+
+  it('should ignore and remove expired entries', async () => {
+    mockCache.findUnique.mockResolvedValue({ id: 'entry-1', result: {}, expiresAt: new Date(Date.now() - 1) });
+
+    const { cacheHit } = await cache.getOrCompute(parts, compute);
+
+    expect(cacheHit).toBe(false);
+    expect(mockCache.deleteMany).toHaveBeenCalledWith({ where: { id: 'entry-1' } });
+    expect(compute).toHaveBeenCalled();
+  });
+
+  it('should not store results rejected by shouldCache', async () => {
+    mockCache.findUnique.mockResolvedValue(null);
+
+    await cache.getOrCompute(parts, compute, () => false);
+
+    expect(mockCache.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should still analyze when the cache itself fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockCache.findUnique.mockRejectedValue(new Error('db down'));
+    mockCache.upsert.mockRejectedValue(new Error('db down'));
+
+    await expect(cache.getOrCompute(parts, compute)).resolves.toEqual({
+      result: { summary: 'fresh' },
+      cacheHit: false,
+    });
+  });
+
+  it('should bypass the store when the TTL is 0', async () => {
+    await new AIResultCache(0).getOrCompute(parts, compute);
+
+    expect(mockCache.findUnique).not.toHaveBeenCalled();
+    expect(mockCache.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should key requests by content hash and current prompt version and flag the result', async () => {
+    mockCache.findUnique.mockResolvedValue(null);
+    const contentHash = await hashContent('notes');
+
+    await expect(cache.withCache({ content: 'notes', model: 'claude' }, compute)).resolves.toEqual({
+      summary: 'fresh',
+      metadata: { cacheHit: false },
+    });
+    expect(mockCache.findUnique).toHaveBeenCalledWith({ where: { key: `claude:v1:${contentHash}` } });
+  });
+
+  it('should purge by filter', async () => {
+    mockCache.deleteMany.mockResolvedValue({ count: 3 });
+
+    await expect(cache.purge({ model: 'claude', expiredOnly: true })).resolves.toBe(3);
+    expect(mockCache.deleteMany).toHaveBeenCalledWith({
+      where: { model: 'claude', expiresAt: { lte: expect.any(Date) } },
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * AI Usage Service Tests
+ * Token extraction, cost estimates, budget periods and budget enforcement
+ */
+
+import { AIBudgetAction, AIBudgetPeriod, AIBudgetScope } from '@prisma/client';
+import {
+  AIUsageService,
+  estimateCost,
+  extractTokenUsage,
+  periodStart,
+  resolveModels,
+} from '../../src/services/aiUsageService';
+import { UserRole } from '../../src/types';
+import { ForbiddenError, ServiceError } from '../../src/utils/errors';
+
+jest.mock('../../src/lib/prisma', () => ({
+  prisma: {
+    aIBudget: { findMany: jest.fn(), findUnique: jest.fn(), upsert: jest.fn() },
+    aIUsageRecord: { create: jest.fn(), aggregate: jest.fn() },
+    course: { findUnique: jest.fn() },
+    courseEnrollment: { findFirst: jest.fn(), findUnique: jest.fn(), findMany: jest.fn() },
+    user: { findUnique: jest.fn() },
+  },
+}));
+
+import { prisma } from '../../src/lib/prisma';
+
+const mockPrisma = prisma as any;
+
+const student = { userId: 'student-1', role: UserRole.STUDENT };
+const studentId = 'a'.repeat(24);
+
+const budget = (overrides: Record<string, unknown> = {}) => ({
+  id: 'budget-1',
+  scope: AIBudgetScope.USER,
+  scopeId: 'student-1',
+  period: AIBudgetPeriod.DAILY,
+  limitUsd: 1,
+  action: AIBudgetAction.REJECT,
+  ...overrides,
+});
+
+describe('extractTokenUsage', () => {
+  it('should read OpenRouter usage and AIServiceManager tokens', () => {
+    expect(extractTokenUsage({ metadata: { usage: { prompt_tokens: 120, completion_tokens: 30 } } }))
+      .toEqual({ input: 120, output: 30 });
+    expect(extractTokenUsage({ metadata: { tokens: { input: 5, output: 7 } } })).toEqual({ input: 5, output: 7 });
+    expect(extractTokenUsage({ summary: 'no usage' })).toBeNull();
+  });
+});
+
+describe('estimateCost', () => {
+  it('should price tokens per million by model', () => {
+    expect(estimateCost('gpt4', { input: 1_000_000, output: 100_000 })).toBe(3.5);
+    expect(estimateCost('gemini', { input: 1_000_000, output: 1_000_000 })).toBe(0);
+    expect(estimateCost('unknown', { input: 1000, output: 1000 })).toBe(0);
+    expect(estimateCost('claude', null)).toBe(0);
+  });
+});
+
+describe('periodStart', () => {
+  it('should start daily budgets at UTC midnight and monthly budgets on the 1st', () => {
+    const now = new Date('2025-03-15T18:30:00Z');
+    expect(periodStart(AIBudgetPeriod.DAILY, now).toISOString()).toBe('2025-03-15T00:00:00.000Z');
+    expect(periodStart(AIBudgetPeriod.MONTHLY, now).toISOString()).toBe('2025-03-01T00:00:00.000Z');
+  });
+});
+
+describe('resolveModels', () => {
+  const candidates = ['gpt4', 'claude', 'gemini'];
+
+  it('should keep the requested models while budgets remain', () => {
+    expect(resolveModels(['gpt4', 'claude'], [], candidates)).toEqual(['gpt4', 'claude']);
+  });
+
+  it('should reject once a rejecting budget is used up', () => {
+    expect(() => resolveModels(['gpt4'], [budget()], candidates)).toThrow('Daily user AI budget ($1.00) is used up');
+  });
+
+  it('should downgrade to the cheapest model once a downgrading budget is used up', () => {
+    const exhausted = [budget({ action: AIBudgetAction.DOWNGRADE })];
+    expect(resolveModels(['gpt4', 'claude'], exhausted, candidates)).toEqual(['gemini']);
+    expect(resolveModels(['gemini'], exhausted, candidates)).toEqual(['gemini']);
+  });
+});
+
+describe('AIUsageService', () => {
+  let service: AIUsageService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new AIUsageService();
+  });
+
+  it('should record provider calls with their estimated cost', async () => {
+    await service.record({
+      userId: 'student-1',
+      model: 'claude',
+      source: 'ai-analysis',
+      jobId: 'job-1',
+      tokens: { input: 1000, output: 500 },
+    });
+
+    expect(mockPrisma.aIUsageRecord.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ model: 'claude', inputTokens: 1000, outputTokens: 500, costUsd: 0.0105 }),
+    });
+  });
+
+  it('should charge course budgets to the course and other budgets to the user', async () => {
+    mockPrisma.aIBudget.findMany.mockResolvedValue([
+      budget({ scope: AIBudgetScope.ROLE, scopeId: UserRole.STUDENT, limitUsd: 0.5 }),
+      budget({ id: 'budget-2', scope: AIBudgetScope.COURSE, scopeId: 'course-1', period: AIBudgetPeriod.MONTHLY }),
+    ]);
+    mockPrisma.aIUsageRecord.aggregate
+      .mockResolvedValueOnce({ _sum: { costUsd: 0.5 } })
+      .mockResolvedValueOnce({ _sum: { costUsd: 0.25 } });
+
+    const status = await service.getBudgetStatus({ ...student, courseId: 'course-1' });
+
+    expect(mockPrisma.aIUsageRecord.aggregate.mock.calls[0][0].where).toMatchObject({ userId: 'student-1' });
+    expect(mockPrisma.aIUsageRecord.aggregate.mock.calls[1][0].where).toMatchObject({ courseId: 'course-1' });
+    expect(status.map(({ exhausted, remainingUsd }) => ({ exhausted, remainingUsd }))).toEqual([
+      { exhausted: true, remainingUsd: 0 },
+      { exhausted: false, remainingUsd: 0.75 },
+    ]);
+  });
+
+  it('should reject requests with a 429 once a budget is used up', async () => {
+    mockPrisma.aIBudget.findMany.mockResolvedValue([budget()]);
+    mockPrisma.aIUsageRecord.aggregate.mockResolvedValue({ _sum: { costUsd: 1.2 } });
+
+    const request = service.applyBudgets(['gpt4'], student, ['gpt4', 'gemini']);
+
+    await expect(request).rejects.toBeInstanceOf(ServiceError);
+    await expect(request).rejects.toMatchObject({ statusCode: 429 });
+  });
+
+  describe('resolveCourse', () => {
+    it('should bill requests without a courseId to the student\'s only course', async () => {
+      mockPrisma.courseEnrollment.findMany.mockResolvedValue([{ courseId: 'course-1' }]);
+
+      await expect(service.resolveCourse(undefined, student)).resolves.toBe('course-1');
+    });
+
+    it('should bill to the only budgeted course, and ask which course when several have budgets', async () => {
+      mockPrisma.courseEnrollment.findMany.mockResolvedValue([
+        { courseId: 'course-1' }, { courseId: 'course-2' }, { courseId: 'course-3' },
+      ]);
+      mockPrisma.aIBudget.findMany.mockResolvedValueOnce([{ scopeId: 'course-2' }, { scopeId: 'course-2' }]);
+
+      await expect(service.resolveCourse('', student)).resolves.toBe('course-2');
+
+      mockPrisma.aIBudget.findMany.mockResolvedValueOnce([{ scopeId: 'course-2' }, { scopeId: 'course-3' }]);
+      await expect(service.resolveCourse(null, student)).rejects.toThrow('courseId is required');
+    });
+  });
+
+  describe('setBudget', () => {
+    const data = { scope: AIBudgetScope.USER, scopeId: studentId, period: AIBudgetPeriod.DAILY, limitUsd: 2 };
+
+    it('should let professors budget students in their courses', async () => {
+      mockPrisma.courseEnrollment.findFirst.mockResolvedValue({ id: 'enrollment-1' });
+      mockPrisma.aIBudget.upsert.mockResolvedValue({ id: 'budget-1' });
+
+      await service.setBudget(data, { userId: 'prof-1', role: UserRole.PROFESSOR });
+
+      expect(mockPrisma.courseEnrollment.findFirst).toHaveBeenCalledWith({
+        where: { userId: studentId, isActive: true, course: { ownerId: 'prof-1' } },
+      });
+      expect(mockPrisma.aIBudget.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({ ...data, action: AIBudgetAction.REJECT, createdById: 'prof-1' }),
+      }));
+    });
+
+    it('should keep role budgets and other students to admins', async () => {
+      mockPrisma.courseEnrollment.findFirst.mockResolvedValue(null);
+      const professor = { userId: 'prof-1', role: UserRole.PROFESSOR };
+
+      await expect(service.setBudget(data, professor)).rejects.toBeInstanceOf(ForbiddenError);
+      await expect(service.setBudget({ ...data, scope: AIBudgetScope.ROLE, scopeId: UserRole.STUDENT }, professor))
+        .rejects.toThrow('Only admins can set role budgets');
+      await expect(service.setBudget(data, student)).rejects.toBeInstanceOf(ForbiddenError);
+    });
+
+    it('should not let professors replace budgets set by admins or other instructors', async () => {
+      const professor = { userId: 'prof-1', role: UserRole.PROFESSOR };
+      mockPrisma.courseEnrollment.findFirst.mockResolvedValue({ id: 'enrollment-1' });
+      mockPrisma.aIBudget.findUnique.mockResolvedValue(budget({ scopeId: studentId, createdById: 'admin-1' }));
+      mockPrisma.user.findUnique.mockResolvedValueOnce({ role: 'ADMIN' }).mockResolvedValueOnce({ role: 'PROFESSOR' });
+
+      await expect(service.setBudget(data, professor)).rejects.toThrow('set by an admin');
+      await expect(service.setBudget(data, professor)).rejects.toThrow('set by another instructor');
+      expect(mockPrisma.aIBudget.upsert).not.toHaveBeenCalled();
+
+      mockPrisma.aIBudget.findUnique.mockResolvedValue(budget({ scopeId: studentId, createdById: 'prof-1' }));
+      await service.setBudget(data, professor);
+      expect(mockPrisma.aIBudget.upsert).toHaveBeenCalledTimes(1);
+    });
+
+    it('should validate the budget', async () => {
+      const admin = { userId: 'admin-1', role: UserRole.ADMIN };
+
+      await expect(service.setBudget({ ...data, limitUsd: -1 }, admin)).rejects.toThrow('limitUsd');
+      await expect(service.setBudget({ ...data, scope: AIBudgetScope.ROLE, scopeId: 'wizard' }, admin))
+        .rejects.toThrow('Invalid scopeId');
+    });
+  });
+});
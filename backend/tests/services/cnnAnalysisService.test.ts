@@ -0,0 +1,219 @@
+/**
+ * CNN Analysis Service Tests
+ * File selection, result summaries, run status and recovery of interrupted submission analysis
+ */
+
+import {
+  CNNAnalysisService,
+  CNNFileAnalysis,
+  isAnalysisInProgress,
+  isAnalyzableFile,
+  overallStatus,
+  summarizeResult,
+  withWikipediaInfo,
+} from '../../src/services/cnnAnalysisService';
+import { ICNNAnalysisResult } from '../../src/types';
+
+jest.mock('../../src/lib/prisma', () => ({
+  prisma: {
+    submission: { findMany: jest.fn(), findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    cNNAnalysis: { findMany: jest.fn(), deleteMany: jest.fn() },
+    detectionFeedback: { deleteMany: jest.fn() },
+    collaborationAnnotation: { deleteMany: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+jest.mock('../../src/services/notificationService', () => ({ notificationService: { notify: jest.fn() } }));
+jest.mock('../../src/services/assignmentService', () => ({
+  assignmentService: { getManageableAssignment: jest.fn().mockResolvedValue({}) },
+}));
+
+import { prisma } from '../../src/lib/prisma';
+
+const mockPrisma = prisma as any;
+
+const file = (status: CNNFileAnalysis['status']): CNNFileAnalysis => ({ fileId: 'f', fileName: 'f.png', status });
+
+describe('isAnalyzableFile', () => {
+  it('should only analyze images', () => {
+    expect(isAnalyzableFile({ mimeType: 'image/png' })).toBe(true);
+    expect(isAnalyzableFile({ mimeType: 'IMAGE/JPEG' })).toBe(true);
+    expect(isAnalyzableFile({ mimeType: 'application/pdf' })).toBe(false);
+  });
+});
+
+describe('summarizeResult', () => {
+  it('should collect unique categories and lower-cased tags', () => {
+    const result: ICNNAnalysisResult = {
+      fileId: 'f1',
+      fileName: 'board.jpg',
+      analysis: {
+        objectDetection: [
+          { label: 'Keyboard', confidence: 0.9, boundingBox: { x: 0, y: 0, width: 10, height: 10 } },
+          { label: 'keyboard', confidence: 0.6, boundingBox: { x: 5, y: 5, width: 10, height: 10 } },
+        ],
+        categorization: [
+          { category: 'Electronics', subcategories: ['Peripherals'], confidence: 0.8 },
+          { category: 'Electronics', subcategories: [], confidence: 0.4 },
+        ],
+        hardwareIdentification: [],
+        confidence: 0.85,
+      },
+      processedAt: new Date(),
+      processingTime: 120,
+    };
+
+    expect(summarizeResult(result)).toEqual({ categories: ['Electronics'], tags: ['keyboard', 'peripherals'] });
+  });
+});
+
+describe('withWikipediaInfo', () => {
+  it('should explain the result with its most relevant article', () => {
+    const result: ICNNAnalysisResult = {
+      fileId: 'f1',
+      fileName: 'board.jpg',
+      analysis: { objectDetection: [], categorization: [], hardwareIdentification: [], confidence: 0.85 },
+      processedAt: new Date(),
+      processingTime: 120,
+    };
+    const article = { title: 'Breadboard', summary: 'Prototyping board', url: '', images: [], relatedTopics: [] };
+
+    expect(withWikipediaInfo(result, {
+      articles: [{ ...article, term: 'breadboard', source: 'glossary', relevanceScore: 0.9 }],
+      providers: ['local'],
+      enrichedAt: '2026-01-01T00:00:00.000Z',
+    }).wikipediaInfo).toEqual(article);
+    expect(withWikipediaInfo({ ...result, wikipediaInfo: article }, null)).not.toHaveProperty('wikipediaInfo');
+  });
+});
+
+describe('overallStatus', () => {
+  it('should complete when at least one image was analyzed', () => {
+    expect(overallStatus([file('COMPLETED'), file('FAILED'), file('SKIPPED')])).toBe('COMPLETED');
+  });
+
+  it('should fail when every image failed', () => {
+    expect(overallStatus([file('FAILED'), file('SKIPPED')])).toBe('FAILED');
+  });
+
+  it('should complete when there were no images to analyze', () => {
+    expect(overallStatus([file('SKIPPED')])).toBe('COMPLETED');
+    expect(overallStatus([])).toBe('COMPLETED');
+  });
+});
+
+describe('isAnalysisInProgress', () => {
+  const now = new Date('2025-03-01T12:00:00Z');
+
+  it('should treat queued and recently started runs as in progress', () => {
+    expect(isAnalysisInProgress({ status: 'PENDING', requestedAt: '2025-03-01T11:50:00Z', files: [] }, now)).toBe(true);
+    // Queued behind other submissions, not abandoned
+    expect(isAnalysisInProgress({ status: 'PENDING', requestedAt: '2025-03-01T09:00:00Z', files: [] }, now)).toBe(true);
+    expect(isAnalysisInProgress({
+      status: 'PROCESSING',
+      requestedAt: '2025-03-01T10:00:00Z',
+      startedAt: '2025-03-01T11:45:00Z',
+      files: [],
+    }, now)).toBe(true);
+  });
+
+  it('should let abandoned and finished runs be restarted', () => {
+    expect(isAnalysisInProgress({
+      status: 'PROCESSING',
+      requestedAt: '2025-03-01T09:00:00Z',
+      startedAt: '2025-03-01T09:01:00Z',
+      files: [],
+    }, now)).toBe(false);
+    expect(isAnalysisInProgress({ status: 'FAILED', requestedAt: '2025-03-01T11:59:00Z', files: [] }, now)).toBe(false);
+    expect(isAnalysisInProgress(null, now)).toBe(false);
+  });
+});
+
+describe('CNNAnalysisService.resumePendingAnalyses', () => {
+  it('should re-queue interrupted runs in the order they were requested', async () => {
+    mockPrisma.submission.findMany.mockResolvedValue([
+      { id: 'sub-2', cnnAnalysisResults: { status: 'PROCESSING', requestedAt: '2025-03-01T10:05:00Z', files: [] } },
+      { id: 'sub-3', cnnAnalysisResults: { status: 'COMPLETED', requestedAt: '2025-03-01T09:00:00Z', files: [] } },
+      { id: 'sub-1', cnnAnalysisResults: { status: 'PENDING', requestedAt: '2025-03-01T10:00:00Z', files: [] } },
+    ]);
+    // Submissions deleted since are skipped by the run itself
+    mockPrisma.submission.findUnique.mockResolvedValue(null);
+
+    await new CNNAnalysisService().resumePendingAnalyses();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(mockPrisma.submission.findUnique.mock.calls.map(([args]: any[]) => args.where.id)).toEqual(['sub-1', 'sub-2']);
+  });
+
+  it('should drop the corrections made on the analyses a re-run replaces', async () => {
+    mockPrisma.submission.findMany.mockResolvedValue([
+      { id: 'sub-1', cnnAnalysisResults: { status: 'PENDING', requestedAt: '2025-03-01T10:00:00Z', files: [] } },
+    ]);
+    mockPrisma.submission.findUnique.mockResolvedValue({
+      id: 'sub-1',
+      studentId: 'student-1',
+      cnnAnalysisResults: { status: 'PENDING', requestedAt: '2025-03-01T10:00:00Z', files: [] },
+      files: [],
+      assignment: { id: 'assign-1', title: 'Leaves', courseId: 'course-1' },
+    });
+    mockPrisma.submission.update.mockResolvedValue({});
+    mockPrisma.cNNAnalysis.findMany.mockResolvedValue([{ id: 'analysis-1' }, { id: 'analysis-2' }]);
+    mockPrisma.$transaction.mockResolvedValue([]);
+
+    await new CNNAnalysisService().resumePendingAnalyses();
+    await new Promise(resolve => setImmediate(resolve));
+
+    const replaced = { in: ['analysis-1', 'analysis-2'] };
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.detectionFeedback.deleteMany).toHaveBeenCalledWith({ where: { analysisId: replaced } });
+    expect(mockPrisma.collaborationAnnotation.deleteMany).toHaveBeenCalledWith({
+      where: { contentId: replaced, contentType: 'CNN_ANALYSIS' },
+    });
+    expect(mockPrisma.cNNAnalysis.deleteMany).toHaveBeenCalledWith({ where: { id: replaced } });
+  });
+});
+
+describe('CNNAnalysisService.reanalyze', () => {
+  const requester = { id: 'teacher-1', role: 'TEACHER' } as any;
+  const submission = {
+    id: 'sub-1',
+    assignmentId: 'assign-1',
+    status: 'SUBMITTED',
+    updatedAt: new Date('2025-03-01T09:00:00Z'),
+    cnnAnalysisResults: { status: 'FAILED', requestedAt: '2025-03-01T08:00:00Z', files: [] },
+  };
+
+  beforeEach(() => {
+    mockPrisma.submission.findUnique.mockResolvedValue(submission);
+  });
+
+  it('should claim the run against the submission as read', async () => {
+    mockPrisma.submission.updateMany.mockResolvedValue({ count: 1 });
+
+    const state = await new CNNAnalysisService().reanalyze('assign-1', 'sub-1', requester);
+
+    expect(state.status).toBe('PENDING');
+    expect(mockPrisma.submission.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'sub-1', updatedAt: submission.updatedAt },
+    }));
+  });
+
+  it('should conflict when another request claimed the run first', async () => {
+    mockPrisma.submission.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(new CNNAnalysisService().reanalyze('assign-1', 'sub-1', requester))
+      .rejects.toMatchObject({ name: 'ConflictError' });
+  });
+
+  it('should not re-queue a run that is still queued', async () => {
+    mockPrisma.submission.findUnique.mockResolvedValue({
+      ...submission,
+      cnnAnalysisResults: { status: 'PENDING', requestedAt: '2025-03-01T08:00:00Z', files: [] },
+    });
+    mockPrisma.submission.updateMany.mockClear();
+
+    await expect(new CNNAnalysisService().reanalyze('assign-1', 'sub-1', requester))
+      .rejects.toMatchObject({ name: 'ConflictError' });
+    expect(mockPrisma.submission.updateMany).not.toHaveBeenCalled();
+  });
+});
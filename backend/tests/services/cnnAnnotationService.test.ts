@@ -0,0 +1,229 @@
+/**
+ * CNN Annotation Service Tests
+ * Detection annotations, instructor corrections recorded as feedback, and access
+ */
+
+import { CNNAnnotationService, detectionAnnotations, parseBoundingBox } from '../../src/services/cnnAnnotationService';
+import { ICNNAnalysisResult, UserRole } from '../../src/types';
+import { ForbiddenError, NotFoundError } from '../../src/utils/errors';
+
+jest.mock('../../src/lib/prisma', () => ({
+  prisma: {
+    cNNAnalysis: { findUnique: jest.fn(), updateMany: jest.fn(), update: jest.fn() },
+    user: { upsert: jest.fn() },
+    collaborationAnnotation: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      createMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    detectionFeedback: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    assignment: { findUnique: jest.fn() },
+  },
+}));
+
+import { prisma } from '../../src/lib/prisma';
+
+const mockPrisma = prisma as any;
+
+const analysisId = 'a'.repeat(24);
+const annotationId = 'b'.repeat(24);
+const owner = { userId: 'student-1', role: UserRole.STUDENT };
+const professor = { userId: 'prof-1', role: UserRole.PROFESSOR };
+
+const result: ICNNAnalysisResult = {
+  fileId: 'f1',
+  fileName: 'bench.jpg',
+  analysis: {
+    objectDetection: [
+      { label: 'Oscilloscope', confidence: 0.874, boundingBox: { x: 10, y: 20, width: 200, height: 120 } },
+      { label: 'Breadboard', confidence: 0.6, boundingBox: { x: 300, y: 40, width: 90, height: 60 } },
+    ],
+    categorization: [],
+    hardwareIdentification: [],
+    confidence: 0.8,
+  },
+  processedAt: new Date(),
+  processingTime: 120,
+};
+
+const analysis = (overrides: Record<string, unknown> = {}) => ({
+  id: analysisId,
+  userId: owner.userId,
+  analysisResults: result,
+  modelVersions: { detector: 'v2' },
+  submission: { assignmentId: 'assignment-1' },
+  ...overrides,
+});
+
+const detection = (metadata: Record<string, unknown>) => ({
+  id: annotationId,
+  contentId: analysisId,
+  contentType: 'CNN_ANALYSIS',
+  isDeleted: false,
+  position: { x: 10, y: 20, width: 200, height: 120 },
+  metadata,
+});
+
+describe('detectionAnnotations', () => {
+  it('should highlight each bounding box with its label and confidence', () => {
+    const [first] = detectionAnnotations(analysisId, result, 'system-user');
+
+    expect(first).toEqual({
+      contentId: analysisId,
+      contentType: 'CNN_ANALYSIS',
+      authorId: 'system-user',
+      text: 'Oscilloscope (87%)',
+      position: { x: 10, y: 20, width: 200, height: 120 },
+      annotationType: 'HIGHLIGHT',
+      visibility: 'COURSE',
+      permissions: {},
+      metadata: { source: 'cnn-detection', label: 'Oscilloscope', detectionIndex: 0, confidence: 0.874 },
+    });
+  });
+});
+
+describe('parseBoundingBox', () => {
+  it('should require a box with an area', () => {
+    expect(parseBoundingBox({ x: 0, y: 5, width: 10, height: 10 })).toEqual({ x: 0, y: 5, width: 10, height: 10 });
+    expect(() => parseBoundingBox({ x: 0, y: 5, width: 0, height: 10 })).toThrow('positive width and height');
+    expect(() => parseBoundingBox({ x: '1', y: 5, width: 10, height: 10 })).toThrow('boundingBox');
+  });
+});
+
+describe('CNNAnnotationService', () => {
+  let service: CNNAnnotationService;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    service = new CNNAnnotationService();
+    mockPrisma.cNNAnalysis.findUnique.mockResolvedValue(analysis());
+    mockPrisma.cNNAnalysis.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.cNNAnalysis.update.mockResolvedValue({});
+    mockPrisma.user.upsert.mockResolvedValue({ id: 'system-user' });
+    mockPrisma.assignment.findUnique.mockResolvedValue({ id: 'assignment-1', professorId: 'prof-1', course: { ownerId: 'prof-1' } });
+  });
+
+  it('should annotate detections once, as the system user', async () => {
+    mockPrisma.collaborationAnnotation.findMany.mockResolvedValueOnce([]).mockResolvedValue([{ id: 'n1' }, { id: 'n2' }]);
+
+    const first = await service.annotateDetections(analysisId, owner);
+
+    expect(first.created).toBe(2);
+    expect(mockPrisma.user.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { email: 'cnn-detector@system.local' },
+      create: expect.objectContaining({ isActive: false }),
+    }));
+    expect(mockPrisma.collaborationAnnotation.createMany.mock.calls[0][0].data).toHaveLength(2);
+
+    const second = await service.annotateDetections(analysisId, owner);
+
+    expect(second).toEqual({ annotations: [{ id: 'n1' }, { id: 'n2' }], created: 0 });
+    expect(mockPrisma.collaborationAnnotation.createMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('should annotate detections once when requests race', async () => {
+    mockPrisma.collaborationAnnotation.findMany.mockResolvedValue([]);
+    mockPrisma.cNNAnalysis.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+    const results = await Promise.all([
+      service.annotateDetections(analysisId, owner),
+      service.annotateDetections(analysisId, owner),
+    ]);
+
+    expect(results.map(r => r.created).sort()).toEqual([0, 2]);
+    expect(mockPrisma.collaborationAnnotation.createMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('should release the claim when annotating fails', async () => {
+    mockPrisma.collaborationAnnotation.findMany.mockResolvedValue([]);
+    mockPrisma.collaborationAnnotation.createMany.mockRejectedValue(new Error('write failed'));
+
+    await expect(service.annotateDetections(analysisId, owner)).rejects.toThrow('write failed');
+    expect(mockPrisma.cNNAnalysis.update).toHaveBeenCalledWith({
+      where: { id: analysisId },
+      data: { detectionsAnnotatedAt: null },
+    });
+  });
+
+  it('should record a relabeled detection as feedback on the model output', async () => {
+    mockPrisma.collaborationAnnotation.findUnique.mockResolvedValue(
+      detection({ source: 'cnn-detection', label: 'Oscilloscope', detectionIndex: 0, confidence: 0.874 })
+    );
+    mockPrisma.detectionFeedback.findFirst.mockResolvedValue(null);
+
+    await service.relabelDetection(analysisId, annotationId, ' Logic analyzer ', professor);
+
+    expect(mockPrisma.collaborationAnnotation.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({
+        text: 'Logic analyzer (87%)',
+        metadata: expect.objectContaining({ label: 'Logic analyzer', originalLabel: 'Oscilloscope' }),
+      }),
+    }));
+    expect(mockPrisma.detectionFeedback.create).toHaveBeenCalledWith({
+      data: {
+        analysisId,
+        annotationId,
+        kind: 'RELABELED',
+        detectionIndex: 0,
+        originalLabel: 'Oscilloscope',
+        label: 'Logic analyzer',
+        confidence: 0.874,
+        boundingBox: { x: 10, y: 20, width: 200, height: 120 },
+        modelVersions: { detector: 'v2' },
+        createdById: 'prof-1',
+      },
+    });
+  });
+
+  it('should turn a pending relabel into a false positive when the detection is deleted', async () => {
+    mockPrisma.collaborationAnnotation.findUnique.mockResolvedValue(
+      detection({ source: 'cnn-detection', label: 'Logic analyzer', originalLabel: 'Oscilloscope', detectionIndex: 0 })
+    );
+    mockPrisma.detectionFeedback.findFirst.mockResolvedValue({ id: 'fb-1', kind: 'RELABELED' });
+
+    await service.removeDetection(analysisId, annotationId, professor);
+
+    expect(mockPrisma.detectionFeedback.update).toHaveBeenCalledWith({
+      where: { id: 'fb-1' },
+      data: { kind: 'FALSE_POSITIVE', label: null, createdById: 'prof-1' },
+    });
+    expect(mockPrisma.collaborationAnnotation.update).toHaveBeenCalledWith({
+      where: { id: annotationId },
+      data: { isDeleted: true, deletedAt: expect.any(Date) },
+    });
+  });
+
+  it('should record missed objects, authored by the instructor', async () => {
+    mockPrisma.collaborationAnnotation.create.mockResolvedValue({ id: annotationId, position: { x: 1, y: 2, width: 30, height: 40 } });
+
+    await service.addMissedDetection(analysisId, { label: 'Multimeter', boundingBox: { x: 1, y: 2, width: 30, height: 40 } }, professor);
+
+    expect(mockPrisma.collaborationAnnotation.create.mock.calls[0][0].data).toMatchObject({
+      authorId: 'prof-1',
+      text: 'Multimeter',
+      metadata: { source: 'cnn-correction', label: 'Multimeter' },
+    });
+    expect(mockPrisma.detectionFeedback.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ kind: 'MISSED', label: 'Multimeter', originalLabel: null, detectionIndex: null }),
+    });
+  });
+
+  it('should let students view but not correct detections on their submissions', async () => {
+    mockPrisma.collaborationAnnotation.findMany.mockResolvedValue([{ id: 'n1' }]);
+
+    await expect(service.annotateDetections(analysisId, owner)).resolves.toMatchObject({ created: 0 });
+    await expect(service.relabelDetection(analysisId, annotationId, 'Multimeter', owner)).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(service.listFeedback({}, professor)).rejects.toBeInstanceOf(ForbiddenError);
+
+    mockPrisma.collaborationAnnotation.findUnique.mockResolvedValue({ ...detection({ source: 'user' }) });
+    await expect(service.removeDetection(analysisId, annotationId, professor)).rejects.toBeInstanceOf(NotFoundError);
+    expect(mockPrisma.detectionFeedback.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * CNN Inference Service Tests
+ * Label parsing, preprocessing and decoding of classifier and detector outputs
+ */
+
+import {
+  buildAnalysis,
+  decodeDetections,
+  iou,
+  letterbox,
+  nonMaxSuppression,
+  parseLabel,
+  RawDetection,
+  toProbabilities,
+  topK,
+  toTensorData,
+} from '../../src/services/cnnInferenceService';
+
+jest.mock('onnxruntime-node', () => ({}));
+jest.mock('sharp', () => jest.fn());
+
+const box = (x: number, y: number, width: number, height: number) => ({ x, y, width, height });
+
+describe('parseLabel', () => {
+  it('should drop ImageNet synset ids and split synonyms', () => {
+    expect(parseLabel('n03642806 laptop, laptop computer')).toEqual({ name: 'laptop', synonyms: ['laptop computer'] });
+    expect(parseLabel('cell phone')).toEqual({ name: 'cell phone', synonyms: [] });
+  });
+});
+
+describe('toProbabilities', () => {
+  it('should apply softmax to logits', () => {
+    const probabilities = toProbabilities([1, 1, 1, 1]);
+
+    expect(probabilities).toEqual([0.25, 0.25, 0.25, 0.25]);
+  });
+
+  it('should leave probabilities unchanged', () => {
+    expect(toProbabilities([0.7, 0.2, 0.1])).toEqual([0.7, 0.2, 0.1]);
+  });
+});
+
+describe('topK', () => {
+  it('should return the most probable classes first', () => {
+    expect(topK([0.1, 0.6, 0.3], 2)).toEqual([
+      { index: 1, confidence: 0.6 },
+      { index: 2, confidence: 0.3 },
+    ]);
+  });
+});
+
+describe('letterbox', () => {
+  it('should fit the image and center it with padding', () => {
+    expect(letterbox(1280, 640, 640, 640)).toEqual({ scale: 0.5, padX: 0, padY: 160, width: 640, height: 320 });
+  });
+});
+
+describe('toTensorData', () => {
+  const pixels = new Uint8Array([255, 0, 0, 0, 255, 0]);
+
+  it('should write planar channels for NCHW models', () => {
+    expect(Array.from(toTensorData(pixels, 2, 1, 'NCHW', [0, 0, 0], [1, 1, 1]))).toEqual([1, 0, 0, 1, 0, 0]);
+  });
+
+  it('should keep interleaved channels for NHWC models', () => {
+    expect(Array.from(toTensorData(pixels, 2, 1, 'NHWC', [0, 0, 0], [1, 1, 1]))).toEqual([1, 0, 0, 0, 1, 0]);
+  });
+});
+
+describe('nonMaxSuppression', () => {
+  it('should drop overlapping boxes of the same class only', () => {
+    const detections: RawDetection[] = [
+      { classIndex: 0, confidence: 0.6, box: box(2, 2, 100, 100) },
+      { classIndex: 0, confidence: 0.9, box: box(0, 0, 100, 100) },
+      { classIndex: 1, confidence: 0.5, box: box(0, 0, 100, 100) },
+    ];
+
+    expect(iou(box(0, 0, 10, 10), box(5, 0, 10, 10))).toBeCloseTo(1 / 3);
+    expect(nonMaxSuppression(detections).map(d => d.confidence)).toEqual([0.9, 0.5]);
+  });
+});
+
+describe('decodeDetections', () => {
+  // Two anchors, two classes: [cx, cy, w, h, score0, score1]
+  const anchors = [
+    [320, 320, 200, 100, 0.1, 0.8],
+    [100, 100, 20, 20, 0.2, 0.1],
+  ];
+  const transform = letterbox(1280, 640, 640, 640);
+
+  it('should map boxes back to original image pixels', () => {
+    const data = anchors.flat();
+
+    expect(decodeDetections(data, [1, 2, 6], 2, transform, 1280, 640, 0.35)).toEqual([
+      { classIndex: 1, confidence: 0.8, box: box(440, 220, 400, 200) },
+    ]);
+  });
+
+  it('should read feature-major outputs', () => {
+    const data = [0, 1, 2, 3, 4, 5].flatMap(feature => anchors.map(anchor => anchor[feature]!));
+
+    expect(decodeDetections(data, [1, 6, 2], 2, transform, 1280, 640, 0.35)).toHaveLength(1);
+  });
+
+  it('should reject unexpected output shapes', () => {
+    expect(() => decodeDetections([], [1, 7, 2], 2, transform, 1280, 640)).toThrow('Unsupported detector output shape');
+  });
+});
+
+describe('buildAnalysis', () => {
+  it('should categorize confident classes and identify hardware', () => {
+    const analysis = buildAnalysis(
+      [
+        { label: { name: 'laptop', synonyms: ['laptop computer'] }, confidence: 0.7 },
+        { label: { name: 'desk', synonyms: [] }, confidence: 0.01 },
+      ],
+      [{ label: 'laptop', confidence: 0.9, boundingBox: box(0, 0, 10, 10) }]
+    );
+
+    expect(analysis.categorization).toEqual([
+      { category: 'laptop', subcategories: ['laptop computer'], confidence: 0.7 },
+    ]);
+    expect(analysis.hardwareIdentification).toEqual([{ deviceType: 'laptop', confidence: 0.9 }]);
+    expect(analysis.confidence).toBe(0.9);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Consensus Engine Tests
+ * Finding normalization, pairwise agreement, best result selection and threshold warnings
+ */
+
+import {
+  buildConsensus,
+  extractEntities,
+  normalizeFindings,
+  scorePair,
+} from '../../src/services/consensusEngine';
+import { AIAnalysisResponse, AIServiceType } from '../../src/services/aiModels/types';
+
+const response = (
+  content: string,
+  confidence: number,
+  categories: string[] = [],
+  sentimentScore?: number
+): AIAnalysisResponse => ({
+  success: true,
+  content,
+  confidence,
+  processingTime: 1000,
+  metadata: {
+    serviceName: 'test',
+    model: 'test',
+    categories,
+    ...(sentimentScore !== undefined && { sentimentScore }),
+  },
+});
+
+const PHOTOSYNTHESIS = 'The lesson explains photosynthesis in the Chloroplast. Light energy becomes chemical energy, ' +
+  'and the Calvin Cycle stores it as glucose. Photosynthesis diagrams help students.';
+
+describe('extractEntities', () => {
+  it('should keep named phrases and acronyms but not words capitalized only by opening a sentence', () => {
+    expect([...extractEntities('Plants store energy as ATP. The Calvin Cycle follows. Students like it.')])
+      .toEqual(['atp', 'calvin cycle']);
+  });
+});
+
+describe('scorePair', () => {
+  it('should compare only the findings both services report', () => {
+    const a = normalizeFindings(response(PHOTOSYNTHESIS, 90, ['Biology', 'Plant Science'], 0.5));
+    const b = normalizeFindings(response('Photosynthesis turns light energy into chemical energy stored as glucose.', 70, ['biology']));
+
+    const pair = scorePair(a, b);
+
+    expect(pair.dimensions.categories).toBe(1);
+    expect(pair.dimensions.sentiment).toBeUndefined();
+    expect(pair.dimensions.entities).toBeUndefined();
+    expect(pair.agreement).toBeGreaterThan(0.8);
+  });
+});
+
+describe('buildConsensus', () => {
+  const results = (entries: [AIServiceType, AIAnalysisResponse][]) => new Map(entries);
+
+  it('should agree when services find the same things and pick the best supported result', () => {
+    const { consensus, bestResult } = buildConsensus(results([
+      ['gpt4', response(PHOTOSYNTHESIS, 85, ['Biology'], 0.6)],
+      ['claude', response('Photosynthesis in the Chloroplast turns light energy into chemical energy (glucose) via the Calvin Cycle.', 80, ['Biology'], 0.5)],
+      ['gemini', response('A cooking recipe for bread with flour, yeast and water.', 95, ['Culinary Arts'], -0.2)],
+    ]), 0.3);
+
+    expect(consensus.pairs).toHaveLength(3);
+    expect(bestResult).not.toBe('gemini');
+    expect(consensus.summary).toContain('Shared categories: biology.');
+    expect(consensus.agreed).toBe(true);
+    expect(consensus.warning).toBeUndefined();
+  });
+
+  it('should warn callers with a threshold when services disagree too much', () => {
+    const { consensus } = buildConsensus(results([
+      ['gpt4', response(PHOTOSYNTHESIS, 0.9, ['Biology'], 0.6)],
+      ['claude', response('A cooking recipe for bread with flour, yeast and water.', 0.9, ['Culinary Arts'], -0.6)],
+    ]), 0.7);
+
+    expect(consensus.agreed).toBe(false);
+    expect(consensus.summary).toMatch(/^2 services disagree/);
+    expect(consensus.warning).toMatch(/below the requested 70%; gpt4 and claude disagree most/);
+  });
+
+  it('should not report consensus from a single or failed service', () => {
+    const failed = { ...response('', 0), success: false, error: 'Timeout' };
+
+    expect(buildConsensus(results([['gpt4', response(PHOTOSYNTHESIS, 80)], ['claude', failed]])))
+      .toMatchObject({ consensus: { agreed: false, confidence: 0, pairs: [] }, bestResult: 'gpt4' });
+    expect(buildConsensus(results([['claude', failed]]), 0.5).consensus.warning)
+      .toBe('Consensus could not be checked: every service failed');
+  });
+});
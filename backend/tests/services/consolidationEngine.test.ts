@@ -0,0 +1,119 @@
+/**
+ * Consolidation Engine Tests
+ * Finding overlap, disagreement detection and consolidated confidence across models
+ */
+
+import {
+  clusterStatements,
+  consolidateInsights,
+  findConflicts,
+  similarity,
+  tokenize,
+} from '../../src/services/consolidationEngine';
+import { AIAnalysisResult, AIModelType } from '../../src/types';
+
+const result = (
+  model: AIModelType,
+  confidence: number,
+  insights: string[],
+  entities: string[] = [],
+  recommendations: string[] = []
+): AIAnalysisResult => ({
+  model,
+  status: 'completed',
+  analysisType: 'content_analysis',
+  confidence,
+  processingTime: 1000,
+  timestamp: new Date(),
+  results: {
+    description: `${model} description`,
+    insights,
+    entities: entities.map(entity => ({ entity, type: 'concept', confidence, context: '' })),
+    recommendations,
+  },
+});
+
+describe('tokenize and similarity', () => {
+  it('should compare content words regardless of case and plurals', () => {
+    const a = tokenize('The diagram shows two resistors in series');
+    const b = tokenize('Two resistor in series are shown in the diagram');
+
+    expect(a.has('resistor')).toBe(true);
+    expect(a.has('the')).toBe(false);
+    expect(similarity(a, b)).toBeGreaterThan(0.5);
+    expect(similarity(a, tokenize('A poem about autumn leaves'))).toBe(0);
+  });
+});
+
+describe('clusterStatements', () => {
+  it('should group statements that say the same thing', () => {
+    const clusters = clusterStatements([
+      { model: 'gpt4', text: 'The circuit uses a 555 timer chip', confidence: 0.9 },
+      { model: 'claude', text: 'A 555 timer chip drives the circuit', confidence: 0.8 },
+      { model: 'claude', text: 'Wiring is colour coded', confidence: 0.8 },
+    ]);
+
+    expect(clusters.map(cluster => cluster.length)).toEqual([2, 1]);
+  });
+});
+
+describe('findConflicts', () => {
+  it('should report entities that only some models found', () => {
+    const conflicts = findConflicts([
+      result('gpt4', 0.8, [], ['Ohm\'s law', 'voltage']),
+      result('claude', 0.7, [], ['voltage']),
+      result('gemini', 0.75, [], ['Voltage']),
+    ]);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      finding: '"Ohm\'s law" identified by gpt4 but not by claude, gemini',
+      models: ['gpt4', 'claude', 'gemini'],
+      confidence: { gpt4: 0.8, claude: 0, gemini: 0 },
+    });
+    expect(conflicts[0]!.resolution).toContain('minority');
+  });
+
+  it('should report a wide spread in model confidence', () => {
+    const conflicts = findConflicts([result('gpt4', 0.9, []), result('gemini', 0.4, [])]);
+
+    expect(conflicts[0]!.finding).toBe('Models report very different confidence in their analysis');
+    expect(conflicts[0]!.resolution).toContain('gpt4');
+  });
+
+  it('should not compare a single model with itself', () => {
+    expect(findConflicts([result('gpt4', 0.9, [], ['voltage'])])).toEqual([]);
+  });
+});
+
+describe('consolidateInsights', () => {
+  it('should keep findings shared by several models and scale confidence by agreement', () => {
+    const insights = consolidateInsights({
+      gpt4: result('gpt4', 0.8, ['The circuit uses a 555 timer chip', 'The layout is tidy'], [], ['Label the pins']),
+      claude: result('claude', 0.8, ['A 555 timer chip drives the circuit'], [], ['Label the pins clearly']),
+    });
+
+    expect(insights.commonFindings).toEqual(['The circuit uses a 555 timer chip']);
+    expect(insights.conflictingAnalyses).toEqual([]);
+    // Average 0.8, one of two findings shared
+    expect(insights.confidenceScore).toBe(0.6);
+    expect(insights.recommendedActions).toEqual(['Label the pins']);
+    expect(insights.summary).toContain('2 of 2 models completed');
+  });
+
+  it('should ignore models that did not complete', () => {
+    const failed = { ...result('gemini', 0, []), status: 'error' as const };
+    const insights = consolidateInsights(
+      { gpt4: result('gpt4', 0.7, ['Shows a breadboard']), gemini: failed },
+      ['gpt4', 'gemini']
+    );
+
+    expect(insights.summary).toContain('1 of 2 models completed (gpt4)');
+    expect(insights.commonFindings).toEqual([]);
+    expect(insights.confidenceScore).toBe(0.7);
+  });
+
+  it('should report when no model produced results', () => {
+    expect(consolidateInsights({})).toMatchObject({ confidenceScore: 0, commonFindings: [] });
+  });
+});
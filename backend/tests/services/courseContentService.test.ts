@@ -0,0 +1,77 @@
+/**
+ * Course Content Service Tests
+ * Module reordering and course-room broadcasts
+ */
+
+import { CourseContentService } from '../../src/services/courseContentService';
+import { UserRole } from '../../src/types';
+import { ConflictError } from '../../src/utils/errors';
+
+const mockTx = {
+  course: { update: jest.fn() },
+  courseModule: { findMany: jest.fn(), update: jest.fn() },
+};
+
+jest.mock('../../src/lib/prisma', () => ({
+  prisma: {
+    $transaction: jest.fn((callback: (tx: unknown) => unknown) => callback(mockTx)),
+  },
+}));
+
+jest.mock('../../src/services/courseService', () => ({
+  courseService: {
+    getManageableCourse: jest.fn().mockResolvedValue({ id: 'course-1', ownerId: 'prof-1' }),
+  },
+}));
+
+jest.mock('../../src/services/WebSocketService', () => ({
+  webSocketService: { broadcastToCourse: jest.fn() },
+}));
+
+import { webSocketService } from '../../src/services/WebSocketService';
+
+const requester = { userId: 'prof-1', role: UserRole.PROFESSOR };
+
+describe('CourseContentService', () => {
+  let service: CourseContentService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new CourseContentService();
+  });
+
+  describe('reorderModules', () => {
+    it('should assign sequential orders and broadcast to the course room', async () => {
+      mockTx.courseModule.findMany
+        .mockResolvedValueOnce([{ id: 'm1' }, { id: 'm2' }, { id: 'm3' }])
+        .mockResolvedValueOnce([]);
+
+      await service.reorderModules('course-1', ['m3', 'm1', 'm2'], requester);
+
+      expect(mockTx.courseModule.update.mock.calls.map(([args]) => args)).toEqual([
+        { where: { id: 'm3' }, data: { order: 1 } },
+        { where: { id: 'm1' }, data: { order: 2 } },
+        { where: { id: 'm2' }, data: { order: 3 } },
+      ]);
+      expect(webSocketService.broadcastToCourse).toHaveBeenCalledWith(
+        'course-1',
+        'course_structure_updated',
+        expect.objectContaining({ type: 'modules_reordered', order: ['m3', 'm1', 'm2'], updatedBy: 'prof-1' })
+      );
+    });
+
+    it('should reject a list that is missing a module', async () => {
+      mockTx.courseModule.findMany.mockResolvedValueOnce([{ id: 'm1' }, { id: 'm2' }, { id: 'm3' }]);
+
+      await expect(service.reorderModules('course-1', ['m1', 'm2'], requester)).rejects.toBeInstanceOf(ConflictError);
+      expect(mockTx.courseModule.update).not.toHaveBeenCalled();
+      expect(webSocketService.broadcastToCourse).not.toHaveBeenCalled();
+    });
+
+    it('should reject duplicate module IDs', async () => {
+      mockTx.courseModule.findMany.mockResolvedValueOnce([{ id: 'm1' }, { id: 'm2' }]);
+
+      await expect(service.reorderModules('course-1', ['m1', 'm1'], requester)).rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Course Service Tests
+ * Course management authorization and enrollment limits
+ */
+
+import { CourseService } from '../../src/services/courseService';
+import { UserRole } from '../../src/types';
+import { ConflictError, ForbiddenError, NotFoundError } from '../../src/utils/errors';
+
+const mockTx = {
+  course: { update: jest.fn() },
+  courseEnrollment: { findUnique: jest.fn(), count: jest.fn(), create: jest.fn(), update: jest.fn() },
+};
+
+jest.mock('../../src/lib/prisma', () => ({
+  prisma: {
+    course: { findUnique: jest.fn(), update: jest.fn() },
+    courseEnrollment: { findUnique: jest.fn(), update: jest.fn(), count: jest.fn() },
+    $transaction: jest.fn((callback: (tx: unknown) => unknown) => callback(mockTx)),
+  },
+}));
+
+jest.mock('../../src/services/progressService', () => {
+  const actual = jest.requireActual('../../src/services/progressService');
+  const service = new actual.ProgressService();
+  service.getModuleLocks = jest.fn();
+  return { ...actual, progressService: service };
+});
+
+import { prisma } from '../../src/lib/prisma';
+import { progressService } from '../../src/services/progressService';
+
+const mockPrisma = prisma as any;
+
+const course = {
+  id: 'course-1',
+  ownerId: 'prof-1',
+  isPublic: true,
+  isActive: true,
+  maxStudents: 2,
+};
+
+describe('CourseService', () => {
+  let service: CourseService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new CourseService();
+  });
+
+  describe('enroll', () => {
+    it('should create an enrollment when seats are available', async () => {
+      mockTx.course.update.mockResolvedValue(course);
+      mockTx.courseEnrollment.findUnique.mockResolvedValue(null);
+      mockTx.courseEnrollment.count.mockResolvedValue(1);
+      mockTx.courseEnrollment.create.mockResolvedValue({ id: 'enrollment-1' });
+
+      await expect(service.enroll('course-1', 'student-1')).resolves.toEqual({ id: 'enrollment-1' });
+      expect(mockTx.courseEnrollment.create).toHaveBeenCalledWith({
+        data: { userId: 'student-1', courseId: 'course-1' },
+      });
+    });
+
+    it('should reject enrollment when maxStudents is reached', async () => {
+      mockTx.course.update.mockResolvedValue(course);
+      mockTx.courseEnrollment.findUnique.mockResolvedValue(null);
+      mockTx.courseEnrollment.count.mockResolvedValue(2);
+
+      await expect(service.enroll('course-1', 'student-1')).rejects.toBeInstanceOf(ConflictError);
+      expect(mockTx.courseEnrollment.create).not.toHaveBeenCalled();
+    });
+
+    it('should reactivate a previous enrollment instead of creating a new one', async () => {
+      mockTx.course.update.mockResolvedValue(course);
+      mockTx.courseEnrollment.findUnique.mockResolvedValue({ id: 'enrollment-1', isActive: false });
+      mockTx.courseEnrollment.count.mockResolvedValue(0);
+      mockTx.courseEnrollment.update.mockResolvedValue({ id: 'enrollment-1', isActive: true });
+
+      await service.enroll('course-1', 'student-1');
+
+      expect(mockTx.courseEnrollment.update).toHaveBeenCalledWith({
+        where: { id: 'enrollment-1' },
+        data: { isActive: true },
+      });
+    });
+
+    it('should reject self-enrollment in private courses', async () => {
+      mockTx.course.update.mockResolvedValue({ ...course, isPublic: false });
+      mockTx.courseEnrollment.findUnique.mockResolvedValue(null);
+
+      await expect(service.enroll('course-1', 'student-1')).rejects.toBeInstanceOf(ForbiddenError);
+    });
+  });
+
+  describe('unenroll', () => {
+    it('should not let a student remove another student', async () => {
+      mockPrisma.course.findUnique.mockResolvedValue(course);
+
+      await expect(
+        service.unenroll('course-1', 'student-2', { userId: 'student-1', role: UserRole.STUDENT })
+      ).rejects.toBeInstanceOf(ForbiddenError);
+    });
+
+    it('should let the owner remove a student', async () => {
+      mockPrisma.course.findUnique.mockResolvedValue(course);
+      mockPrisma.courseEnrollment.findUnique.mockResolvedValue({ id: 'enrollment-2', isActive: true });
+
+      await service.unenroll('course-1', 'student-2', { userId: 'prof-1', role: UserRole.PROFESSOR });
+
+      expect(mockPrisma.courseEnrollment.update).toHaveBeenCalledWith({
+        where: { id: 'enrollment-2' },
+        data: { isActive: false },
+      });
+    });
+  });
+
+  describe('getManageableCourse', () => {
+    it('should throw NotFoundError for unknown courses', async () => {
+      mockPrisma.course.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.getManageableCourse('missing', { userId: 'prof-1', role: UserRole.PROFESSOR })
+      ).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should allow admins to manage courses they do not own', async () => {
+      mockPrisma.course.findUnique.mockResolvedValue(course);
+
+      await expect(
+        service.getManageableCourse('course-1', { userId: 'admin-1', role: UserRole.ADMIN })
+      ).resolves.toEqual(course);
+    });
+
+    it('should reject professors who do not own the course', async () => {
+      mockPrisma.course.findUnique.mockResolvedValue(course);
+
+      await expect(
+        service.getManageableCourse('course-1', { userId: 'prof-2', role: UserRole.PROFESSOR })
+      ).rejects.toBeInstanceOf(ForbiddenError);
+    });
+  });
+
+  describe('getCourseById', () => {
+    const detail = {
+      ...course,
+      _count: { enrollments: 1, modules: 2 },
+      modules: [
+        { id: 'm1', isLocked: false, steps: [{ id: 's1', content: 'Intro', resources: null }] },
+        { id: 'm2', isLocked: false, steps: [{ id: 's2', content: 'Solutions', resources: { files: [] } }] },
+      ],
+    };
+
+    beforeEach(() => {
+      mockPrisma.course.findUnique.mockResolvedValue(detail);
+      mockPrisma.courseEnrollment.findUnique.mockResolvedValue({ isActive: true });
+      (progressService.getModuleLocks as jest.Mock).mockResolvedValue(new Map([
+        ['m1', { isLocked: false, lockReason: null, unlocksAt: null }],
+        ['m2', { isLocked: true, lockReason: 'Complete "Intro" first', unlocksAt: null }],
+      ]));
+    });
+
+    it('should only send students the outline of modules still locked for them', async () => {
+      const result = await service.getCourseById('course-1', { userId: 'student-1', role: UserRole.STUDENT });
+
+      expect(progressService.getModuleLocks).toHaveBeenCalledWith('course-1', 'student-1');
+      expect(result.modules[0]).toMatchObject({ isLocked: false, steps: [{ content: 'Intro' }] });
+      expect(result.modules[1]).toMatchObject({
+        isLocked: true,
+        lockReason: 'Complete "Intro" first',
+        unlocksAt: null,
+        steps: [{ id: 's2', content: null, resources: null }],
+      });
+    });
+
+    it('should send the course owner every module in full', async () => {
+      const result = await service.getCourseById('course-1', { userId: 'prof-1', role: UserRole.PROFESSOR });
+
+      expect(progressService.getModuleLocks).not.toHaveBeenCalled();
+      expect(result.modules[1]).toMatchObject({ lockReason: null, steps: [{ content: 'Solutions' }] });
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Discussion Service Tests
+ * Tag normalization, per-day view keys, anonymous author redaction, thread counters and locking
+ */
+
+import { Prisma } from '@prisma/client';
+import { DiscussionService, normalizeTags, redactAuthor, viewDay } from '../../src/services/discussionService';
+import { UserRole } from '../../src/types';
+import { ForbiddenError } from '../../src/utils/errors';
+
+const mockTx = {
+  discussion: { updateMany: jest.fn() },
+  discussionReply: { create: jest.fn() },
+};
+
+jest.mock('../../src/lib/prisma', () => ({
+  prisma: {
+    discussion: { findUnique: jest.fn(), update: jest.fn() },
+    discussionReply: { findMany: jest.fn(), findFirst: jest.fn(), delete: jest.fn() },
+    discussionView: { create: jest.fn() },
+    $transaction: jest.fn((arg: unknown) =>
+      typeof arg === 'function' ? arg(mockTx) : Promise.all(arg as unknown[])),
+  },
+}));
+jest.mock('../../src/services/notificationService', () => ({ notificationService: { notify: jest.fn() } }));
+
+import { prisma } from '../../src/lib/prisma';
+import { notificationService } from '../../src/services/notificationService';
+
+const mockPrisma = prisma as any;
+
+const post = (isAnonymous: boolean, authorId: string | null = 'author1') => ({
+  id: 'd1',
+  isAnonymous,
+  authorId,
+  author: authorId ? { id: authorId, firstName: 'Ada', lastName: 'Lovelace', avatar: null } : null,
+});
+
+describe('viewDay', () => {
+  it('should key views by UTC calendar day', () => {
+    expect(viewDay(new Date('2025-03-10T23:59:59Z'))).toBe('2025-03-10');
+    expect(viewDay(new Date('2025-03-11T00:00:00Z'))).toBe('2025-03-11');
+  });
+});
+
+describe('normalizeTags', () => {
+  it('should trim, lowercase and de-duplicate tags', () => {
+    expect(normalizeTags([' CNN ', 'cnn', 'Homework', ''])).toEqual(['cnn', 'homework']);
+  });
+
+  it('should treat missing tags as none', () => {
+    expect(normalizeTags(undefined)).toEqual([]);
+    expect(normalizeTags(null)).toEqual([]);
+  });
+
+  it('should reject invalid tags', () => {
+    expect(() => normalizeTags('cnn')).toThrow('array of strings');
+    expect(() => normalizeTags([1])).toThrow('array of strings');
+    expect(() => normalizeTags(Array.from({ length: 11 }, (_, i) => `t${i}`))).toThrow('at most 10 tags');
+    expect(() => normalizeTags(['x'.repeat(31)])).toThrow('at most 30 characters');
+  });
+});
+
+describe('redactAuthor', () => {
+  it('should hide the author of anonymous posts from other students', () => {
+    const redacted = redactAuthor(post(true), { userId: 'student2', canModerate: false });
+
+    expect(redacted.authorId).toBeNull();
+    expect(redacted.author).toBeNull();
+  });
+
+  it('should show the author to moderators and to the author', () => {
+    expect(redactAuthor(post(true), { userId: 'prof1', canModerate: true }).authorId).toBe('author1');
+    expect(redactAuthor(post(true), { userId: 'author1', canModerate: false }).author).not.toBeNull();
+  });
+
+  it('should leave named posts untouched', () => {
+    const named = post(false);
+
+    expect(redactAuthor(named, { userId: 'student2', canModerate: false })).toBe(named);
+  });
+});
+
+describe('DiscussionService', () => {
+  let service: DiscussionService;
+  const student = { userId: 'student2', role: UserRole.STUDENT };
+  const professor = { userId: 'prof1', role: UserRole.PROFESSOR };
+
+  // A general forum thread: students take part, professors moderate
+  const thread = (overrides: Record<string, unknown> = {}) => ({
+    ...post(false),
+    title: 'Pooling question',
+    courseId: null,
+    course: null,
+    viewCount: 4,
+    replyCount: 1,
+    isLocked: false,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new DiscussionService();
+    mockPrisma.discussion.findUnique.mockResolvedValue(thread());
+    mockPrisma.discussionReply.findMany.mockResolvedValue([]);
+    mockTx.discussionReply.create.mockResolvedValue({ id: 'r1', isAnonymous: false, authorId: student.userId, author: null });
+  });
+
+  describe('getDiscussion', () => {
+    it('should count a reader once per day', async () => {
+      mockPrisma.discussionView.create
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }));
+
+      await expect(service.getDiscussion('d1', student)).resolves.toMatchObject({ viewCount: 5 });
+      await expect(service.getDiscussion('d1', student)).resolves.toMatchObject({ viewCount: 4 });
+
+      expect(mockPrisma.discussion.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.discussion.update).toHaveBeenCalledWith({
+        where: { id: 'd1' },
+        data: { viewCount: { increment: 1 } },
+      });
+    });
+  });
+
+  describe('createReply', () => {
+    it('should count the reply only while the thread is unlocked', async () => {
+      mockTx.discussion.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.createReply('d1', { content: 'Try 2x2 windows' }, student);
+
+      expect(mockTx.discussion.updateMany).toHaveBeenCalledWith({
+        where: { id: 'd1', isLocked: false },
+        data: { replyCount: { increment: 1 } },
+      });
+      expect(mockTx.discussionReply.create).toHaveBeenCalled();
+      expect(notificationService.notify).toHaveBeenCalledWith(expect.objectContaining({ userId: 'author1' }));
+    });
+
+    it('should reject student replies to a locked thread without counting them', async () => {
+      mockTx.discussion.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.createReply('d1', { content: 'Bump' }, student)).rejects.toBeInstanceOf(ForbiddenError);
+
+      expect(mockTx.discussionReply.create).not.toHaveBeenCalled();
+      expect(notificationService.notify).not.toHaveBeenCalled();
+    });
+
+    it('should let moderators reply to locked threads', async () => {
+      mockPrisma.discussion.findUnique.mockResolvedValue(thread({ isLocked: true }));
+      mockTx.discussion.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.createReply('d1', { content: 'Closing this, see the FAQ' }, professor);
+
+      expect(mockTx.discussion.updateMany.mock.calls[0][0].where).toEqual({ id: 'd1' });
+      expect(mockTx.discussionReply.create).toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteReply', () => {
+    it('should decrement replyCount with the deletion', async () => {
+      mockPrisma.discussionReply.findFirst.mockResolvedValue({ id: 'r1', authorId: student.userId });
+
+      await service.deleteReply('d1', 'r1', student);
+
+      expect(mockPrisma.discussionReply.delete).toHaveBeenCalledWith({ where: { id: 'r1' } });
+      expect(mockPrisma.discussion.update).toHaveBeenCalledWith({
+        where: { id: 'd1' },
+        data: { replyCount: { decrement: 1 } },
+      });
+    });
+  });
+
+  describe('setLocked', () => {
+    it('should only let moderators lock a thread', async () => {
+      mockPrisma.discussion.update.mockResolvedValue(thread({ isLocked: true }));
+
+      await expect(service.setLocked('d1', true, student)).rejects.toBeInstanceOf(ForbiddenError);
+      await expect(service.setLocked('d1', true, professor)).resolves.toMatchObject({ isLocked: true });
+
+      expect(mockPrisma.discussion.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.discussion.update.mock.calls[0][0].data).toEqual({ isLocked: true });
+    });
+  });
+
+  describe('updateDiscussion', () => {
+    it('should stop authors editing a locked thread', async () => {
+      mockPrisma.discussion.findUnique.mockResolvedValue(thread({ isLocked: true }));
+
+      await expect(service.updateDiscussion('d1', { title: 'Edited' }, { userId: 'author1', role: UserRole.STUDENT }))
+        .rejects.toThrow('This discussion is locked');
+      expect(mockPrisma.discussion.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Document Ingestion Service Tests
+ * Format detection, DOCX section parsing, text splitting and chunking
+ */
+
+import {
+  chunkDocument,
+  ExtractedDocument,
+  getDocumentFormat,
+  htmlToSections,
+  splitText,
+  summarizeDocument,
+  toAnalysisText,
+} from '../../src/services/documentIngestionService';
+
+jest.mock('pdf-parse', () => ({ PDFParse: jest.fn() }));
+jest.mock('mammoth', () => ({}));
+
+describe('getDocumentFormat', () => {
+  it('should recognise PDF, DOCX and text uploads', () => {
+    expect(getDocumentFormat('application/pdf')).toBe('pdf');
+    expect(getDocumentFormat('application/vnd.openxmlformats-officedocument.wordprocessingml.document')).toBe('docx');
+    expect(getDocumentFormat('text/markdown')).toBe('text');
+    expect(getDocumentFormat('image/png')).toBeNull();
+  });
+});
+
+describe('htmlToSections', () => {
+  it('should start a new section at each heading', () => {
+    const sections = htmlToSections(
+      '<p>Preface</p><h1>Circuits</h1><p>Current &amp; voltage</p><ul><li>Ohm&#39;s law</li></ul>' +
+      '<h2>Summary</h2><p><strong>Key</strong> points</p>'
+    );
+
+    expect(sections).toEqual([
+      { title: '', text: 'Preface' },
+      { title: 'Circuits', text: 'Current & voltage\nOhm\'s law' },
+      { title: 'Summary', text: 'Key points' },
+    ]);
+  });
+});
+
+describe('splitText', () => {
+  it('should keep text that fits as one piece', () => {
+    expect(splitText('  short text ', 100)).toEqual(['short text']);
+    expect(splitText('   ', 100)).toEqual([]);
+  });
+
+  it('should split at paragraph boundaries before anything smaller', () => {
+    const text = `${'a'.repeat(40)}\n\n${'b'.repeat(40)}\n\n${'c'.repeat(40)}`;
+    expect(splitText(text, 90)).toEqual([`${'a'.repeat(40)}\n\n${'b'.repeat(40)}`, 'c'.repeat(40)]);
+  });
+
+  it('should never return pieces longer than the limit', () => {
+    const text = `${'word '.repeat(50)}\n${'x'.repeat(120)}`;
+    const pieces = splitText(text, 50);
+
+    pieces.forEach(piece => expect(piece.length).toBeLessThanOrEqual(50));
+    expect(pieces.join('').replace(/\s/g, '')).toBe(text.replace(/\s/g, ''));
+  });
+});
+
+describe('chunkDocument', () => {
+  it('should pack pages together and label the pages each chunk covers', () => {
+    const chunks = chunkDocument([
+      { title: '', page: 1, text: 'a'.repeat(30) },
+      { title: '', page: 2, text: 'b'.repeat(30) },
+      { title: '', page: 3, text: 'c'.repeat(30) },
+    ], 90);
+
+    expect(chunks.map(chunk => chunk.label)).toEqual(['Page 1 - Page 2', 'Page 3']);
+    expect(chunks[0]!.text).toBe(`[Page 1]\n${'a'.repeat(30)}\n\n[Page 2]\n${'b'.repeat(30)}`);
+    chunks.forEach(chunk => expect(chunk.text.length).toBeLessThanOrEqual(90));
+  });
+
+  it('should split a section that is too long on its own', () => {
+    const chunks = chunkDocument([{ title: 'Methods', text: 'step one. '.repeat(20) }], 60);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.label === 'Methods')).toBe(true);
+    expect(chunks.map(chunk => chunk.index)).toEqual(chunks.map((_chunk, index) => index));
+  });
+});
+
+describe('toAnalysisText and summarizeDocument', () => {
+  const document: ExtractedDocument = {
+    format: 'pdf',
+    text: 'Intro\n\nResults',
+    sections: [
+      { title: '', page: 1, text: 'Intro' },
+      { title: '', page: 2, text: 'Results' },
+    ],
+    pageCount: 2,
+    images: [{ page: 2, mimeType: 'image/png', width: 100, height: 80, data: Buffer.alloc(0) }],
+  };
+
+  it('should mark pages and embedded images', () => {
+    expect(toAnalysisText(document)).toBe('[Page 1]\nIntro\n\n[Page 2]\nResults\n[1 embedded image(s)]');
+  });
+
+  it('should summarize without the extracted content', () => {
+    expect(summarizeDocument(document)).toEqual({
+      format: 'pdf',
+      pageCount: 2,
+      sectionCount: 2,
+      imageCount: 1,
+      characters: 14,
+    });
+  });
+});
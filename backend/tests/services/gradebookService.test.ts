@@ -0,0 +1,202 @@
+/**
+ * Gradebook Service Tests
+ * Grid building, CSV round trips and validation of imported grades
+ */
+
+import { SubmissionStatus } from '@prisma/client';
+import {
+  buildGradebook,
+  GradebookService,
+  GradebookSubmission,
+  gradebookToCsv,
+  gradeColumnHeader,
+  parseCsv,
+  parseGradeColumn,
+  validateGradeImport,
+} from '../../src/services/gradebookService';
+import { UserRole } from '../../src/types';
+
+jest.mock('../../src/lib/prisma', () => ({
+  prisma: {
+    course: { findUnique: jest.fn() },
+    courseEnrollment: { findMany: jest.fn() },
+    assignment: { findMany: jest.fn() },
+    submission: { findMany: jest.fn(), update: jest.fn() },
+    $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+  },
+}));
+
+import { prisma } from '../../src/lib/prisma';
+
+const mockPrisma = prisma as any;
+
+const A1 = 'a00000000000000000000001';
+const A2 = 'a00000000000000000000002';
+
+const students = [
+  { id: 's1', email: 'ada@example.com', firstName: 'Ada', lastName: 'Lovelace' },
+  { id: 's2', email: 'alan@example.com', firstName: 'Alan', lastName: 'Turing' },
+];
+
+const assignments = [
+  { id: A1, title: 'Feature maps', pointsWorth: 100, dueDate: null },
+  { id: A2, title: 'Pooling, strides', pointsWorth: 50, dueDate: null },
+];
+
+const submission = (overrides: Partial<GradebookSubmission>): GradebookSubmission => ({
+  id: 'sub',
+  assignmentId: A1,
+  studentId: 's1',
+  attemptNumber: 1,
+  status: SubmissionStatus.RETURNED,
+  grade: null,
+  isLate: false,
+  latePenaltyApplied: null,
+  submittedAt: new Date('2025-03-01T00:00:00Z'),
+  gradedAt: null,
+  ...overrides,
+});
+
+const submissions = [
+  submission({ id: 'sub1', grade: 80, gradedAt: new Date(), isLate: true, latePenaltyApplied: 10 }),
+  submission({ id: 'sub2', attemptNumber: 2, status: SubmissionStatus.SUBMITTED }),
+  submission({ id: 'sub3', studentId: 's2', assignmentId: A2, grade: 45, gradedAt: new Date(), status: SubmissionStatus.GRADED }),
+  submission({ id: 'sub4', studentId: 's2', assignmentId: A1, status: SubmissionStatus.SUBMITTED }),
+];
+
+describe('parseCsv', () => {
+  it('should handle quoted fields, escaped quotes and CRLF line endings', () => {
+    expect(parseCsv('name,note\r\n"Lovelace, Ada","said ""hi"""\r\n')).toEqual([
+      ['name', 'note'],
+      ['Lovelace, Ada', 'said "hi"'],
+    ]);
+  });
+
+  it('should keep empty trailing cells and strip a byte order mark', () => {
+    expect(parseCsv('\uFEFFa,b,\n1,,')).toEqual([['a', 'b', ''], ['1', '', '']]);
+  });
+
+  it('should reject unterminated quotes', () => {
+    expect(() => parseCsv('a,"b\n1,2')).toThrow('unterminated');
+  });
+});
+
+describe('parseGradeColumn', () => {
+  it('should read the assignment id from grade column headers only', () => {
+    expect(parseGradeColumn(gradeColumnHeader(assignments[0]!))).toBe(A1);
+    expect(parseGradeColumn('Feature maps Late Penalty %')).toBeNull();
+    expect(parseGradeColumn('Email')).toBeNull();
+  });
+});
+
+describe('buildGradebook', () => {
+  it('should show the latest graded attempt with its late penalty', () => {
+    const cell = buildGradebook(students, assignments, submissions).rows[0]!.cells[0]!;
+
+    expect(cell).toMatchObject({
+      submissionId: 'sub1',
+      grade: 80,
+      isLate: true,
+      latePenaltyApplied: 10,
+      needsGrading: true,
+    });
+  });
+
+  it('should total only graded assignments', () => {
+    const [ada, alan] = buildGradebook(students, assignments, submissions).rows;
+
+    expect(ada).toMatchObject({ pointsEarned: 80, pointsPossible: 100, percentage: 80 });
+    expect(alan).toMatchObject({ pointsEarned: 45, pointsPossible: 50, percentage: 90 });
+  });
+
+  it('should leave cells without submissions empty', () => {
+    const cell = buildGradebook(students, assignments, []).rows[1]!.cells[1]!;
+
+    expect(cell).toMatchObject({ submissionId: null, grade: null, status: null, needsGrading: false });
+  });
+});
+
+describe('validateGradeImport', () => {
+  const gradebook = buildGradebook(students, assignments, submissions);
+  const exported = parseCsv(gradebookToCsv(gradebook));
+
+  it('should round-trip an unedited export without changes', () => {
+    const report = validateGradeImport(exported, gradebook, submissions);
+
+    expect(report.errors).toEqual([]);
+    expect(report.changes).toEqual([]);
+    expect(report.unchanged).toBe(2);
+  });
+
+  it('should grade the latest submitted attempt for edited cells', () => {
+    const rows = exported.map(row => [...row]);
+    rows[1]![4] = '85';
+    rows[2]![4] = '70';
+
+    const report = validateGradeImport(rows, gradebook, submissions);
+
+    expect(report.changes).toEqual([
+      { row: 2, studentId: 's1', assignmentId: A1, submissionId: 'sub2', previousGrade: null, grade: 85 },
+      { row: 3, studentId: 's2', assignmentId: A1, submissionId: 'sub4', previousGrade: null, grade: 70 },
+    ]);
+  });
+
+  it('should report unknown students and out-of-range points', () => {
+    const header = ['Email', gradeColumnHeader(assignments[1]!)];
+    const report = validateGradeImport(
+      [header, ['nobody@example.com', '10'], ['alan@example.com', '60'], ['ada@example.com', 'A+']],
+      gradebook,
+      submissions
+    );
+
+    expect(report.errors.map(error => error.message)).toEqual([
+      'Unknown student nobody@example.com',
+      '60 is outside 0-50 points',
+      '"A+" is not a number',
+    ]);
+  });
+
+  it('should refuse grades for students without a submission', () => {
+    const header = ['Student ID', gradeColumnHeader(assignments[1]!)];
+    const report = validateGradeImport([header, ['s1', '40']], gradebook, submissions);
+
+    expect(report.errors[0]!.message).toBe('ada@example.com has no submission to grade');
+  });
+
+  it('should reject columns for assignments outside the course', () => {
+    const report = validateGradeImport(
+      [['Student ID', `Other [${'b'.repeat(24)}] (/10)`], ['s1', '5']],
+      gradebook,
+      submissions
+    );
+
+    expect(report.errors[0]).toMatchObject({ row: 1, message: 'Assignment is not part of this course' });
+  });
+});
+
+describe('GradebookService.importCsv', () => {
+  const gradebook = buildGradebook(students, assignments, submissions);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.course.findUnique.mockResolvedValue({ id: 'course-1', ownerId: 'prof-1' });
+    mockPrisma.courseEnrollment.findMany.mockResolvedValue(students.map(user => ({ userId: user.id, user })));
+    mockPrisma.assignment.findMany.mockResolvedValue(assignments);
+    mockPrisma.submission.findMany.mockResolvedValue(submissions);
+  });
+
+  it('should replace rubric grading with the imported grade', async () => {
+    const rows = parseCsv(gradebookToCsv(gradebook));
+    const column = rows[0]!.findIndex(header => parseGradeColumn(header) === A2);
+    rows[2]![column] = '40';
+    const csv = rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+
+    const report = await new GradebookService().importCsv('course-1', csv, { userId: 'prof-1', role: UserRole.PROFESSOR });
+
+    expect(report.applied).toBe(true);
+    expect(mockPrisma.submission.update).toHaveBeenCalledWith({
+      where: { id: 'sub3' },
+      data: expect.objectContaining({ grade: 40, rubricScores: null, status: SubmissionStatus.GRADED }),
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Grading Service Tests
+ * Rubric validation, level selection scoring and grade calculation
+ */
+
+import { calculateGrade, GradingService, RubricWithCriteria, scoreRubric, validateRubric } from '../../src/services/gradingService';
+import { UserRole } from '../../src/types';
+
+jest.mock('../../src/lib/prisma', () => ({
+  prisma: {
+    assignment: { findUnique: jest.fn() },
+    rubric: { findUnique: jest.fn() },
+    submission: { findUnique: jest.fn(), update: jest.fn() },
+  },
+}));
+jest.mock('../../src/services/notificationService', () => ({ notificationService: { notify: jest.fn() } }));
+
+import { prisma } from '../../src/lib/prisma';
+import { notificationService } from '../../src/services/notificationService';
+
+const mockPrisma = prisma as any;
+
+const level = (id: string, criteriaId: string, points: number, order: number) => ({
+  id,
+  criteriaId,
+  name: `Level ${id}`,
+  description: null,
+  points,
+  order,
+});
+
+const rubric: RubricWithCriteria = {
+  totalPoints: 30,
+  criteria: [
+    {
+      id: 'c1',
+      rubricId: 'r1',
+      name: 'Accuracy',
+      description: null,
+      maxPoints: 20,
+      order: 0,
+      levels: [level('c1-high', 'c1', 20, 0), level('c1-low', 'c1', 8, 1)],
+    },
+    {
+      id: 'c2',
+      rubricId: 'r1',
+      name: 'Presentation',
+      description: null,
+      maxPoints: 10,
+      order: 1,
+      levels: [level('c2-high', 'c2', 10, 0), level('c2-low', 'c2', 4, 1)],
+    },
+  ],
+};
+
+describe('validateRubric', () => {
+  it('should return the sum of criterion max points', () => {
+    const total = validateRubric({
+      name: 'Lab report',
+      criteria: [
+        { name: 'Method', maxPoints: 15, levels: [{ name: 'Full', points: 15 }, { name: 'None', points: 0 }] },
+        { name: 'Results', maxPoints: 5, levels: [{ name: 'Full', points: 5 }] },
+      ],
+    });
+
+    expect(total).toBe(20);
+  });
+
+  it('should reject levels worth more than the criterion maximum', () => {
+    expect(() => validateRubric({
+      name: 'Lab report',
+      criteria: [{ name: 'Method', maxPoints: 10, levels: [{ name: 'Full', points: 12 }] }],
+    })).toThrow('must be worth 0-10');
+  });
+
+  it('should reject criteria without levels', () => {
+    expect(() => validateRubric({
+      name: 'Lab report',
+      criteria: [{ name: 'Method', maxPoints: 10, levels: [] }],
+    })).toThrow('at least one level');
+  });
+});
+
+describe('scoreRubric', () => {
+  it('should default points to the selected level', () => {
+    const result = scoreRubric(rubric, [
+      { criteriaId: 'c1', levelId: 'c1-high' },
+      { criteriaId: 'c2', levelId: 'c2-low', feedback: 'Label your axes' },
+    ]);
+
+    expect(result.earnedPoints).toBe(24);
+    expect(result.percentage).toBe(80);
+    expect(result.rubricScores[1]).toEqual({ criteriaId: 'c2', levelId: 'c2-low', points: 4, feedback: 'Label your axes' });
+  });
+
+  it('should allow adjusting points up to the criterion maximum', () => {
+    const result = scoreRubric(rubric, [
+      { criteriaId: 'c1', levelId: 'c1-low', points: 12 },
+      { criteriaId: 'c2', levelId: 'c2-high' },
+    ]);
+
+    expect(result.earnedPoints).toBe(22);
+  });
+
+  it('should reject points above the criterion maximum', () => {
+    expect(() => scoreRubric(rubric, [
+      { criteriaId: 'c1', levelId: 'c1-high', points: 21 },
+      { criteriaId: 'c2', levelId: 'c2-high' },
+    ])).toThrow('between 0 and 20');
+  });
+
+  it('should reject a level from another criterion', () => {
+    expect(() => scoreRubric(rubric, [
+      { criteriaId: 'c1', levelId: 'c2-high' },
+      { criteriaId: 'c2', levelId: 'c2-high' },
+    ])).toThrow('does not belong to criterion');
+  });
+
+  it('should reject criteria outside the rubric', () => {
+    expect(() => scoreRubric(rubric, [{ criteriaId: 'other', levelId: 'c1-high' }])).toThrow('does not belong to this rubric');
+  });
+
+  it('should require every criterion to be scored exactly once', () => {
+    expect(() => scoreRubric(rubric, [{ criteriaId: 'c1', levelId: 'c1-high' }])).toThrow('Missing scores for: Presentation');
+    expect(() => scoreRubric(rubric, [
+      { criteriaId: 'c1', levelId: 'c1-high' },
+      { criteriaId: 'c1', levelId: 'c1-low' },
+    ])).toThrow('more than once');
+  });
+});
+
+describe('calculateGrade', () => {
+  it('should scale the percentage to the assignment points', () => {
+    expect(calculateGrade(80, 50, null)).toBe(40);
+  });
+
+  it('should apply the late penalty', () => {
+    expect(calculateGrade(80, 100, 25)).toBe(60);
+  });
+});
+
+describe('GradingService.gradeSubmission', () => {
+  const service = new GradingService();
+  const professor = { userId: 'prof-1', role: UserRole.PROFESSOR };
+  const rubricScores = [{ criteriaId: 'c1', levelId: 'c1-high' }, { criteriaId: 'c2', levelId: 'c2-low' }];
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockPrisma.assignment.findUnique.mockResolvedValue({
+      id: 'a1', title: 'Lab', pointsWorth: 30, professorId: 'prof-1', course: { ownerId: 'prof-1' },
+    });
+    mockPrisma.rubric.findUnique.mockResolvedValue(rubric);
+    mockPrisma.submission.update.mockImplementation(async ({ data }: any) => ({ id: 's1', studentId: 'student-1', ...data }));
+  });
+
+  it('should keep a returned submission returned when it is regraded', async () => {
+    mockPrisma.submission.findUnique.mockResolvedValue({ id: 's1', assignmentId: 'a1', status: 'RETURNED', latePenaltyApplied: null });
+
+    const graded = await service.gradeSubmission('a1', 's1', { rubricScores }, professor);
+
+    expect(graded).toMatchObject({ status: 'RETURNED', grade: 24 });
+    expect(notificationService.notify).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep new grades hidden until they are returned', async () => {
+    mockPrisma.submission.findUnique.mockResolvedValue({ id: 's1', assignmentId: 'a1', status: 'SUBMITTED', latePenaltyApplied: null });
+
+    await expect(service.gradeSubmission('a1', 's1', { rubricScores }, professor)).resolves.toMatchObject({ status: 'GRADED' });
+    expect(notificationService.notify).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Image Preprocessing Service Tests
+ * Orientation, metadata stripping, format conversion, provider downsizing and thumbnails
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { canPassThrough, ImagePreprocessingService } from '../../src/services/imagePreprocessingService';
+
+const image = (width: number, height: number, channels: 3 | 4 = 3) =>
+  sharp({ create: { width, height, channels, background: { r: 200, g: 40, b: 40, alpha: 0.5 } } });
+
+describe('canPassThrough', () => {
+  it('should only send clean, upright images in accepted formats as they are', () => {
+    const clean = { format: 'jpeg' as const, width: 800, height: 600 };
+
+    expect(canPassThrough(clean, 1024)).toBe(true);
+    expect(canPassThrough(clean, 640)).toBe(false);
+    expect(canPassThrough({ ...clean, orientation: 6 }, 1024)).toBe(false);
+    expect(canPassThrough({ ...clean, exif: Buffer.from('Exif') }, 1024)).toBe(false);
+    expect(canPassThrough({ ...clean, format: 'tiff' }, 1024)).toBe(false);
+    expect(canPassThrough({ ...clean, format: 'gif' }, 1024)).toBe(false);
+  });
+});
+
+describe('ImagePreprocessingService', () => {
+  const service = new ImagePreprocessingService();
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'image-preprocessing-'));
+  });
+
+  afterEach(async () => {
+    delete process.env['IMAGE_MAX_DIMENSION'];
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should turn uploads upright, drop their EXIF and GPS data and cap their size', async () => {
+    process.env['IMAGE_MAX_DIMENSION'] = '100';
+    const filePath = path.join(dir, 'photo.jpg');
+    await image(400, 200)
+      .withExif({ IFD0: { Make: 'Phone' }, IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '48/1 51/1 0/1' } })
+      .withMetadata({ orientation: 6 })
+      .jpeg()
+      .toFile(filePath);
+    const { size } = await fs.stat(filePath);
+
+    const ingested = await service.ingest({ path: filePath, size });
+
+    const metadata = await sharp(ingested.filePath).metadata();
+    expect(ingested.filePath).toBe(filePath);
+    expect([metadata.width, metadata.height]).toEqual([50, 100]);
+    expect(metadata.orientation).toBeUndefined();
+    expect(metadata.exif).toBeUndefined();
+    expect(ingested.summary).toMatchObject({ originalFormat: 'jpeg', originalSize: size, width: 50, height: 100 });
+    expect(ingested.thumbnail).toMatch(/^data:image\/webp;base64,/);
+  });
+
+  it('should convert other formats to JPEG, or PNG when they are transparent', async () => {
+    const tiffPath = path.join(dir, 'scan.tiff');
+    const webpPath = path.join(dir, 'sticker.webp');
+    await image(60, 40).tiff().toFile(tiffPath);
+    await image(60, 40, 4).webp().toFile(webpPath);
+
+    const scan = await service.ingest({ path: tiffPath, size: 1 });
+    const sticker = await service.ingest({ path: webpPath, size: 1 });
+
+    expect(scan).toMatchObject({ fileName: 'scan.jpg', mimeType: 'image/jpeg', summary: { originalFormat: 'tiff' } });
+    expect(sticker).toMatchObject({ fileName: 'sticker.png', mimeType: 'image/png', summary: { originalFormat: 'webp' } });
+    await expect(fs.access(tiffPath)).rejects.toThrow();
+    expect((await sharp(sticker.filePath).metadata()).hasAlpha).toBe(true);
+  });
+
+  it('should downsize images for a provider and pass small clean ones through', async () => {
+    const small = await image(300, 200).jpeg().toBuffer();
+    const large = await image(3000, 1500).png().toBuffer();
+
+    await expect(service.prepareForModel({ buffer: small }, 1568)).resolves.toMatchObject({ data: small, mimeType: 'image/jpeg' });
+    await expect(service.prepareForModel({ buffer: large }, 1568))
+      .resolves.toMatchObject({ mimeType: 'image/jpeg', width: 1568, height: 784 });
+  });
+
+  it('should reject files that are not images', async () => {
+    await expect(service.prepareForModel({ buffer: Buffer.from('not an image') }, 1024)).rejects.toThrow('not a readable image');
+  });
+});
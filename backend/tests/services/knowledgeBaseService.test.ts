@@ -0,0 +1,103 @@
+/**
+ * Knowledge Base Service Tests
+ * Dump and glossary parsing, imports and permissions
+ */
+
+import { KnowledgeBaseService, parseKnowledgeFile, summarize, toEntryData } from '../../src/services/knowledgeBaseService';
+import { UserRole } from '../../src/types';
+import { ForbiddenError } from '../../src/utils/errors';
+
+jest.mock('../../src/lib/prisma', () => ({
+  prisma: {
+    knowledgeEntry: {
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    course: { findUnique: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+import { prisma } from '../../src/lib/prisma';
+
+const mockPrisma = prisma as any;
+
+const courseId = 'c'.repeat(24);
+const admin = { userId: 'admin-1', role: UserRole.ADMIN };
+const professor = { userId: 'prof-1', role: UserRole.PROFESSOR };
+
+describe('toEntryData', () => {
+  it('should read Wikipedia extracts and glossary terms', () => {
+    expect(toEntryData({ title: 'Breadboard', text: 'A construction base.\n\nHistory follows.', url: 'https://en.wikipedia.org/wiki/Breadboard' }, 0))
+      .toEqual({
+        term: 'breadboard',
+        aliases: [],
+        title: 'Breadboard',
+        summary: 'A construction base.\n\nHistory follows.',
+        url: 'https://en.wikipedia.org/wiki/Breadboard',
+        images: [],
+        relatedTopics: [],
+      });
+    expect(toEntryData({ term: 'Logic_Analyzer', definition: 'Captures digital signals.', aliases: ['LA', 'logic analyzer'] }, 0))
+      .toMatchObject({ term: 'logic analyzer', aliases: ['la'], url: null });
+  });
+
+  it('should reject entries without a title or text', () => {
+    expect(() => toEntryData({ definition: 'No term' }, 2)).toThrow('Entry 3 needs a title or term');
+    expect(() => toEntryData({ term: 'Resistor' }, 0)).toThrow('Entry 1 (Resistor) needs a summary');
+  });
+});
+
+describe('summarize and parseKnowledgeFile', () => {
+  it('should cut articles down to their leading paragraphs', () => {
+    expect(summarize('First paragraph.\n\nSecond paragraph.\n\nThird.', 40)).toBe('First paragraph.\n\nSecond paragraph.');
+    expect(summarize('x'.repeat(50), 10)).toBe(`${'x'.repeat(9)}…`);
+  });
+
+  it('should read JSON arrays and JSON Lines', () => {
+    expect(parseKnowledgeFile('[{"title":"A"}]')).toEqual([{ title: 'A' }]);
+    expect(parseKnowledgeFile('{"title":"A"}\n\n{"title":"B"}\n')).toEqual([{ title: 'A' }, { title: 'B' }]);
+    expect(() => parseKnowledgeFile('{"title":')).toThrow('JSON array or JSON Lines');
+  });
+});
+
+describe('KnowledgeBaseService', () => {
+  const service = new KnowledgeBaseService();
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockPrisma.knowledgeEntry.deleteMany.mockResolvedValue({ count: 1 });
+    mockPrisma.knowledgeEntry.createMany.mockResolvedValue({ count: 1 });
+    mockPrisma.$transaction.mockImplementation((operations: Promise<unknown>[]) => Promise.all(operations));
+  });
+
+  it('should replace entries with the same term when importing a course glossary', async () => {
+    mockPrisma.course.findUnique.mockResolvedValue({ id: courseId, ownerId: 'prof-1' });
+
+    const result = await service.importEntries({
+      source: 'glossary',
+      courseId,
+      content: '{"term":"Breadboard","definition":"Old"}\n{"term":"breadboard","definition":"Solderless prototyping board"}',
+    }, professor);
+
+    expect(result).toEqual({ imported: 1, removed: 1 });
+    expect(mockPrisma.knowledgeEntry.deleteMany).toHaveBeenCalledWith({
+      where: { source: 'glossary', courseId, term: { in: ['breadboard'] } },
+    });
+    expect(mockPrisma.knowledgeEntry.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ term: 'breadboard', summary: 'Solderless prototyping board', courseId, createdById: 'prof-1' })],
+    });
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the platform knowledge base to admins and dumps out of courses', async () => {
+    const entries = [{ title: 'Resistor', extract: 'Limits current.' }];
+    mockPrisma.course.findUnique.mockResolvedValue({ id: courseId, ownerId: 'prof-1' });
+
+    await expect(service.importEntries({ source: 'wikipedia', entries }, professor)).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(service.importEntries({ source: 'wikipedia', entries, courseId }, professor))
+      .rejects.toThrow('Courses can only import glossaries');
+    await expect(service.importEntries({ source: 'encyclopedia', entries }, admin)).rejects.toThrow('source must be one of');
+    expect(mockPrisma.knowledgeEntry.createMany).not.toHaveBeenCalled();
+  });
+});
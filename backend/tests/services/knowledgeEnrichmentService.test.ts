@@ -0,0 +1,122 @@
+/**
+ * Knowledge Enrichment Service Tests
+ * Terms looked up for CNN results, knowledge base precedence, provider fallback and caching
+ */
+
+import {
+  enrichmentTerms,
+  KnowledgeEnrichmentService,
+  KnowledgeHit,
+  KnowledgeProvider,
+  pickEntries,
+} from '../../src/services/knowledgeEnrichmentService';
+import { ICNNAnalysisResult } from '../../src/types';
+
+jest.mock('../../src/lib/prisma', () => ({ prisma: {} }));
+
+const result: ICNNAnalysisResult = {
+  fileId: 'f1',
+  fileName: 'bench.jpg',
+  analysis: {
+    objectDetection: [
+      { label: 'Oscilloscope', confidence: 0.6, boundingBox: { x: 0, y: 0, width: 10, height: 10 } },
+      { label: 'breadboard', confidence: 0.9, boundingBox: { x: 5, y: 5, width: 10, height: 10 } },
+      { label: 'Breadboard', confidence: 0.7, boundingBox: { x: 9, y: 9, width: 10, height: 10 } },
+    ],
+    categorization: [{ category: 'Electronics', subcategories: ['Test_Equipment'], confidence: 0.8 }],
+    hardwareIdentification: [],
+    confidence: 0.85,
+  },
+  processedAt: new Date(),
+  processingTime: 120,
+};
+
+const hit = (title: string, source = 'glossary'): KnowledgeHit => ({
+  title,
+  summary: `${title} explained`,
+  url: '',
+  images: [],
+  relatedTopics: [],
+  source,
+});
+
+const provider = (name: string, known: Record<string, KnowledgeHit>): KnowledgeProvider & { lookup: jest.Mock } => ({
+  name,
+  lookup: jest.fn(async (terms: string[]) =>
+    new Map(terms.filter(term => known[term]).map(term => [term, known[term]!] as [string, KnowledgeHit]))
+  ),
+});
+
+describe('enrichmentTerms', () => {
+  it('should normalize detected labels and categories, most confident first', () => {
+    expect(enrichmentTerms(result)).toEqual([
+      { term: 'breadboard', relevance: 0.9 },
+      { term: 'electronics', relevance: 0.8 },
+      { term: 'test equipment', relevance: 0.8 },
+      { term: 'oscilloscope', relevance: 0.6 },
+    ]);
+  });
+});
+
+describe('pickEntries', () => {
+  it('should prefer a course glossary, then the platform glossary, then Wikipedia extracts', () => {
+    const entry = (title: string, source: string, courseId: string | null, aliases: string[] = []) => ({
+      term: 'breadboard', aliases, title, summary: '', url: null, images: [], relatedTopics: [], source, courseId,
+    });
+
+    const hits = pickEntries([
+      entry('Breadboard (Wikipedia)', 'wikipedia', null),
+      entry('Breadboard (course)', 'glossary', 'course-1'),
+      entry('Breadboard (platform)', 'glossary', null, ['protoboard']),
+    ], ['breadboard', 'protoboard']);
+
+    expect(hits.get('breadboard')?.title).toBe('Breadboard (course)');
+    expect(hits.get('protoboard')?.title).toBe('Breadboard (platform)');
+  });
+});
+
+describe('KnowledgeEnrichmentService', () => {
+  it('should ask later providers only for terms earlier ones did not know', async () => {
+    const local = provider('local', { breadboard: hit('Breadboard') });
+    const live = provider('wikipedia-live', { oscilloscope: hit('Oscilloscope', 'wikipedia') });
+    const service = new KnowledgeEnrichmentService([local, live], () => 0);
+
+    const enrichment = await service.enrich(result, 'course-1');
+
+    expect(local.lookup).toHaveBeenCalledWith(['breadboard', 'electronics', 'test equipment', 'oscilloscope'], 'course-1');
+    expect(live.lookup).toHaveBeenCalledWith(['electronics', 'test equipment', 'oscilloscope'], 'course-1');
+    expect(enrichment.articles.map(article => [article.term, article.title, article.relevanceScore])).toEqual([
+      ['breadboard', 'Breadboard', 0.9],
+      ['oscilloscope', 'Oscilloscope', 0.6],
+    ]);
+    expect(enrichment.providers).toEqual(['local', 'wikipedia-live']);
+  });
+
+  it('should cache hits and misses until they expire', async () => {
+    let now = 0;
+    const local = provider('local', { breadboard: hit('Breadboard') });
+    const service = new KnowledgeEnrichmentService([local], () => now);
+
+    await service.enrich(result);
+    await expect(service.getWikipediaInfo('Breadboard')).resolves.toMatchObject({ title: 'Breadboard' });
+    await service.enrich(result);
+    expect(local.lookup).toHaveBeenCalledTimes(1);
+
+    now = 61 * 60 * 1000;
+    await service.enrich(result);
+    expect(local.lookup).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip failing providers and not remember what they could not answer', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const failing: KnowledgeProvider & { lookup: jest.Mock } = {
+      name: 'wikipedia-live',
+      lookup: jest.fn().mockRejectedValue(new Error('timeout')),
+    };
+    const service = new KnowledgeEnrichmentService([provider('local', { breadboard: hit('Breadboard') }), failing], () => 0);
+
+    await expect(service.enrich(result)).resolves.toMatchObject({ articles: [{ title: 'Breadboard' }] });
+    await service.enrich(result);
+    expect(failing.lookup).toHaveBeenCalledTimes(2);
+  });
+});
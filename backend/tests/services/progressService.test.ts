@@ -0,0 +1,157 @@
+/**
+ * Progress Service Tests
+ * Weighted progress over required steps, per-module completion and module unlock rules
+ */
+
+import {
+  calculateProgress,
+  evaluateModuleLock,
+  ModuleLockContext,
+  parseUnlockRules,
+  summarizeProgress,
+} from '../../src/services/progressService';
+
+jest.mock('../../src/lib/prisma', () => ({ prisma: {} }));
+
+const step = (id: string, estimatedTime: number, isRequired = true) => ({ id, estimatedTime, isRequired });
+
+describe('calculateProgress', () => {
+  it('should weight required steps by estimated time', () => {
+    const steps = [step('a', 30), step('b', 10)];
+
+    expect(calculateProgress(steps, new Set(['a']))).toBe(0.75);
+    expect(calculateProgress(steps, new Set(['b']))).toBe(0.25);
+  });
+
+  it('should ignore optional steps', () => {
+    const steps = [step('a', 20), step('extra', 60, false)];
+
+    expect(calculateProgress(steps, new Set(['a']))).toBe(1);
+    expect(calculateProgress(steps, new Set(['extra']))).toBe(0);
+  });
+
+  it('should still count zero-minute steps', () => {
+    const steps = [step('a', 0), step('b', 0)];
+
+    expect(calculateProgress(steps, new Set(['a']))).toBe(0.5);
+  });
+
+  it('should report no progress for a course without required steps', () => {
+    expect(calculateProgress([], new Set())).toBe(0);
+    expect(calculateProgress([step('a', 10, false)], new Set(['a']))).toBe(0);
+  });
+});
+
+describe('summarizeProgress', () => {
+  const modules = [
+    { id: 'm1', title: 'Basics', steps: [step('a', 15), step('b', 15, false)] },
+    { id: 'm2', title: 'Optional reading', steps: [step('c', 15, false)] },
+    { id: 'm3', title: 'Empty', steps: [] },
+  ];
+
+  it('should complete a module once its required steps are done', () => {
+    const summary = summarizeProgress(modules, new Set(['a']));
+
+    expect(summary.modules[0]).toEqual({ moduleId: 'm1', title: 'Basics', completedSteps: 1, totalSteps: 2, isComplete: true });
+    expect(summary.modulesCompleted).toBe(1);
+    expect(summary.progress).toBe(1);
+  });
+
+  it('should require all steps of a module without required steps', () => {
+    expect(summarizeProgress(modules, new Set()).modules[1]!.isComplete).toBe(false);
+    expect(summarizeProgress(modules, new Set(['c'])).modules[1]!.isComplete).toBe(true);
+  });
+
+  it('should never mark an empty module complete', () => {
+    expect(summarizeProgress(modules, new Set(['a', 'b', 'c'])).modules[2]!.isComplete).toBe(false);
+  });
+
+  it('should ignore completions of steps no longer in the course', () => {
+    const summary = summarizeProgress(modules, new Set(['a', 'deleted']));
+
+    expect(summary.completedSteps).toBe(1);
+    expect(summary.completedStepIds).toEqual(['a']);
+  });
+});
+
+describe('parseUnlockRules', () => {
+  it('should treat empty rules as no rules', () => {
+    expect(parseUnlockRules(null)).toBeNull();
+    expect(parseUnlockRules({ prerequisiteModuleIds: [] })).toBeNull();
+  });
+
+  it('should default relative release to enrollment', () => {
+    expect(parseUnlockRules({ releaseAfterDays: 7 })).toEqual({ releaseAfterDays: 7, releaseRelativeTo: 'ENROLLMENT' });
+  });
+
+  it('should reject invalid rules', () => {
+    expect(() => parseUnlockRules({ releaseAfterDays: -1 })).toThrow('non-negative integer');
+    expect(() => parseUnlockRules({ releaseAt: 'not a date' })).toThrow('valid date');
+    expect(() => parseUnlockRules({ minQuizScores: [{ stepId: 'q1', minScore: 120 }] })).toThrow('between 0 and 100');
+    expect(() => parseUnlockRules({ releaseAfterDays: 1, releaseRelativeTo: 'LAUNCH' })).toThrow('ENROLLMENT or COURSE_START');
+  });
+});
+
+describe('evaluateModuleLock', () => {
+  const context: ModuleLockContext = {
+    now: new Date('2025-03-10T00:00:00Z'),
+    enrolledAt: new Date('2025-03-01T00:00:00Z'),
+    courseStartDate: new Date('2025-02-01T00:00:00Z'),
+    completedModuleIds: new Set(['m1']),
+    quizScores: new Map([['q1', 65]]),
+    moduleTitles: new Map([['m1', 'Basics'], ['m2', 'Convolutions']]),
+    stepTitles: new Map([['q1', 'Basics quiz']]),
+  };
+
+  it('should leave modules without rules unlocked', () => {
+    expect(evaluateModuleLock({ isLocked: false, unlockRules: null }, context))
+      .toEqual({ isLocked: false, lockReason: null, unlocksAt: null });
+  });
+
+  it('should honour the manual lock', () => {
+    expect(evaluateModuleLock({ isLocked: true, unlockRules: null }, context).lockReason).toBe('Locked by the instructor');
+  });
+
+  it('should require prerequisite modules to be completed', () => {
+    expect(evaluateModuleLock({ isLocked: false, unlockRules: { prerequisiteModuleIds: ['m1'] } }, context).isLocked).toBe(false);
+
+    const lock = evaluateModuleLock({ isLocked: false, unlockRules: { prerequisiteModuleIds: ['m1', 'm2'] } }, context);
+    expect(lock.isLocked).toBe(true);
+    expect(lock.lockReason).toBe('Complete "Convolutions" first');
+  });
+
+  it('should require the minimum quiz score', () => {
+    const passed = evaluateModuleLock({ isLocked: false, unlockRules: { minQuizScores: [{ stepId: 'q1', minScore: 60 }] } }, context);
+    const failed = evaluateModuleLock({ isLocked: false, unlockRules: { minQuizScores: [{ stepId: 'q1', minScore: 70 }] } }, context);
+
+    expect(passed.isLocked).toBe(false);
+    expect(failed.lockReason).toBe('Score at least 70% on "Basics quiz"');
+  });
+
+  it('should release modules relative to enrollment', () => {
+    const released = evaluateModuleLock(
+      { isLocked: false, unlockRules: { releaseAfterDays: 7, releaseRelativeTo: 'ENROLLMENT' } },
+      context
+    );
+    const pending = evaluateModuleLock(
+      { isLocked: false, unlockRules: { releaseAfterDays: 14, releaseRelativeTo: 'ENROLLMENT' } },
+      context
+    );
+
+    expect(released.isLocked).toBe(false);
+    expect(pending.isLocked).toBe(true);
+    expect(pending.unlocksAt).toEqual(new Date('2025-03-15T00:00:00Z'));
+  });
+
+  it('should release modules relative to course start or at a fixed date', () => {
+    const relative = evaluateModuleLock(
+      { isLocked: false, unlockRules: { releaseAfterDays: 30, releaseRelativeTo: 'COURSE_START' } },
+      context
+    );
+    const fixed = evaluateModuleLock({ isLocked: false, unlockRules: { releaseAt: '2025-04-01T00:00:00.000Z' } }, context);
+
+    expect(relative).toEqual({ isLocked: false, lockReason: null, unlocksAt: null });
+    expect(fixed.isLocked).toBe(true);
+    expect(fixed.lockReason).toBe('Available from 2025-04-01T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Prompt Template Service Tests
+ * Template validation and rendering, course overrides, versioning and permissions
+ */
+
+import { Prisma } from '@prisma/client';
+import { builtinPrompt, promptSetVersion, renderPrompt } from '../../src/config/promptTemplates';
+import { pickActive, PromptTemplateService, validateTemplate } from '../../src/services/promptTemplateService';
+import { UserRole } from '../../src/types';
+import { ConflictError, ForbiddenError } from '../../src/utils/errors';
+
+jest.mock('../../src/lib/prisma', () => ({
+  prisma: {
+    promptTemplate: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    course: { findUnique: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+import { prisma } from '../../src/lib/prisma';
+
+const mockPrisma = prisma as any;
+
+const courseId = 'c'.repeat(24);
+const admin = { userId: 'admin-1', role: UserRole.ADMIN };
+const professor = { userId: 'prof-1', role: UserRole.PROFESSOR };
+
+const template = (overrides: Record<string, unknown> = {}) => ({
+  id: 'template-1',
+  key: 'analysis-text',
+  courseId: null,
+  version: 1,
+  template: 'Summarize: {{content}}',
+  ...overrides,
+});
+
+describe('validateTemplate', () => {
+  it('should return the variables a template uses', () => {
+    expect(validateTemplate('content-analysis', 'Review {{ content }} ({{contentType}})')).toEqual(['content', 'contentType']);
+  });
+
+  it('should reject unknown and missing required variables', () => {
+    expect(() => validateTemplate('analysis-text', 'Review {{content}} for {{audience}}'))
+      .toThrow('Unknown variables for analysis-text: audience. Available: content');
+    expect(() => validateTemplate('analysis-text', 'Review the upload')).toThrow('must use {{content}}');
+    expect(() => validateTemplate('analysis-text', '  ')).toThrow('template is required');
+  });
+});
+
+describe('renderPrompt', () => {
+  it('should fill in variables and leave missing ones empty', () => {
+    const prompt = { ...builtinPrompt('trend-analysis'), template: 'Data: {{historicalData}} over {{ timeframe }} days{{note}}' };
+
+    expect(renderPrompt(prompt, { historicalData: '[1,2]', timeframe: 30 })).toBe('Data: [1,2] over 30 days');
+  });
+});
+
+describe('pickActive', () => {
+  it('should prefer the course override, then the platform template, then the built-in one', () => {
+    const prompts = pickActive(
+      [template(), template({ courseId, version: 3 }), template({ key: 'analysis-image', version: 2 })],
+      ['analysis-text', 'analysis-image', 'content-analysis'],
+      courseId
+    );
+
+    expect(prompts['analysis-text']?.version).toBe(`analysis-text@course-${courseId}-v3`);
+    expect(prompts['analysis-image']?.version).toBe('analysis-image@v2');
+    expect(prompts['content-analysis']?.version).toBe('content-analysis@builtin-v1');
+    expect(promptSetVersion(prompts, ['content-analysis', 'analysis-image']))
+      .toBe('analysis-image@v2+content-analysis@builtin-v1');
+  });
+});
+
+describe('PromptTemplateService', () => {
+  const service = new PromptTemplateService();
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockPrisma.$transaction.mockImplementation((callback: (tx: unknown) => unknown) => callback(mockPrisma));
+  });
+
+  it('should fall back to built-in templates when templates cannot be read', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockPrisma.promptTemplate.findMany.mockRejectedValue(new Error('connection lost'));
+
+    await expect(service.resolve('analysis-text', courseId)).resolves.toEqual(builtinPrompt('analysis-text'));
+  });
+
+  it('should let professors add and activate a version of their course override', async () => {
+    mockPrisma.course.findUnique.mockResolvedValue({ id: courseId, ownerId: 'prof-1' });
+    mockPrisma.promptTemplate.findFirst.mockResolvedValue(template({ courseId, version: 2 }));
+    mockPrisma.promptTemplate.create.mockImplementation(async ({ data }: any) => ({ id: 'template-3', ...data }));
+    mockPrisma.promptTemplate.update.mockImplementation(async ({ data }: any) => ({ id: 'template-3', ...data }));
+
+    await service.createVersion(
+      'analysis-text',
+      { template: 'As a circuit-design instructor, review:\n\n{{content}}', courseId },
+      professor
+    );
+
+    expect(mockPrisma.promptTemplate.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ key: 'analysis-text', courseId, version: 3, variables: ['content'], createdById: 'prof-1' }),
+    });
+    expect(mockPrisma.promptTemplate.updateMany).toHaveBeenCalledWith({
+      where: { key: 'analysis-text', courseId, isActive: true, id: { not: 'template-3' } },
+      data: { isActive: false },
+    });
+    expect(mockPrisma.promptTemplate.update).toHaveBeenCalledWith({ where: { id: 'template-3' }, data: { isActive: true } });
+    expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a version number taken by a concurrent save as a conflict', async () => {
+    mockPrisma.promptTemplate.findFirst.mockResolvedValue(template({ version: 4 }));
+    mockPrisma.promptTemplate.create.mockRejectedValue(new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+      code: 'P2002',
+      clientVersion: 'test',
+    }));
+
+    await expect(service.createVersion('analysis-text', { template: 'Summarize: {{content}}' }, admin))
+      .rejects.toBeInstanceOf(ConflictError);
+    expect(mockPrisma.promptTemplate.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should keep platform templates to admins and overrides to course managers', async () => {
+    const data = { template: 'Summarize: {{content}}' };
+    mockPrisma.course.findUnique.mockResolvedValue({ id: courseId, ownerId: 'prof-2' });
+
+    await expect(service.createVersion('analysis-text', data, professor))
+      .rejects.toThrow('Only admins can change platform prompt templates');
+    await expect(service.createVersion('analysis-text', { ...data, courseId }, professor)).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(service.listTemplates({ userId: 'student-1', role: UserRole.STUDENT })).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(service.createVersion('grading', data, admin)).rejects.toThrow('Unknown prompt template: grading');
+    expect(mockPrisma.promptTemplate.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Quiz Service Tests
+ * Question validation, auto-grading for every question type and randomized draws
+ */
+
+import { QuestionType } from '@prisma/client';
+import {
+  drawQuestions,
+  gradeAttempt,
+  hasNestedRepetition,
+  isAnswerCorrect,
+  normalizeQuestion,
+  shuffle,
+} from '../../src/services/quizService';
+
+jest.mock('../../src/lib/prisma', () => ({ prisma: {} }));
+jest.mock('../../src/services/AnalyticsService', () => ({ AnalyticsService: jest.fn() }));
+
+const question = (type: QuestionType, correctAnswer: unknown, points = 1, id = 'q1') => ({
+  id,
+  type,
+  correctAnswer: correctAnswer as any,
+  points,
+});
+
+describe('normalizeQuestion', () => {
+  it('should assign option ids when none are given', () => {
+    const normalized = normalizeQuestion({
+      type: QuestionType.MULTIPLE_CHOICE,
+      prompt: 'Which layer reduces spatial size?',
+      options: [{ text: 'Pooling' }, { text: 'Dense' }],
+      correctAnswer: 'opt1',
+    });
+
+    expect(normalized.options).toEqual([{ id: 'opt1', text: 'Pooling' }, { id: 'opt2', text: 'Dense' }]);
+  });
+
+  it('should reject a correct answer that is not an option', () => {
+    expect(() => normalizeQuestion({
+      type: QuestionType.MULTI_SELECT,
+      prompt: 'Pick the activations',
+      options: [{ id: 'a', text: 'ReLU' }, { id: 'b', text: 'Softmax' }],
+      correctAnswer: ['a', 'z'],
+    })).toThrow('one or more option ids');
+  });
+
+  it('should reject invalid regular expressions', () => {
+    expect(() => normalizeQuestion({
+      type: QuestionType.SHORT_ANSWER,
+      prompt: 'Name the operation',
+      correctAnswer: { pattern: 'conv(' },
+    })).toThrow('not a valid regular expression');
+  });
+
+  it('should reject patterns that can backtrack exponentially', () => {
+    expect(() => normalizeQuestion({
+      type: QuestionType.SHORT_ANSWER,
+      prompt: 'Name the operation',
+      correctAnswer: { pattern: '(conv\\d+)+' },
+    })).toThrow('may not repeat a group');
+  });
+
+  it('should default numeric tolerance to exact and regex matching to case-insensitive', () => {
+    expect(normalizeQuestion({ type: QuestionType.NUMERIC, prompt: 'Kernel size?', correctAnswer: { value: 3 } }).correctAnswer)
+      .toEqual({ value: 3, tolerance: 0 });
+    expect(normalizeQuestion({ type: QuestionType.SHORT_ANSWER, prompt: 'Name it', correctAnswer: { pattern: 'relu' } }).correctAnswer)
+      .toEqual({ pattern: 'relu', flags: 'i' });
+  });
+
+  it('should normalize tags', () => {
+    const normalized = normalizeQuestion({
+      type: QuestionType.TRUE_FALSE,
+      prompt: 'CNNs share weights',
+      correctAnswer: true,
+      tags: [' CNN ', 'cnn', 'Basics'],
+    });
+
+    expect(normalized.tags).toEqual(['cnn', 'basics']);
+  });
+});
+
+describe('isAnswerCorrect', () => {
+  it('should grade multiple choice and true/false', () => {
+    expect(isAnswerCorrect(question(QuestionType.MULTIPLE_CHOICE, 'b'), 'b')).toBe(true);
+    expect(isAnswerCorrect(question(QuestionType.MULTIPLE_CHOICE, 'b'), 'a')).toBe(false);
+    expect(isAnswerCorrect(question(QuestionType.TRUE_FALSE, false), false)).toBe(true);
+    expect(isAnswerCorrect(question(QuestionType.TRUE_FALSE, false), 'false')).toBe(false);
+  });
+
+  it('should require the exact set for multi-select in any order', () => {
+    const q = question(QuestionType.MULTI_SELECT, ['a', 'c']);
+
+    expect(isAnswerCorrect(q, ['c', 'a'])).toBe(true);
+    expect(isAnswerCorrect(q, ['a'])).toBe(false);
+    expect(isAnswerCorrect(q, ['a', 'b', 'c'])).toBe(false);
+  });
+
+  it('should accept numeric answers within tolerance', () => {
+    const q = question(QuestionType.NUMERIC, { value: 3.14, tolerance: 0.1 });
+
+    expect(isAnswerCorrect(q, 3.24)).toBe(true);
+    expect(isAnswerCorrect(q, '3.1')).toBe(true);
+    expect(isAnswerCorrect(q, 3.3)).toBe(false);
+    expect(isAnswerCorrect(q, 'pi')).toBe(false);
+  });
+
+  it('should match short answers against the whole trimmed text', () => {
+    const q = question(QuestionType.SHORT_ANSWER, { pattern: 'max[- ]?pool(ing)?', flags: 'i' });
+
+    expect(isAnswerCorrect(q, ' Max Pooling ')).toBe(true);
+    expect(isAnswerCorrect(q, 'maxpool')).toBe(true);
+    expect(isAnswerCorrect(q, 'not max pooling')).toBe(false);
+  });
+
+  it('should count a short answer as wrong when its pattern runs too long', () => {
+    const q = question(QuestionType.SHORT_ANSWER, { pattern: '(a|a)*', flags: '' });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(isAnswerCorrect(q, `${'a'.repeat(40)}b`)).toBe(false);
+  });
+});
+
+describe('hasNestedRepetition', () => {
+  it('should flag repeated groups that repeat or alternate inside', () => {
+    expect(hasNestedRepetition('(a+)+')).toBe(true);
+    expect(hasNestedRepetition('(?:x|xy)*')).toBe(true);
+    expect(hasNestedRepetition('((ab)*c){2,}')).toBe(true);
+    expect(hasNestedRepetition('(\\w+\\s?)+$')).toBe(true);
+  });
+
+  it('should allow repetition and alternation that cannot nest', () => {
+    expect(hasNestedRepetition('max[- ]?pool(ing)?')).toBe(false);
+    expect(hasNestedRepetition('(relu|sigmoid) activations?')).toBe(false);
+    expect(hasNestedRepetition('[(a+)]+')).toBe(false);
+    expect(hasNestedRepetition('\\(a+\\)+')).toBe(false);
+    expect(hasNestedRepetition('(ab){3}')).toBe(false);
+  });
+});
+
+describe('gradeAttempt', () => {
+  it('should total points and compute a percentage score', () => {
+    const grade = gradeAttempt(
+      [
+        question(QuestionType.TRUE_FALSE, true, 1, 'q1'),
+        question(QuestionType.MULTIPLE_CHOICE, 'a', 3, 'q2'),
+      ],
+      { q1: true, q2: 'b' }
+    );
+
+    expect(grade.pointsEarned).toBe(1);
+    expect(grade.pointsPossible).toBe(4);
+    expect(grade.score).toBe(25);
+    expect(grade.results[1]).toEqual({ questionId: 'q2', isCorrect: false, pointsEarned: 0, pointsPossible: 3 });
+  });
+
+  it('should mark unanswered questions wrong', () => {
+    expect(gradeAttempt([question(QuestionType.TRUE_FALSE, true)], {}).score).toBe(0);
+  });
+});
+
+describe('drawQuestions', () => {
+  it('should draw the requested number of distinct questions', () => {
+    const drawn = drawQuestions(['a', 'b', 'c', 'd'], 2);
+
+    expect(drawn).toHaveLength(2);
+    expect(new Set(drawn).size).toBe(2);
+  });
+
+  it('should use the whole pool when no count is set', () => {
+    expect(drawQuestions(['a', 'b', 'c'], null).sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should reject pools that are too small', () => {
+    expect(() => drawQuestions(['a'], 2)).toThrow('needs 2 questions');
+    expect(() => drawQuestions([], null)).toThrow();
+  });
+
+  it('should shuffle deterministically for a given random source', () => {
+    expect(shuffle([1, 2, 3, 4], () => 0)).toEqual([2, 3, 4, 1]);
+  });
+});
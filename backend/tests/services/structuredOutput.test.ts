@@ -0,0 +1,142 @@
+/**
+ * Structured Output Tests
+ * Extracting JSON from model answers, schema validation, the repair re-prompt and
+ * validation metrics, and the analysis services on the fake provider
+ */
+
+import { AIProviderTransport, aiProviderTransport } from '../../src/services/aiModels/AIProviderTransport';
+import { ClaudeService } from '../../src/services/aiModels/ClaudeService';
+import { extractJSON, sampleOutput, validateOutput } from '../../src/services/aiModels/outputSchema';
+import {
+  contentAnalysisContract,
+  generateStructured,
+  predictionContract,
+  recommendationsContract,
+  StructuredOutputError,
+  StructuredOutputMetrics,
+  StructuredRequest,
+} from '../../src/services/aiModels/structuredOutput';
+
+const prediction = { prediction: { trend: 'improving' }, confidence: 0.7, factors: ['Regular practice'] };
+
+describe('extractJSON', () => {
+  it('should find JSON in fenced blocks and in prose', () => {
+    expect(extractJSON(JSON.stringify(prediction))).toEqual(prediction);
+    expect(extractJSON('Here you go:\n```json\n{"confidence": 0.4}\n```\nHope it helps')).toEqual({ confidence: 0.4 });
+    expect(extractJSON('Sure! [{"title": "Use {curly} braces"}] is my answer.')).toEqual([{ title: 'Use {curly} braces' }]);
+    expect(extractJSON('Scores {not json} then {"score": 3}')).toEqual({ score: 3 });
+  });
+
+  it('should fail when there is no JSON', () => {
+    expect(() => extractJSON('The student is doing well.')).toThrow('No JSON found in model output');
+  });
+});
+
+describe('validateOutput', () => {
+  it('should report every problem with its path', () => {
+    expect(validateOutput(predictionContract.schema, prediction)).toEqual([]);
+    expect(validateOutput(predictionContract.schema, { confidence: 1.5, factors: 'practice' })).toEqual([
+      '$.prediction: is required',
+      '$.confidence: expected at most 1, got 1.5',
+      '$.factors: expected array, got string',
+    ]);
+    expect(validateOutput(recommendationsContract.schema, [{ title: 'Review', description: 'Weekly', priority: 'URGENT' }]))
+      .toEqual(['$[0].priority: expected one of HIGH, MEDIUM, LOW, got URGENT']);
+  });
+
+  it('should build samples that conform', () => {
+    for (const contract of [predictionContract, recommendationsContract, contentAnalysisContract]) {
+      expect(validateOutput(contract.schema, sampleOutput(contract.schema))).toEqual([]);
+    }
+  });
+});
+
+describe('generateStructured', () => {
+  const request: StructuredRequest = {
+    provider: 'predictive',
+    model: 'gpt-4',
+    messages: [{ role: 'user', content: 'Predict performance trends' }],
+  };
+
+  it('should re-prompt with the problems found and count the repair', async () => {
+    const metrics = new StructuredOutputMetrics();
+    const transport = new AIProviderTransport({
+      mode: 'fake',
+      script: {
+        rules: [
+          { match: 'confidence: expected number', text: `\`\`\`json\n${JSON.stringify(prediction)}\n\`\`\`` },
+          { text: 'I predict steady improvement: {"prediction": "up", "confidence": "high"}' },
+        ],
+      },
+    });
+    const live = jest.fn();
+
+    const result = await generateStructured(predictionContract, request, live, transport, metrics);
+
+    expect(result.value).toEqual(prediction);
+    expect(result.attempts).toBe(2);
+    expect(live).not.toHaveBeenCalled();
+    expect(metrics.getStats('gpt-4')).toEqual([expect.objectContaining({
+      task: 'prediction', requests: 1, valid: 0, repaired: 1, failed: 0, invalidAnswers: 1, firstAnswerFailureRate: 1, failureRate: 0,
+    })]);
+  });
+
+  it('should stream a repair only to listeners that can restart', async () => {
+    const transport = new AIProviderTransport({
+      mode: 'fake',
+      script: {
+        rules: [
+          { match: 'confidence: expected number', text: JSON.stringify(prediction) },
+          { text: '{"prediction": "up", "confidence": "high"}' },
+        ],
+      },
+    });
+    const streamed: string[] = [];
+    const onToken = Object.assign((text: string) => streamed.push(text), { restart: () => streamed.push('<restart>') });
+    const plain = jest.fn();
+
+    await generateStructured(predictionContract, { ...request, onToken }, jest.fn(), transport, new StructuredOutputMetrics());
+    await generateStructured(predictionContract, { ...request, onToken: plain }, jest.fn(), transport, new StructuredOutputMetrics());
+
+    expect(streamed.join('')).toBe(`{"prediction": "up", "confidence": "high"}<restart>${JSON.stringify(prediction)}`);
+    expect(plain.mock.calls.map(([text]) => text).join('')).toBe('{"prediction": "up", "confidence": "high"}');
+  });
+
+  it('should give up after the bounded number of repairs', async () => {
+    const metrics = new StructuredOutputMetrics();
+    const transport = new AIProviderTransport({ mode: 'fake', script: { rules: [{ text: 'No idea, sorry.' }] } });
+
+    const pending = generateStructured(predictionContract, { ...request, maxRepairs: 1 }, jest.fn(), transport, metrics);
+
+    await expect(pending).rejects.toThrow(StructuredOutputError);
+    await expect(pending).rejects.toThrow('gpt-4 did not return a valid prediction after 2 attempts: No JSON found in model output');
+    expect(metrics.getStats()[0]).toMatchObject({ requests: 1, failed: 1, invalidAnswers: 2, failureRate: 1 });
+  });
+});
+
+describe('ClaudeService on the fake provider', () => {
+  const service = new ClaudeService({ serviceName: 'claude', apiKey: 'not-needed', models: ['claude-3-5-sonnet'] });
+
+  afterEach(() => aiProviderTransport.configure({ mode: 'live', script: {} }));
+
+  it('should read the analysis from JSON wrapped in prose', async () => {
+    const analysis = { analysis: 'Clear worked examples', confidence: 72, complexity: 'low', suggestions: ['Add a quiz'] };
+    aiProviderTransport.configure({
+      mode: 'fake',
+      script: { rules: [{ text: `Here is my assessment:\n\n${JSON.stringify(analysis)}\n\nLet me know if you need more.` }] },
+    });
+
+    const response = await service.analyzeContent('Fractions explained with pizza slices.', 'text/plain');
+
+    expect(response).toMatchObject({ success: true, content: 'Clear worked examples', confidence: 72 });
+    expect(response.metadata).toMatchObject({ complexity: 'low', suggestions: ['Add a quiz'] });
+  });
+
+  it('should answer with a conforming sample by default', async () => {
+    aiProviderTransport.configure({ mode: 'fake', script: {} });
+
+    const response = await service.analyzeContent('Fractions explained with pizza slices.', 'text/plain');
+
+    expect(response).toMatchObject({ success: true, confidence: 80 });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Submission Service Tests
+ * Late penalty calculation and file validation
+ */
+
+import { calculateLateStatus, validateSubmissionFiles } from '../../src/services/submissionService';
+
+jest.mock('../../src/lib/prisma', () => ({ prisma: {} }));
+
+describe('calculateLateStatus', () => {
+  const dueDate = new Date('2025-03-01T23:59:00Z');
+
+  it('should not mark on-time submissions as late', () => {
+    const status = calculateLateStatus({ dueDate, latePenaltyPercent: 10 }, new Date('2025-03-01T20:00:00Z'));
+
+    expect(status).toEqual({ isLate: false, daysLate: 0, latePenaltyApplied: null });
+  });
+
+  it('should not mark submissions late when there is no due date', () => {
+    const status = calculateLateStatus({ dueDate: null, latePenaltyPercent: 10 }, new Date());
+
+    expect(status.isLate).toBe(false);
+  });
+
+  it('should charge one day for any part of a started day', () => {
+    const status = calculateLateStatus({ dueDate, latePenaltyPercent: 10 }, new Date('2025-03-02T00:30:00Z'));
+
+    expect(status).toEqual({ isLate: true, daysLate: 1, latePenaltyApplied: 10 });
+  });
+
+  it('should multiply the daily penalty by days late', () => {
+    const status = calculateLateStatus({ dueDate, latePenaltyPercent: 15 }, new Date('2025-03-04T12:00:00Z'));
+
+    expect(status.daysLate).toBe(3);
+    expect(status.latePenaltyApplied).toBe(45);
+  });
+
+  it('should cap the penalty at 100%', () => {
+    const status = calculateLateStatus({ dueDate, latePenaltyPercent: 30 }, new Date('2025-03-10T00:00:00Z'));
+
+    expect(status.latePenaltyApplied).toBe(100);
+  });
+
+  it('should flag late submissions without a penalty when none is configured', () => {
+    const status = calculateLateStatus({ dueDate, latePenaltyPercent: null }, new Date('2025-03-03T00:00:00Z'));
+
+    expect(status).toEqual({ isLate: true, daysLate: 2, latePenaltyApplied: null });
+  });
+});
+
+describe('validateSubmissionFiles', () => {
+  const assignment = { acceptedFileTypes: ['jpg', '.PNG', 'pdf'], maxFileSize: 1000 };
+
+  it('should accept allowed extensions regardless of case or leading dot', () => {
+    const errors = validateSubmissionFiles(assignment, [
+      { originalname: 'diagram.png', size: 500 },
+      { originalname: 'REPORT.PDF', size: 1000 },
+    ]);
+
+    expect(errors).toEqual([]);
+  });
+
+  it('should reject unaccepted file types', () => {
+    const errors = validateSubmissionFiles(assignment, [{ originalname: 'script.exe', size: 10 }]);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain('.exe is not accepted');
+  });
+
+  it('should reject files over the size limit', () => {
+    const errors = validateSubmissionFiles(assignment, [{ originalname: 'photo.jpg', size: 1001 }]);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain('exceeds');
+  });
+
+  it('should accept any type when no types are configured', () => {
+    const errors = validateSubmissionFiles({ acceptedFileTypes: [], maxFileSize: 1000 }, [
+      { originalname: 'notes.txt', size: 10 },
+    ]);
+
+    expect(errors).toEqual([]);
+  });
+});
@@ -38,6 +38,7 @@ import type {
   AdvancedAnalysisProgressTrackerProps,
   ProgressTimelineEntry,
   ModelProgressDetail,
+  StreamedModelOutput,
   AIModelType,
   AnalysisError
 } from '@/types/progressTracking';
@@ -48,8 +49,14 @@ import { cn } from '@/lib/utils';
 const ModelPerformanceIndicator: React.FC<{
   model: AIModelType;
   progress: ModelProgressDetail;
+  output?: StreamedModelOutput;
   className?: string;
-}> = ({ model, progress, className }) => {
+}> = ({ model, progress: reported, output, className }) => {
+  // Streamed output moves progress ahead of the (less frequent) progress updates
+  const progress = output && reported.status === 'processing'
+    ? { ...reported, progress: Math.max(reported.progress, output.progress) }
+    : reported;
+
   const getModelIcon = (model: AIModelType) => {
     switch (model) {
       case 'gpt-4': return '🧠';
@@ -182,6 +189,19 @@ const ModelPerformanceIndicator: React.FC<{
         </div>
       </div>
 
+      {/* Live Output */}
+      {output?.text && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-600">
+            <span>Live output</span>
+            <span>~{output.tokens} / {output.expectedTokens} tokens</span>
+          </div>
+          <div className="max-h-40 overflow-y-auto rounded border bg-white p-2 text-sm whitespace-pre-wrap">
+            {output.text}
+          </div>
+        </div>
+      )}
+
       {/* Stage Indicator */}
       <div className="flex items-center justify-between pt-2 border-t">
         <div className="flex items-center space-x-2">
@@ -291,7 +311,7 @@ export const AdvancedAnalysisProgressTracker: React.FC<AdvancedAnalysisProgressT
   const [activeTab, setActiveTab] = useState<'overview' | 'models' | 'timeline' | 'metrics'>('overview');
 
   const { toast } = useToast();
-  const { isConnected, progressUpdates } = useAnalyticsWebSocket({
+  const { isConnected, progressUpdates, analysisOutput } = useAnalyticsWebSocket({
     trackProgress: [analysisId]
   });
 
@@ -301,42 +321,39 @@ export const AdvancedAnalysisProgressTracker: React.FC<AdvancedAnalysisProgressT
       setError(null);
       const progressData = await apiService.aiAnalysis.getProgress(analysisId);
       
+      const models = Object.keys(progressData.modelProgress) as AIModelType[];
+      const modelEntries = Object.values(progressData.modelProgress);
+      const startTime = new Date(progressData.startedAt ?? progressData.createdAt);
+
+      const mapStage = (status: ModelProgressDetail['status']): ModelProgressDetail['stage'] => {
+        switch (status) {
+          case 'pending': return 'validation';
+          case 'processing': return 'analysis';
+          default: return 'completion';
+        }
+      };
+
       // Transform API data to enhanced progress structure
       const enhancedProgress: AdvancedAnalysisProgress = {
         analysisId,
         overallProgress: progressData.overallProgress,
-        status: progressData.modelProgress.every(m => m.status === 'completed') ? 'completed' :
-                progressData.modelProgress.some(m => m.status === 'failed') ? 'error' : 'processing',
-        startTime: new Date(progressData.processingStartTime),
-        lastUpdated: new Date(progressData.lastUpdated),
+        status: progressData.status === 'CANCELLED' ? 'cancelled' :
+                progressData.status === 'FAILED' ? 'error' :
+                progressData.isFinished ? 'completed' :
+                progressData.status === 'QUEUED' ? 'pending' : 'processing',
+        startTime,
+        actualCompletion: progressData.completedAt ? new Date(progressData.completedAt) : undefined,
+        lastUpdated: new Date(progressData.updatedAt),
         
         // Map model progress with enhanced details
-        modelProgress: progressData.modelProgress.reduce((acc, model) => {
-          // Map API status to our enhanced status
-          const mapStatus = (apiStatus: string): ModelProgressDetail['status'] => {
-            switch (apiStatus) {
-              case 'queued': return 'pending';
-              case 'failed': return 'error';
-              case 'processing': return 'processing';
-              case 'completed': return 'completed';
-              default: return 'pending';
-            }
-          };
-
-          const mapStage = (apiStage: string): 'validation' | 'preprocessing' | 'analysis' | 'consolidation' | 'completion' => {
-            switch (apiStage) {
-              case 'initialization': return 'validation';
-              case 'analysis': return 'analysis';
-              case 'consolidation': return 'consolidation';
-              case 'completed': return 'completion';
-              default: return 'analysis';
-            }
-          };
-
-          acc[model.model as AIModelType] = {
-            progress: model.progress,
-            status: mapStatus(model.status),
-            stage: mapStage(model.stage),
+        modelProgress: Object.entries(progressData.modelProgress).reduce((acc, [model, entry]) => {
+          acc[model as AIModelType] = {
+            progress: entry.progress,
+            status: entry.status,
+            stage: mapStage(entry.status),
+            startTime: entry.startedAt ? new Date(entry.startedAt) : undefined,
+            completionTime: entry.completedAt ? new Date(entry.completedAt) : undefined,
+            errorMessage: entry.errorMessage,
             retryCount: 0,
             health: {
               status: 'healthy',
@@ -346,7 +363,9 @@ export const AdvancedAnalysisProgressTracker: React.FC<AdvancedAnalysisProgressT
               lastHealthCheck: new Date(),
               availabilityScore: Math.floor(Math.random() * 20) + 80
             },
-            processingTime: model.estimatedTimeRemaining ? Date.now() - new Date(progressData.processingStartTime).getTime() : undefined
+            processingTime: entry.startedAt
+              ? new Date(entry.completedAt ?? Date.now()).getTime() - new Date(entry.startedAt).getTime()
+              : undefined
           };
           return acc;
         }, {} as Record<AIModelType, ModelProgressDetail>),
@@ -355,33 +374,34 @@ export const AdvancedAnalysisProgressTracker: React.FC<AdvancedAnalysisProgressT
           {
             stage: 'validation',
             progress: 100,
-            startTime: new Date(progressData.processingStartTime),
-            completionTime: new Date(Date.now() - 300000),
-            models: ['gpt-4', 'claude-3', 'gemini-pro'],
+            startTime: new Date(progressData.createdAt),
+            completionTime: startTime,
+            models,
             description: 'Input validation and preprocessing'
           },
           {
             stage: 'analysis',
             progress: progressData.overallProgress,
-            startTime: new Date(Date.now() - 240000),
-            models: progressData.modelProgress.map(m => m.model as AIModelType),
+            startTime,
+            models,
             description: 'AI model analysis in progress'
           }
         ],
         
         totalRetries: 0,
         maxRetries: 3,
-        selectedModels: progressData.modelProgress.map(m => m.model as AIModelType),
+        selectedModels: models,
         // analysisType: 'multi-model-analysis', // Not in interface
         priority: 'medium',
         fileInfo: {
-          name: 'analysis-file.pdf',
-          size: 1024000,
-          type: 'application/pdf',
-          uploadTime: new Date(progressData.processingStartTime)
+          name: progressData.fileName,
+          size: 0,
+          type: '',
+          uploadTime: new Date(progressData.createdAt)
         },
         updateFrequency: 0.5,
-        currentStage: progressData.currentStage as 'validation' | 'preprocessing' | 'analysis' | 'consolidation' | 'completion'
+        currentStage: progressData.isFinished ? 'completion' :
+                      modelEntries.some(entry => entry.status === 'processing') ? 'analysis' : 'validation'
       };
 
       setProgress(enhancedProgress);
@@ -599,6 +619,7 @@ export const AdvancedAnalysisProgressTracker: React.FC<AdvancedAnalysisProgressT
                   key={model}
                   model={model as AIModelType}
                   progress={modelProgress}
+                  output={analysisOutput.get(analysisId)?.[model]}
                 />
               ))}
             </div>
@@ -611,6 +632,7 @@ export const AdvancedAnalysisProgressTracker: React.FC<AdvancedAnalysisProgressT
                   key={model}
                   model={model as AIModelType}
                   progress={modelProgress}
+                  output={analysisOutput.get(analysisId)?.[model]}
                 />
               ))}
             </div>
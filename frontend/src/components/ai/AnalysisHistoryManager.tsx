@@ -57,6 +57,8 @@ export interface AnalysisHistoryEntry {
   fileName: string;
   fileType: string;
   fileSize: number;
+  // WebP data URL created when an image upload is preprocessed
+  thumbnailUrl?: string;
   modelsUsed: AIModelType[];
   status: 'completed' | 'failed' | 'partial' | 'processing' | 'cancelled';
   createdAt: Date;
@@ -235,7 +237,16 @@ const AnalysisEntryCard: React.FC<{
             
             <div className="flex-1 min-w-0">
               <div className="flex items-center space-x-2 mb-1">
-                <FileTypeIcon fileType={analysis.fileType} className="text-lg" />
+                {analysis.thumbnailUrl ? (
+                  <img
+                    src={analysis.thumbnailUrl}
+                    alt=""
+                    className="h-8 w-8 rounded object-cover flex-shrink-0"
+                    loading="lazy"
+                  />
+                ) : (
+                  <FileTypeIcon fileType={analysis.fileType} className="text-lg" />
+                )}
                 <h3 
                   className="font-semibold text-gray-900 truncate cursor-pointer hover:text-blue-600"
                   onClick={() => onSelect(analysis.analysisId)}
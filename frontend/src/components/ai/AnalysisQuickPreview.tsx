@@ -102,6 +102,8 @@ interface AnalysisQuickPreviewProps {
   onDownload?: (analysisId: string) => void;
   onToggleFavorite?: (analysisId: string) => void;
   onShare?: (analysisId: string) => void;
+  // Preview of the analyzed image, from its history entry
+  thumbnailUrl?: string;
   className?: string;
 }
 
@@ -361,6 +363,7 @@ export const AnalysisQuickPreview: React.FC<AnalysisQuickPreviewProps> = ({
   onDownload,
   onToggleFavorite,
   onShare,
+  thumbnailUrl,
   className
 }) => {
   const [entitiesExpanded, setEntitiesExpanded] = useState(false);
@@ -496,6 +499,13 @@ export const AnalysisQuickPreview: React.FC<AnalysisQuickPreviewProps> = ({
       >
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b">
+          {thumbnailUrl && (
+            <img
+              src={thumbnailUrl}
+              alt={previewData.fileName}
+              className="h-16 w-16 rounded-md object-cover mr-4 flex-shrink-0"
+            />
+          )}
           <div className="flex-1 min-w-0">
             <div className="flex items-center space-x-3 mb-2">
               <Eye className="h-5 w-5 text-blue-600" />
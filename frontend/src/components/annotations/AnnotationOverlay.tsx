@@ -43,6 +43,13 @@ export interface AnnotationData {
     role: string;
   };
   replies?: AnnotationData[];
+  // CNN detections carry { source, label, confidence?, originalLabel? }
+  metadata?: {
+    source?: string;
+    label?: string;
+    confidence?: number;
+    originalLabel?: string;
+  } | null;
   createdAt: string;
   editedAt?: string;
   isEdited: boolean;
@@ -60,6 +67,12 @@ interface AnnotationOverlayProps {
   onAnnotationResolve?: (annotationId: string) => void;
   onAnnotationReply?: (parentId: string, text: string) => void;
   onToggleVisibility?: () => void;
+  // Who may edit and delete an annotation; defaults to its author
+  canEdit?: (annotation: AnnotationData) => boolean;
+  // Rendered size over stored size, for positions stored in image pixels (e.g. CNN detections)
+  scale?: number;
+  // Size of the box new annotations get around the click, in stored units (e.g. to mark a missed object)
+  newAnnotationSize?: { width: number; height: number };
   className?: string;
 }
 
@@ -73,6 +86,9 @@ export const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
   onAnnotationResolve,
   onAnnotationReply,
   onToggleVisibility,
+  canEdit,
+  scale = 1,
+  newAnnotationSize,
   className
 }) => {
   const [selectedAnnotation, setSelectedAnnotation] = useState<string | null>(null);
@@ -89,19 +105,24 @@ export const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
   // Handle content click for creating annotations
   const handleContentClick = useCallback((event: React.MouseEvent) => {
     if (isReadOnly || !onAnnotationCreate) return;
+    // Clicks on markers, their popovers (portaled, yet their React events bubble here) and the form are not on the content
+    const target = event.target as HTMLElement;
+    if (!event.currentTarget.contains(target) || target.closest('[data-annotation-control]')) return;
 
     const rect = event.currentTarget.getBoundingClientRect();
+    const width = newAnnotationSize?.width ?? 0;
+    const height = newAnnotationSize?.height ?? 0;
     const position: AnnotationPosition = {
-      x: event.clientX - rect.left,
-      y: event.clientY - rect.top,
-      width: 0,
-      height: 0,
+      x: Math.max(0, (event.clientX - rect.left) / scale - width / 2),
+      y: Math.max(0, (event.clientY - rect.top) / scale - height / 2),
+      width,
+      height,
     };
 
     setNewAnnotationPosition(position);
     setIsCreatingAnnotation(true);
     setAnnotationText('');
-  }, [isReadOnly, onAnnotationCreate]);
+  }, [isReadOnly, onAnnotationCreate, scale, newAnnotationSize]);
 
   // Handle creating new annotation
   const handleCreateAnnotation = useCallback((type: string = 'COMMENT') => {
@@ -119,7 +140,7 @@ export const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
     if (!annotation || !onAnnotationUpdate) return;
 
     setEditingAnnotation(annotationId);
-    setAnnotationText(annotation.text);
+    setAnnotationText(annotation.metadata?.label ?? annotation.text);
   }, [annotations, onAnnotationUpdate]);
 
   // Handle saving edited annotation
@@ -162,6 +183,12 @@ export const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
     }
   };
 
+  const isEditable = (annotation: AnnotationData) =>
+    canEdit ? canEdit(annotation) : annotation.author.id === currentUser.id;
+
+  // Annotations with an area (e.g. CNN bounding boxes) are outlined, with their marker on the top-left corner
+  const hasArea = (position: AnnotationPosition) => position.width > 0 && position.height > 0;
+
   if (!isVisible) return null;
 
   return (
@@ -170,14 +197,33 @@ export const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
       className={cn('relative w-full h-full pointer-events-none', className)}
       onClickCapture={handleContentClick}
     >
+      {/* Annotated areas */}
+      {annotations.filter((annotation) => hasArea(annotation.position)).map((annotation) => (
+        <div
+          key={`area-${annotation.id}`}
+          className={cn(
+            'absolute border-2 rounded-sm',
+            selectedAnnotation === annotation.id ? 'border-primary' : 'border-yellow-500',
+            annotation.isResolved && 'opacity-60'
+          )}
+          style={{
+            left: annotation.position.x * scale,
+            top: annotation.position.y * scale,
+            width: annotation.position.width * scale,
+            height: annotation.position.height * scale,
+          }}
+        />
+      ))}
+
       {/* Annotation markers */}
       {annotations.map((annotation) => (
         <div
           key={annotation.id}
+          data-annotation-control
           className="absolute pointer-events-auto"
           style={{
-            left: annotation.position.x,
-            top: annotation.position.y,
+            left: annotation.position.x * scale,
+            top: annotation.position.y * scale,
             transform: 'translate(-50%, -50%)',
           }}
         >
@@ -263,7 +309,9 @@ export const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
                   
                   {annotation.isEdited && (
                     <p className="text-xs text-muted-foreground italic">
-                      (edited)
+                      {annotation.metadata?.originalLabel
+                        ? `(corrected from "${annotation.metadata.originalLabel}")`
+                        : '(edited)'}
                     </p>
                   )}
                 </div>
@@ -281,7 +329,7 @@ export const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
                         Reply
                       </Button>
                       
-                      {annotation.author.id === currentUser.id && (
+                      {isEditable(annotation) && (
                         <>
                           <Button
                             size="sm"
@@ -381,10 +429,11 @@ export const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
       {/* New annotation creation */}
       {isCreatingAnnotation && newAnnotationPosition && (
         <div
+          data-annotation-control
           className="absolute pointer-events-auto z-50"
           style={{
-            left: newAnnotationPosition.x,
-            top: newAnnotationPosition.y,
+            left: (newAnnotationPosition.x + newAnnotationPosition.width / 2) * scale,
+            top: newAnnotationPosition.y * scale,
             transform: 'translate(-50%, -100%)',
           }}
         >
@@ -452,7 +501,7 @@ export const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({
 
       {/* Annotation visibility toggle */}
       {onToggleVisibility && (
-        <div className="absolute top-4 right-4 pointer-events-auto">
+        <div data-annotation-control className="absolute top-4 right-4 pointer-events-auto">
           <Button
             size="sm"
             variant="outline"
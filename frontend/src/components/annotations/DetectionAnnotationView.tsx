@@ -0,0 +1,137 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { AnnotationOverlay } from './AnnotationOverlay';
+import type { AnnotationData, AnnotationPosition } from './AnnotationOverlay';
+import { annotationService } from '@/services/annotationService';
+import { cn } from '@/lib/utils';
+
+// Box given to an object added by clicking on it, in image pixels
+const MISSED_OBJECT_SIZE = { width: 80, height: 80 };
+
+interface DetectionAnnotationViewProps {
+  analysisId: string;
+  imageUrl: string;
+  // Size of the analyzed image; detection boxes are in its pixels
+  imageSize: { width: number; height: number };
+  // Relabeling, deleting and adding objects; the server still checks the requester may
+  readOnly?: boolean;
+  className?: string;
+}
+
+/**
+ * The analyzed image with its CNN detections as annotations. Relabeling a detection, deleting a
+ * false positive or adding a missed object is recorded as feedback on the model's output.
+ */
+export const DetectionAnnotationView: React.FC<DetectionAnnotationViewProps> = ({
+  analysisId,
+  imageUrl,
+  imageSize,
+  readOnly = false,
+  className
+}) => {
+  const [annotations, setAnnotations] = useState<AnnotationData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [scale, setScale] = useState(1);
+  const imageRef = useRef<HTMLImageElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    annotationService.annotateDetections(analysisId)
+      .then(response => {
+        if (!cancelled) setAnnotations(response.data?.annotations ?? []);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load detections');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [analysisId]);
+
+  // Boxes follow the rendered size of the image
+  const updateScale = useCallback(() => {
+    if (imageRef.current && imageSize.width > 0) {
+      setScale(imageRef.current.clientWidth / imageSize.width);
+    }
+  }, [imageSize.width]);
+
+  useEffect(() => {
+    window.addEventListener('resize', updateScale);
+    return () => window.removeEventListener('resize', updateScale);
+  }, [updateScale]);
+
+  const runCorrection = async (correction: () => Promise<void>) => {
+    try {
+      setError(null);
+      await correction();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the correction');
+    }
+  };
+
+  const handleCreate = (position: AnnotationPosition, text: string) => runCorrection(async () => {
+    const response = await annotationService.addMissedDetection(analysisId, text, position);
+    const created = response.data;
+    if (created) setAnnotations(prev => [...prev, created]);
+  });
+
+  const handleUpdate = (annotationId: string, text: string) => runCorrection(async () => {
+    const response = await annotationService.relabelDetection(analysisId, annotationId, text);
+    const updated = response.data;
+    if (updated) setAnnotations(prev => prev.map(annotation => annotation.id === annotationId ? updated : annotation));
+  });
+
+  const handleDelete = (annotationId: string) => runCorrection(async () => {
+    await annotationService.removeDetection(analysisId, annotationId);
+    setAnnotations(prev => prev.filter(annotation => annotation.id !== annotationId));
+  });
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="relative inline-block max-w-full">
+        <img
+          ref={imageRef}
+          src={imageUrl}
+          alt="Analyzed upload"
+          className="block max-w-full h-auto rounded"
+          onLoad={updateScale}
+        />
+        <AnnotationOverlay
+          contentId={analysisId}
+          contentType="CNN_ANALYSIS"
+          annotations={annotations}
+          isVisible={true}
+          isReadOnly={readOnly}
+          onAnnotationCreate={readOnly ? undefined : handleCreate}
+          onAnnotationUpdate={readOnly ? undefined : handleUpdate}
+          onAnnotationDelete={readOnly ? undefined : handleDelete}
+          canEdit={() => !readOnly}
+          scale={scale}
+          newAnnotationSize={MISSED_OBJECT_SIZE}
+          className={cn('absolute inset-0', !readOnly && 'pointer-events-auto cursor-crosshair')}
+        />
+        {isLoading && (
+          <div className="absolute inset-0 flex items-center justify-center bg-white/50">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-500" />
+          </div>
+        )}
+      </div>
+      {!readOnly && (
+        <p className="text-xs text-gray-500">
+          Click the image to add an object the model missed; open a detection to relabel or delete it.
+        </p>
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default DetectionAnnotationView;
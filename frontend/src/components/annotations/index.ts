@@ -5,6 +5,7 @@ export { AnnotationOverlay } from './AnnotationOverlay';
 export { AnnotationManagement } from './AnnotationManagement';
 export { AnnotationAnalyticsDashboard } from './AnnotationAnalyticsDashboard';
 export { ContentAnnotationViewer } from './ContentAnnotationViewer';
+export { DetectionAnnotationView } from './DetectionAnnotationView';
 
 // Re-export types for easy import
 export type { 
@@ -30,7 +30,10 @@ import { useAIAnalysis } from '@/hooks/useAIAnalysis';
 import { AIModelSelector } from './AIModelSelector';
 import { MultiAnalysisResults } from './MultiAnalysisResults';
 import { EnhancedProgressDisplay } from './EnhancedProgressDisplay';
+import { AnalysisHistoryManager } from '@/components/ai/AnalysisHistoryManager';
+import { AnalysisQuickPreview } from '@/components/ai/AnalysisQuickPreview';
 import { ContentAnnotationViewer } from '@/components/annotations/ContentAnnotationViewer';
+import { DetectionAnnotationView } from '@/components/annotations/DetectionAnnotationView';
 import { useAuth } from '@/hooks/useAuth';
 import type { ContentUploadProps, CNNAnalysisResult, ConfidenceLevel, AnalysisModelType, AIModelType } from '@/types/upload';
 import { cn } from '@/lib/utils';
@@ -148,20 +151,23 @@ const WikipediaResults: React.FC<{ articles: CNNAnalysisResult['analysis']['wiki
             <h4 className="font-medium text-lg">{article.title}</h4>
             <div className="flex items-center space-x-2">
               <ConfidenceBadge confidence={article.relevanceScore} />
-              <TooltipProvider>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button variant="ghost" size="sm" asChild>
-                      <a href={article.url} target="_blank" rel="noopener noreferrer">
-                        <ExternalLink className="w-4 h-4" />
-                      </a>
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>View on Wikipedia</p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
+              {/* Glossary entries may have no link */}
+              {article.url && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={article.url} target="_blank" rel="noopener noreferrer">
+                          <ExternalLink className="w-4 h-4" />
+                        </a>
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p>View source</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
             </div>
           </div>
           <p className="text-sm text-gray-600 leading-relaxed">{article.excerpt}</p>
@@ -173,11 +179,14 @@ const WikipediaResults: React.FC<{ articles: CNNAnalysisResult['analysis']['wiki
 
 const AnalysisResults: React.FC<{ 
   result: CNNAnalysisResult;
+  // Preview of the analyzed image, to show its detections on
+  imageUrl?: string;
   userRole?: 'STUDENT' | 'INSTRUCTOR' | 'ADMIN';
   courseId?: string;
   annotationsEnabled?: boolean;
 }> = ({ 
   result, 
+  imageUrl,
   userRole = 'STUDENT', 
   courseId, 
   annotationsEnabled = true 
@@ -201,6 +210,7 @@ const AnalysisResults: React.FC<{
         contentElement={
           <AnalysisResultsContent
             result={result}
+            imageUrl={imageUrl}
             activeTab={activeTab}
             onTabChange={setActiveTab}
             onCopyToClipboard={copyToClipboard}
@@ -214,6 +224,7 @@ const AnalysisResults: React.FC<{
   return (
     <AnalysisResultsContent
       result={result}
+      imageUrl={imageUrl}
       activeTab={activeTab}
       onTabChange={setActiveTab}
       onCopyToClipboard={copyToClipboard}
@@ -224,10 +235,11 @@ const AnalysisResults: React.FC<{
 // Separate the analysis results content for reuse
 const AnalysisResultsContent: React.FC<{
   result: CNNAnalysisResult;
+  imageUrl?: string;
   activeTab: string;
   onTabChange: (tab: string) => void;
   onCopyToClipboard: (text: string) => void;
-}> = ({ result, activeTab, onTabChange, onCopyToClipboard }) => {
+}> = ({ result, imageUrl, activeTab, onTabChange, onCopyToClipboard }) => {
   return (
     <motion.div
       initial={{ opacity: 0, x: 20 }}
@@ -274,7 +286,14 @@ const AnalysisResultsContent: React.FC<{
             </TabsList>
             
             <ScrollArea className="h-[400px] mt-4">
-              <TabsContent value="objects" className="mt-0">
+              <TabsContent value="objects" className="mt-0 space-y-4">
+                {result.analysisId && result.imageSize && imageUrl && (
+                  <DetectionAnnotationView
+                    analysisId={result.analysisId}
+                    imageUrl={imageUrl}
+                    imageSize={result.imageSize}
+                  />
+                )}
                 <ObjectDetectionResults detections={result.analysis.objectDetection} />
               </TabsContent>
               
@@ -319,10 +338,14 @@ export const ContentUploadInterface: React.FC<ContentUploadProps> = ({
     startMultiAnalysis, 
     getMultiAnalysisResult, 
     getAnalysisProgress,
+    getStreamingOutput,
+    getUploadId,
+    analysisHistory,
     isWebSocketConnected
   } = useAIAnalysis();
   
   const [selectedFileForAnalysis, setSelectedFileForAnalysis] = useState<string | null>(null);
+  const [previewAnalysisId, setPreviewAnalysisId] = useState<string | null>(null);
   const [selectedModels, setSelectedModels] = useState<Set<AnalysisModelType>>(new Set(defaultModels));
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
@@ -350,12 +373,10 @@ export const ContentUploadInterface: React.FC<ContentUploadProps> = ({
           }
         }
         
-        // Start multi-AI analysis
+        // Start multi-AI analysis, showing its output as it streams in
         const aiModels = Array.from(selectedModels).filter(model => model !== 'cnn') as AIModelType[];
-        const multiResult = await startMultiAnalysis(file, aiModels, cnnResult);
-        if (multiResult) {
-          setSelectedFileForAnalysis(file.id);
-        }
+        setSelectedFileForAnalysis(file.id);
+        await startMultiAnalysis(file, aiModels, cnnResult);
       }
     });
   }, [addFiles, simulateUpload, startAnalysis, startMultiAnalysis, onUploadComplete, selectedModels]);
@@ -379,6 +400,8 @@ export const ContentUploadInterface: React.FC<ContentUploadProps> = ({
   
   // Get progress for the currently selected file
   const currentProgress = selectedFileForAnalysis ? getAnalysisProgress(selectedFileForAnalysis) : null;
+  const currentOutput = selectedFileForAnalysis ? getStreamingOutput(selectedFileForAnalysis) : undefined;
+  const previewEntry = analysisHistory.find(entry => entry.analysisId === previewAnalysisId);
 
   // Debug logging for results rendering
   console.log('🎯 DEBUG: ContentUploadInterface rendering state:', {
@@ -566,6 +589,7 @@ export const ContentUploadInterface: React.FC<ContentUploadProps> = ({
               <EnhancedProgressDisplay 
                 progress={currentProgress} 
                 isConnected={isWebSocketConnected} 
+                streamingOutput={currentOutput}
               />
             </div>
           )}
@@ -575,6 +599,7 @@ export const ContentUploadInterface: React.FC<ContentUploadProps> = ({
           ) : analysisResult ? (
             <AnalysisResults 
               result={analysisResult}
+              imageUrl={files.find(file => file.id === selectedFileForAnalysis)?.preview}
               courseId={courseId}
               userRole={user?.role?.toUpperCase() as 'STUDENT' | 'INSTRUCTOR' | 'ADMIN' || 'STUDENT'}
               annotationsEnabled={true}
@@ -614,6 +639,25 @@ export const ContentUploadInterface: React.FC<ContentUploadProps> = ({
           )}
         </div>
       </div>
+
+      {/* Analysis History */}
+      {analysisHistory.length > 0 && (
+        <AnalysisHistoryManager
+          analyses={analysisHistory}
+          onAnalysisSelect={(analysisId) => {
+            const uploadId = getUploadId(analysisId);
+            if (uploadId) setSelectedFileForAnalysis(uploadId);
+          }}
+          onAnalysisPreview={setPreviewAnalysisId}
+        />
+      )}
+
+      <AnalysisQuickPreview
+        analysisId={previewAnalysisId ?? ''}
+        isOpen={previewAnalysisId !== null}
+        onClose={() => setPreviewAnalysisId(null)}
+        thumbnailUrl={previewEntry?.thumbnailUrl}
+      />
     </div>
   );
 };
@@ -9,10 +9,13 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { CheckCircle, AlertCircle, Clock, Loader } from 'lucide-react';
 import type { MultiAnalysisProgress, AnalysisModelType } from '@/types/upload';
+import type { StreamedModelOutput } from '@/types/progressTracking';
 
 interface EnhancedProgressDisplayProps {
   progress: MultiAnalysisProgress;
   isConnected: boolean;
+  // Output each model has streamed so far, by model
+  streamingOutput?: Record<string, StreamedModelOutput>;
 }
 
 const modelIcons: Record<AnalysisModelType, React.ReactNode> = {
@@ -62,6 +65,7 @@ const getStatusColor = (status: string) => {
 export const EnhancedProgressDisplay: React.FC<EnhancedProgressDisplayProps> = ({
   progress,
   isConnected,
+  streamingOutput,
 }) => {
   const modelEntries = Object.entries(progress.modelProgress) as [AnalysisModelType, typeof progress.modelProgress[AnalysisModelType]][];
 
@@ -82,90 +86,99 @@ export const EnhancedProgressDisplay: React.FC<EnhancedProgressDisplayProps> = (
   };
 
   return (
-    <Card className="w-full">
-      <CardHeader className="pb-4">
-        <div className="flex items-center justify-between">
-          <CardTitle className="text-lg font-semibold">Analysis Progress</CardTitle>
-          <div className="flex items-center gap-2">
-            <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
-            <span className="text-sm text-muted-foreground">
-              {isConnected ? 'Connected' : 'Disconnected'}
-            </span>
+      <Card className="w-full">
+        <CardHeader className="pb-4">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg font-semibold">Analysis Progress</CardTitle>
+            <div className="flex items-center gap-2">
+              <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
+              <span className="text-sm text-muted-foreground">
+                {isConnected ? 'Connected' : 'Disconnected'}
+              </span>
+            </div>
           </div>
-        </div>
-      </CardHeader>
+        </CardHeader>
       
-      <CardContent className="space-y-6">
-        {/* Overall Progress */}
-        <div className="space-y-2">
-          <div className="flex items-center justify-between">
-            <span className="text-sm font-medium">Overall Progress</span>
-            <span className="text-sm text-muted-foreground">{progress.overallProgress}%</span>
+        <CardContent className="space-y-6">
+          {/* Overall Progress */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Overall Progress</span>
+              <span className="text-sm text-muted-foreground">{progress.overallProgress}%</span>
+            </div>
+            <Progress 
+              value={progress.overallProgress} 
+              className="w-full h-2"
+              // Add smooth animation
+              style={{
+                transition: 'all 0.5s ease-in-out'
+              }}
+            />
           </div>
-          <Progress 
-            value={progress.overallProgress} 
-            className="w-full h-2"
-            // Add smooth animation
-            style={{
-              transition: 'all 0.5s ease-in-out'
-            }}
-          />
-        </div>
 
-        {/* Individual Model Progress */}
-        <div className="space-y-4">
-          <h4 className="text-sm font-medium text-muted-foreground">Model Progress</h4>
+          {/* Individual Model Progress */}
+          <div className="space-y-4">
+            <h4 className="text-sm font-medium text-muted-foreground">Model Progress</h4>
           
-          {modelEntries.length === 0 ? (
-            <div className="text-center py-4 text-muted-foreground">
-              <Clock className="h-6 w-6 mx-auto mb-2" />
-              <p className="text-sm">Preparing analysis...</p>
-            </div>
-          ) : (
-            <div className="grid gap-3">
-              {modelEntries.map(([model, modelProgress]) => (
-                <div key={model} className="flex items-center gap-3 p-3 rounded-lg border bg-card">
-                  <div className="flex items-center gap-2 min-w-0 flex-1">
-                    <div className="flex-shrink-0">
-                      {modelIcons[model]}
-                    </div>
-                    <div className="min-w-0 flex-1">
-                      <div className="flex items-center justify-between mb-1">
-                        <span className="text-sm font-medium truncate">
-                          {modelNames[model]}
-                        </span>
-                        <div className="flex items-center gap-2">
-                          {getStatusIcon(modelProgress.status)}
-                          <Badge 
-                            variant="outline" 
-                            className={`text-xs ${getStatusColor(modelProgress.status)}`}
-                          >
-                            {modelProgress.status}
-                          </Badge>
-                        </div>
+            {modelEntries.length === 0 ? (
+              <div className="text-center py-4 text-muted-foreground">
+                <Clock className="h-6 w-6 mx-auto mb-2" />
+                <p className="text-sm">Preparing analysis...</p>
+              </div>
+            ) : (
+              <div className="grid gap-3">
+                {modelEntries.map(([model, modelProgress]) => {
+                  const output = modelProgress.status === 'processing' ? streamingOutput?.[model] : undefined;
+                  return (
+                  <div key={model} className="flex items-center gap-3 p-3 rounded-lg border bg-card">
+                    <div className="flex items-center gap-2 min-w-0 flex-1">
+                      <div className="flex-shrink-0">
+                        {modelIcons[model]}
                       </div>
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="text-sm font-medium truncate">
+                            {modelNames[model]}
+                          </span>
+                          <div className="flex items-center gap-2">
+                            {getStatusIcon(modelProgress.status)}
+                            <Badge 
+                              variant="outline" 
+                              className={`text-xs ${getStatusColor(modelProgress.status)}`}
+                            >
+                              {modelProgress.status}
+                            </Badge>
+                          </div>
+                        </div>
                       
-                      <div className="space-y-1">
-                        <Progress 
-                          value={modelProgress.progress} 
-                          className="w-full h-1.5"
-                          style={{
-                            transition: 'all 0.3s ease-in-out'
-                          }}
-                        />
-                        <div className="flex items-center justify-between text-xs text-muted-foreground">
-                          <span>{modelProgress.progress}%</span>
-                          {modelProgress.estimatedCompletion && (
-                            <span className="italic">
-                              {formatEstimatedTime(modelProgress.estimatedCompletion)}
-                            </span>
-                          )}
+                        <div className="space-y-1">
+                          <Progress 
+                            value={Math.max(modelProgress.progress, output?.progress ?? 0)} 
+                            className="w-full h-1.5"
+                            style={{
+                              transition: 'all 0.3s ease-in-out'
+                            }}
+                          />
+                          <div className="flex items-center justify-between text-xs text-muted-foreground">
+                            <span>{Math.max(modelProgress.progress, output?.progress ?? 0)}%</span>
+                            {modelProgress.estimatedCompletion && (
+                              <span className="italic">
+                                {formatEstimatedTime(modelProgress.estimatedCompletion)}
+                              </span>
+                            )}
+                          </div>
                         </div>
+
+                        {output?.text && (
+                          <div className="mt-2 max-h-40 overflow-y-auto rounded border bg-muted/40 p-2 text-xs whitespace-pre-wrap">
+                            {output.text}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </div>
@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useWebSocket } from './useWebSocket';
 import { apiService } from '@/services/apiService';
 import { authStorage } from '@/utils/authStorage';
@@ -12,15 +12,44 @@ import type {
   UploadedFile,
   CNNAnalysisResult 
 } from '@/types/upload';
+import type { StreamedModelOutput } from '@/types/progressTracking';
+import type { AnalysisProgress } from '@/types/api';
+import type { AnalysisHistoryEntry } from '@/components/ai/AnalysisHistoryManager';
+import { toAnalysisHistoryEntry } from '@/lib/analysisHistory';
+
+const JOB_POLL_INTERVAL = 2000;
+
+// Background analysis job as returned by /api/ai-analysis
+interface AnalysisJobResponse extends AnalysisProgress {
+  aiResults: Partial<Record<AIModelType, AIAnalysisResult>>;
+}
+
+const toMultiAnalysisProgress = (uploadId: string, job: AnalysisJobResponse): MultiAnalysisProgress => {
+  const modelProgress = {} as MultiAnalysisProgress['modelProgress'];
+  Object.entries(job.modelProgress).forEach(([model, entry]) => {
+    modelProgress[model as AnalysisModelType] = {
+      progress: entry.progress,
+      // The progress UI has no cancelled state; show it as an error
+      status: entry.status === 'cancelled' ? 'error' : entry.status
+    };
+  });
+
+  return { uploadId, overallProgress: job.overallProgress, modelProgress };
+};
 
 const useAIAnalysis = () => {
   const [multiAnalysisResults, setMultiAnalysisResults] = useState<Map<string, MultiAnalysisResult>>(new Map());
   const [analysisProgress, setAnalysisProgress] = useState<Map<string, MultiAnalysisProgress>>(new Map());
   const [isAnalyzing, setIsAnalyzing] = useState<Set<string>>(new Set());
   const [progressIdMapping, setProgressIdMapping] = useState<Map<string, string>>(new Map()); // analysisId -> uploadId
+  const [analysisHistory, setAnalysisHistory] = useState<Map<string, AnalysisHistoryEntry>>(new Map()); // analysisId -> entry
+  const [streamingOutput, setStreamingOutput] = useState<Map<string, Record<string, StreamedModelOutput>>>(new Map()); // uploadId -> model output so far
 
   // WebSocket connection for real-time updates
-  const { isConnected, subscribe } = useWebSocket('/analytics');
+  const { isConnected, subscribe, emit } = useWebSocket('/analytics');
+  // analyzeWithMultipleAI outlives renders; it emits through the latest connection
+  const emitRef = useRef(emit);
+  emitRef.current = emit;
 
   // Subscribe to WebSocket events for real-time progress
   useEffect(() => {
@@ -106,6 +135,29 @@ const useAIAnalysis = () => {
       }
     });
 
+    // Subscribe to model output streamed while an analysis runs
+    const unsubscribeOutput = subscribe('analysis_output', (data) => {
+      const uploadId = progressIdMapping.get(data.analysisId);
+      if (!uploadId) return;
+
+      setStreamingOutput(prev => {
+        const newMap = new Map(prev);
+        const models = newMap.get(uploadId) ?? {};
+        const text = models[data.model]?.text ?? '';
+        newMap.set(uploadId, {
+          ...models,
+          [data.model]: {
+            text: text.slice(0, text.length - (data.retracted ?? 0)) + data.delta,
+            tokens: data.tokens,
+            expectedTokens: data.expectedTokens,
+            progress: data.progress,
+            updatedAt: new Date(data.timestamp)
+          }
+        });
+        return newMap;
+      });
+    });
+
     // Subscribe to completion events
     const unsubscribeError = subscribe('error', (message: string) => {
       console.error('WebSocket error:', message);
@@ -113,84 +165,28 @@ const useAIAnalysis = () => {
 
     return () => {
       unsubscribeProgress?.();
+      unsubscribeOutput?.();
       unsubscribeError?.();
     };
   }, [isConnected, subscribe, progressIdMapping]);
 
-  const generateConsolidatedInsights = useCallback((aiResults: Record<AIModelType, AIAnalysisResult>): ConsolidatedInsights => {
-    // Safety check for null/undefined aiResults
-    if (!aiResults || typeof aiResults !== 'object' || Object.keys(aiResults).length === 0) {
-      return {
-        summary: 'No AI analysis results available for consolidation',
-        commonFindings: [],
-        conflictingAnalyses: [],
-        confidenceScore: 0,
-        recommendedActions: ['Upload a file and select AI models to get comprehensive insights']
-      };
-    }
-
-    // Filter out invalid results
-    const validResults = Object.entries(aiResults).filter(([, result]) => 
-      result && result.results && result.status === 'completed'
-    );
-
-    if (validResults.length === 0) {
-      return {
-        summary: 'AI analysis completed but no valid results were generated',
-        commonFindings: ['Analysis may have encountered errors'],
-        conflictingAnalyses: [],
-        confidenceScore: 0,
-        recommendedActions: [
-          'Try uploading a different file format',
-          'Check file content and size',
-          'Retry with different AI models'
-        ]
-      };
-    }
-
-    // Gather all insights and recommendations from valid results
-    const allInsights: string[] = [];
-    const allRecommendations: string[] = [];
-    const allDescriptions: string[] = [];
-    const confidenceScores: number[] = [];
+  // Join the room of each running analysis (again after a reconnect) to receive its output
+  useEffect(() => {
+    if (!isConnected) return;
 
-    validResults.forEach(([, result]) => {
-      if (result.results) {
-        if (result.results.description) {
-          allDescriptions.push(result.results.description);
-        }
-        if (result.results.insights) {
-          allInsights.push(...result.results.insights);
-        }
-        if (result.results.recommendations) {
-          allRecommendations.push(...result.results.recommendations);
-        }
-        confidenceScores.push(result.confidence);
+    progressIdMapping.forEach((uploadId, analysisId) => {
+      if (isAnalyzing.has(uploadId)) {
+        emitRef.current('track_progress', { jobId: analysisId, contentId: uploadId });
       }
     });
-    
-    // Get unique insights and recommendations
-    const uniqueInsights = [...new Set(allInsights)];
-    const uniqueRecommendations = [...new Set(allRecommendations)];
-    
-    // Calculate average confidence
-    const avgConfidence = confidenceScores.length > 0 
-      ? confidenceScores.reduce((sum, conf) => sum + conf, 0) / confidenceScores.length 
-      : 0;
-    
-    // Create a comprehensive summary
-    const modelsUsed = validResults.map(([model]) => model).join(', ');
-    const summaryText = allDescriptions.length > 0 
-      ? `Multi-AI analysis completed using ${modelsUsed}. ${allDescriptions[0]}` 
-      : `Multi-AI analysis completed using ${validResults.length} model(s): ${modelsUsed}. Content successfully processed and analyzed across multiple AI systems.`;
-    
-    return {
-      summary: summaryText,
-      commonFindings: uniqueInsights.slice(0, 8), // Top 8 unique insights
-      conflictingAnalyses: [], // Would need more complex logic to detect actual conflicts
-      confidenceScore: avgConfidence,
-      recommendedActions: uniqueRecommendations.slice(0, 6) // Top 6 unique recommendations
-    };
+  }, [isConnected, progressIdMapping, isAnalyzing]);
+
+  const clearStreamingOutput = useCallback((uploadId: string) => {
+    setStreamingOutput(prev => {
+      const newMap = new Map(prev);
+      newMap.delete(uploadId);
+      return newMap;
+    });
   }, []);
 
   const analyzeWithMultipleAI = useCallback(async (
@@ -258,91 +254,58 @@ const useAIAnalysis = () => {
       console.log('📤 Sending models:', aiModels);
       console.log('📄 File details:', { name: file.file.name, size: file.file.size, type: file.file.type });
 
-      const apiResult = await apiService.post<{ aiResults: Record<string, AIAnalysisResult>; analysisId?: string }>('/api/ai-analysis/analyze-multi', formData);
-      
-      console.log('📥 API Response received:', apiResult);
-      console.log('🔬 AI Results structure:', apiResult.aiResults);
-      console.log('🆔 Analysis ID from backend:', apiResult.analysisId);
+      const submitted = await apiService.post<{ success: boolean; data: AnalysisJobResponse }>('/api/ai-analysis/analyze-multi', formData);
+      const analysisId = submitted.data.analysisId;
+      console.log('🆔 Analysis ID from backend:', analysisId);
 
-      // Set a fallback timeout for progress tracking (if WebSocket fails)
-      setTimeout(() => {
-        console.warn('⚠️ Progress timeout - updating to show processing...');
-        setAnalysisProgress(prev => {
-          const newMap = new Map(prev);
-          const currentProgress = newMap.get(uploadId);
-          if (currentProgress && currentProgress.overallProgress === 0) {
-            // If progress is still at 0, show that we're processing
-            const updatedProgress = { ...currentProgress };
-            aiModels.forEach(model => {
-              if (updatedProgress.modelProgress[model as AnalysisModelType]?.status === 'pending') {
-                updatedProgress.modelProgress[model as AnalysisModelType] = {
-                  progress: 50,
-                  status: 'processing'
-                };
-              }
-            });
-            // Recalculate overall progress
-            const modelProgresses = Object.values(updatedProgress.modelProgress).map(p => p.progress);
-            updatedProgress.overallProgress = modelProgresses.reduce((sum, p) => sum + p, 0) / modelProgresses.length;
-            newMap.set(uploadId, updatedProgress);
-          }
-          return newMap;
-        });
-      }, 3000); // 3 second timeout
+      // Map analysisId to uploadId so WebSocket progress lands on this upload
+      setProgressIdMapping(prev => new Map(prev).set(analysisId, uploadId));
+      setAnalysisHistory(prev => new Map(prev).set(analysisId, toAnalysisHistoryEntry(submitted.data)));
 
-      // If we got an analysisId, create mapping from analysisId to uploadId for progress tracking
-      if (apiResult.analysisId) {
-        setProgressIdMapping(prev => new Map(prev).set(apiResult.analysisId!, uploadId));
-        
-        // Also update any existing progress to use the correct uploadId
-        setAnalysisProgress(prev => {
-          const newMap = new Map(prev);
-          const existingProgress = newMap.get(apiResult.analysisId!);
-          if (existingProgress) {
-            newMap.delete(apiResult.analysisId!);
-            newMap.set(uploadId, { ...existingProgress, uploadId });
-          }
-          return newMap;
-        });
+      // Poll the job until it finishes; WebSocket events only make progress appear sooner
+      let job = submitted.data;
+      while (!job.isFinished) {
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL));
+        job = (await apiService.get<{ success: boolean; data: AnalysisJobResponse }>(`/api/ai-analysis/${analysisId}`)).data;
+
+        const polledProgress = toMultiAnalysisProgress(uploadId, job);
+        setAnalysisProgress(prev => new Map(prev).set(uploadId, polledProgress));
+        const entry = toAnalysisHistoryEntry(job);
+        setAnalysisHistory(prev => new Map(prev).set(analysisId, entry));
       }
-      console.log('🔢 Number of AI results:', Object.keys(apiResult.aiResults || {}).length);
-      
+
+      // The results replace the streamed output
+      emitRef.current('stop_tracking', { jobId: analysisId });
+      clearStreamingOutput(uploadId);
+
+      const aiResults = job.aiResults as Record<AIModelType, AIAnalysisResult>;
+      const succeeded = job.status === 'COMPLETED' || job.status === 'COMPLETED_WITH_ERRORS';
+      const consolidatedInsights = job.status === 'CANCELLED'
+        ? {
+          summary: 'Analysis was cancelled',
+          commonFindings: [],
+          conflictingAnalyses: [],
+          confidenceScore: 0,
+          recommendedActions: ['Upload the file again to restart the analysis']
+        }
+        : (await apiService.get<{ success: boolean; data: ConsolidatedInsights }>(`/api/ai-analysis/${analysisId}/consolidated`)).data;
+
       const result: MultiAnalysisResult = {
         uploadId,
         cnnResults: cnnResult,
-        aiResults: apiResult.aiResults || {},
-        consolidatedInsights: generateConsolidatedInsights(apiResult.aiResults || {}),
-        overallStatus: 'completed',
+        aiResults,
+        consolidatedInsights,
+        overallStatus: succeeded ? 'completed' : 'error',
         timestamp: new Date().toISOString()
       };
 
-      console.log('📊 Final MultiAnalysisResult:', result);
-      console.log('🎯 Setting results in state for uploadId:', uploadId);
-
-      // Update progress to 100% completion
-      setAnalysisProgress(prev => {
-        const newMap = new Map(prev);
-        const currentProgress = newMap.get(uploadId);
-        if (currentProgress) {
-          const completedProgress = { ...currentProgress };
-          Object.keys(completedProgress.modelProgress).forEach(model => {
-            completedProgress.modelProgress[model as AnalysisModelType] = {
-              progress: 100,
-              status: 'completed'
-            };
-          });
-          completedProgress.overallProgress = 100;
-          newMap.set(uploadId, completedProgress);
-        }
-        return newMap;
-      });
-
       setMultiAnalysisResults(prev => new Map(prev).set(uploadId, result));
       setIsAnalyzing(prev => { const newSet = new Set(prev); newSet.delete(uploadId); return newSet; });
       return result;
 
     } catch (error) {
       console.error('AI analysis API call failed:', error);
+      clearStreamingOutput(uploadId);
       
       let errorMessage = 'AI analysis temporarily unavailable. Please try again later.';
       let recommendedActions = ['API service temporarily unavailable'];
@@ -376,7 +339,14 @@ const useAIAnalysis = () => {
       setIsAnalyzing(prev => { const newSet = new Set(prev); newSet.delete(uploadId); return newSet; });
       return result;
     }
-  }, [generateConsolidatedInsights]);
+  }, [clearStreamingOutput]);
+
+  const cancelAnalysis = useCallback(async (uploadId: string): Promise<void> => {
+    const analysisId = Array.from(progressIdMapping.entries()).find(([, id]) => id === uploadId)?.[0];
+    if (!analysisId) return;
+
+    await apiService.post(`/api/ai-analysis/${analysisId}/cancel`);
+  }, [progressIdMapping]);
 
   const getAnalysisResult = useCallback((uploadId: string): MultiAnalysisResult | undefined => {
     return multiAnalysisResults.get(uploadId);
@@ -386,10 +356,20 @@ const useAIAnalysis = () => {
     return analysisProgress.get(uploadId);
   }, [analysisProgress]);
 
+  const getUploadId = useCallback((analysisId: string): string | undefined => {
+    return progressIdMapping.get(analysisId);
+  }, [progressIdMapping]);
+
+  const getStreamingOutput = useCallback((uploadId: string): Record<string, StreamedModelOutput> | undefined => {
+    return streamingOutput.get(uploadId);
+  }, [streamingOutput]);
+
   const clearAnalysisResults = useCallback(() => {
     setMultiAnalysisResults(new Map());
     setAnalysisProgress(new Map());
     setProgressIdMapping(new Map());
+    setAnalysisHistory(new Map());
+    setStreamingOutput(new Map());
     setIsAnalyzing(new Set());
   }, []);
 
@@ -404,12 +384,13 @@ const useAIAnalysis = () => {
       newMap.delete(uploadId);
       return newMap;
     });
+    clearStreamingOutput(uploadId);
     setIsAnalyzing(prev => {
       const newSet = new Set(prev);
       newSet.delete(uploadId);
       return newSet;
     });
-  }, []);
+  }, [clearStreamingOutput]);
 
   const isFileAnalyzing = useCallback((uploadId: string): boolean => {
     return isAnalyzing.has(uploadId);
@@ -418,14 +399,20 @@ const useAIAnalysis = () => {
   return {
     analyzeWithMultipleAI,
     startMultiAnalysis: analyzeWithMultipleAI, // Alias for compatibility
+    cancelAnalysis,
     getAnalysisResult,
     getMultiAnalysisResult: getAnalysisResult, // Alias for compatibility
     getAnalysisProgress,
+    getStreamingOutput,
+    getUploadId,
     clearAnalysisResults,
     clearAnalysisResult,
     isFileAnalyzing,
     multiAnalysisResults,
     analysisProgress,
+    streamingOutput,
+    // Analyses started here, newest first
+    analysisHistory: Array.from(analysisHistory.values()).reverse(),
     isAnalyzing,
     isWebSocketConnected: isConnected
   };
@@ -17,7 +17,8 @@ import type {
   ModelProgressUpdate, 
   AnalysisProgressEvent,
   ModelPerformanceMetric,
-  AnalysisCompletionEvent
+  AnalysisCompletionEvent,
+  StreamedModelOutput
 } from '@/types/progressTracking';
 
 interface AnalyticsWebSocketState {
@@ -34,6 +35,9 @@ interface AnalyticsWebSocketState {
   modelProgress: Map<string, ModelProgressUpdate>;
   performanceMetrics: Map<string, ModelPerformanceMetric>;
   completedAnalyses: AnalysisCompletionEvent[];
+
+  // Streamed model output per analysis, by model id
+  analysisOutput: Map<string, Record<string, StreamedModelOutput>>;
 }
 
 interface UseAnalyticsWebSocketOptions {
@@ -73,7 +77,8 @@ export const useAnalyticsWebSocket = (options: UseAnalyticsWebSocketOptions = {}
     analysisProgress: new Map(),
     modelProgress: new Map(),
     performanceMetrics: new Map(),
-    completedAnalyses: []
+    completedAnalyses: [],
+    analysisOutput: new Map()
   });
 
   const unsubscribeFunctionsRef = useRef<(() => void)[]>([]);
@@ -114,6 +119,29 @@ export const useAnalyticsWebSocket = (options: UseAnalyticsWebSocketOptions = {}
         });
       });
 
+      // Collect model output as it is streamed
+      const unsubscribeOutput = analyticsWebSocket.subscribeToAnalysisOutput((data) => {
+        setState(prev => {
+          const newAnalysisOutput = new Map(prev.analysisOutput);
+          const models = newAnalysisOutput.get(data.analysisId) ?? {};
+          const text = models[data.model]?.text ?? '';
+          newAnalysisOutput.set(data.analysisId, {
+            ...models,
+            [data.model]: {
+              text: text.slice(0, text.length - (data.retracted ?? 0)) + data.delta,
+              tokens: data.tokens,
+              expectedTokens: data.expectedTokens,
+              progress: data.progress,
+              updatedAt: new Date(data.timestamp)
+            }
+          });
+          return {
+            ...prev,
+            analysisOutput: newAnalysisOutput
+          };
+        });
+      });
+
       // Subscribe to engagement updates
       const unsubscribeEngagement = analyticsWebSocket.subscribeToEngagementUpdates((data) => {
         setState(prev => ({
@@ -137,6 +165,7 @@ export const useAnalyticsWebSocket = (options: UseAnalyticsWebSocketOptions = {}
       unsubscribeFunctionsRef.current = [
         unsubscribeAnalytics,
         unsubscribeProgress,
+        unsubscribeOutput,
         unsubscribeEngagement,
         unsubscribeSignificant
       ];
@@ -211,9 +240,12 @@ export const useAnalyticsWebSocket = (options: UseAnalyticsWebSocketOptions = {}
     setState(prev => {
       const newProgressUpdates = new Map(prev.progressUpdates);
       newProgressUpdates.delete(jobId);
+      const newAnalysisOutput = new Map(prev.analysisOutput);
+      newAnalysisOutput.delete(jobId);
       return {
         ...prev,
-        progressUpdates: newProgressUpdates
+        progressUpdates: newProgressUpdates,
+        analysisOutput: newAnalysisOutput
       };
     });
   }, []);
@@ -235,6 +267,13 @@ export const useAnalyticsWebSocket = (options: UseAnalyticsWebSocketOptions = {}
     return state.progressUpdates.get(jobId);
   }, [state.progressUpdates]);
 
+  /**
+   * Get the output streamed so far for a specific job, by model
+   */
+  const getOutputForJob = useCallback((jobId: string): Record<string, StreamedModelOutput> | undefined => {
+    return state.analysisOutput.get(jobId);
+  }, [state.analysisOutput]);
+
   /**
    * Get recent significant changes by severity
    */
@@ -293,6 +332,7 @@ export const useAnalyticsWebSocket = (options: UseAnalyticsWebSocketOptions = {}
     // Data state
     analyticsData: state.analyticsData,
     progressUpdates: state.progressUpdates,
+    analysisOutput: state.analysisOutput,
     engagementData: state.engagementData,
     significantChanges: state.significantChanges,
 
@@ -308,6 +348,7 @@ export const useAnalyticsWebSocket = (options: UseAnalyticsWebSocketOptions = {}
 
     // Utility methods
     getProgressForJob,
+    getOutputForJob,
     getSignificantChangesBySeverity
   };
 };
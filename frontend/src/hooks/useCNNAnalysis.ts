@@ -1,102 +1,105 @@
 import { useState, useCallback } from 'react';
-import type { CNNAnalysisResult, UploadedFile } from '@/types/upload';
+import { apiService } from '@/services/apiService';
+import type { CNNAnalysisResult, Categorization, ObjectDetection, UploadedFile } from '@/types/upload';
+
+// Stored CNNAnalysis as returned by /api/cnn/analyze
+interface CNNAnalysisResponse {
+  id: string;
+  confidence: number;
+  categories: string[];
+  tags: string[];
+  processingTime: number;
+  createdAt: string;
+  // Normalized image the detections were made on
+  image: { width: number; height: number } | null;
+  analysisResults: {
+    analysis: {
+      objectDetection: ObjectDetection[];
+      categorization: Categorization[];
+      hardwareIdentification: Array<{
+        deviceType: string;
+        specifications?: Record<string, string | number>;
+        confidence: number;
+      }>;
+      confidence: number;
+    };
+  };
+  // Explanations of what was detected, from the knowledge base
+  wikipediaData: {
+    articles: Array<{
+      term: string;
+      title: string;
+      summary: string;
+      url: string;
+      relevanceScore: number;
+    }>;
+  } | null;
+}
 
 export const useCNNAnalysis = () => {
   const [analysisResults, setAnalysisResults] = useState<Map<string, CNNAnalysisResult>>(new Map());
   const [isAnalyzing, setIsAnalyzing] = useState<Set<string>>(new Set());
 
-  const generateMockAnalysis = useCallback((uploadId: string): CNNAnalysisResult => {
+  const toAnalysisResult = useCallback((uploadId: string, analysis: CNNAnalysisResponse): CNNAnalysisResult => {
+    const { analysis: results } = analysis.analysisResults;
+
     return {
       uploadId,
+      analysisId: analysis.id,
+      imageSize: analysis.image ? { width: analysis.image.width, height: analysis.image.height } : undefined,
       status: 'completed',
       analysis: {
-        objectDetection: [
-          {
-            label: 'Laptop Computer',
-            confidence: 0.94,
-            boundingBox: { x: 120, y: 80, width: 300, height: 200 }
-          },
-          {
-            label: 'USB Cable',
-            confidence: 0.87,
-            boundingBox: { x: 50, y: 220, width: 150, height: 30 }
-          },
-          {
-            label: 'Smartphone',
-            confidence: 0.91,
-            boundingBox: { x: 350, y: 150, width: 80, height: 160 }
-          }
-        ],
-        categorization: [
-          {
-            category: 'Information Technology',
-            confidence: 0.95,
-            subcategories: ['Hardware', 'Mobile Devices', 'Computing Equipment']
-          },
-          {
-            category: 'Educational Technology',
-            confidence: 0.89,
-            subcategories: ['E-Learning Tools', 'Digital Devices']
-          }
-        ],
-        hardwareIdentification: [
-          {
-            component: 'MacBook Pro 13-inch',
-            specifications: {
-              processor: 'M2 Chip',
-              memory: '16GB RAM',
-              storage: '512GB SSD',
-              display: '13.3-inch Retina'
-            },
-            compatibility: ['macOS Ventura', 'USB-C', 'Thunderbolt 4']
-          },
-          {
-            component: 'iPhone 14',
-            specifications: {
-              processor: 'A15 Bionic',
-              storage: '128GB',
-              camera: '12MP Dual System',
-              connectivity: '5G'
-            },
-            compatibility: ['iOS 16', 'Lightning', 'Wireless Charging']
-          }
-        ],
+        objectDetection: results.objectDetection,
+        categorization: results.categorization,
+        hardwareIdentification: results.hardwareIdentification.map(hardware => ({
+          component: hardware.deviceType,
+          specifications: hardware.specifications ?? {},
+          compatibility: []
+        })),
         wikipediaData: {
-          articles: [
-            {
-              title: 'Laptop Computer',
-              excerpt: 'A laptop computer or notebook computer, also known as a laptop or notebook for short, is a small, portable personal computer. Laptops typically have a clamshell form factor with a flat panel screen on the inside of the upper lid and an alphanumeric keyboard on the inside of the lower lid.',
-              url: 'https://en.wikipedia.org/wiki/Laptop',
-              relevanceScore: 0.94
-            },
-            {
-              title: 'Smartphone',
-              excerpt: 'A smartphone is a portable computer device that combines mobile telephone functions and computing functions into one unit. They are distinguished from older-design feature phones by their stronger hardware capabilities and extensive mobile operating systems.',
-              url: 'https://en.wikipedia.org/wiki/Smartphone',
-              relevanceScore: 0.91
-            },
-            {
-              title: 'Educational Technology',
-              excerpt: 'Educational technology is the combined use of computer hardware, software, and educational theory and practice to facilitate learning. When referred to with its abbreviation, EdTech, it often refers to the industry of companies that create educational technology.',
-              url: 'https://en.wikipedia.org/wiki/Educational_technology',
-              relevanceScore: 0.87
-            }
-          ]
+          articles: (analysis.wikipediaData?.articles ?? []).map(article => ({
+            title: article.title,
+            excerpt: article.summary,
+            url: article.url,
+            relevanceScore: article.relevanceScore
+          }))
         }
       },
-      processingTime: 8.5,
-      timestamp: new Date().toISOString()
+      // The API reports milliseconds; the UI shows seconds
+      processingTime: analysis.processingTime / 1000,
+      timestamp: analysis.createdAt
     };
   }, []);
 
   const startAnalysis = useCallback(async (file: UploadedFile): Promise<CNNAnalysisResult> => {
     setIsAnalyzing(prev => new Set(prev).add(file.id));
 
-    // Simulate 10-second CNN analysis
-    await new Promise(resolve => setTimeout(resolve, 10000));
+    let result: CNNAnalysisResult;
+    try {
+      const formData = new FormData();
+      formData.append('file', file.file);
+
+      const response = await apiService.post<{ success: boolean; data: CNNAnalysisResponse }>(
+        '/api/cnn/analyze',
+        formData
+      );
+      result = toAnalysisResult(file.id, response.data);
+    } catch (error) {
+      console.error('CNN analysis failed:', error);
+      result = {
+        uploadId: file.id,
+        status: 'error',
+        analysis: {
+          objectDetection: [],
+          categorization: [],
+          hardwareIdentification: [],
+          wikipediaData: { articles: [] }
+        },
+        processingTime: 0,
+        timestamp: new Date().toISOString()
+      };
+    }
 
-    const result = generateMockAnalysis(file.id);
-    
     setAnalysisResults(prev => new Map(prev).set(file.id, result));
     setIsAnalyzing(prev => {
       const next = new Set(prev);
@@ -105,7 +108,7 @@ export const useCNNAnalysis = () => {
     });
 
     return result;
-  }, [generateMockAnalysis]);
+  }, [toAnalysisResult]);
 
   const getAnalysisResult = useCallback((fileId: string): CNNAnalysisResult | undefined => {
     return analysisResults.get(fileId);
@@ -12,6 +12,7 @@ import type {
   LearningProgressData, 
   AIModelUsageData 
 } from '@/types/analytics';
+import type { AnalysisOutputEvent } from '@/types/progressTracking';
 
 interface ProgressEvent {
   type: 'analysis_progress' | 'analysis_complete' | 'session_update';
@@ -51,6 +52,7 @@ interface WebSocketEvents {
   'engagement_update': (data: EngagementUpdateEvent) => void;
   'progress_update': (data: ProgressUpdateEvent) => void;
   'ai_usage_update': (data: AIUsageUpdateEvent) => void;
+  'analysis_output': (data: AnalysisOutputEvent) => void;
   'significant_change': (data: {
     changeType: string;
     percentageIncrease?: number;
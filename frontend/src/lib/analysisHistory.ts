@@ -0,0 +1,48 @@
+/**
+ * Analysis history entries built from analysis jobs
+ */
+
+import type { AnalysisHistoryEntry } from '@/components/ai/AnalysisHistoryManager';
+import type { AIModelType } from '@/types/progressTracking';
+import type { AnalysisProgress } from '@/types/api';
+
+const HISTORY_STATUS: Record<AnalysisProgress['status'], AnalysisHistoryEntry['status']> = {
+  QUEUED: 'processing',
+  RUNNING: 'processing',
+  COMPLETED: 'completed',
+  COMPLETED_WITH_ERRORS: 'partial',
+  FAILED: 'failed',
+  CANCELLED: 'cancelled'
+};
+
+/**
+ * History entry for an analysis job as returned by /api/ai-analysis/:analysisId
+ * @param job - Analysis job
+ * @returns The entry, with the job's image thumbnail as its preview
+ */
+export const toAnalysisHistoryEntry = (job: AnalysisProgress): AnalysisHistoryEntry => ({
+  analysisId: job.analysisId,
+  fileName: job.fileName,
+  fileType: job.mimeType,
+  fileSize: job.fileSize,
+  thumbnailUrl: job.thumbnail ?? undefined,
+  modelsUsed: job.models as AIModelType[],
+  status: HISTORY_STATUS[job.status],
+  createdAt: new Date(job.createdAt),
+  completedAt: job.completedAt ? new Date(job.completedAt) : undefined,
+  processingTime: job.startedAt && job.completedAt
+    ? new Date(job.completedAt).getTime() - new Date(job.startedAt).getTime()
+    : undefined,
+  resultSummary: '',
+  quickInsights: [],
+  isFavorite: false,
+  tags: [],
+  errorMessage: Object.values(job.modelProgress).find(entry => entry.errorMessage)?.errorMessage,
+  metadata: {
+    userId: job.userId,
+    version: '1',
+    analysisType: 'comprehensive',
+    originalSize: job.image?.originalSize ?? job.fileSize,
+    processedSize: job.fileSize
+  }
+});
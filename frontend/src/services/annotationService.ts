@@ -50,6 +50,15 @@ export interface AnnotationResponse {
   details?: string;
 }
 
+/**
+ * Response of the CNN detection endpoints
+ */
+export interface DetectionResponse<T> {
+  success: boolean;
+  data?: T;
+  message?: string;
+}
+
 class AnnotationService {
   /**
    * Create a new annotation
@@ -124,6 +133,56 @@ class AnnotationService {
     }
   }
 
+  /**
+   * Turn the object detections of a CNN analysis into annotations. Detections are annotated
+   * once; later calls return the existing annotations.
+   */
+  async annotateDetections(analysisId: string): Promise<DetectionResponse<{ annotations: AnnotationData[]; created: number }>> {
+    try {
+      return await apiService.post(`/api/cnn/analysis/${analysisId}/annotations`);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to annotate detections';
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Add an object the model missed, with its bounding box in image pixels
+   */
+  async addMissedDetection(analysisId: string, label: string, boundingBox: AnnotationPosition): Promise<DetectionResponse<AnnotationData>> {
+    try {
+      const { x, y, width, height } = boundingBox;
+      return await apiService.post(`/api/cnn/analysis/${analysisId}/detections`, { label, boundingBox: { x, y, width, height } });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to add missed object';
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Correct the label of a detection
+   */
+  async relabelDetection(analysisId: string, annotationId: string, label: string): Promise<DetectionResponse<AnnotationData>> {
+    try {
+      return await apiService.put(`/api/cnn/analysis/${analysisId}/detections/${annotationId}`, { label });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to relabel detection';
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Delete a detection, recording it as a false positive
+   */
+  async removeDetection(analysisId: string, annotationId: string): Promise<DetectionResponse<never>> {
+    try {
+      return await apiService.delete(`/api/cnn/analysis/${analysisId}/detections/${annotationId}`);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to remove detection';
+      throw new Error(errorMessage);
+    }
+  }
+
   /**
    * Get annotation thread
    */
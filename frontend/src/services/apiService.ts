@@ -36,14 +36,18 @@ class APIService {
     const url = `${API_BASE_URL}${endpoint}`;
     const token = authStorage.getToken();
     
+    const { headers, ...requestOptions } = options;
+    // Let the browser set the multipart boundary for FormData uploads
+    const isFormData = options.body instanceof FormData;
+
     const config: RequestInit = {
+      credentials: 'include',
+      ...requestOptions,
       headers: {
         ...(token && { 'Authorization': `Bearer ${token}` }),
-        'Content-Type': 'application/json',
-        ...options.headers,
+        ...(!isFormData && { 'Content-Type': 'application/json' }),
+        ...headers,
       },
-      credentials: 'include',
-      ...options,
     };
 
     try {
@@ -210,7 +214,8 @@ class APIService {
     },
 
     getProgress: async (jobId: string): Promise<AnalysisProgress> => {
-      return this.get<AnalysisProgress>(`/api/ai-analysis/progress/${jobId}`);
+      const response = await this.get<{ success: boolean; data: AnalysisProgress }>(`/api/ai-analysis/${jobId}/progress`);
+      return response.data;
     },
 
     getResults: async (jobId: string): Promise<ConsolidatedResults> => {
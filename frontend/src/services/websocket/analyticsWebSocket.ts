@@ -9,6 +9,7 @@ import type {
   AnalyticsMetrics, 
   EngagementDataPoint
 } from '@/types/analytics';
+import type { AnalysisOutputEvent } from '@/types/progressTracking';
 
 export interface AnalyticsUpdateEvent {
   type: 'metrics_update' | 'dashboard_refresh' | 'milestone_reached';
@@ -58,6 +59,7 @@ interface AnalyticsWebSocketEvents {
   'progress': (data: ProgressUpdateEvent) => void;
   'engagement_update': (data: EngagementUpdateEvent) => void;
   'significant_change': (data: SignificantChangeEvent) => void;
+  'analysis_output': (data: AnalysisOutputEvent) => void;
   'connect': () => void;
   'disconnect': () => void;
   'connect_error': (error: Error) => void;
@@ -212,6 +214,22 @@ class AnalyticsWebSocketService {
     return this.subscribe('significant_change', wrappedCallback);
   }
 
+  /**
+   * Subscribe to model output streamed while analyses run (needs trackAnalysisProgress)
+   */
+  subscribeToAnalysisOutput(
+    callback: (data: AnalysisOutputEvent) => void,
+    analysisId?: string
+  ): () => void {
+    const wrappedCallback = (data: AnalysisOutputEvent) => {
+      if (!analysisId || data.analysisId === analysisId) {
+        callback(data);
+      }
+    };
+
+    return this.subscribe('analysis_output', wrappedCallback);
+  }
+
   /**
    * Request real-time analytics for specific filters
    */
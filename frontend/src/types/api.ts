@@ -176,19 +176,32 @@ export interface AnalysisJob {
   estimatedCompletionTime?: string;
 }
 
+// Analysis job progress as returned by GET /api/ai-analysis/:analysisId/progress
 export interface AnalysisProgress {
-  jobId: string;
+  analysisId: string;
+  userId: string;
+  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'COMPLETED_WITH_ERRORS' | 'FAILED' | 'CANCELLED';
+  isFinished: boolean;
+  models: string[];
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  // Normalized image uploads: original format and size, dimensions
+  image: { originalFormat: string; originalSize: number; width: number; height: number; size: number } | null;
+  // WebP data URL of image uploads
+  thumbnail: string | null;
   overallProgress: number;
-  modelProgress: Array<{
-    model: string;
+  modelProgress: Record<string, {
     progress: number;
-    status: 'queued' | 'processing' | 'completed' | 'failed';
-    stage: 'initialization' | 'analysis' | 'consolidation' | 'completed';
-    estimatedTimeRemaining?: number;
+    status: 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
+    errorMessage?: string;
+    startedAt?: string;
+    completedAt?: string;
   }>;
-  currentStage: string;
-  processingStartTime: string;
-  lastUpdated: string;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  updatedAt: string;
 }
 
 export interface ConsolidatedResults {
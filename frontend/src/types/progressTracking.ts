@@ -219,6 +219,28 @@ export interface AnalysisStageChangeEvent {
   timestamp: Date;
 }
 
+// Output of a model streamed while the analysis runs
+export interface AnalysisOutputEvent {
+  analysisId: string;
+  model: string;
+  delta: string;
+  // Characters at the end of the text received so far that the delta replaces
+  retracted?: number;
+  tokens: number;
+  expectedTokens: number;
+  progress: number;
+  timestamp: string;
+}
+
+// A model's output received so far, by model id
+export interface StreamedModelOutput {
+  text: string;
+  tokens: number;
+  expectedTokens: number;
+  progress: number;
+  updatedAt: Date;
+}
+
 export interface ModelHealthUpdateEvent {
   model: AIModelType;
   health: ModelHealthStatus;
@@ -39,6 +39,10 @@ export interface WikipediaArticle {
 
 export interface CNNAnalysisResult {
   uploadId: string;
+  // Stored analysis, once the server has analyzed the upload
+  analysisId?: string;
+  // Size of the analyzed image; detection bounding boxes are in its pixels
+  imageSize?: { width: number; height: number };
   status: 'processing' | 'completed' | 'error';
   analysis: {
     objectDetection: ObjectDetection[];
@@ -69,6 +73,7 @@ export interface AIAnalysisResult {
   };
   processingTime: number;
   timestamp: Date;
+  cacheHit?: boolean; // Served from the AI result cache
 }
 
 export interface EntityExtraction {